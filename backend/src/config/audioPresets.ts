@@ -0,0 +1,121 @@
+/**
+ * Audio Preset Configuration
+ *
+ * Built-in audio production presets: how an episode's voiced lines are turned
+ * into the final audio. A preset may add an intro and outro jingle, a music
+ * bed ducked under the speech, silence or crossfades between speaker turns
+ * and a stinger between script sections.
+ *
+ * Presets name their sounds. Every sound is generated by FFmpeg, so presets
+ * work out of the box; a `{name}.mp3` file in AUDIO_ASSETS_DIR replaces the
+ * generated sound of that name.
+ */
+
+import type { AudioPreset, GeneratedSound } from '../types/index.js';
+import { InvalidInputError } from '../utils/errors.js';
+
+/**
+ * A note that starts at `onset` seconds and dies away (lavfi expression)
+ */
+function note(frequency: number, onset: number, gain = 0.25): string {
+  return `${gain}*sin(2*PI*${frequency}*t)*exp(-4*(t-${onset}))*(1+sgn(t-${onset}))/2`;
+}
+
+export const GENERATED_SOUNDS: readonly GeneratedSound[] = [
+  {
+    id: "chime-intro",
+    // Rising C major arpeggio
+    lavfi: `aevalsrc=exprs=${[note(523.25, 0), note(659.25, 0.3), note(783.99, 0.6), note(1046.5, 0.9)].join('+')}:s=44100:d=2.5,afade=t=out:st=2:d=0.5`,
+    durationMs: 2500,
+  },
+  {
+    id: "chime-outro",
+    // Falling arpeggio settling on a low C
+    lavfi: `aevalsrc=exprs=${[note(783.99, 0), note(659.25, 0.3), note(523.25, 0.6), note(261.63, 0.9, 0.3)].join('+')}:s=44100:d=3,afade=t=out:st=2.4:d=0.6`,
+    durationMs: 3000,
+  },
+  {
+    id: "soft-pad",
+    // A minor chord with a slow swell, endless
+    lavfi: "aevalsrc=exprs=(0.2*sin(2*PI*220*t)+0.15*sin(2*PI*261.63*t)+0.15*sin(2*PI*329.63*t))*(0.8+0.2*sin(2*PI*0.1*t)):s=44100",
+    durationMs: 0,
+  },
+  {
+    id: "swoosh",
+    lavfi: "anoisesrc=d=0.8:c=pink:a=0.4:r=44100,highpass=f=400,afade=t=in:d=0.3,afade=t=out:st=0.4:d=0.4",
+    durationMs: 800,
+  },
+  {
+    id: "news-sting",
+    // Two short beeps
+    lavfi: "aevalsrc=exprs=0.3*sin(2*PI*880*t)*(1-sgn(t-0.15))/2+0.3*sin(2*PI*1320*t)*(1+sgn(t-0.25))/2*(1-sgn(t-0.4))/2:s=44100:d=0.6",
+    durationMs: 600,
+  },
+] as const;
+
+export const BUILT_IN_AUDIO_PRESETS: readonly AudioPreset[] = [
+  {
+    id: "plain",
+    name: "Plain",
+    description: "The lines back to back, loudness-normalized",
+  },
+  {
+    id: "studio",
+    name: "Studio",
+    description: "Intro and outro chimes, a soft music bed under the voices, short pauses between speakers and a swoosh between sections",
+    intro: "chime-intro",
+    outro: "chime-outro",
+    bed: { sound: "soft-pad", volumeDb: -20 },
+    turnTransition: { type: "gap", ms: 350 },
+    sectionStinger: "swoosh",
+  },
+  {
+    id: "newsroom",
+    name: "Newsroom",
+    description: "A bulletin sting at the start, end and between sections, with speakers crossfading into each other",
+    intro: "news-sting",
+    outro: "news-sting",
+    turnTransition: { type: "crossfade", ms: 120 },
+    sectionStinger: "news-sting",
+  },
+  {
+    id: "conversation",
+    name: "Conversation",
+    description: "No music, just a natural pause whenever the speaker changes",
+    turnTransition: { type: "gap", ms: 400 },
+  },
+] as const;
+
+/**
+ * Preset of an episode when the request names none
+ */
+export const DEFAULT_AUDIO_PRESET_ID = "plain";
+
+/**
+ * Gets a built-in preset by ID, or undefined if there is none
+ */
+export function getAudioPreset(id: string): AudioPreset | undefined {
+  return BUILT_IN_AUDIO_PRESETS.find(preset => preset.id === id);
+}
+
+/**
+ * Gets the preset to stitch with (default: plain)
+ * Throws InvalidInputError for an unknown preset ID
+ */
+export function resolveAudioPreset(id: string = DEFAULT_AUDIO_PRESET_ID): AudioPreset {
+  const preset = getAudioPreset(id);
+  if (!preset) {
+    throw new InvalidInputError(`Unknown audio preset "${id}"`, {
+      audioPreset: id,
+      available: BUILT_IN_AUDIO_PRESETS.map(candidate => candidate.id),
+    });
+  }
+  return preset;
+}
+
+/**
+ * Gets a generated sound by name, or undefined if there is none
+ */
+export function getGeneratedSound(id: string): GeneratedSound | undefined {
+  return GENERATED_SOUNDS.find(sound => sound.id === id);
+}
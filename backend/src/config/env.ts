@@ -8,6 +8,8 @@
 import dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { TTS_PROVIDERS, LLM_PROVIDERS, FACT_CHECK_MODES, FACT_CHECK_POLICIES } from '../types/index.js';
+import type { TtsProviderName, LlmProviderName, FactCheckMode, FactCheckPolicy } from '../types/index.js';
 
 // Load .env file in development
 dotenv.config();
@@ -30,9 +32,51 @@ export interface EnvConfig {
   // Output directory
   outputDir: string;
   
+  // Host profiles ({id}.json files)
+  hostsDir: string;
+  
+  // Intro, outro, bed and stinger sounds ({name}.mp3 files) replacing the generated ones
+  audioAssetsDir: string;
+  
+  // Script generation
+  llmProvider: LlmProviderName;
+  llmModel: string;
+  openAiLlmApiUrl: string;
+  openAiLlmApiKey: string;
+  llmFixturePath: string;
+  scriptRepairAttempts: number;
+  
+  // Fact check of generated scripts
+  factCheck: FactCheckMode;
+  factCheckPolicy: FactCheckPolicy;
+  /** Share of a line's content words the article must contain (without a judge), 0-1 */
+  factCheckMinOverlap: number;
+  
+  // Cache
+  cacheEnabled: boolean;
+  cacheMaxBytes: number;
+  cacheMaxAgeDays: number;
+  /** Whether /api/admin/cache is served; it has no authentication */
+  cacheAdminEnabled: boolean;
+  
+  // Job queue
+  maxConcurrentJobs: number;
+  
+  // Text-to-speech
+  ttsProvider: TtsProviderName;
+  ttsConcurrency: number;
+  /** Voice overrides keyed by host ID (from `TTS_VOICE_<HOST ID>`) */
+  ttsVoices: Record<string, string>;
+  openAiTtsApiUrl: string;
+  openAiTtsApiKey: string;
+  openAiTtsModel: string;
+  localTtsEngine: 'espeak-ng' | 'piper';
+  piperModelDir: string;
+  
   // API endpoints
   xaiApiUrl: string;
   elevenLabsApiUrl: string;
+  elevenLabsModel: string;
   wikipediaApiUrl: string;
 }
 
@@ -43,6 +87,26 @@ function getOptional(key: string, defaultValue: string): string {
   return process.env[key] || defaultValue;
 }
 
+/**
+ * Get an optional number within bounds
+ * Values that are not numbers or lie outside the bounds throw instead of
+ * being clamped, so a typo never runs the server with a different setting
+ */
+function getNumber(
+  key: string,
+  defaultValue: string,
+  { min, max = Infinity, integer = true, hint }: { min: number; max?: number; integer?: boolean; hint?: string }
+): number {
+  const value = getOptional(key, defaultValue);
+  const number = Number(value);
+  if (value.trim() === '' || Number.isNaN(number) || (integer && !Number.isInteger(number)) || number < min || number > max) {
+    const kind = integer ? 'a whole number' : 'a number';
+    const range = max === Infinity ? `of at least ${min}` : `from ${min} to ${max}`;
+    throw new Error(`Invalid ${key} "${value}" (expected ${kind} ${range}${hint ? `; ${hint}` : ''})`);
+  }
+  return number;
+}
+
 /**
  * Validate and load environment configuration
  */
@@ -53,22 +117,59 @@ function loadConfig(): EnvConfig {
   let xaiApiKey = process.env.XAI_API_KEY || '';
   let elevenLabsApiKey = process.env.ELEVENLABS_API_KEY || '';
   
-  if (!xaiApiKey && !isDev) {
+  const llmProvider = getOptional('LLM_PROVIDER', 'xai') as LlmProviderName;
+  if (!LLM_PROVIDERS.includes(llmProvider)) {
+    throw new Error(
+      `Invalid LLM_PROVIDER "${llmProvider}" (expected one of: ${LLM_PROVIDERS.join(', ')})`
+    );
+  }
+  
+  const ttsProvider = getOptional('TTS_PROVIDER', 'elevenlabs') as TtsProviderName;
+  if (!TTS_PROVIDERS.includes(ttsProvider)) {
+    throw new Error(
+      `Invalid TTS_PROVIDER "${ttsProvider}" (expected one of: ${TTS_PROVIDERS.join(', ')})`
+    );
+  }
+  
+  const factCheck = getOptional('FACT_CHECK', 'judge') as FactCheckMode;
+  if (!FACT_CHECK_MODES.includes(factCheck)) {
+    throw new Error(
+      `Invalid FACT_CHECK "${factCheck}" (expected one of: ${FACT_CHECK_MODES.join(', ')})`
+    );
+  }
+  
+  const factCheckPolicy = getOptional('FACT_CHECK_POLICY', 'flag') as FactCheckPolicy;
+  if (!FACT_CHECK_POLICIES.includes(factCheckPolicy)) {
+    throw new Error(
+      `Invalid FACT_CHECK_POLICY "${factCheckPolicy}" (expected one of: ${FACT_CHECK_POLICIES.join(', ')})`
+    );
+  }
+  
+  const localTtsEngine = getOptional('LOCAL_TTS_ENGINE', 'espeak-ng') as EnvConfig['localTtsEngine'];
+  if (localTtsEngine !== 'espeak-ng' && localTtsEngine !== 'piper') {
+    throw new Error(`Invalid LOCAL_TTS_ENGINE "${localTtsEngine}" (expected espeak-ng or piper)`);
+  }
+  
+  // Provider keys are only needed when that provider is selected
+  const needsXaiKey = llmProvider === 'xai';
+  const needsElevenLabsKey = ttsProvider === 'elevenlabs';
+  
+  if (needsXaiKey && !xaiApiKey && !isDev) {
     throw new Error('Missing required environment variable: XAI_API_KEY');
   }
-  if (!elevenLabsApiKey && !isDev) {
+  if (needsElevenLabsKey && !elevenLabsApiKey && !isDev) {
     throw new Error('Missing required environment variable: ELEVENLABS_API_KEY');
   }
   
   // Warn in development
-  if (isDev && !xaiApiKey) {
+  if (isDev && needsXaiKey && !xaiApiKey) {
     console.warn('⚠️  Warning: XAI_API_KEY not set. Script generation will fail.');
   }
-  if (isDev && !elevenLabsApiKey) {
+  if (isDev && needsElevenLabsKey && !elevenLabsApiKey) {
     console.warn('⚠️  Warning: ELEVENLABS_API_KEY not set. TTS will fail.');
   }
   
-  const port = parseInt(getOptional('PORT', '3000'), 10);
+  const port = getNumber('PORT', '3000', { min: 1, max: 65535 });
   const nodeEnv = getOptional('NODE_ENV', 'development') as EnvConfig['nodeEnv'];
   
   // Resolve output directory relative to project root
@@ -78,14 +179,68 @@ function loadConfig(): EnvConfig {
     getOptional('OUTPUT_DIR', './output')
   );
   
+  // Bound parallel pipelines so bursts cannot exhaust the TTS quota
+  const maxConcurrentJobs = getNumber('MAX_CONCURRENT_JOBS', '2', { min: 1 });
+  
+  // Lines synthesized in parallel within one pipeline
+  const ttsConcurrency = getNumber('TTS_CONCURRENCY', '3', { min: 1 });
+  
+  // Follow-up turns allowed to fix a malformed or invalid script
+  const scriptRepairAttempts = getNumber('SCRIPT_REPAIR_ATTEMPTS', '2', { min: 0 });
+  
+  // Lines sharing fewer of their words with the article count as unsupported
+  const factCheckMinOverlap = getNumber('FACT_CHECK_MIN_OVERLAP', '0.5', { min: 0, max: 1, integer: false });
+  
+  // Cache limits enforced by eviction; a limit of 0 would evict every entry
+  // as soon as it is written
+  const cacheLimitHint = 'set CACHE_ENABLED=false to turn the cache off';
+  const cacheMaxMb = getNumber('CACHE_MAX_MB', '1024', { min: 1, hint: cacheLimitHint });
+  const cacheMaxAgeDays = getNumber('CACHE_MAX_AGE_DAYS', '30', { min: 1, hint: cacheLimitHint });
+  
+  // Per-host voice overrides for the selected provider, e.g. TTS_VOICE_NISHI
+  const ttsVoices: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    const match = key.match(/^TTS_VOICE_(.+)$/);
+    if (match && value) {
+      ttsVoices[match[1].toLowerCase().replace(/_/g, '-')] = value;
+    }
+  }
+  
   return {
     xaiApiKey,
     elevenLabsApiKey,
     port,
     nodeEnv,
     outputDir,
+    hostsDir: path.resolve(projectRoot, getOptional('HOSTS_DIR', './hosts')),
+    audioAssetsDir: path.resolve(projectRoot, getOptional('AUDIO_ASSETS_DIR', './assets/audio')),
+    llmProvider,
+    llmModel: process.env.LLM_MODEL || '',
+    openAiLlmApiUrl: getOptional('OPENAI_LLM_API_URL', 'https://api.openai.com/v1').replace(/\/+$/, ''),
+    openAiLlmApiKey: process.env.OPENAI_LLM_API_KEY || '',
+    llmFixturePath: process.env.LLM_FIXTURE_PATH
+      ? path.resolve(projectRoot, process.env.LLM_FIXTURE_PATH)
+      : '',
+    scriptRepairAttempts,
+    factCheck,
+    factCheckPolicy,
+    factCheckMinOverlap,
+    cacheEnabled: getOptional('CACHE_ENABLED', 'true') !== 'false',
+    cacheMaxBytes: cacheMaxMb * 1024 * 1024,
+    cacheMaxAgeDays,
+    cacheAdminEnabled: getOptional('CACHE_ADMIN_ENABLED', 'false') === 'true',
+    maxConcurrentJobs,
+    ttsProvider,
+    ttsConcurrency,
+    ttsVoices,
+    openAiTtsApiUrl: getOptional('OPENAI_TTS_API_URL', 'https://api.openai.com/v1').replace(/\/+$/, ''),
+    openAiTtsApiKey: process.env.OPENAI_TTS_API_KEY || '',
+    openAiTtsModel: getOptional('OPENAI_TTS_MODEL', 'tts-1'),
+    localTtsEngine,
+    piperModelDir: path.resolve(projectRoot, getOptional('PIPER_MODEL_DIR', './models/piper')),
     xaiApiUrl: 'https://api.x.ai/v1',
     elevenLabsApiUrl: 'https://api.elevenlabs.io/v1',
+    elevenLabsModel: getOptional('ELEVENLABS_MODEL', 'eleven_multilingual_v2'),
     wikipediaApiUrl: 'https://en.wikipedia.org/api/rest_v1',
   };
 }
@@ -125,6 +280,8 @@ export function isDevelopment(): boolean {
  */
 export function hasApiKeys(): boolean {
   const config = getConfig();
-  return Boolean(config.xaiApiKey && config.elevenLabsApiKey);
+  const hasLlmKey = config.llmProvider !== 'xai' || Boolean(config.xaiApiKey);
+  const hasTtsKey = config.ttsProvider !== 'elevenlabs' || Boolean(config.elevenLabsApiKey);
+  return hasLlmKey && hasTtsKey;
 }
 
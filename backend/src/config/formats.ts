@@ -0,0 +1,282 @@
+/**
+ * Show Format Configuration
+ *
+ * Built-in show formats: the sections an episode is written in, their order
+ * and how many lines each gets. The script prompt and validator are both
+ * driven by the chosen format.
+ *
+ * Bump a format's version whenever its sections change; scripts record the
+ * version they were written in.
+ *
+ * Section descriptions may name the hosts with placeholders (see prompts/podcast):
+ * {hosts} for everyone, {explainers} for those who explain and {askers} for
+ * those who ask. Sections that read oddly with a single narrator have a
+ * separate narration.
+ */
+
+import type { ShowFormat } from '../types/index.js';
+import { InvalidInputError } from '../utils/errors.js';
+
+export const BUILT_IN_FORMATS: readonly ShowFormat[] = [
+  {
+    id: "classic",
+    version: "1.0.0",
+    name: "Classic",
+    description: "A friendly conversation that introduces the topic, explains it and digs into the details",
+    guidance: [],
+    sections: [
+      {
+        id: "greeting",
+        description: "Introductions by {hosts} and an overview of the topic",
+        narration: "A welcome to the listeners and an introduction to the topic",
+        lines: { min: 2, max: 3 },
+      },
+      {
+        id: "explanation",
+        description: "The core factual explanation of the topic, given by {explainers}",
+        narration: "The core facts of the topic",
+        lines: { min: 3, max: 5 },
+      },
+      {
+        id: "clarification",
+        description: "Clarifying questions and connections from {askers}, with {explainers} elaborating",
+        narration: "Likely confusions cleared up and connections made",
+        lines: { min: 3, max: 4 },
+      },
+      {
+        id: "qna",
+        description: "Back-and-forth Q&A between {hosts} about interesting details",
+        narration: "The questions a curious listener would ask, each with its answer",
+        lines: { min: 4, max: 6 },
+      },
+      {
+        id: "signoff",
+        description: "Wrap-up with key takeaways and goodbyes from {hosts}",
+        narration: "Wrap-up with key takeaways and a goodbye",
+        lines: { min: 2, max: 3 },
+      },
+    ],
+  },
+  {
+    id: "news-brief",
+    version: "1.0.0",
+    name: "News Brief",
+    description: "A tight, bulletin-style rundown of the most important facts",
+    guidance: [
+      "Lead with the single most important fact, as a news bulletin would",
+      "Keep lines short and factual; save opinions and banter for the sign-off",
+    ],
+    sections: [
+      {
+        id: "headline",
+        description: "The headline: the most important fact, announced by {hosts}",
+        lines: { min: 1, max: 2 },
+      },
+      {
+        id: "summary",
+        description: "A short summary of who, what, when and where",
+        lines: { min: 2, max: 3 },
+      },
+      {
+        id: "background",
+        description: "The background needed to understand the story, given by {explainers}",
+        lines: { min: 2, max: 4 },
+      },
+      {
+        id: "key-facts",
+        description: "Rapid-fire key facts and figures, with {askers} prompting for each one",
+        lines: { min: 3, max: 5 },
+      },
+      {
+        id: "signoff",
+        description: "A one-line takeaway and goodbyes from {hosts}",
+        lines: { min: 2, max: 2 },
+      },
+    ],
+  },
+  {
+    id: "debate",
+    version: "1.0.0",
+    name: "Debate",
+    description: "The hosts weigh the arguments and open questions the article raises",
+    guidance: [
+      "Argue only from what the article reports, including the views it attributes to others",
+      "Keep the debate friendly and let each side finish its point",
+    ],
+    sections: [
+      {
+        id: "opening",
+        description: "Introductions by {hosts} and the question under debate",
+        lines: { min: 2, max: 3 },
+      },
+      {
+        id: "case-for",
+        description: "Arguments and evidence for one side",
+        lines: { min: 2, max: 4 },
+        repeatable: true,
+      },
+      {
+        id: "case-against",
+        description: "Arguments, evidence and rebuttals for the other side",
+        lines: { min: 2, max: 4 },
+        repeatable: true,
+      },
+      {
+        id: "common-ground",
+        description: "What both sides agree on",
+        lines: { min: 2, max: 3 },
+      },
+      {
+        id: "closing",
+        description: "Closing statements and goodbyes from {hosts}",
+        lines: { min: 2, max: 3 },
+      },
+    ],
+  },
+  {
+    id: "quiz-show",
+    version: "1.0.0",
+    name: "Quiz Show",
+    description: "A playful quiz where the listeners test what they know about the topic",
+    guidance: [
+      "Every question is answered in the script, right after a short pause for the listeners",
+      "Take every question and answer from the article",
+    ],
+    sections: [
+      {
+        id: "welcome",
+        description: "A lively welcome from {hosts} and the quiz topic",
+        lines: { min: 2, max: 3 },
+      },
+      {
+        id: "rules",
+        description: "How the quiz works, explained in a line or two",
+        lines: { min: 1, max: 2 },
+      },
+      {
+        id: "questions",
+        description: "Questions from {askers}, each followed by its answer and a fun detail from {explainers}",
+        lines: { min: 6, max: 10 },
+      },
+      {
+        id: "final-round",
+        description: "A harder final question that ties the topic together",
+        lines: { min: 2, max: 4 },
+        optional: true,
+      },
+      {
+        id: "scores-and-signoff",
+        description: "A recap of what was learned and goodbyes from {hosts}",
+        lines: { min: 2, max: 3 },
+      },
+    ],
+  },
+  {
+    id: "timeline",
+    version: "1.0.0",
+    name: "Timeline Walk-through",
+    description: "A chronological walk through the topic's history, from its beginnings to its legacy",
+    guidance: [
+      "Tell events in chronological order and mention dates whenever the article gives them",
+    ],
+    sections: [
+      {
+        id: "introduction",
+        description: "Introductions by {hosts} and the period the episode covers",
+        lines: { min: 2, max: 3 },
+      },
+      {
+        id: "beginnings",
+        description: "How it all started, told by {explainers}",
+        lines: { min: 2, max: 4 },
+      },
+      {
+        id: "key-events",
+        description: "The key events in order, with {askers} asking what happened next",
+        lines: { min: 4, max: 8 },
+      },
+      {
+        id: "legacy",
+        description: "The lasting impact and where things stand today",
+        lines: { min: 2, max: 4 },
+      },
+      {
+        id: "signoff",
+        description: "A quick recap of the timeline and goodbyes from {hosts}",
+        lines: { min: 1, max: 2 },
+      },
+    ],
+  },
+  {
+    id: "kids-explainer",
+    version: "1.0.0",
+    name: "Kids Explainer",
+    description: "A gentle, playful explanation for listeners aged 6 to 10",
+    guidance: [
+      "Use short sentences and everyday words; explain any harder word right away",
+      "Compare new ideas with things children know from home, school or play",
+    ],
+    sections: [
+      {
+        id: "hello",
+        description: "A cheerful hello from {hosts} and a question that sparks curiosity",
+        lines: { min: 2, max: 3 },
+      },
+      {
+        id: "big-idea",
+        description: "The one big idea of the topic in simple words, explained by {explainers}",
+        lines: { min: 2, max: 4 },
+      },
+      {
+        id: "fun-facts",
+        description: "Amazing facts, with {askers} asking the questions a child would ask",
+        lines: { min: 4, max: 6 },
+      },
+      {
+        id: "imagine-this",
+        description: "A short imagination game that brings the idea to life",
+        lines: { min: 2, max: 3 },
+        optional: true,
+      },
+      {
+        id: "goodbye",
+        description: "What we learned today and goodbyes from {hosts}",
+        lines: { min: 2, max: 3 },
+      },
+    ],
+  },
+] as const;
+
+/**
+ * Format of an episode when the request names none
+ */
+export const DEFAULT_FORMAT_ID = "classic";
+
+/**
+ * Gets a built-in format by ID, or undefined if there is none
+ */
+export function getFormat(id: string): ShowFormat | undefined {
+  return BUILT_IN_FORMATS.find(format => format.id === id);
+}
+
+/**
+ * Gets the default format (classic)
+ */
+export function getDefaultFormat(): ShowFormat {
+  return getFormat(DEFAULT_FORMAT_ID)!;
+}
+
+/**
+ * Resolves a format ID into its template; without an ID the default is used
+ * Throws InvalidInputError for unknown formats
+ */
+export function resolveFormat(id: string = DEFAULT_FORMAT_ID): ShowFormat {
+  const format = getFormat(id);
+  if (!format) {
+    throw new InvalidInputError(`Unknown format "${id}"`, {
+      format: id,
+      available: BUILT_IN_FORMATS.map(candidate => candidate.id),
+    });
+  }
+  return format;
+}
@@ -0,0 +1,50 @@
+/**
+ * Host Configuration
+ * 
+ * Built-in host profiles. More hosts are stored as JSON files in the hosts
+ * directory (`HOSTS_DIR`); a stored profile with the ID of a built-in host
+ * replaces it (see services/hosts).
+ */
+
+import type { HostProfile } from '../types/index.js';
+
+/**
+ * Built-in hosts with their ElevenLabs and OpenAI voices
+ * Other TTS providers hand out their default voices (see providers/tts).
+ */
+export const BUILT_IN_HOSTS: readonly HostProfile[] = [
+  {
+    id: "nishi",
+    name: "Nishi",
+    persona: "An enthusiastic host who asks questions and provides context",
+    role: "interviewer",
+    voices: {
+      elevenlabs: "7wlfJf72PCt9FjPj0Beg",
+      openai: "nova",
+    },
+  },
+  {
+    id: "shyam",
+    name: "Shyam",
+    persona: "A knowledgeable host who explains concepts and answers questions",
+    role: "expert",
+    voices: {
+      elevenlabs: "QZlSvAAnrDxLbn7n3NqM",
+      openai: "onyx",
+    },
+  },
+] as const;
+
+/**
+ * Hosts of an episode when the request names none
+ */
+export const DEFAULT_HOST_IDS: readonly string[] = ["nishi", "shyam"] as const;
+
+/**
+ * Gets the default roster from the built-in profiles
+ * Used where stored profiles are not consulted, e.g. for scripts written
+ * before hosts were configurable
+ */
+export function getDefaultHosts(): HostProfile[] {
+  return DEFAULT_HOST_IDS.map(id => BUILT_IN_HOSTS.find(host => host.id === id)!);
+}
@@ -0,0 +1,72 @@
+/**
+ * Language Configuration
+ *
+ * Wikipedia editions are addressed by their subdomain code (xx.wikipedia.org).
+ * Any edition can be used as a source unless it is listed as unsupported.
+ * The output language controls what language the script is written in.
+ */
+
+/** Default source wiki and output language */
+export const DEFAULT_LANGUAGE = 'en';
+
+/**
+ * Wikipedia editions that are explicitly not supported
+ *
+ * These wikis are closed: they are read-only and hold little or no
+ * maintained article content.
+ */
+export const UNSUPPORTED_WIKI_LANGUAGES: readonly string[] = [
+  'aa',
+  'cho',
+  'ho',
+  'hz',
+  'ii',
+  'kj',
+  'kr',
+  'mh',
+  'mo',
+  'mus',
+  'ng',
+] as const;
+
+/**
+ * Wiki subdomain codes: "de", "zh-yue", "be-tarask", "simple", ...
+ */
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2,8}(?:-[a-z0-9]{1,8})*$/;
+
+/** Names for wiki codes that are not language tags */
+const SPECIAL_LANGUAGE_NAMES: Record<string, string> = {
+  simple: 'Simple English',
+};
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'code' });
+
+/**
+ * Check if a string is a well-formed language code
+ */
+export function isValidLanguageCode(code: string): boolean {
+  return LANGUAGE_CODE_PATTERN.test(code);
+}
+
+/**
+ * Check if a Wikipedia edition can be used as a source
+ */
+export function isSupportedWikiLanguage(code: string): boolean {
+  return isValidLanguageCode(code) && !UNSUPPORTED_WIKI_LANGUAGES.includes(code);
+}
+
+/**
+ * Get the English name of a language, falling back to its code
+ */
+export function getLanguageName(code: string): string {
+  if (SPECIAL_LANGUAGE_NAMES[code]) {
+    return SPECIAL_LANGUAGE_NAMES[code];
+  }
+
+  try {
+    return languageNames.of(code) ?? code;
+  } catch {
+    // Codes Intl does not accept as language tags
+    return code;
+  }
+}
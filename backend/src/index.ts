@@ -14,6 +14,16 @@ import { errorHandler } from './utils/errors.js';
 import { ensureOutputDirs } from './utils/fileManager.js';
 import healthRouter from './routes/health.js';
 import podcastRouter from './routes/podcast.js';
+import podcastsRouter from './routes/podcasts.js';
+import jobsRouter from './routes/jobs.js';
+import articleRouter from './routes/article.js';
+import cacheRouter from './routes/cache.js';
+import hostsRouter from './routes/hosts.js';
+import formatsRouter from './routes/formats.js';
+import audioPresetsRouter from './routes/audioPresets.js';
+import lexiconRouter from './routes/lexicon.js';
+import { restoreJobs } from './services/jobQueue.js';
+import { isCacheEnabled, evictCache } from './services/cache.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -39,7 +49,7 @@ function createApp(): express.Application {
     origin: isDevelopment() 
       ? ['http://localhost:5173', 'http://localhost:3000']
       : true,
-    methods: ['GET', 'POST', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization'],
   }));
   
@@ -61,6 +71,31 @@ function createApp(): express.Application {
   // Podcast routes
   app.use('/api/podcast', podcastRouter);
   
+  // Pronunciation lexicons: global, and each episode's own
+  app.use('/api/lexicon', lexiconRouter);
+  app.use('/api/podcast/:id/lexicon', lexiconRouter);
+  
+  // Podcast library
+  app.use('/api/podcasts', podcastsRouter);
+  
+  // Job status routes
+  app.use('/api/jobs', jobsRouter);
+  
+  // Article previews
+  app.use('/api/article', articleRouter);
+  
+  // Host roster
+  app.use('/api/hosts', hostsRouter);
+  
+  // Show formats
+  app.use('/api/formats', formatsRouter);
+  
+  // Audio production presets
+  app.use('/api/audio-presets', audioPresetsRouter);
+  
+  // Cache administration (only with CACHE_ADMIN_ENABLED)
+  app.use('/api/admin/cache', cacheRouter);
+  
   // ==========================================================================
   // Static Files (Production)
   // ==========================================================================
@@ -118,6 +153,17 @@ async function startServer(): Promise<void> {
     process.exit(1);
   }
   
+  // Drop cache entries that expired while the server was down
+  if (isCacheEnabled()) {
+    const evicted = await evictCache();
+    if (evicted.removedEntries > 0) {
+      console.log(`✓ Evicted ${evicted.removedEntries} cache entries`);
+    }
+  }
+  
+  // Resume jobs that were queued before the last shutdown
+  await restoreJobs();
+  
   // Create Express app
   const app = createApp();
   
@@ -127,10 +173,19 @@ async function startServer(): Promise<void> {
     console.log('');
     console.log('API Endpoints:');
     console.log(`  GET  /api/health             - Health check`);
-    console.log(`  POST /api/podcast            - Generate podcast`);
+    console.log(`  POST /api/podcast            - Queue podcast generation`);
+    console.log(`  GET  /api/jobs/:id           - Get generation job status`);
+    console.log(`  POST /api/podcast/:id/resume - Resume a failed job`);
+    console.log(`  GET  /api/article/sections   - Preview article sections`);
+    console.log(`  GET  /api/podcasts           - List podcasts`);
     console.log(`  GET  /api/podcast/:id        - Get podcast metadata`);
+    console.log(`  DELETE /api/podcast/:id      - Delete podcast`);
     console.log(`  GET  /api/podcast/:id/audio  - Download audio`);
     console.log(`  GET  /api/podcast/:id/script - Get script`);
+    if (config.cacheAdminEnabled) {
+      console.log(`  GET  /api/admin/cache        - Inspect cache`);
+      console.log(`  DELETE /api/admin/cache      - Clear cache`);
+    }
     console.log('');
     
     if (isDevelopment()) {
@@ -0,0 +1,122 @@
+/**
+ * Fact Check Prompt Templates
+ *
+ * Version: 1.0.0
+ *
+ * Prompts for checking a generated script against its source articles:
+ * - The judge decides, line by line, whether the articles support the line
+ * - The rewrite prompt asks the script writer to fix unsupported lines
+ *
+ * Both prompts show the model the closest article passages found by word
+ * overlap next to each line.
+ */
+
+import {
+  describeTopic,
+  formatSourceMaterial,
+  EpisodeLength,
+  PromptArticle,
+} from './podcast.js';
+
+export const FACT_CHECK_PROMPT_VERSION = '1.0.0';
+
+/**
+ * A script line as the fact checker sees it
+ */
+export interface FactCheckPromptLine {
+  index: number;
+  speaker: string;
+  section: string;
+  text: string;
+  /** Closest article passages, strongest first */
+  passages: string[];
+}
+
+function describeLines(lines: FactCheckPromptLine[]): string {
+  return lines.map(line => {
+    const header = `[${line.index}] ${line.speaker} (${line.section}): ${line.text}`;
+    if (line.passages.length === 0) {
+      return `${header}\n  Closest passages: none found`;
+    }
+    return `${header}\n  Closest passages:\n${line.passages.map(passage => `  - "${passage}"`).join('\n')}`;
+  }).join('\n\n');
+}
+
+/**
+ * Generates the judge's system prompt
+ */
+export function generateJudgeSystemPrompt(): string {
+  return `You are the fact checker of "Wiki Minutes", a podcast whose episodes are written from Wikipedia articles.
+
+You check every line of a script against the source articles and give it one verdict:
+- **supported**: every fact, name, date and number in the line is stated in, or directly follows from, the articles
+- **unsupported**: the line states at least one fact that the articles do not contain, or contradicts them
+- **no_claims**: the line makes no factual claim (greetings, questions, reactions, transitions and goodbyes)
+
+Rules:
+- Judge only against the articles; do not use your own knowledge, even when a claim is true
+- Translations and paraphrases of the articles count as supported
+- The closest passages are hints found by word overlap; the support may be elsewhere in the articles
+- Give a short reason for every verdict, naming the unsupported fact when there is one
+
+**OUTPUT FORMAT:**
+Return ONLY valid JSON with this exact structure:
+{
+  "lines": [
+    {"index": 1, "verdict": "no_claims", "reason": "Greeting"}
+  ]
+}
+
+Include every line you are given, in order.`;
+}
+
+/**
+ * Generates the prompt asking the judge for a verdict on each line
+ */
+export function generateJudgePrompt(
+  articles: PromptArticle[],
+  lines: FactCheckPromptLine[],
+  length: EpisodeLength
+): string {
+  return `The podcast script about ${describeTopic(articles)} was written ${formatSourceMaterial(articles, length)}
+
+Lines to check:
+
+${describeLines(lines)}
+
+Remember:
+- Output ONLY valid JSON with the structure specified
+- Give a verdict for each of the ${lines.length} line(s) above
+- Use ONLY the articles to decide`;
+}
+
+/**
+ * Generates the prompt asking the script writer to rewrite unsupported lines
+ */
+export function generateRewritePrompt(
+  articles: PromptArticle[],
+  lines: Array<FactCheckPromptLine & { reason?: string }>,
+  length: EpisodeLength
+): string {
+  const described = describeLines(lines.map(line => ({
+    ...line,
+    text: line.reason ? `${line.text}\n  Problem: ${line.reason}` : line.text,
+  })));
+
+  return `A podcast script about ${describeTopic(articles)} was written ${formatSourceMaterial(articles, length)}
+
+The fact checker found claims in these lines that the articles do not support.
+
+Lines to rewrite:
+
+${described}
+
+Rewrite each line so that every fact in it comes from the articles. Keep the speaker, the section, the language and the conversational tone, and keep each line about as long as before so the conversation still flows.
+
+Return ONLY valid JSON with this exact structure:
+{
+  "lines": [
+    {"index": ${lines[0]?.index ?? 1}, "text": "The rewritten line"}
+  ]
+}`;
+}
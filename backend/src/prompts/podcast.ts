@@ -1,21 +1,188 @@
 /**
  * Podcast Script Generation Prompt Template
  * 
- * Version: 1.0.0
+ * Version: 1.7.0
  * 
  * This prompt template enforces the constitution requirements:
  * - Content Integrity: Facts from source article only
- * - Structural Consistency: 5-section structure
- * - Speaker Discipline: Exactly Nishi and Shyam
+ * - Structural Consistency: Sections of the chosen show format (default: classic)
+ * - Speaker Discipline: Only the episode's hosts (1-4, default Nishi and Shyam)
  * - Audio Predictability: Deterministic output
  */
 
-export const PROMPT_VERSION = '1.0.0';
+import { DEFAULT_LANGUAGE, getLanguageName } from '../config/languages.js';
+import { getDefaultHosts } from '../config/hosts.js';
+import { getDefaultFormat } from '../config/formats.js';
+import { WORDS_PER_MINUTE } from '../types/index.js';
+import type {
+  HostProfile,
+  HostRole,
+  ScriptOutlineSegment,
+  ScriptSection,
+  ScriptLine,
+  ShowFormat,
+  FormatSection,
+} from '../types/index.js';
+
+export const PROMPT_VERSION = '1.7.0';
+
+/**
+ * A host as the script writer sees them
+ */
+export type PromptHost = Pick<HostProfile, 'name' | 'persona' | 'role'>;
+
+const SPEAKER_COUNTS = ['ONE', 'TWO', 'THREE', 'FOUR'];
+
+/** What each role contributes to the conversation */
+const ROLE_GUIDANCE: Record<HostRole, string> = {
+  interviewer: 'asks questions, provides context and keeps the conversation moving',
+  expert: 'explains concepts in depth and answers questions',
+  skeptic: 'questions claims and asks how we know them; the answers still come only from the article',
+};
+
+/**
+ * Joins names as "A", "A and B" or "A, B and C"
+ */
+export function joinNames(names: string[]): string {
+  return names.length > 1
+    ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+    : names[0] ?? '';
+}
+
+/**
+ * Picks the verb form for one or several subjects
+ */
+function conjugate(names: string[], singular: string, plural: string): string {
+  return names.length === 1 ? singular : plural;
+}
+
+function namesWithRole(hosts: PromptHost[], role: HostRole): string[] {
+  return hosts.filter(host => host.role === role).map(host => host.name);
+}
+
+function describeSpeakers(hosts: PromptHost[]): string {
+  if (hosts.length === 1) {
+    const [narrator] = hosts;
+    return `There is ONE speaker, who narrates the episode alone:
+- **${narrator.name}** (narrator): ${narrator.persona}
+
+Every line is spoken by ${narrator.name}. There is no conversation partner: ${narrator.name} talks to the listeners directly and may raise questions for them, but never answers an imagined speaker.`;
+  }
+  
+  const names = hosts.map(host => host.name);
+  const roles = [...new Set(hosts.map(host => host.role))];
+  
+  return `There are exactly ${SPEAKER_COUNTS[hosts.length - 1]} speakers:
+${hosts.map(host => `- **${host.name}** (${host.role}): ${host.persona}`).join('\n')}
+
+Roles:
+${roles.map(role => `- ${role}: ${ROLE_GUIDANCE[role]}`).join('\n')}
+
+You MUST alternate between ${joinNames(names)} naturally throughout the conversation. ${hosts.length === 2 ? 'Both speakers' : 'All speakers'} should feel like real people having an authentic discussion.`;
+}
+
+/**
+ * Fills in the host placeholders of section descriptions
+ * {hosts} names everyone, {explainers} those who explain and {askers} those who ask
+ */
+function castHosts(hosts: PromptHost[]): (description: string) => string {
+  const names = hosts.map(host => host.name);
+  const experts = namesWithRole(hosts, 'expert');
+  const nonInterviewers = hosts.filter(host => host.role !== 'interviewer').map(host => host.name);
+  // Without experts, whoever is not interviewing explains; failing that, everyone does
+  const explainers = experts.length > 0 ? experts : nonInterviewers.length > 0 ? nonInterviewers : names;
+  const askers = namesWithRole(hosts, 'interviewer').filter(name => !explainers.includes(name));
+  
+  const cast: Record<string, string> = {
+    hosts: joinNames(names),
+    explainers: joinNames(explainers),
+    askers: askers.length > 0 ? joinNames(askers) : hosts.length === 1 ? names[0] : 'the hosts',
+  };
+  return description => description.replace(/\{(hosts|explainers|askers)\}/g, (_, key: string) => cast[key]);
+}
+
+function describeSection(
+  section: FormatSection,
+  position: number,
+  cast: (description: string) => string,
+  narrated: boolean
+): string {
+  const optional = section.optional ? ' (optional)' : '';
+  const description = narrated ? section.narration ?? section.description : section.description;
+  return `${position}. **${section.id}**${optional}: ${cast(description)} (${section.lines.min}-${section.lines.max} lines)`;
+}
+
+/**
+ * Lists runs of adjacent repeatable sections, which may take turns
+ */
+function getRepeatableGroups(format: ShowFormat): FormatSection[][] {
+  const groups: FormatSection[][] = [];
+  format.sections.forEach((section, i) => {
+    if (!section.repeatable) return;
+    if (format.sections[i - 1]?.repeatable) {
+      groups[groups.length - 1].push(section);
+    } else {
+      groups.push([section]);
+    }
+  });
+  return groups;
+}
+
+function describeStructure(hosts: PromptHost[], format: ShowFormat): string {
+  const cast = castHosts(hosts);
+  const notes: string[] = [];
+  
+  for (const group of getRepeatableGroups(format)) {
+    const ids = joinNames(group.map(section => `**${section.id}**`));
+    notes.push(group.length > 1
+      ? `- ${ids} may take turns several times (e.g. ${group.map(section => section.id).join(', ')}, ${group[0].id}); the line counts are totals across turns`
+      : `- ${ids} may appear several times in a row`);
+  }
+  
+  if (hosts.length === 1) {
+    notes.push(`- ${hosts[0].name} narrates every section; where a section calls for questions, ${hosts[0].name} raises the questions a curious listener would ask and answers them`);
+  } else {
+    const skeptics = namesWithRole(hosts, 'skeptic');
+    if (skeptics.length > 0) {
+      notes.push(`- ${joinNames(skeptics)} ${conjugate(skeptics, 'challenges', 'challenge')} claims along the way`);
+    }
+  }
+  
+  const sections = format.sections
+    .map((section, i) => describeSection(section, i + 1, cast, hosts.length === 1))
+    .join('\n');
+  return notes.length > 0 ? `${sections}\n\n${notes.join('\n')}` : sections;
+}
+
+/**
+ * States how many sections a script has
+ */
+function describeSectionCount(format: ShowFormat): string {
+  return format.sections.some(section => section.optional)
+    ? `these ${format.sections.length} sections, leaving out only those marked optional,`
+    : `exactly ${format.sections.length} sections`;
+}
 
 /**
- * System prompt defining the AI's role and constraints
+ * Describes who speaks which lines, for the reminders in user prompts
  */
-export const SYSTEM_PROMPT = `You are a podcast script writer for an educational podcast series called "Wiki Minutes". Your task is to create engaging, conversational scripts based on Wikipedia articles.
+function describeTurns(hosts: PromptHost[]): string {
+  return hosts.length === 1
+    ? `Every line is spoken by ${hosts[0].name}, the narrator`
+    : `Alternate between speakers ${joinNames(hosts.map(host => host.name))}`;
+}
+
+/**
+ * Builds the system prompt defining the AI's role and constraints for a
+ * roster of hosts and a show format
+ */
+export function generateSystemPrompt(
+  hosts: PromptHost[] = getDefaultHosts(),
+  format: ShowFormat = getDefaultFormat()
+): string {
+  const guidance = format.guidance.map(line => `\n- ${line}`).join('');
+
+  return `You are a podcast script writer for an educational podcast series called "Wiki Minutes". Your task is to create engaging, ${hosts.length === 1 ? 'narrated' : 'conversational'} scripts based on Wikipedia articles.
 
 **FORMAT REQUIREMENTS:**
 
@@ -24,9 +191,9 @@ You MUST output ONLY valid JSON in the following structure:
   "lines": [
     {
       "index": 1,
-      "speaker": "Nishi",
+      "speaker": "${hosts[0].name}",
       "text": "...",
-      "section": "greeting"
+      "section": "${format.sections[0].id}"
     },
     ...
   ]
@@ -34,36 +201,34 @@ You MUST output ONLY valid JSON in the following structure:
 
 **SPEAKERS:**
 
-There are exactly TWO speakers:
-- **Nishi**: Am enthusiastic host who asks questions and provides context
-- **Shyam**: A knowledgeable host who explains concepts and answers questions
-
-You MUST alternate between Nishi and Shyam naturally throughout the conversation. Both speakers should feel like real people having an authentic discussion.
+${describeSpeakers(hosts)}
 
 **LANGUAGE:**
 
-The conversation MUST be bilingual (English + Hindi):
+The ${hosts.length === 1 ? 'narration' : 'conversation'} MUST be bilingual (English + Hindi):
 - Use **English** for formal information, facts, technical terms, and structured explanations
 - Use **Hindi** for informal discussion, casual remarks, transitions, and conversational elements
 - Mix both languages naturally as Indian speakers do in real conversations
 - Ensure Hindi text is written in Roman script (e.g., "Acha", "Bilkul sahi", "Kya baat hai")
 
+**SHOW FORMAT: ${format.name}**
+
+${format.description}.${guidance}
+
 **STRUCTURE:**
 
-Every podcast script MUST have exactly 5 sections in this order:
+Every podcast script MUST have ${describeSectionCount(format)} in this order:
 
-1. **greeting**: Nishi and Shyam introduce themselves and the topic (2-3 lines)
-2. **explanation**: Shyam provides the core factual explanation of the topic (3-5 lines)
-3. **clarification**: Nishi asks for clarification or makes connections, Shyam elaborates (3-4 lines)
-4. **qna**: Back-and-forth Q&A between Nishi and Shyam about interesting details (4-6 lines)
-5. **signoff**: Both wrap up with key takeaways and say goodbye (2-3 lines)
+${describeStructure(hosts, format)}
+
+The line counts above are for a 2-3 minute episode; scale the middle sections up for longer episodes.
 
 **CONTENT RULES:**
 
 1. Use ONLY information from the provided Wikipedia article
 2. Do NOT add external facts, opinions, or information not in the article
-3. Keep the conversation natural and engaging, not robotic
-4. Aim for 2-3 minutes of audio (approximately 300-450 words total)
+3. Keep the ${hosts.length === 1 ? 'narration' : 'conversation'} natural and engaging, not robotic
+4. Match the episode length given in the request (2-3 minutes, approximately 300-450 words, unless stated otherwise)
 5. Use conversational language, contractions, and natural speech patterns
 6. Each line should be speakable - no more than 1-2 sentences per line
 7. No line should exceed 1000 characters
@@ -80,32 +245,330 @@ Every podcast script MUST have exactly 5 sections in this order:
 
 - Output ONLY the JSON structure, no additional text
 - Ensure all lines have valid section values
-- Ensure speakers alternate naturally
-- Keep total word count between 300-450 words`;
+- ${hosts.length === 1 ? `Ensure every line is spoken by ${hosts[0].name}` : 'Ensure speakers alternate naturally'}
+- Keep the total word count within the range given in the request`;
+}
 
 /**
- * Generates the user prompt with article content
+ * A source article given to the model
+ */
+export interface PromptArticle {
+  title: string;
+  /** Cleaned article text with section headings */
+  content: string;
+  /** Wikipedia edition the article comes from */
+  language: string;
+}
+
+/**
+ * Language of the script to write
+ */
+export interface PromptLanguageOptions {
+  /** Language the script is written in (default: "en", the English-Hindi mix) */
+  outputLanguage?: string;
+}
+
+/**
+ * Builds language instructions for articles or scripts that are not in English
+ * Returns an empty string for the default English article and script
  */
-export function generateUserPrompt(articleTitle: string, articleContent: string): string {
-  // Truncate content if too long for context window
-  const maxContentLength = 10000;
-  const truncatedContent = articleContent.length > maxContentLength
+function generateLanguageInstructions(articles: PromptArticle[], outputLanguage: string): string {
+  const instructions: string[] = [];
+  
+  const foreignLanguages = [...new Set(articles.map(article => article.language))]
+    .filter(language => language !== outputLanguage);
+  if (articles.length === 1 && foreignLanguages.length > 0) {
+    instructions.push(
+      `- The article is written in ${getLanguageName(foreignLanguages[0])}. Translate its facts faithfully; do not add anything that is not in the article.`
+    );
+  } else if (foreignLanguages.length > 0) {
+    instructions.push(
+      `- Some articles are written in ${foreignLanguages.map(getLanguageName).join(', ')}. Translate their facts faithfully; do not add anything that is not in the articles.`
+    );
+  }
+  
+  if (outputLanguage !== DEFAULT_LANGUAGE) {
+    const outputName = getLanguageName(outputLanguage);
+    instructions.push(
+      `- Write every line in ${outputName}. This replaces the English-Hindi mix described in the LANGUAGE rules.`,
+      `- Keep names and technical terms in their usual ${outputName} form.`
+    );
+  }
+  
+  if (instructions.length === 0) {
+    return '';
+  }
+  
+  return `\nLanguage:\n${instructions.join('\n')}\n`;
+}
+
+/**
+ * Word budget for an episode
+ */
+export interface EpisodeLength {
+  /** Requested length in minutes (absent: the default 2-3 minute episode) */
+  minutes?: number;
+  minWords: number;
+  maxWords: number;
+}
+
+/** Length of an episode when none is requested, in minutes */
+const DEFAULT_EPISODE_MINUTES = 2.5;
+
+/** Allowed deviation from the requested length */
+const LENGTH_TOLERANCE = 0.2;
+
+/** Article characters sent to the model per minute of audio */
+const CONTENT_CHARS_PER_MINUTE = 4000;
+const MIN_CONTENT_LENGTH = 10000;
+const MAX_CONTENT_LENGTH = 50000;
+
+/** Fewest characters sent per article when several share the budget */
+const MIN_CONTENT_PER_ARTICLE = 4000;
+
+/**
+ * Converts a requested length into a word range at 150 words per minute
+ * The default is 300-450 words (2-3 minutes)
+ */
+export function getEpisodeLength(targetMinutes?: number): EpisodeLength {
+  const words = (targetMinutes ?? DEFAULT_EPISODE_MINUTES) * WORDS_PER_MINUTE;
+  
+  return {
+    ...(targetMinutes !== undefined && { minutes: targetMinutes }),
+    minWords: Math.round(words * (1 - LENGTH_TOLERANCE)),
+    maxWords: Math.round(words * (1 + LENGTH_TOLERANCE)),
+  };
+}
+
+/**
+ * Prompt options: output language, episode length and hosts
+ */
+export interface PromptOptions extends PromptLanguageOptions {
+  /** Word budget (default: 300-450 words) */
+  length?: EpisodeLength;
+  /** Hosts of the episode (default: Nishi and Shyam) */
+  hosts?: PromptHost[];
+  /** Show format of the episode (default: classic) */
+  format?: ShowFormat;
+}
+
+/**
+ * Truncates article content to fit the context window; longer episodes get
+ * more of it, and several articles share the budget
+ */
+function truncateContent(articleContent: string, length: EpisodeLength, articleCount: number): string {
+  const minutes = length.minutes ?? DEFAULT_EPISODE_MINUTES;
+  const budget = Math.min(
+    MAX_CONTENT_LENGTH,
+    Math.max(MIN_CONTENT_LENGTH, minutes * CONTENT_CHARS_PER_MINUTE)
+  );
+  const maxContentLength = articleCount > 1
+    ? Math.max(MIN_CONTENT_PER_ARTICLE, Math.floor(budget / articleCount))
+    : budget;
+  
+  return articleContent.length > maxContentLength
     ? articleContent.substring(0, maxContentLength) + '...'
     : articleContent;
-  
-  return `Create a podcast script about "${articleTitle}" based on the following Wikipedia article content:
+}
+
+function describeLength(length: EpisodeLength): string {
+  const range = `${length.minWords}-${length.maxWords} words`;
+  return length.minutes !== undefined ? `${range} (about ${length.minutes} minutes of audio)` : range;
+}
+
+/**
+ * Names the episode topic: one title, or several and how they connect
+ */
+export function describeTopic(articles: PromptArticle[]): string {
+  const titles = articles.map(article => `"${article.title}"`);
+  if (titles.length === 1) {
+    return titles[0];
+  }
+  return `${titles.slice(0, -1).join(', ')} and ${titles[titles.length - 1]}, and how they connect,`;
+}
+
+/**
+ * Lays out the article content; several articles are numbered so lines can cite them
+ */
+export function formatSourceMaterial(articles: PromptArticle[], length: EpisodeLength): string {
+  if (articles.length === 1) {
+    return `based on the following Wikipedia article content (section headings start with "##"):
 
 ---
-${truncatedContent}
+${truncateContent(articles[0].content, length, 1)}
+---`;
+  }
+  
+  const blocks = articles.map((article, i) => `Article ${i + 1}: "${article.title}"
 ---
+${truncateContent(article.content, length, articles.length)}
+---`);
+  
+  return `based on the following ${articles.length} Wikipedia articles (section headings start with "##"):
+
+${blocks.join('\n\n')}`;
+}
 
+/**
+ * Builds the rules for connecting several articles
+ * Returns an empty string for a single article
+ */
+function generateConnectionInstructions(articles: PromptArticle[]): string {
+  if (articles.length === 1) {
+    return '';
+  }
+  
+  return `
+Connecting the articles:
+- Discuss how the topics relate: what links them, where they differ, and what one explains about the other
+- Draw on every article
+- Give every line a "sourceArticles" list with the numbers of the articles its facts come from, e.g. [1] or [1, 2]; use [] for lines without facts
+`;
+}
+
+function describeSources(articles: PromptArticle[]): string {
+  return articles.length === 1 ? 'the article above' : 'the articles above';
+}
+
+function describeSectionList(format: ShowFormat): string {
+  const ids = format.sections.map(section => section.optional ? `${section.id} (optional)` : section.id);
+  return `Use the ${format.sections.length}-section structure: ${ids.join(', ')}`;
+}
+
+/**
+ * Generates the user prompt with article content
+ */
+export function generateUserPrompt(
+  articles: PromptArticle[],
+  options: PromptOptions = {}
+): string {
+  const length = options.length ?? getEpisodeLength();
+  
+  const languageInstructions = generateLanguageInstructions(
+    articles,
+    options.outputLanguage ?? DEFAULT_LANGUAGE
+  );
+  
+  return `Create a podcast script about ${describeTopic(articles)} ${formatSourceMaterial(articles, length)}
+${languageInstructions}${generateConnectionInstructions(articles)}
 Remember:
 - Output ONLY valid JSON with the structure specified
-- Use the 5-section structure: greeting, explanation, clarification, qna, signoff
-- Alternate between speakers Nishi and Shyam
+- ${describeSectionList(options.format ?? getDefaultFormat())}
+- ${describeTurns(options.hosts ?? getDefaultHosts())}
 - Keep it conversational and engaging
-- Stay within 300-450 words total
-- Use ONLY information from the article above`;
+- Stay within ${describeLength(length)} total
+- Use ONLY information from ${describeSources(articles)}`;
+}
+
+/**
+ * Generates the prompt asking for the outline of a long-form episode
+ * `segmentSections` lists the script sections each segment is written in
+ */
+export function generateOutlinePrompt(
+  articles: PromptArticle[],
+  segmentSections: ScriptSection[][],
+  options: PromptOptions = {}
+): string {
+  const length = options.length ?? getEpisodeLength();
+  
+  const languageInstructions = generateLanguageInstructions(
+    articles,
+    options.outputLanguage ?? DEFAULT_LANGUAGE
+  );
+  
+  const segmentList = segmentSections
+    .map((sections, i) => `${i + 1}. Written in the sections: ${sections.join(', ')}`)
+    .join('\n');
+  
+  return `Plan a long podcast episode about ${describeTopic(articles)} ${formatSourceMaterial(articles, length)}
+${languageInstructions}
+The episode is ${describeLength(length)} long and is written in exactly ${segmentSections.length} segments, in this order:
+${segmentList}
+
+Output ONLY valid JSON in this structure, with no script lines yet:
+{
+  "segments": [
+    { "title": "...", "points": ["...", "..."] }
+  ]
+}
+
+Remember:
+- Exactly ${segmentSections.length} segments, in the order listed above
+- Give each segment a short title and 2-6 points to cover
+- Spread the ${articles.length === 1 ? 'article' : 'articles'} across the segments in a natural order; do not repeat points
+- Use ONLY information from ${describeSources(articles)}`;
+}
+
+/**
+ * Context for writing one segment of a long-form episode
+ */
+export interface SegmentPromptContext {
+  /** Planned segments of the whole episode */
+  outline: ScriptOutlineSegment[];
+  /** Position of the segment to write (0-based) */
+  segmentIndex: number;
+  /** Last lines written so far, for continuity */
+  previousLines: ScriptLine[];
+  /** Index of the segment's first line */
+  firstLineIndex: number;
+  /** Word budget of the segment */
+  segmentLength: EpisodeLength;
+}
+
+/**
+ * Generates the prompt for one segment of a long-form episode
+ */
+export function generateSegmentPrompt(
+  articles: PromptArticle[],
+  context: SegmentPromptContext,
+  options: PromptOptions = {}
+): string {
+  const { outline, segmentIndex, previousLines, firstLineIndex, segmentLength } = context;
+  const segment = outline[segmentIndex];
+  const isLast = segmentIndex === outline.length - 1;
+  // The whole episode's length decides how much of the article fits
+  const length = options.length ?? getEpisodeLength();
+  
+  const languageInstructions = generateLanguageInstructions(
+    articles,
+    options.outputLanguage ?? DEFAULT_LANGUAGE
+  );
+  
+  const outlineList = outline
+    .map((part, i) => `${i + 1}. ${part.title}: ${part.points.join('; ')}`)
+    .join('\n');
+  
+  const continuity = previousLines.length > 0
+    ? `\nThe script so far ends with:\n${previousLines.map(line => `${line.speaker}: ${line.text}`).join('\n')}\n\nContinue naturally from there; do not greet the listeners again.\n`
+    : '';
+  
+  return `Write part ${segmentIndex + 1} of ${outline.length} of a podcast script about ${describeTopic(articles)} ${formatSourceMaterial(articles, length)}
+${languageInstructions}${generateConnectionInstructions(articles)}
+Episode outline:
+${outlineList}
+${continuity}
+This part: "${segment.title}"
+- Cover: ${segment.points.join('; ')}
+- Sections for this part, in order: ${segment.sections.join(', ')}
+- Length: between ${segmentLength.minWords} and ${segmentLength.maxWords} words
+- Number the lines starting at ${firstLineIndex}${isLast ? '' : '\n- Do not say goodbye; the episode continues after this part'}
+
+Remember:
+- Output ONLY valid JSON with the structure specified
+- ${describeTurns(options.hosts ?? getDefaultHosts())}
+- Keep it conversational and engaging
+- Use ONLY information from ${describeSources(articles)}`;
+}
+
+/**
+ * Generates the follow-up prompt asking the model to fix a rejected script
+ */
+export function generateRepairPrompt(errors: string[], subject = 'script'): string {
+  return `Your previous reply could not be used because of these problems:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Return the complete corrected ${subject}. Fix every problem listed above while keeping all other requirements.
+Output ONLY valid JSON with the same structure.`;
 }
 
 /**
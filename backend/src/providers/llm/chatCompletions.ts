@@ -0,0 +1,109 @@
+import https from 'https';
+import fetch from 'node-fetch';
+import type { LlmProviderName } from '../../types/index.js';
+import { LlmProvider, LlmCompletionRequest, LlmCompletion } from './provider.js';
+
+/**
+ * Chat Completions Provider
+ * 
+ * Shared client for APIs that implement `POST {baseUrl}/chat/completions`
+ * (xAI, OpenAI, llama.cpp server, Ollama, ...).
+ */
+
+// Create an HTTPS agent that handles SSL certificates properly
+const httpsAgent = new https.Agent({
+  rejectUnauthorized: process.env.NODE_ENV === 'production',
+});
+
+interface ChatCompletionsRequest {
+  model: string;
+  messages: LlmCompletionRequest['messages'];
+  temperature: number;
+  max_tokens: number;
+  top_p: number;
+}
+
+interface ChatCompletionsResponse {
+  id: string;
+  object: string;
+  created: number;
+  model?: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export interface ChatCompletionsOptions {
+  name: LlmProviderName;
+  label: string;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+/**
+ * Creates a provider for a chat-completions-compatible API
+ */
+export function createChatCompletionsProvider(options: ChatCompletionsOptions): LlmProvider {
+  const { name, label, baseUrl, apiKey, model } = options;
+  
+  return {
+    name,
+    label,
+    model,
+    
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+      const body: ChatCompletionsRequest = {
+        model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        top_p: request.topP,
+      };
+      
+      try {
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+          },
+          body: JSON.stringify(body),
+          // Local servers are usually plain HTTP
+          ...(baseUrl.startsWith('https:') && { agent: httpsAgent }),
+        });
+        
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(`${label} API error: ${response.status} ${response.statusText} - ${errorText}`);
+        }
+        
+        const data = await response.json() as ChatCompletionsResponse;
+        
+        if (!data.choices || data.choices.length === 0) {
+          throw new Error(`No response from ${label} API`);
+        }
+        
+        return {
+          content: data.choices[0].message.content,
+          model: data.model || model,
+        };
+      } catch (error) {
+        if (error instanceof Error) {
+          throw error;
+        }
+        throw new Error(`Unknown error calling ${label} API`);
+      }
+    },
+  };
+}
@@ -0,0 +1,206 @@
+import { promises as fs } from 'fs';
+import type { EnvConfig } from '../../config/env.js';
+import { LlmProvider, LlmCompletionRequest, LlmCompletion, LlmTask, LlmTaskSection } from './provider.js';
+
+/**
+ * Fixture LLM Provider
+ * 
+ * Deterministic provider for tests, CI and offline development. Replies with
+ * the contents of `LLM_FIXTURE_PATH` when set, otherwise with a built-in
+ * reply to the request's structured task (it never reads the prompts). Scripts
+ * pass validation: they follow the requested length and the format's
+ * sections, cite the articles of multi-article episodes and take turns among
+ * the hosts, and long-form outlines and segments are answered too. Fact-check
+ * judges find every line supported, and rewrites quote the closest article
+ * passage.
+ */
+
+const FIXTURE_MODEL = 'fixture';
+
+type FixtureLine = [speaker: string, section: string, text: string];
+
+/**
+ * Built-in lines about a title, in script order
+ */
+function getFixtureLines(title: string, hosts: string[]): FixtureLine[] {
+  const secondGreeting = hosts.length > 1
+    ? `And I'm ${hosts[1]}. I spent some time with the Wikipedia article on ${title}, and I'm excited to walk through the highlights with you today.`
+    : `I spent some time with the Wikipedia article on ${title}, and I'm excited to walk through the highlights with you today.`;
+  
+  return [
+    ['Nishi', 'greeting', `Welcome back to Wiki Minutes! I'm ${hosts[0]}, and today we're diving into ${title}, a topic that turns out to be much richer than it first appears.`],
+    ['Shyam', 'greeting', secondGreeting],
+    ['Nishi', 'explanation', `Let's start with the basics. When people first hear about ${title}, what is the single most important idea they should understand about it?`],
+    ['Shyam', 'explanation', `The core idea is that ${title} did not appear out of nowhere. It developed over time, shaped by the people, places and circumstances the article describes in detail.`],
+    ['Nishi', 'explanation', 'So the context really matters here. It is not just a fact to memorize, but something with a history and a set of causes behind it.'],
+    ['Shyam', 'explanation', 'Exactly. The article lays out that background carefully, and once you see those connections, the rest of the story becomes much easier to follow and remember.'],
+    ['Nishi', 'clarification', `One thing that might confuse listeners is how ${title} differs from related ideas. Could you clear that up for us in simple terms?`],
+    ['Shyam', 'clarification', 'Sure. The key difference is in the details the article highlights. Related topics share some features, but this one has its own distinct origin and significance.'],
+    ['Nishi', 'clarification', 'That helps a lot. So the details are what set it apart, even when the big picture looks familiar at first glance.'],
+    ['Nishi', 'qna', `Here's a question I think many people have: why should someone today care about ${title} at all?`],
+    ['Shyam', 'qna', 'Because it helps explain the world around us. Understanding it gives you a useful lens for thinking about many other subjects the article connects it to.'],
+    ['Nishi', 'qna', 'That is a great point. It is always nice when one topic opens the door to understanding a whole range of other ideas as well.'],
+    ['Shyam', 'qna', 'Absolutely, and the article has plenty of links to explore if any of our listeners want to keep digging after this episode ends.'],
+    ['Nishi', 'signoff', `That's all the time we have for ${title} today. Thanks so much for listening to Wiki Minutes with us.`],
+    ['Shyam', 'signoff', 'Thanks, everyone! Stay curious, keep exploring, and we will see you next time on Wiki Minutes.'],
+  ];
+}
+
+function countWords(texts: string[][]): number {
+  return texts.flat().reduce((sum, text) => sum + text.split(/\s+/).length, 0);
+}
+
+/**
+ * Builds script lines for the given sections, padded to a word range
+ *
+ * Each section gets its classic lines, or the opening, closing or middle
+ * lines for other formats, within its line range. Extra lines are added to
+ * the middle sections in turn until the script is halfway into the range;
+ * with `capped`, no section grows beyond its maximum. The hosts keep taking
+ * turns.
+ */
+function buildFixtureLines(
+  title: string,
+  hosts: string[],
+  format: LlmTaskSection[],
+  sectionIds: string[],
+  wordRange: { min: number; max: number; capped: boolean }
+): FixtureLine[] {
+  const builtIn = getFixtureLines(title, hosts);
+  const opening = format[0].id;
+  const closing = format[format.length - 1].id;
+  const middleTexts = builtIn
+    .filter(([, section]) => section !== 'greeting' && section !== 'signoff')
+    .map(([, , text]) => text);
+  
+  const textsFor = (id: string): string[] => {
+    const classic = builtIn.filter(([, section]) => section === id).map(([, , text]) => text);
+    if (classic.length > 0) return classic;
+    const role = id === opening ? 'greeting' : id === closing ? 'signoff' : null;
+    return role
+      ? builtIn.filter(([, section]) => section === role).map(([, , text]) => text)
+      : middleTexts;
+  };
+  
+  const sections = format.filter(section => sectionIds.includes(section.id));
+  const texts = sections.map(section => {
+    const available = textsFor(section.id);
+    const count = Math.min(section.maxLines, Math.max(section.minLines, available === middleTexts ? section.minLines : available.length));
+    return Array.from({ length: count }, (_, i) => available[i % available.length]);
+  });
+  
+  if (countWords(texts) < wordRange.min) {
+    const padded = sections
+      .map((_, i) => i)
+      .filter(i => sections[i].id !== opening && sections[i].id !== closing);
+    const growable = padded.length > 0 ? padded : [0];
+    let added = 0;
+    
+    while (countWords(texts) < (wordRange.min + wordRange.max) / 2) {
+      const open = growable.filter(i => !wordRange.capped || texts[i].length < sections[i].maxLines);
+      if (open.length === 0) break;
+      texts[open[added % open.length]].push(middleTexts[added % middleTexts.length]);
+      added++;
+    }
+  }
+  
+  return sections
+    .flatMap((section, i) => texts[i].map(text => ({ section: section.id, text })))
+    .map(({ section, text }, i): FixtureLine => [hosts[i % hosts.length], section, text]);
+}
+
+/**
+ * Serializes lines; with several articles, lines between the opening and
+ * closing sections cite them in turn
+ */
+function toScriptJson(
+  lines: FixtureLine[],
+  firstIndex: number,
+  articleCount: number,
+  format: LlmTaskSection[]
+): string {
+  const framing = [format[0].id, format[format.length - 1].id];
+
+  return JSON.stringify({
+    lines: lines.map(([speaker, section, text], i) => {
+      const index = firstIndex + i;
+      if (articleCount < 2) {
+        return { index, speaker, text, section };
+      }
+      const sourceArticles = framing.includes(section)
+        ? []
+        : [(index % articleCount) + 1];
+      return { index, speaker, text, section, sourceArticles };
+    }),
+  });
+}
+
+/**
+ * Builds the built-in reply to a task: a fact-check verdict or rewrite, an
+ * outline, one segment of a long-form script, or a whole script padded to the
+ * requested length
+ */
+function buildFixtureReply(task: LlmTask): string {
+  switch (task.kind) {
+    case 'judge':
+      return JSON.stringify({
+        lines: task.lines.map(({ index }) => ({ index, verdict: 'supported', reason: 'Stated in the article' })),
+      });
+    
+    case 'rewrite':
+      return JSON.stringify({
+        lines: task.lines.map(({ index, passages }) => ({
+          index,
+          text: passages[0] ?? 'The article goes into more detail on this point.',
+        })),
+      });
+    
+    case 'outline':
+      return JSON.stringify({
+        segments: Array.from({ length: task.segmentCount }, (_, i) => ({
+          title: `${task.title}, part ${i + 1}`,
+          points: [`What the article says about ${task.title}`, 'Why it matters'],
+        })),
+      });
+    
+    case 'segment':
+      return toScriptJson(buildFixtureLines(
+        task.title,
+        task.hosts,
+        task.sections,
+        task.segmentSections,
+        { min: task.minWords, max: task.maxWords, capped: false }
+      ), task.firstLineIndex, task.articleCount, task.sections);
+    
+    case 'script':
+      return toScriptJson(buildFixtureLines(
+        task.title,
+        task.hosts,
+        task.sections,
+        task.sections.filter(section => !section.optional).map(section => section.id),
+        { min: task.minWords, max: task.maxWords, capped: !task.sectionsMayGrow }
+      ), 1, task.articleCount, task.sections);
+  }
+}
+
+/**
+ * Creates the fixture provider
+ */
+export function createFixtureProvider(config: EnvConfig): LlmProvider {
+  return {
+    name: 'fixture',
+    label: 'Fixture',
+    model: FIXTURE_MODEL,
+    
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+      if (config.llmFixturePath) {
+        return { content: await fs.readFile(config.llmFixturePath, 'utf-8'), model: FIXTURE_MODEL };
+      }
+      if (!request.task) {
+        throw new Error('The fixture provider only answers requests that describe their task');
+      }
+      
+      return { content: buildFixtureReply(request.task), model: FIXTURE_MODEL };
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import { getConfig, EnvConfig } from '../../config/env.js';
+import type { LlmProviderName } from '../../types/index.js';
+import { GENERATION_PARAMS } from '../../prompts/podcast.js';
+import type { LlmProvider } from './provider.js';
+import { createChatCompletionsProvider } from './chatCompletions.js';
+import { createFixtureProvider } from './fixture.js';
+
+/**
+ * LLM Provider Registry
+ * 
+ * Resolves the configured provider and the model it requests.
+ */
+
+export type { LlmProvider, LlmMessage, LlmCompletionRequest, LlmCompletion, LlmTask } from './provider.js';
+
+/** Model used by the OpenAI-compatible provider when LLM_MODEL is not set */
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+const PROVIDER_FACTORIES: Record<LlmProviderName, (config: EnvConfig) => LlmProvider> = {
+  xai: (config) => createChatCompletionsProvider({
+    name: 'xai',
+    label: 'Grok',
+    baseUrl: config.xaiApiUrl,
+    apiKey: config.xaiApiKey,
+    model: config.llmModel || GENERATION_PARAMS.model,
+  }),
+  openai: (config) => createChatCompletionsProvider({
+    name: 'openai',
+    label: 'OpenAI-compatible',
+    baseUrl: config.openAiLlmApiUrl,
+    apiKey: config.openAiLlmApiKey,
+    model: config.llmModel || DEFAULT_OPENAI_MODEL,
+  }),
+  fixture: createFixtureProvider,
+};
+
+/**
+ * Gets the LLM provider selected by `LLM_PROVIDER`
+ */
+export function getLlmProvider(): LlmProvider {
+  const config = getConfig();
+  return PROVIDER_FACTORIES[config.llmProvider](config);
+}
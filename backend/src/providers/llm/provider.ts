@@ -0,0 +1,90 @@
+import type { LlmProviderName } from '../../types/index.js';
+
+/**
+ * LLM Provider Interface
+ * 
+ * A provider runs one chat completion. The pipeline resolves the active
+ * provider from config (`LLM_PROVIDER`).
+ */
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/** A section of the show format, with its line range in a 2-3 minute episode */
+export interface LlmTaskSection {
+  id: string;
+  optional: boolean;
+  minLines: number;
+  maxLines: number;
+}
+
+/** The script a whole-script, outline or segment request writes */
+interface LlmScriptTaskBase {
+  /** Title of the first article */
+  title: string;
+  /** Host names, in roster order */
+  hosts: string[];
+  sections: LlmTaskSection[];
+  articleCount: number;
+}
+
+/** A line sent to the fact-check judge or to be rewritten */
+export interface LlmTaskLine {
+  index: number;
+  /** Closest article passages, strongest first */
+  passages: string[];
+}
+
+/**
+ * What a request asks for, in structured form
+ * Model-backed providers read the messages and ignore it; the fixture
+ * provider builds its reply from it
+ */
+export type LlmTask =
+  | (LlmScriptTaskBase & {
+      kind: 'script';
+      minWords: number;
+      maxWords: number;
+      /** Longer episodes may grow sections past their maximum */
+      sectionsMayGrow: boolean;
+    })
+  | (LlmScriptTaskBase & { kind: 'outline'; segmentCount: number })
+  | (LlmScriptTaskBase & {
+      kind: 'segment';
+      /** Sections of this segment, in order */
+      segmentSections: string[];
+      firstLineIndex: number;
+      minWords: number;
+      maxWords: number;
+    })
+  | { kind: 'judge'; lines: LlmTaskLine[] }
+  | { kind: 'rewrite'; lines: LlmTaskLine[] };
+
+export interface LlmCompletionRequest {
+  messages: LlmMessage[];
+  temperature: number;
+  maxTokens: number;
+  topP: number;
+  /** What the messages ask for */
+  task?: LlmTask;
+}
+
+export interface LlmCompletion {
+  /** Text content of the first choice */
+  content: string;
+  /** Model that produced the reply (as reported by the API when available) */
+  model: string;
+}
+
+export interface LlmProvider {
+  /** Provider identifier recorded in script metadata */
+  name: LlmProviderName;
+  /** Human-readable name used in errors and logs */
+  label: string;
+  /** Model requested from the provider */
+  model: string;
+  /** Runs a chat completion */
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
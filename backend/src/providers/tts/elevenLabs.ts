@@ -0,0 +1,98 @@
+import { promises as fs } from 'fs';
+import https from 'https';
+import fetch from 'node-fetch';
+import type { EnvConfig } from '../../config/env.js';
+import { TtsProvider, TtsApiError, parseRetryAfter } from './provider.js';
+
+/**
+ * ElevenLabs TTS Provider
+ * 
+ * Hosts bring their own ElevenLabs voice IDs; the premade voices below are
+ * handed out to hosts without one.
+ */
+
+// Create an HTTPS agent that handles SSL certificates properly
+const httpsAgent = new https.Agent({
+  rejectUnauthorized: process.env.NODE_ENV === 'production',
+});
+
+/** Models that read SSML phoneme tags (eleven_multilingual_v2 does not) */
+const PHONEME_MODELS = ['eleven_flash_v2', 'eleven_turbo_v2', 'eleven_monolingual_v1'];
+
+/** Voices of the built-in hosts, then the premade Rachel and Adam voices */
+const DEFAULT_VOICES = [
+  '7wlfJf72PCt9FjPj0Beg',
+  'QZlSvAAnrDxLbn7n3NqM',
+  '21m00Tcm4TlvDq8ikWAM',
+  'pNInz6obpgDQGcFmaJgB',
+];
+
+interface ElevenLabsVoiceSettings {
+  stability: number;
+  similarity_boost: number;
+  style?: number;
+  use_speaker_boost?: boolean;
+}
+
+interface ElevenLabsRequest {
+  text: string;
+  model_id: string;
+  voice_settings: ElevenLabsVoiceSettings;
+}
+
+/**
+ * Creates the ElevenLabs provider
+ */
+export function createElevenLabsProvider(config: EnvConfig): TtsProvider {
+  return {
+    name: 'elevenlabs',
+    model: config.elevenLabsModel,
+    defaultVoices: DEFAULT_VOICES,
+    supportsPhonemes: PHONEME_MODELS.includes(config.elevenLabsModel),
+    
+    async synthesize(text: string, voiceId: string, outputPath: string): Promise<void> {
+      const apiUrl = `${config.elevenLabsApiUrl}/text-to-speech/${voiceId}`;
+      
+      const request: ElevenLabsRequest = {
+        text,
+        model_id: config.elevenLabsModel,
+        voice_settings: {
+          stability: 0.75,
+          similarity_boost: 0.75,
+          style: 0,
+          use_speaker_boost: true,
+        },
+      };
+      
+      try {
+        const response = await fetch(apiUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'xi-api-key': config.elevenLabsApiKey,
+          },
+          body: JSON.stringify(request),
+          agent: httpsAgent,
+        });
+        
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new TtsApiError(
+            `ElevenLabs API error: ${response.status} ${response.statusText} - ${errorText}`,
+            response.status,
+            parseRetryAfter(response.headers?.get('retry-after'))
+          );
+        }
+        
+        // Save audio to file
+        const arrayBuffer = await response.arrayBuffer();
+        await fs.writeFile(outputPath, Buffer.from(arrayBuffer));
+      } catch (error) {
+        if (error instanceof Error) {
+          throw error;
+        }
+        throw new Error('Unknown error calling ElevenLabs API');
+      }
+    },
+  };
+}
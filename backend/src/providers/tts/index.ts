@@ -0,0 +1,64 @@
+import { getConfig, EnvConfig } from '../../config/env.js';
+import type { HostProfile, SpeakerName, TtsProviderName, VoiceMapping } from '../../types/index.js';
+import type { TtsProvider } from './provider.js';
+import { createElevenLabsProvider } from './elevenLabs.js';
+import { createOpenAiProvider } from './openai.js';
+import { createLocalProvider } from './local.js';
+
+/**
+ * TTS Provider Registry
+ * 
+ * Resolves the configured provider and the voice each speaker uses with it.
+ */
+
+export type { TtsProvider } from './provider.js';
+export { TtsApiError } from './provider.js';
+
+const PROVIDER_FACTORIES: Record<TtsProviderName, (config: EnvConfig) => TtsProvider> = {
+  elevenlabs: createElevenLabsProvider,
+  openai: createOpenAiProvider,
+  local: createLocalProvider,
+};
+
+/**
+ * Gets the TTS provider selected by `TTS_PROVIDER`
+ */
+export function getTtsProvider(): TtsProvider {
+  const config = getConfig();
+  return PROVIDER_FACTORIES[config.ttsProvider](config);
+}
+
+/**
+ * Gets the voice a host uses with a provider
+ * 
+ * `TTS_VOICE_<HOST ID>` overrides the host's own voice for the provider;
+ * hosts without either get the provider's default voice for their
+ * position in the roster.
+ */
+export function resolveVoice(provider: TtsProvider, host: HostProfile, position: number): string {
+  const overrides = getConfig().ttsVoices;
+  return overrides[host.id]
+    ?? host.voices[provider.name]
+    ?? provider.defaultVoices[position % provider.defaultVoices.length];
+}
+
+/**
+ * Gets the provider and per-host voices used for synthesis
+ */
+export function getVoiceMapping(
+  hosts: HostProfile[],
+  provider: TtsProvider = getTtsProvider()
+): VoiceMapping {
+  const mapping: VoiceMapping = { provider: provider.name };
+  hosts.forEach((host, position) => {
+    mapping[host.name] = resolveVoice(provider, host, position);
+  });
+  return mapping;
+}
+
+/**
+ * Lists the speakers a voice mapping has voices for
+ */
+export function getMappedSpeakers(mapping: VoiceMapping): SpeakerName[] {
+  return Object.keys(mapping).filter(key => key !== 'provider');
+}
@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { spawn } from 'child_process';
+import type { EnvConfig } from '../../config/env.js';
+import { TtsProvider } from './provider.js';
+
+/**
+ * Local TTS Provider
+ * 
+ * Runs espeak-ng or piper as a subprocess so the pipeline works offline
+ * (CI, development). The engine writes WAV, which FFmpeg converts to the
+ * same MP3 format the hosted providers return.
+ */
+
+/** Default voices per engine (espeak-ng voice names, piper model names) */
+const DEFAULT_VOICES: Record<EnvConfig['localTtsEngine'], string[]> = {
+  'espeak-ng': ['en-us+f3', 'en-us+m3', 'en-us+f4', 'en-us+m7'],
+  piper: ['en_US-amy-medium', 'en_US-ryan-medium', 'en_US-lessac-medium', 'en_US-joe-medium'],
+};
+
+/**
+ * Runs a command, writing `input` to its stdin
+ * Rejects with the command's stderr if it exits with a non-zero code
+ */
+function runProcess(command: string, args: string[], input = ''): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'ignore', 'pipe'] });
+    let stderr = '';
+    
+    child.stderr?.on('data', (chunk) => {
+      stderr += chunk;
+    });
+    child.on('error', (error) => {
+      reject(new Error(`Failed to run ${command}: ${error.message}`));
+    });
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+    
+    child.stdin?.end(input);
+  });
+}
+
+/**
+ * Resolves a piper voice to its model file
+ * Absolute paths are used as-is; names are looked up in the model directory
+ */
+function resolvePiperModel(voice: string, modelDir: string): string {
+  if (path.isAbsolute(voice)) {
+    return voice;
+  }
+  return path.join(modelDir, voice.endsWith('.onnx') ? voice : `${voice}.onnx`);
+}
+
+/**
+ * Creates the local subprocess provider
+ */
+export function createLocalProvider(config: EnvConfig): TtsProvider {
+  const engine = config.localTtsEngine;
+  
+  return {
+    name: 'local',
+    model: engine,
+    defaultVoices: DEFAULT_VOICES[engine],
+    
+    async synthesize(text: string, voice: string, outputPath: string): Promise<void> {
+      const wavPath = outputPath.replace(/\.mp3$/, '') + '.wav';
+      
+      try {
+        // Text is passed on stdin so it is never parsed as command-line options
+        if (engine === 'piper') {
+          const model = resolvePiperModel(voice, config.piperModelDir);
+          await runProcess('piper', ['--model', model, '--output_file', wavPath], text);
+        } else {
+          await runProcess('espeak-ng', ['-v', voice, '-w', wavPath, '--stdin'], text);
+        }
+        
+        await runProcess('ffmpeg', [
+          '-y', '-loglevel', 'error',
+          '-i', wavPath,
+          '-codec:a', 'libmp3lame', '-b:a', '128k', '-ar', '44100', '-ac', '1',
+          outputPath,
+        ]);
+      } finally {
+        await fs.rm(wavPath, { force: true }).catch(() => undefined);
+      }
+    },
+  };
+}
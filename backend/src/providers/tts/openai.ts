@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import fetch from 'node-fetch';
+import type { EnvConfig } from '../../config/env.js';
+import { TtsProvider, TtsApiError, parseRetryAfter } from './provider.js';
+
+/**
+ * OpenAI-compatible TTS Provider
+ * 
+ * Calls `POST {baseUrl}/audio/speech`, which is implemented by OpenAI and by
+ * self-hosted servers that mirror its API. The API key is optional so local
+ * servers without authentication work.
+ */
+
+interface SpeechRequest {
+  model: string;
+  input: string;
+  voice: string;
+  response_format: 'mp3';
+}
+
+/**
+ * Creates the OpenAI-compatible provider
+ */
+export function createOpenAiProvider(config: EnvConfig): TtsProvider {
+  return {
+    name: 'openai',
+    model: config.openAiTtsModel,
+    defaultVoices: ['nova', 'onyx', 'shimmer', 'echo'],
+    
+    async synthesize(text: string, voice: string, outputPath: string): Promise<void> {
+      const request: SpeechRequest = {
+        model: config.openAiTtsModel,
+        input: text,
+        voice,
+        response_format: 'mp3',
+      };
+      
+      const response = await fetch(`${config.openAiTtsApiUrl}/audio/speech`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.openAiTtsApiKey && { Authorization: `Bearer ${config.openAiTtsApiKey}` }),
+        },
+        body: JSON.stringify(request),
+      });
+      
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new TtsApiError(
+          `OpenAI TTS API error: ${response.status} ${response.statusText} - ${errorText}`,
+          response.status,
+          parseRetryAfter(response.headers?.get('retry-after'))
+        );
+      }
+      
+      const arrayBuffer = await response.arrayBuffer();
+      await fs.writeFile(outputPath, Buffer.from(arrayBuffer));
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import type { TtsProviderName } from '../../types/index.js';
+
+/**
+ * TTS Provider Interface
+ * 
+ * A provider turns one line of text into an MP3 file using one of its voices.
+ * The pipeline resolves the active provider from config (`TTS_PROVIDER`).
+ */
+
+/** Upper bound for a server-requested Retry-After delay */
+const MAX_RETRY_AFTER_MS = 60000;
+
+export interface TtsProvider {
+  /** Provider identifier recorded in the podcast's voice mapping */
+  name: TtsProviderName;
+  /** Model or engine producing the audio (part of the audio cache key) */
+  model: string;
+  /** Voices handed out in roster order to hosts without one for this provider */
+  defaultVoices: string[];
+  /** Reads SSML phoneme tags in the text; other providers get lexicon respellings */
+  supportsPhonemes?: boolean;
+  /** Synthesizes text with the given voice and writes an MP3 to outputPath */
+  synthesize(text: string, voice: string, outputPath: string): Promise<void>;
+}
+
+/**
+ * Error returned by a TTS HTTP API, carrying what is needed to decide on a retry
+ */
+export class TtsApiError extends Error {
+  public readonly status: number;
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'TtsApiError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  
+  const seconds = Number(value);
+  const delayMs = Number.isFinite(seconds)
+    ? seconds * 1000
+    : Date.parse(value) - Date.now();
+  
+  if (!Number.isFinite(delayMs)) {
+    return undefined;
+  }
+  
+  return Math.min(Math.max(delayMs, 0), MAX_RETRY_AFTER_MS);
+}
@@ -0,0 +1,60 @@
+import { Router, Request, Response } from 'express';
+import { fetchArticle } from '../services/wikipedia.js';
+import { getSectionOutline } from '../services/articleParser.js';
+import { validateInput, validateLanguageOptions } from '../utils/validation.js';
+import { UnsupportedLanguageError, classifyGenerationError } from '../utils/errors.js';
+import { ArticleSectionsResponse, PodcastInputType } from '../types/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/article/sections?input=...&type=url|title&language=xx
+ * Preview an article's table of contents, so sections can be chosen for a podcast
+ */
+router.get('/sections', async (req: Request, res: Response) => {
+  const input = typeof req.query.input === 'string' ? req.query.input : '';
+  const type = typeof req.query.type === 'string' ? req.query.type as PodcastInputType : undefined;
+  const language = typeof req.query.language === 'string' ? req.query.language : undefined;
+
+  const validation = validateInput(input, type);
+  if (!validation.valid) {
+    res.status(400).json({
+      error: 'INVALID_INPUT',
+      message: validation.error || 'Invalid input',
+    });
+    return;
+  }
+
+  const languageValidation = validateLanguageOptions(input, validation.type, language);
+  if (languageValidation.unsupportedLanguage) {
+    const error = new UnsupportedLanguageError(languageValidation.unsupportedLanguage);
+    res.status(error.statusCode).json(error.toResponse());
+    return;
+  }
+  if (!languageValidation.valid) {
+    res.status(400).json({
+      error: 'INVALID_INPUT',
+      message: languageValidation.error || 'Invalid language',
+    });
+    return;
+  }
+
+  try {
+    const article = await fetchArticle(input, validation.type, language);
+
+    const response: ArticleSectionsResponse = {
+      title: article.title,
+      url: article.url,
+      language: article.language,
+      sections: getSectionOutline(article.sections),
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error loading article sections:', error);
+    const appError = classifyGenerationError(error);
+    res.status(appError.statusCode).json(appError.toResponse());
+  }
+});
+
+export default router;
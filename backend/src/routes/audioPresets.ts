@@ -0,0 +1,33 @@
+import { Router, Request, Response } from 'express';
+import { BUILT_IN_AUDIO_PRESETS, getAudioPreset } from '../config/audioPresets.js';
+
+const router = Router();
+
+/**
+ * GET /api/audio-presets
+ * List the ways an episode's audio can be produced
+ */
+router.get('/', (_req: Request, res: Response) => {
+  res.json({ presets: BUILT_IN_AUDIO_PRESETS });
+});
+
+/**
+ * GET /api/audio-presets/:id
+ * Get one audio preset
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const preset = getAudioPreset(id);
+  if (!preset) {
+    res.status(404).json({
+      error: 'AUDIO_PRESET_NOT_FOUND',
+      message: `Audio preset with id "${id}" not found`,
+    });
+    return;
+  }
+
+  res.json(preset);
+});
+
+export default router;
@@ -0,0 +1,60 @@
+import { Router, Request, Response } from 'express';
+import { getConfig } from '../config/env.js';
+import { getCacheStats, clearCache } from '../services/cache.js';
+import { CACHE_NAMESPACES, CacheNamespace } from '../types/index.js';
+
+const router = Router();
+
+/**
+ * The endpoints have no authentication, so they answer 404 unless
+ * CACHE_ADMIN_ENABLED is set
+ */
+router.use((_req, _res, next) => {
+  next(getConfig().cacheAdminEnabled ? undefined : 'router');
+});
+
+/**
+ * GET /api/admin/cache
+ * Inspect cache size per namespace and the configured limits
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    res.json(await getCacheStats());
+  } catch (error) {
+    console.error('Error reading cache stats:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to read cache',
+    });
+  }
+});
+
+/**
+ * DELETE /api/admin/cache?namespace=articles|scripts|audio
+ * Clear the whole cache, or a single namespace
+ */
+router.delete('/', async (req: Request, res: Response) => {
+  const { namespace } = req.query;
+  
+  if (namespace !== undefined && !CACHE_NAMESPACES.includes(namespace as CacheNamespace)) {
+    res.status(400).json({
+      error: 'INVALID_INPUT',
+      message: `Unknown cache namespace "${namespace}" (expected one of: ${CACHE_NAMESPACES.join(', ')})`,
+    });
+    return;
+  }
+  
+  try {
+    const result = await clearCache(namespace as CacheNamespace | undefined);
+    console.log(`Cache cleared${namespace ? ` (${namespace})` : ''}: ${result.removedEntries} entries`);
+    res.json(result);
+  } catch (error) {
+    console.error('Error clearing cache:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to clear cache',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,33 @@
+import { Router, Request, Response } from 'express';
+import { BUILT_IN_FORMATS, getFormat } from '../config/formats.js';
+
+const router = Router();
+
+/**
+ * GET /api/formats
+ * List the show formats an episode can be written in
+ */
+router.get('/', (_req: Request, res: Response) => {
+  res.json({ formats: BUILT_IN_FORMATS });
+});
+
+/**
+ * GET /api/formats/:id
+ * Get one show format with its sections
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const format = getFormat(id);
+  if (!format) {
+    res.status(404).json({
+      error: 'FORMAT_NOT_FOUND',
+      message: `Format with id "${id}" not found`,
+    });
+    return;
+  }
+
+  res.json(format);
+});
+
+export default router;
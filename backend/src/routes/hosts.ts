@@ -0,0 +1,110 @@
+import { Router, Request, Response } from 'express';
+import { listHosts, getHost, saveHost, deleteHost, isBuiltInHost } from '../services/hosts.js';
+import { validateHostProfile, isValidHostId } from '../utils/validation.js';
+
+const router = Router();
+
+/**
+ * GET /api/hosts
+ * List the hosts that can be chosen for an episode
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    res.json({ hosts: await listHosts() });
+  } catch (error) {
+    console.error('Error listing hosts:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to list hosts',
+    });
+  }
+});
+
+/**
+ * GET /api/hosts/:id
+ * Get one host profile
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const host = isValidHostId(id) ? await getHost(id) : null;
+    if (!host) {
+      res.status(404).json({
+        error: 'HOST_NOT_FOUND',
+        message: `Host with id "${id}" not found`,
+      });
+      return;
+    }
+
+    res.json(host);
+  } catch (error) {
+    console.error('Error loading host:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to load host',
+    });
+  }
+});
+
+/**
+ * PUT /api/hosts/:id
+ * Create or replace a host profile; replacing a built-in host overrides it
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const validation = validateHostProfile(id, req.body);
+  if (!validation.host) {
+    res.status(400).json({
+      error: 'INVALID_INPUT',
+      message: validation.error || 'Invalid host profile',
+    });
+    return;
+  }
+
+  try {
+    const existing = await getHost(id);
+    await saveHost(validation.host);
+    console.log(`Host ${existing ? 'updated' : 'created'}: ${id}`);
+    res.status(existing ? 200 : 201).json(validation.host);
+  } catch (error) {
+    console.error('Error saving host:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to save host',
+    });
+  }
+});
+
+/**
+ * DELETE /api/hosts/:id
+ * Delete a stored host profile; a built-in host falls back to its defaults
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const deleted = isValidHostId(id) && await deleteHost(id);
+    if (!deleted) {
+      res.status(404).json({
+        error: 'HOST_NOT_FOUND',
+        message: isBuiltInHost(id)
+          ? `Host "${id}" is built in and has no stored profile to delete`
+          : `Host with id "${id}" not found`,
+      });
+      return;
+    }
+
+    console.log(`Host deleted: ${id}`);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting host:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to delete host',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,38 @@
+import { Router, Request, Response } from 'express';
+import { getJob, getQueuePosition } from '../services/jobQueue.js';
+
+const router = Router();
+
+/**
+ * GET /api/jobs/:id
+ * Get the status of a podcast generation job
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const job = await getJob(id);
+    if (!job) {
+      res.status(404).json({
+        error: 'JOB_NOT_FOUND',
+        message: `Job with id "${id}" not found`,
+      });
+      return;
+    }
+
+    const queuePosition = job.status === 'queued' ? getQueuePosition(job.id) : null;
+
+    res.json({
+      ...job,
+      ...(queuePosition !== null && { queuePosition }),
+    });
+  } catch (error) {
+    console.error('Error loading job:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to load job status',
+    });
+  }
+});
+
+export default router;
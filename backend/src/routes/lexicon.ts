@@ -0,0 +1,210 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  loadLexicon,
+  saveLexiconEntry,
+  deleteLexiconEntry,
+  resolveLexicon,
+} from '../services/lexicon.js';
+import { synthesizePreview } from '../services/tts.js';
+import { getHost } from '../services/hosts.js';
+import { getTtsProvider } from '../providers/tts/index.js';
+import { DEFAULT_HOST_IDS } from '../config/hosts.js';
+import { loadScript } from '../utils/fileManager.js';
+import { validatePronunciationEntry, isValidPodcastId } from '../utils/validation.js';
+import { AppError, ServiceUnavailableError } from '../utils/errors.js';
+import { MAX_LEXICON_TEXT_LENGTH } from '../types/index.js';
+
+/**
+ * Pronunciation lexicon routes
+ *
+ * Mounted at /api/lexicon for the global lexicon and at
+ * /api/podcast/:id/lexicon for an episode's own.
+ */
+const router = Router({ mergeParams: true });
+
+/**
+ * The episode a request is about, or undefined for the global lexicon
+ */
+function getPodcastId(req: Request): string | undefined {
+  return (req.params as { id?: string }).id;
+}
+
+/**
+ * Episode lexicons belong to a podcast (or a script awaiting its voices)
+ */
+router.use(async (req: Request, res: Response, next: NextFunction) => {
+  const podcastId = getPodcastId(req);
+  if (podcastId === undefined) {
+    next();
+    return;
+  }
+
+  try {
+    if (!isValidPodcastId(podcastId) || !(await loadScript(podcastId))) {
+      res.status(404).json({
+        error: 'PODCAST_NOT_FOUND',
+        message: `Podcast with id "${podcastId}" not found`,
+      });
+      return;
+    }
+    next();
+  } catch (error) {
+    console.error('Error loading podcast for its lexicon:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to load podcast',
+    });
+  }
+});
+
+/**
+ * GET /api/lexicon
+ * List the pronunciations of the lexicon
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    res.json({ entries: await loadLexicon(getPodcastId(req)) });
+  } catch (error) {
+    console.error('Error loading lexicon:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to load lexicon',
+    });
+  }
+});
+
+/**
+ * POST /api/lexicon/preview
+ * Synthesize a word or phrase to hear how it is pronounced
+ *
+ * Body: `text`, an optional `host` ID (default: Nishi), and optionally the
+ * `respelling` or `phoneme` to try. Without them the lexicon is applied:
+ * for an episode, the global lexicon overlaid with the episode's own.
+ * Responds with the MP3.
+ */
+router.post('/preview', async (req: Request, res: Response) => {
+  const { text, host: hostId = DEFAULT_HOST_IDS[0], respelling, phoneme } = req.body ?? {};
+
+  if (typeof text !== 'string' || !text.trim() || text.length > MAX_LEXICON_TEXT_LENGTH) {
+    res.status(400).json({
+      error: 'INVALID_INPUT',
+      message: `text must be a word or phrase of 1-${MAX_LEXICON_TEXT_LENGTH} characters`,
+    });
+    return;
+  }
+
+  const trial = respelling !== undefined || phoneme !== undefined
+    ? validatePronunciationEntry(text, { respelling, phoneme }, Boolean(getTtsProvider().supportsPhonemes))
+    : undefined;
+  if (trial && !trial.entry) {
+    res.status(400).json({
+      error: 'INVALID_INPUT',
+      message: trial.error || 'Invalid pronunciation',
+    });
+    return;
+  }
+
+  const outputPath = path.join(os.tmpdir(), `pronunciation-${uuidv4()}.mp3`);
+  try {
+    const host = typeof hostId === 'string' ? await getHost(hostId) : null;
+    if (!host) {
+      res.status(400).json({
+        error: 'INVALID_INPUT',
+        message: `Unknown host "${hostId}"`,
+      });
+      return;
+    }
+
+    const lexicon = trial?.entry ? [trial.entry] : await resolveLexicon(getPodcastId(req));
+
+    try {
+      await synthesizePreview(text.trim(), host, lexicon, outputPath);
+    } catch (error) {
+      console.error('Pronunciation preview failed:', error);
+      const unavailable = new ServiceUnavailableError('Text-to-speech');
+      res.status(unavailable.statusCode).json(unavailable.toResponse());
+      return;
+    }
+
+    const audio = await fs.readFile(outputPath);
+    res.set('Content-Type', 'audio/mpeg');
+    res.send(audio);
+  } catch (error) {
+    console.error('Error previewing pronunciation:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to preview pronunciation',
+    });
+  } finally {
+    await fs.rm(outputPath, { force: true }).catch(() => {});
+  }
+});
+
+/**
+ * PUT /api/lexicon/:term
+ * Add or replace how a term is pronounced (body: `respelling` and/or `phoneme`)
+ * A respelling is required unless the current voices read phonemes
+ */
+router.put('/:term', async (req: Request, res: Response) => {
+  const validation = validatePronunciationEntry(
+    req.params.term,
+    req.body,
+    Boolean(getTtsProvider().supportsPhonemes)
+  );
+  if (!validation.entry) {
+    res.status(400).json({
+      error: 'INVALID_INPUT',
+      message: validation.error || 'Invalid pronunciation',
+    });
+    return;
+  }
+
+  try {
+    const created = await saveLexiconEntry(validation.entry, getPodcastId(req));
+    console.log(`Pronunciation ${created ? 'added' : 'updated'}: ${validation.entry.term}`);
+    res.status(created ? 201 : 200).json(validation.entry);
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json(error.toResponse());
+      return;
+    }
+    console.error('Error saving pronunciation:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to save pronunciation',
+    });
+  }
+});
+
+/**
+ * DELETE /api/lexicon/:term
+ * Remove a term from the lexicon
+ */
+router.delete('/:term', async (req: Request, res: Response) => {
+  try {
+    const { term } = req.params;
+
+    if (!(await deleteLexiconEntry(term, getPodcastId(req)))) {
+      res.status(404).json({
+        error: 'TERM_NOT_FOUND',
+        message: `The lexicon has no pronunciation for "${term}"`,
+      });
+      return;
+    }
+
+    console.log(`Pronunciation removed: ${term}`);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error removing pronunciation:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to remove pronunciation',
+    });
+  }
+});
+
+export default router;
@@ -1,100 +1,251 @@
 import { Router, Request, Response } from 'express';
 import { promises as fs } from 'fs';
 import path from 'path';
-import { generatePodcast, loadPodcast, loadScript } from '../services/podcastOrchestrator.js';
-import { validateInput } from '../utils/validation.js';
-import { AppError } from '../utils/errors.js';
-import { GenerationStage } from '../types/index.js';
+import { loadPodcast, loadScript } from '../services/podcastOrchestrator.js';
+import { deletePodcast } from '../services/podcastLibrary.js';
+import {
+  submitJob,
+  subscribeToJob,
+  isJobFinished,
+  getJob,
+  canResumeJob,
+  resumeJob,
+} from '../services/jobQueue.js';
+import {
+  validateInput,
+  validateInputList,
+  validateLanguageOptions,
+  validateSections,
+  validateTargetMinutes,
+  validateHostIds,
+  validateFormat,
+  validateStopAfter,
+  validateLexiconEntries,
+  validateAudioPreset,
+  isValidPodcastId,
+  validateScriptLineEdits,
+} from '../utils/validation.js';
+import { resolveHosts } from '../services/hosts.js';
+import { importScript } from '../services/scriptImport.js';
+import { getScriptArticles } from '../services/scriptGenerator.js';
+import { fetchArticle, selectArticleSections } from '../services/wikipedia.js';
+import { getTtsProvider } from '../providers/tts/index.js';
+import { formatCaptions, CaptionFormat } from '../services/captions.js';
+import {
+  editScript,
+  isEditInProgress,
+  withEditLock,
+  listScriptRevisions,
+  loadScriptRevision,
+} from '../services/scriptEditor.js';
+import { AppError, UnsupportedLanguageError, classifyGenerationError } from '../utils/errors.js';
+import {
+  GenerationStage,
+  JobSubmissionResponse,
+  PodcastJob,
+  PodcastRequest,
+  Script,
+} from '../types/index.js';
 
 const router = Router();
 
+/**
+ * Validates a generation request body and builds the job request
+ * `input` is one URL or title, or a list of 2-5 for a multi-article episode
+ * `hosts` must name hosts on the roster, so unknown hosts fail before queueing;
+ * `format` must name a show format and `audioPreset` an audio preset;
+ * chosen `sections` must be headings of the article, which is fetched to check
+ * Throws AppError (INVALID_INPUT or UNSUPPORTED_LANGUAGE) for bad input, or the
+ * fetch error when the article cannot be read
+ */
+async function parsePodcastRequest(body: Record<string, unknown>): Promise<PodcastRequest> {
+  const {
+    input,
+    type,
+    language,
+    outputLanguage,
+    sections,
+    targetMinutes,
+    hosts,
+    format,
+    stopAfter,
+    lexicon,
+    audioPreset,
+  } = body;
+  
+  const listValidation = validateInputList(input);
+  if (!listValidation.valid) {
+    throw new AppError('INVALID_INPUT', listValidation.error || 'Invalid input', 400);
+  }
+  
+  const inputs = Array.isArray(input) ? input as string[] : [input as string];
+  for (const item of inputs) {
+    const validation = validateInput(item, type as PodcastRequest['type']);
+    if (!validation.valid) {
+      throw new AppError('INVALID_INPUT', validation.error || 'Invalid input', 400);
+    }
+    
+    const languageValidation = validateLanguageOptions(
+      item,
+      validation.type,
+      language,
+      outputLanguage
+    );
+    if (languageValidation.unsupportedLanguage) {
+      throw new UnsupportedLanguageError(languageValidation.unsupportedLanguage);
+    }
+    if (!languageValidation.valid) {
+      throw new AppError('INVALID_INPUT', languageValidation.error || 'Invalid language', 400);
+    }
+  }
+  
+  const sectionsValidation = validateSections(sections);
+  if (!sectionsValidation.valid) {
+    throw new AppError('INVALID_INPUT', sectionsValidation.error || 'Invalid sections', 400);
+  }
+  if (inputs.length > 1 && sectionsValidation.sections?.length) {
+    throw new AppError('INVALID_INPUT', 'sections can only be chosen for a single input', 400);
+  }
+  
+  const lengthValidation = validateTargetMinutes(targetMinutes);
+  if (!lengthValidation.valid) {
+    throw new AppError('INVALID_INPUT', lengthValidation.error || 'Invalid targetMinutes', 400);
+  }
+  
+  const hostsValidation = validateHostIds(hosts);
+  if (!hostsValidation.valid) {
+    throw new AppError('INVALID_INPUT', hostsValidation.error || 'Invalid hosts', 400);
+  }
+  if (hostsValidation.hosts) {
+    await resolveHosts(hostsValidation.hosts);
+  }
+  
+  const formatValidation = validateFormat(format);
+  if (!formatValidation.valid) {
+    throw new AppError('INVALID_INPUT', formatValidation.error || 'Invalid format', 400);
+  }
+  
+  const stopValidation = validateStopAfter(stopAfter);
+  if (!stopValidation.valid) {
+    throw new AppError('INVALID_INPUT', stopValidation.error || 'Invalid stopAfter', 400);
+  }
+  
+  const lexiconValidation = validateLexiconEntries(lexicon, Boolean(getTtsProvider().supportsPhonemes));
+  if (!lexiconValidation.valid) {
+    throw new AppError('INVALID_INPUT', lexiconValidation.error || 'Invalid lexicon', 400);
+  }
+  
+  const presetValidation = validateAudioPreset(audioPreset);
+  if (!presetValidation.valid) {
+    throw new AppError('INVALID_INPUT', presetValidation.error || 'Invalid audioPreset', 400);
+  }
+  
+  // A misspelled heading fails here rather than as a queued job
+  if (sectionsValidation.sections?.length) {
+    try {
+      const article = await fetchArticle(
+        input as string,
+        type as PodcastRequest['type'],
+        typeof language === 'string' ? language : undefined
+      );
+      selectArticleSections(article, sectionsValidation.sections);
+    } catch (error) {
+      throw classifyGenerationError(error);
+    }
+  }
+  
+  return {
+    input: Array.isArray(input) ? inputs : input as string,
+    type: type as PodcastRequest['type'],
+    ...(typeof language === 'string' && { language }),
+    ...(typeof outputLanguage === 'string' && { outputLanguage }),
+    ...(sectionsValidation.sections?.length && { sections: sectionsValidation.sections }),
+    ...(typeof targetMinutes === 'number' && { targetMinutes }),
+    ...(hostsValidation.hosts && { hosts: hostsValidation.hosts }),
+    ...(formatValidation.format && { format: formatValidation.format }),
+    ...(stopValidation.stopAfter && { stopAfter: stopValidation.stopAfter }),
+    ...(lexiconValidation.entries?.length && { lexicon: lexiconValidation.entries }),
+    ...(presetValidation.audioPreset && { audioPreset: presetValidation.audioPreset }),
+  };
+}
+
 /**
  * POST /api/podcast/stream
- * Generate a podcast with real-time progress updates via Server-Sent Events (SSE)
+ * Submit a generation job and stream its progress via Server-Sent Events (SSE)
+ * 
+ * The job keeps running if the client disconnects; progress can then be
+ * polled from GET /api/jobs/:id.
  */
 router.post('/stream', async (req: Request, res: Response) => {
   try {
-    const { input, type } = req.body;
-    
     // Validate input
-    const validation = validateInput(input, type);
-    if (!validation.valid) {
+    let podcastRequest: PodcastRequest;
+    try {
+      podcastRequest = await parsePodcastRequest(req.body);
+    } catch (validationError) {
+      if (!(validationError instanceof AppError)) throw validationError;
+      
       // Send error event for SSE
       res.setHeader('Content-Type', 'text/event-stream');
       res.setHeader('Cache-Control', 'no-cache');
       res.setHeader('Connection', 'keep-alive');
       
       res.write(`event: error\n`);
-      res.write(`data: ${JSON.stringify({ 
-        error: 'INVALID_INPUT', 
-        message: validation.error || 'Invalid input' 
-      })}\n\n`);
+      res.write(`data: ${JSON.stringify(validationError.toResponse())}\n\n`);
       res.end();
       return;
     }
     
+    const { input, type } = podcastRequest;
+    console.log(`Streaming podcast generation for: ${input} (type: ${type || 'auto'})`);
+    
+    const job = await submitJob(podcastRequest);
+    
     // Set SSE headers
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
     res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
     
-    console.log(`Streaming podcast generation for: ${input} (type: ${type || 'auto'})`);
+    res.write(`event: job\n`);
+    res.write(`data: ${JSON.stringify({ jobId: job.id, statusUrl: `/api/jobs/${job.id}` })}\n\n`);
     
-    // Progress callback to send SSE events
-    const onProgress = (stage: GenerationStage) => {
-      const progressEvent = {
-        stage: stage.name,
-        status: stage.status,
-        message: getStageMessage(stage),
-      };
-      
-      res.write(`event: progress\n`);
-      res.write(`data: ${JSON.stringify(progressEvent)}\n\n`);
+    const sendFinalEvent = (finished: PodcastJob) => {
+      if (finished.status === 'completed') {
+        res.write(`event: complete\n`);
+        res.write(`data: ${JSON.stringify(finished.result)}\n\n`);
+      } else {
+        res.write(`event: error\n`);
+        res.write(`data: ${JSON.stringify(finished.error)}\n\n`);
+      }
+      res.end();
     };
     
-    try {
-      // Generate podcast with progress tracking
-      const podcast = await generatePodcast(input, type, onProgress);
-      
-      // Send completion event
-      const completeEvent = {
-        id: podcast.id,
-        audioUrl: `/api/podcast/${podcast.id}/audio`,
-        scriptUrl: `/api/podcast/${podcast.id}/script`,
-        durationSeconds: podcast.durationSeconds,
-        article: {
-          title: podcast.articleTitle,
-          url: podcast.articleUrl,
-        },
-        speakers: ['Nishi', 'Shyam'],
-        createdAt: podcast.createdAt,
-      };
-      
-      res.write(`event: complete\n`);
-      res.write(`data: ${JSON.stringify(completeEvent)}\n\n`);
-      res.end();
-    } catch (error) {
-      // Send error event
-      let errorCode = 'GENERATION_FAILED';
-      let errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
-      if (error instanceof AppError) {
-        errorCode = error.code;
-        errorMessage = error.message;
-      } else if (error instanceof Error) {
-        if (error.message.includes('not found') || error.message.includes('Article not found')) {
-          errorCode = 'ARTICLE_NOT_FOUND';
-        } else if (error.message.includes('too short')) {
-          errorCode = 'ARTICLE_TOO_SHORT';
-        } else if (error.message.includes('Wikipedia') || error.message.includes('unavailable')) {
-          errorCode = 'SERVICE_UNAVAILABLE';
-        }
+    // Forward job updates as SSE events
+    const unsubscribe = subscribeToJob(job.id, (updated, stage) => {
+      if (stage) {
+        const progressEvent = {
+          stage: stage.name,
+          status: stage.status,
+          message: getStageMessage(stage),
+        };
+        
+        res.write(`event: progress\n`);
+        res.write(`data: ${JSON.stringify(progressEvent)}\n\n`);
       }
       
-      res.write(`event: error\n`);
-      res.write(`data: ${JSON.stringify({ error: errorCode, message: errorMessage })}\n\n`);
-      res.end();
+      if (isJobFinished(updated)) {
+        unsubscribe();
+        sendFinalEvent(updated);
+      }
+    });
+    
+    // Stop streaming on disconnect - the job itself keeps running
+    req.on('close', unsubscribe);
+    
+    if (isJobFinished(job)) {
+      unsubscribe();
+      sendFinalEvent(job);
     }
   } catch (error) {
     console.error('SSE endpoint error:', error);
@@ -137,40 +288,119 @@ function getStageMessage(stage: GenerationStage): string {
   return messages[stage.name]?.[stage.status] || `${stage.status}: ${stage.name}`;
 }
 
+/**
+ * Helper function to get the job input that names a script's source articles
+ */
+function toJobInput(script: Script): PodcastRequest['input'] {
+  const articles = getScriptArticles(script);
+  return articles.length > 1 ? articles.map(article => article.url) : script.articleUrl;
+}
+
 /**
  * POST /api/podcast
- * Generate a podcast from Wikipedia URL or title
+ * Submit a podcast generation job for a Wikipedia URL or title
+ * 
+ * Responds immediately with 202 and the job ID; poll GET /api/jobs/:id for progress.
+ * With `stopAfter: "generate_script"` the job ends once the script is written;
+ * voice it later with POST /api/podcast/:id/synthesize.
  */
 router.post('/', async (req: Request, res: Response) => {
   try {
-    const { input, type } = req.body;
-    
     // Validate input
-    const validation = validateInput(input, type);
-    if (!validation.valid) {
-      throw new AppError('INVALID_INPUT', validation.error || 'Invalid input', 400);
+    const podcastRequest = await parsePodcastRequest(req.body);
+    
+    const { input, type } = podcastRequest;
+    console.log(`Queueing podcast generation for: ${input} (type: ${type || 'auto'})`);
+    
+    const job = await submitJob(podcastRequest);
+    
+    const response: JobSubmissionResponse = {
+      jobId: job.id,
+      status: job.status,
+      statusUrl: `/api/jobs/${job.id}`,
+    };
+    
+    res.status(202).location(response.statusUrl).json(response);
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        error: error.code,
+        message: error.message,
+        details: error.details,
+      });
+    } else {
+      console.error('Job submission error:', error);
+      res.status(500).json({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to queue podcast generation',
+      });
+    }
+  }
+});
+
+/**
+ * POST /api/podcast/from-script
+ * Submit a job that voices a hand-written script, skipping the article fetch
+ * and script generation
+ * 
+ * `script` is a Script-shaped JSON document or "Speaker: line" text with
+ * "[section]" headers; text scripts also need the article's `title` (and
+ * optionally its `url`). `language`, `hosts`, `format` and `targetMinutes`
+ * override the document's own; `audioPreset` chooses how the audio is
+ * produced. The script is checked against the same rules as a generated one
+ * before the job is queued.
+ */
+router.post('/from-script', async (req: Request, res: Response) => {
+  try {
+    const { script: source, title, url, language, hosts, format, targetMinutes, audioPreset } = req.body;
+    
+    if (title !== undefined && typeof title !== 'string') {
+      throw new AppError('INVALID_INPUT', 'title must be a string', 400);
+    }
+    if (url !== undefined && typeof url !== 'string') {
+      throw new AppError('INVALID_INPUT', 'url must be a Wikipedia article URL', 400);
+    }
+    if (language !== undefined && typeof language !== 'string') {
+      throw new AppError('INVALID_INPUT', 'language must be a language code (e.g. "en", "hi")', 400);
+    }
+    const hostsValidation = validateHostIds(hosts);
+    if (!hostsValidation.valid) {
+      throw new AppError('INVALID_INPUT', hostsValidation.error || 'Invalid hosts', 400);
+    }
+    const formatValidation = validateFormat(format);
+    if (!formatValidation.valid) {
+      throw new AppError('INVALID_INPUT', formatValidation.error || 'Invalid format', 400);
+    }
+    const presetValidation = validateAudioPreset(audioPreset);
+    if (!presetValidation.valid) {
+      throw new AppError('INVALID_INPUT', presetValidation.error || 'Invalid audioPreset', 400);
     }
     
-    console.log(`Generating podcast for: ${input} (type: ${type || 'auto'})`);
+    const script = await importScript(source, {
+      ...(title !== undefined && { title }),
+      ...(url !== undefined && { url }),
+      ...(language !== undefined && { language }),
+      ...(hostsValidation.hosts && { hosts: hostsValidation.hosts }),
+      ...(formatValidation.format && { format: formatValidation.format }),
+      ...(targetMinutes !== undefined && { targetMinutes }),
+    });
     
-    // Generate podcast
-    const podcast = await generatePodcast(input, type);
+    console.log(`Queueing hand-written script ${script.id} (${script.lines.length} lines)`);
     
-    // Build response
-    const response = {
-      id: podcast.id,
-      audioUrl: `/api/podcast/${podcast.id}/audio`,
-      scriptUrl: `/api/podcast/${podcast.id}/script`,
-      durationSeconds: podcast.durationSeconds,
-      article: {
-        title: podcast.articleTitle,
-        url: podcast.articleUrl,
-      },
-      speakers: ['Nishi', 'Shyam'],
-      createdAt: podcast.createdAt,
+    const job = await submitJob({
+      input: toJobInput(script),
+      type: 'url',
+      script,
+      ...(presetValidation.audioPreset && { audioPreset: presetValidation.audioPreset }),
+    });
+    
+    const response: JobSubmissionResponse = {
+      jobId: job.id,
+      status: job.status,
+      statusUrl: `/api/jobs/${job.id}`,
     };
     
-    res.json(response);
+    res.status(202).location(response.statusUrl).json(response);
   } catch (error) {
     if (error instanceof AppError) {
       res.status(error.statusCode).json({
@@ -178,36 +408,133 @@ router.post('/', async (req: Request, res: Response) => {
         message: error.message,
         details: error.details,
       });
-    } else if (error instanceof Error) {
-      // Handle specific error types
-      if (error.message.includes('not found') || error.message.includes('Article not found')) {
-        res.status(404).json({
-          error: 'ARTICLE_NOT_FOUND',
-          message: error.message,
-        });
-      } else if (error.message.includes('too short')) {
-        res.status(400).json({
-          error: 'ARTICLE_TOO_SHORT',
-          message: error.message,
-        });
-      } else if (error.message.includes('Wikipedia') || error.message.includes('unavailable')) {
-        res.status(503).json({
-          error: 'SERVICE_UNAVAILABLE',
-          message: error.message,
-        });
-      } else {
-        console.error('Generation error:', error);
-        res.status(500).json({
-          error: 'GENERATION_FAILED',
-          message: error.message,
-        });
-      }
     } else {
+      console.error('Script submission error:', error);
       res.status(500).json({
         error: 'INTERNAL_ERROR',
-        message: 'An unknown error occurred',
+        message: 'Failed to queue the script',
+      });
+    }
+  }
+});
+
+/**
+ * POST /api/podcast/:id/resume
+ * Resume a failed generation job from its last completed stage
+ * 
+ * `:id` is the job ID returned by POST /api/podcast. Completed stages are
+ * skipped and audio segments already on disk are reused.
+ */
+router.post('/:id/resume', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    
+    const job = await getJob(id);
+    if (!job) {
+      res.status(404).json({
+        error: 'JOB_NOT_FOUND',
+        message: `Job with id "${id}" not found`,
       });
+      return;
+    }
+    
+    if (!(await canResumeJob(job))) {
+      res.status(409).json({
+        error: 'JOB_NOT_RESUMABLE',
+        message: job.status === 'failed'
+          ? 'No checkpoint is available for this job'
+          : `Only failed jobs can be resumed (current status: ${job.status})`,
+      });
+      return;
     }
+    
+    const resumed = await resumeJob(job);
+    
+    const response: JobSubmissionResponse = {
+      jobId: resumed.id,
+      status: resumed.status,
+      statusUrl: `/api/jobs/${resumed.id}`,
+    };
+    
+    res.status(202).location(response.statusUrl).json(response);
+  } catch (error) {
+    console.error('Error resuming job:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to resume podcast generation',
+    });
+  }
+});
+
+/**
+ * POST /api/podcast/:id/synthesize
+ * Submit a job that voices a stored script, skipping the article fetch and
+ * script generation
+ * 
+ * `:id` is the script ID, such as the result of a job that stopped after the
+ * script; an optional `audioPreset` chooses how the audio is produced.
+ * Responds with 202 and the job ID like POST /api/podcast.
+ */
+router.post('/:id/synthesize', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  
+  if (!isValidPodcastId(id)) {
+    res.status(400).json({
+      error: 'INVALID_INPUT',
+      message: `Invalid podcast id "${id}"`,
+    });
+    return;
+  }
+  
+  if (isEditInProgress(id)) {
+    res.status(409).json({
+      error: 'EDIT_IN_PROGRESS',
+      message: `The script of podcast "${id}" is being edited or voiced`,
+    });
+    return;
+  }
+  
+  const presetValidation = validateAudioPreset(req.body?.audioPreset);
+  if (!presetValidation.valid) {
+    res.status(400).json({
+      error: 'INVALID_INPUT',
+      message: presetValidation.error,
+    });
+    return;
+  }
+  
+  try {
+    const script: Script | null = await loadScript(id);
+    if (!script) {
+      res.status(404).json({
+        error: 'SCRIPT_NOT_FOUND',
+        message: `Script with id "${id}" not found`,
+      });
+      return;
+    }
+    
+    console.log(`Queueing synthesis of script ${id} (${script.lines.length} lines)`);
+    
+    const job = await submitJob({
+      input: toJobInput(script),
+      type: 'url',
+      script,
+      ...(presetValidation.audioPreset && { audioPreset: presetValidation.audioPreset }),
+    });
+    
+    const response: JobSubmissionResponse = {
+      jobId: job.id,
+      status: job.status,
+      statusUrl: `/api/jobs/${job.id}`,
+    };
+    
+    res.status(202).location(response.statusUrl).json(response);
+  } catch (error) {
+    console.error('Error queueing synthesis:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to queue synthesis',
+    });
   }
 });
 
@@ -235,13 +562,16 @@ router.get('/:id', async (req: Request, res: Response) => {
     const response = {
       id: podcast.id,
       article: {
-        title: podcast.articleTitle,
-        url: podcast.articleUrl,
+        title: podcast.articles[0].title,
+        url: podcast.articles[0].url,
       },
+      articles: podcast.articles.map(({ title, url }) => ({ title, url })),
       audio: {
         durationSeconds: podcast.durationSeconds,
         fileSizeBytes: stats.size,
         format: podcast.audioSpec.format,
+        preset: podcast.audioSpec.preset,
+        ...(podcast.lineTimings && { lineTimings: podcast.lineTimings }),
       },
       voiceMapping: podcast.voiceMapping,
       createdAt: podcast.createdAt,
@@ -257,6 +587,50 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * DELETE /api/podcast/:id
+ * Delete a podcast with its script, metadata, audio and segments
+ * Responds with 409 while its script is being edited or voiced
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    
+    if (!isValidPodcastId(id)) {
+      res.status(400).json({
+        error: 'INVALID_INPUT',
+        message: `Invalid podcast id "${id}"`,
+      });
+      return;
+    }
+    
+    if (isEditInProgress(id)) {
+      res.status(409).json({
+        error: 'EDIT_IN_PROGRESS',
+        message: `The script of podcast "${id}" is being edited or voiced`,
+      });
+      return;
+    }
+    
+    const deleted = await withEditLock(id, () => deletePodcast(id));
+    if (!deleted) {
+      res.status(404).json({
+        error: 'PODCAST_NOT_FOUND',
+        message: `Podcast with id "${id}" not found`,
+      });
+      return;
+    }
+    
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting podcast:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to delete podcast',
+    });
+  }
+});
+
 /**
  * GET /api/podcast/:id/audio
  * Download podcast audio file
@@ -289,10 +663,10 @@ router.get('/:id/audio', async (req: Request, res: Response) => {
     const stats = await fs.stat(podcast.audioFilePath);
     const filename = path.basename(podcast.audioFilePath);
     
-    // Set headers for audio download
+    // Set headers for audio download (attachment() encodes IDs in non-Latin scripts)
+    res.attachment(filename);
     res.setHeader('Content-Type', 'audio/mpeg');
     res.setHeader('Content-Length', stats.size);
-    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
     res.setHeader('Accept-Ranges', 'bytes');
     
     // Stream the file
@@ -334,5 +708,200 @@ router.get('/:id/script', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PUT /api/podcast/:id/script
+ * Replace the script's lines and re-voice the lines that changed
+ *
+ * Each line keeps the `index` of the line it replaces; new lines have none.
+ * Lines whose speaker and text are unchanged reuse their audio. The replaced
+ * script is kept as a revision.
+ */
+router.put('/:id/script', async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!isValidPodcastId(id)) {
+    res.status(400).json({
+      error: 'INVALID_INPUT',
+      message: `Invalid podcast id "${id}"`,
+    });
+    return;
+  }
+
+  const validation = validateScriptLineEdits(req.body?.lines);
+  if (!validation.lines) {
+    res.status(400).json({
+      error: 'INVALID_INPUT',
+      message: validation.error || 'Invalid script lines',
+    });
+    return;
+  }
+
+  if (isEditInProgress(id)) {
+    res.status(409).json({
+      error: 'EDIT_IN_PROGRESS',
+      message: `The script of podcast "${id}" is already being edited or voiced`,
+    });
+    return;
+  }
+
+  try {
+    const result = await editScript(id, validation.lines);
+    if (!result) {
+      res.status(404).json({
+        error: 'PODCAST_NOT_FOUND',
+        message: `Podcast with id "${id}" not found`,
+      });
+      return;
+    }
+
+    res.json({
+      script: result.script,
+      revision: result.script.revision ?? 1,
+      resynthesizedLines: result.resynthesizedLines,
+      audio: {
+        durationSeconds: result.podcast.durationSeconds,
+        ...(result.podcast.lineTimings && { lineTimings: result.podcast.lineTimings }),
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        error: error.code,
+        message: error.message,
+        details: error.details,
+      });
+    } else {
+      console.error('Error editing script:', error);
+      res.status(500).json({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to edit script',
+      });
+    }
+  }
+});
+
+/**
+ * GET /api/podcast/:id/script/revisions
+ * List the revisions of the script, oldest first
+ */
+router.get('/:id/script/revisions', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const revisions = isValidPodcastId(id) ? await listScriptRevisions(id) : null;
+    if (!revisions) {
+      res.status(404).json({
+        error: 'PODCAST_NOT_FOUND',
+        message: `Podcast with id "${id}" not found`,
+      });
+      return;
+    }
+
+    res.json(revisions);
+  } catch (error) {
+    console.error('Error listing script revisions:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to list script revisions',
+    });
+  }
+});
+
+/**
+ * GET /api/podcast/:id/script/revisions/:revision
+ * Get one revision of the script
+ */
+router.get('/:id/script/revisions/:revision', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const revision = Number(req.params.revision);
+
+    const script = isValidPodcastId(id) && Number.isInteger(revision) && revision >= 1
+      ? await loadScriptRevision(id, revision)
+      : null;
+    if (!script) {
+      res.status(404).json({
+        error: 'REVISION_NOT_FOUND',
+        message: `Revision ${req.params.revision} of podcast "${id}" not found`,
+      });
+      return;
+    }
+
+    res.json(script);
+  } catch (error) {
+    console.error('Error loading script revision:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to load script revision',
+    });
+  }
+});
+
+/** Response content type of each caption format */
+const CAPTION_CONTENT_TYPES: Record<CaptionFormat, string> = {
+  vtt: 'text/vtt; charset=utf-8',
+  srt: 'application/x-subrip; charset=utf-8',
+};
+
+/**
+ * Serves a podcast's captions in the given format
+ * Podcasts made before line timings were recorded have no captions
+ */
+function serveCaptions(format: CaptionFormat) {
+  return async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const podcast = await loadPodcast(id);
+      if (!podcast) {
+        res.status(404).json({
+          error: 'PODCAST_NOT_FOUND',
+          message: `Podcast with id "${id}" not found`,
+        });
+        return;
+      }
+
+      if (!podcast.lineTimings) {
+        res.status(404).json({
+          error: 'CAPTIONS_NOT_AVAILABLE',
+          message: 'This podcast was made before line timings were recorded',
+        });
+        return;
+      }
+
+      const script = await loadScript(podcast.scriptId);
+      if (!script) {
+        res.status(404).json({
+          error: 'SCRIPT_NOT_FOUND',
+          message: `Script with id "${podcast.scriptId}" not found`,
+        });
+        return;
+      }
+
+      res.attachment(`${podcast.id}.${format}`);
+      res.setHeader('Content-Type', CAPTION_CONTENT_TYPES[format]);
+      res.send(formatCaptions(script, podcast.lineTimings, format));
+    } catch (error) {
+      console.error('Error building captions:', error);
+      res.status(500).json({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to build captions',
+      });
+    }
+  };
+}
+
+/**
+ * GET /api/podcast/:id/captions.vtt
+ * Get WebVTT captions with speaker labels
+ */
+router.get('/:id/captions.vtt', serveCaptions('vtt'));
+
+/**
+ * GET /api/podcast/:id/captions.srt
+ * Get SRT captions with speaker labels
+ */
+router.get('/:id/captions.srt', serveCaptions('srt'));
+
 export default router;
 
@@ -0,0 +1,39 @@
+import { Router, Request, Response } from 'express';
+import { listLibrary } from '../services/podcastLibrary.js';
+import { validatePodcastListQuery } from '../utils/validation.js';
+
+const router = Router();
+
+/**
+ * GET /api/podcasts
+ * List generated podcasts
+ *
+ * Query parameters:
+ * - page: 1-based page number (default 1)
+ * - pageSize: podcasts per page (default 20, max 100)
+ * - sort: "createdAt" or "duration" (default "createdAt")
+ * - order: "asc" or "desc" (default "desc")
+ * - title: case-insensitive article title substring
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const validation = validatePodcastListQuery(req.query);
+    if (!validation.valid) {
+      res.status(400).json({
+        error: 'INVALID_INPUT',
+        message: validation.error,
+      });
+      return;
+    }
+
+    res.json(await listLibrary(validation.query));
+  } catch (error) {
+    console.error('Error listing podcasts:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Failed to list podcasts',
+    });
+  }
+});
+
+export default router;
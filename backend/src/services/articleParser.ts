@@ -0,0 +1,369 @@
+import type { ArticleBlock, ArticleSection, ArticleSectionOutline } from '../types/index.js';
+import { parseHtml, getClassList, HtmlElement, HtmlNode } from '../utils/html.js';
+
+/**
+ * Article Parser
+ *
+ * Turns Parsoid HTML (from /page/html) into a tree of sections made of
+ * paragraphs and lists. Parsoid wraps every section in a <section> element
+ * whose first child is its heading; plain HTML with bare <h2>..<h6> headings
+ * is handled too.
+ *
+ * Dropped content: references and citation markers, infoboxes, hatnotes,
+ * navboxes, tables, figures, maintenance templates and reference-style
+ * sections such as "See also" or "External links".
+ */
+
+/** Bump when parsing changes, so cached articles are parsed again */
+export const ARTICLE_PARSER_VERSION = '2';
+
+/** Title given to the lead section, which has no heading */
+export const LEAD_SECTION_TITLE = 'Introduction';
+
+const DROPPED_TAGS = new Set([
+  'table', 'figure', 'figcaption', 'img', 'audio', 'video', 'math',
+  'style', 'script', 'link', 'meta', 'noscript', 'head', 'h1',
+]);
+
+const DROPPED_CLASSES = new Set([
+  'infobox', 'hatnote', 'navbox', 'vertical-navbox', 'sidebar', 'metadata',
+  'ambox', 'mbox-small', 'shortdescription', 'reflist', 'references',
+  'mw-references', 'mw-references-wrap', 'reference', 'mw-ref', 'noprint',
+  'thumb', 'toc', 'mw-empty-elt', 'portalbox', 'sistersitebox', 'mw-editsection',
+  'navigation-not-searchable',
+]);
+
+const DROPPED_ROLES = new Set(['note', 'navigation']);
+
+/**
+ * Headings of sections that only point elsewhere (English Wikipedia names)
+ */
+const DROPPED_SECTION_TITLES = new Set([
+  'references', 'notes', 'see also', 'external links', 'further reading',
+  'bibliography', 'sources', 'citations', 'footnotes', 'notes and references',
+  'works cited', 'general and cited sources',
+]);
+
+const HEADING_TAGS = new Set(['h2', 'h3', 'h4', 'h5', 'h6']);
+const LIST_TAGS = new Set(['ul', 'ol', 'dl']);
+
+/**
+ * Elements that end a run of inline content
+ */
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'blockquote', 'pre', 'center', 'body', 'html', 'main',
+  'article', 'header', 'footer', 'aside', 'nav', 'hr', 'li', 'dt', 'dd',
+  ...HEADING_TAGS, ...LIST_TAGS,
+]);
+
+function isDropped(element: HtmlElement): boolean {
+  if (DROPPED_TAGS.has(element.tag)) {
+    return true;
+  }
+  if (DROPPED_ROLES.has(element.attributes.role ?? '')) {
+    return true;
+  }
+  if ((element.attributes.typeof ?? '').includes('mw:Extension/ref')) {
+    return true;
+  }
+  return getClassList(element).some(name => DROPPED_CLASSES.has(name));
+}
+
+/**
+ * Collapses whitespace and removes leftover citation markers like [1]
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/\[\d+\]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Concatenates the text of a node, skipping dropped elements
+ */
+function collectText(node: HtmlNode, skipTags: Set<string> = new Set()): string {
+  if (node.type === 'text') {
+    return node.text;
+  }
+  if (isDropped(node) || skipTags.has(node.tag)) {
+    return '';
+  }
+  if (node.tag === 'br') {
+    return ' ';
+  }
+
+  const text = node.children.map(child => collectText(child, skipTags)).join('');
+  // Keep block children from running into each other
+  return BLOCK_TAGS.has(node.tag) ? ` ${text} ` : text;
+}
+
+/**
+ * Collects list items; items of nested lists follow their parent item
+ */
+function collectListItems(list: HtmlElement, items: string[]): void {
+  for (const child of list.children) {
+    if (child.type !== 'element' || isDropped(child)) {
+      continue;
+    }
+    if (child.tag === 'li' || child.tag === 'dt' || child.tag === 'dd') {
+      const text = normalizeText(collectText(child, LIST_TAGS));
+      if (text) {
+        items.push(text);
+      }
+      for (const nested of child.children) {
+        if (nested.type === 'element' && LIST_TAGS.has(nested.tag) && !isDropped(nested)) {
+          collectListItems(nested, items);
+        }
+      }
+    } else if (LIST_TAGS.has(child.tag)) {
+      collectListItems(child, items);
+    }
+  }
+}
+
+function createSection(title: string, level: number, anchor: string): ArticleSection {
+  return { title, level, anchor, blocks: [], subsections: [] };
+}
+
+/**
+ * Finds the heading that opens a <section>, also when it is wrapped in a
+ * <div class="mw-heading">
+ */
+function findSectionHeading(section: HtmlElement): HtmlElement | undefined {
+  const first = section.children.find(
+    (child): child is HtmlElement => child.type === 'element'
+  );
+  if (!first) {
+    return undefined;
+  }
+  if (HEADING_TAGS.has(first.tag)) {
+    return first;
+  }
+  return getClassList(first).includes('mw-heading') ? findSectionHeading(first) : undefined;
+}
+
+function getHeadingLevel(heading: HtmlElement): number {
+  return Number(heading.tag[1]);
+}
+
+/**
+ * Walks the document and builds the section tree
+ *
+ * Sections are kept on a stack; a heading closes every open section of the
+ * same or a deeper level. Content is added to the section on top of the stack.
+ */
+function buildSectionTree(document: HtmlElement): ArticleSection[] {
+  const root = createSection('', 1, '');
+  const stack: ArticleSection[] = [root];
+  // Number of dropped sections on the stack; their content is discarded
+  let droppedDepth = 0;
+  let pendingInline: string[] = [];
+
+  const top = () => stack[stack.length - 1];
+
+  const addBlock = (block: ArticleBlock) => {
+    if (block.type === 'list' && block.items.length === 0) {
+      return;
+    }
+    top().blocks.push(block);
+  };
+
+  const addParagraph = (text: string) => {
+    const normalized = normalizeText(text);
+    if (normalized) {
+      addBlock({ type: 'paragraph', text: normalized });
+    }
+  };
+
+  const flushInline = () => {
+    if (pendingInline.length > 0) {
+      const text = pendingInline.join('');
+      pendingInline = [];
+      addParagraph(text);
+    }
+  };
+
+  const openSection = (section: ArticleSection) => {
+    // Once a section is dropped, so are all of its subsections
+    if (droppedDepth > 0 || DROPPED_SECTION_TITLES.has(section.title.toLowerCase())) {
+      droppedDepth++;
+    } else {
+      top().subsections.push(section);
+    }
+    stack.push(section);
+  };
+
+  const closeSection = () => {
+    flushInline();
+    stack.pop();
+    if (droppedDepth > 0) {
+      droppedDepth--;
+    }
+  };
+
+  const closeSectionsFrom = (level: number) => {
+    while (stack.length > 1 && top().level >= level) {
+      closeSection();
+    }
+  };
+
+  const openHeading = (heading: HtmlElement) => {
+    const level = getHeadingLevel(heading);
+    const title = normalizeText(collectText(heading));
+    const anchor = heading.attributes.id ?? title.replace(/ /g, '_');
+
+    closeSectionsFrom(level);
+    openSection(createSection(title, level, anchor));
+  };
+
+  const walk = (element: HtmlElement) => {
+    for (const child of element.children) {
+      if (child.type === 'text') {
+        pendingInline.push(child.text);
+        continue;
+      }
+      if (isDropped(child)) {
+        continue;
+      }
+      if (!BLOCK_TAGS.has(child.tag)) {
+        pendingInline.push(collectText(child));
+        continue;
+      }
+
+      flushInline();
+
+      if (child.tag === 'section') {
+        walkSection(child);
+      } else if (HEADING_TAGS.has(child.tag)) {
+        openHeading(child);
+      } else if (child.tag === 'p' || child.tag === 'pre') {
+        addParagraph(collectText(child));
+      } else if (LIST_TAGS.has(child.tag)) {
+        const items: string[] = [];
+        collectListItems(child, items);
+        addBlock({ type: 'list', ordered: child.tag === 'ol', items });
+      } else {
+        walk(child);
+      }
+    }
+    flushInline();
+  };
+
+  // A Parsoid <section> ends its heading's section, along with any subsections
+  const walkSection = (section: HtmlElement) => {
+    const heading = findSectionHeading(section);
+    if (heading) {
+      closeSectionsFrom(getHeadingLevel(heading));
+    }
+
+    const depth = stack.length;
+    walk(section);
+    while (stack.length > depth) {
+      closeSection();
+    }
+  };
+
+  openSection(createSection(LEAD_SECTION_TITLE, 2, ''));
+  walk(document);
+  flushInline();
+
+  return pruneEmptySections(root.subsections);
+}
+
+/**
+ * Removes sections without content, keeping ones that have non-empty subsections
+ */
+function pruneEmptySections(sections: ArticleSection[]): ArticleSection[] {
+  return sections
+    .map(section => ({ ...section, subsections: pruneEmptySections(section.subsections) }))
+    .filter(section => section.blocks.length > 0 || section.subsections.length > 0);
+}
+
+/**
+ * Parses article HTML into its top-level sections, starting with the lead
+ */
+export function parseArticleSections(html: string): ArticleSection[] {
+  return buildSectionTree(parseHtml(html));
+}
+
+/**
+ * Renders sections as plain text with Markdown-style headings
+ */
+export function sectionsToText(sections: ArticleSection[]): string {
+  const parts: string[] = [];
+
+  const render = (section: ArticleSection) => {
+    if (section.anchor) {
+      parts.push(`${'#'.repeat(section.level)} ${section.title}`);
+    }
+    for (const block of section.blocks) {
+      parts.push(block.type === 'paragraph'
+        ? block.text
+        : block.items.map(item => `- ${item}`).join('\n'));
+    }
+    section.subsections.forEach(render);
+  };
+
+  sections.forEach(render);
+  return parts.join('\n\n');
+}
+
+function matchesSectionName(section: ArticleSection, name: string): boolean {
+  const needle = name.trim().toLowerCase();
+  return section.title.toLowerCase() === needle || section.anchor.toLowerCase() === needle;
+}
+
+/**
+ * Picks sections by heading or anchor (case-insensitive), anywhere in the tree
+ *
+ * A chosen section keeps its subsections. Results are in page order;
+ * names that match no section are returned as missing.
+ */
+export function selectSections(
+  sections: ArticleSection[],
+  names: string[]
+): { selected: ArticleSection[]; missing: string[] } {
+  const selected: ArticleSection[] = [];
+  const found = new Set<string>();
+
+  const visit = (section: ArticleSection) => {
+    const matches = names.filter(name => matchesSectionName(section, name));
+    if (matches.length > 0) {
+      matches.forEach(name => found.add(name));
+      selected.push(section);
+      return;
+    }
+    section.subsections.forEach(visit);
+  };
+
+  sections.forEach(visit);
+
+  return { selected, missing: names.filter(name => !found.has(name)) };
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Summarizes sections as a table of contents with word counts
+ * A section's word count includes its subsections
+ */
+export function getSectionOutline(sections: ArticleSection[]): ArticleSectionOutline[] {
+  return sections.map(section => {
+    const subsections = getSectionOutline(section.subsections);
+    const ownWords = section.blocks.reduce(
+      (total, block) => total + countWords(block.type === 'paragraph' ? block.text : block.items.join(' ')),
+      0
+    );
+
+    return {
+      title: section.title,
+      level: section.level,
+      anchor: section.anchor,
+      wordCount: ownWords + subsections.reduce((total, sub) => total + sub.wordCount, 0),
+      subsections,
+    };
+  });
+}
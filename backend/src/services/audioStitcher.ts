@@ -2,17 +2,70 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { AudioSegment } from '../types/index.js';
+import { AudioSegment, AudioPreset, LineTiming, ScriptSections } from '../types/index.js';
 import { getConfig } from '../config/env.js';
+import { resolveAudioPreset, getGeneratedSound } from '../config/audioPresets.js';
 
 const execAsync = promisify(exec);
 
+/**
+ * The stitched episode audio
+ */
+export interface StitchResult {
+  filePath: string;
+  durationSeconds: number;
+  fileSizeBytes: number;
+  /** Where each line is heard in the stitched audio */
+  lineTimings: LineTiming[];
+}
+
+/**
+ * How the segments are produced into the episode
+ */
+export interface StitchOptions {
+  /** Production preset (default: plain) */
+  preset?: AudioPreset;
+  /** Lines of each script section, for stingers between sections */
+  sections?: ScriptSections;
+}
+
 /**
  * Audio Stitcher Service
  * 
  * Concatenates audio segments using FFmpeg and applies normalization.
- * Outputs final MP3 file at 128kbps.
+ * Presets with jingles, a music bed, turn transitions or stingers are mixed
+ * in one FFmpeg filter graph instead. Outputs final MP3 file at 128kbps.
+ */
+
+/** Loudness normalization applied to every episode */
+const LOUDNORM_FILTER = 'loudnorm=I=-16:TP=-1.5:LRA=11';
+
+/** Format every input is converted to before mixing */
+const MIX_FORMAT = 'aformat=sample_fmts=fltp:sample_rates=44100:channel_layouts=mono';
+
+/** Shortest crossfade worth doing; shorter ones join the lines back to back */
+const MIN_CROSSFADE_MS = 10;
+
+/**
+ * Audio around and between the lines of a produced episode, in milliseconds
  */
+interface TimelineLayout {
+  /** Before the first line (the intro) */
+  leadMs: number;
+  /** Between each line and the next: silence or a stinger, negative for an overlap */
+  joinsMs: number[];
+  /** After the last line (the outro) */
+  tailMs: number;
+}
+
+/**
+ * A preset sound as an FFmpeg input
+ */
+interface SoundInput {
+  /** Input arguments for the FFmpeg command */
+  args: string;
+  durationMs: number;
+}
 
 /**
  * Ensures the audio output directory exists
@@ -32,9 +85,10 @@ async function ensureAudioDirectory(): Promise<string> {
 
 /**
  * Creates a file list for FFmpeg concat demuxer
+ * The list is named after the script, so stitches running at once never share it
  */
-async function createConcatFile(segments: AudioSegment[], tempDir: string): Promise<string> {
-  const concatFilePath = path.join(tempDir, 'concat_list.txt');
+async function createConcatFile(scriptId: string, segments: AudioSegment[], tempDir: string): Promise<string> {
+  const concatFilePath = path.join(tempDir, `concat_${scriptId}.txt`);
   
   // Sort segments by line index
   const sortedSegments = [...segments].sort((a, b) => a.lineIndex - b.lineIndex);
@@ -63,8 +117,9 @@ export async function checkFFmpegAvailable(): Promise<boolean> {
 
 /**
  * Gets the actual duration of an MP3 file using FFprobe
+ * Returns 0 when the file cannot be read
  */
-async function getAudioDuration(filePath: string): Promise<number> {
+export async function getAudioDuration(filePath: string): Promise<number> {
   try {
     const { stdout } = await execAsync(
       `ffprobe -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 "${filePath}"`
@@ -76,13 +131,218 @@ async function getAudioDuration(filePath: string): Promise<number> {
   }
 }
 
+/**
+ * Measures each segment with FFprobe, falling back to the length reported at
+ * synthesis (an estimate from the file size) when a file cannot be read
+ */
+async function measureSegmentLengths(sortedSegments: AudioSegment[]): Promise<number[]> {
+  const lengthsMs: number[] = [];
+  for (const segment of sortedSegments) {
+    const probedSeconds = await getAudioDuration(segment.filePath);
+    lengthsMs.push(probedSeconds > 0 ? probedSeconds * 1000 : segment.durationMs);
+  }
+  return lengthsMs;
+}
+
+/**
+ * Works out where each line starts and ends in the stitched audio
+ * Segment lengths are placed with the preset's audio around and between them;
+ * the whole is scaled to the final duration, since encoding and normalization
+ * shift the total slightly
+ */
+function measureLineTimings(
+  sortedSegments: AudioSegment[],
+  lengthsMs: number[],
+  totalSeconds: number,
+  layout: TimelineLayout = { leadMs: 0, joinsMs: [], tailMs: 0 }
+): LineTiming[] {
+  const plannedMs = [layout.leadMs, ...lengthsMs, ...layout.joinsMs, layout.tailMs]
+    .reduce((sum, length) => sum + length, 0);
+  const scale = totalSeconds > 0 && plannedMs > 0 ? (totalSeconds * 1000) / plannedMs : 1;
+
+  let elapsedMs = layout.leadMs * scale;
+  return sortedSegments.map((segment, i) => {
+    const startMs = Math.round(elapsedMs);
+    elapsedMs += lengthsMs[i] * scale;
+    const endMs = Math.round(elapsedMs);
+    elapsedMs += (layout.joinsMs[i] ?? 0) * scale;
+    return { lineIndex: segment.lineIndex, startMs, endMs };
+  });
+}
+
+/**
+ * Whether a preset does more than join the lines back to back
+ */
+function isProduced(preset: AudioPreset): boolean {
+  return Boolean(preset.intro || preset.outro || preset.bed || preset.turnTransition || preset.sectionStinger);
+}
+
+/**
+ * Finds a preset sound: `{name}.mp3` in the assets directory, else the sound
+ * FFmpeg generates under that name
+ * Looped sounds (music beds) repeat for as long as they are read
+ */
+async function resolveSound(name: string, loop = false): Promise<SoundInput> {
+  const filePath = path.join(getConfig().audioAssetsDir, `${name}.mp3`);
+  try {
+    await fs.access(filePath);
+    return {
+      args: `${loop ? '-stream_loop -1 ' : ''}-i "${filePath}"`,
+      durationMs: loop ? 0 : (await getAudioDuration(filePath)) * 1000,
+    };
+  } catch {
+    // No file: fall back to the generated sound
+  }
+
+  const generated = getGeneratedSound(name);
+  if (!generated) {
+    throw new Error(`Unknown sound "${name}": add ${filePath}`);
+  }
+  return { args: `-f lavfi -i "${generated.lavfi}"`, durationMs: generated.durationMs };
+}
+
+/**
+ * Builds the FFmpeg command that produces the episode with a preset, and the
+ * layout of its timeline
+ *
+ * Lines by different speakers are joined by the preset's turn transition;
+ * lines in different sections by its stinger. The intro and outro frame the
+ * speech, and the music bed plays under it, ducked by a sidechain compressor
+ * keyed on the voices.
+ */
+async function buildProductionCommand(
+  sortedSegments: AudioSegment[],
+  lengthsMs: number[],
+  preset: AudioPreset,
+  sections: ScriptSections | undefined,
+  outputPath: string
+): Promise<{ command: string; layout: TimelineLayout }> {
+  const sectionOf = new Map<number, string>();
+  for (const [section, lineIndices] of Object.entries(sections ?? {})) {
+    for (const lineIndex of lineIndices) {
+      sectionOf.set(lineIndex, section);
+    }
+  }
+
+  const inputs = sortedSegments.map(segment => `-i "${segment.filePath}"`);
+  const filters = sortedSegments.map((_, i) => `[${i}:a]${MIX_FORMAT}[line${i}]`);
+
+  const addSound = async (name: string, label: string, loop = false) => {
+    const sound = await resolveSound(name, loop);
+    inputs.push(sound.args);
+    filters.push(`[${inputs.length - 1}:a]${MIX_FORMAT}[${label}]`);
+    return sound;
+  };
+
+  // How each line meets the next
+  const joins = sortedSegments.slice(1).map((segment, i) => {
+    const previous = sortedSegments[i];
+    const previousSection = sectionOf.get(previous.lineIndex);
+    if (preset.sectionStinger && previousSection && previousSection !== sectionOf.get(segment.lineIndex)) {
+      return { stinger: true, gapMs: 0, crossfadeMs: 0 };
+    }
+    if (!preset.turnTransition || previous.speaker === segment.speaker) {
+      return { stinger: false, gapMs: 0, crossfadeMs: 0 };
+    }
+    if (preset.turnTransition.type === 'gap') {
+      return { stinger: false, gapMs: preset.turnTransition.ms, crossfadeMs: 0 };
+    }
+    // A crossfade cannot be longer than half of either line
+    const crossfadeMs = Math.min(preset.turnTransition.ms, lengthsMs[i] / 2, lengthsMs[i + 1] / 2);
+    return { stinger: false, gapMs: 0, crossfadeMs: crossfadeMs >= MIN_CROSSFADE_MS ? crossfadeMs : 0 };
+  });
+
+  const stingerCount = joins.filter(join => join.stinger).length;
+  let stingerMs = 0;
+  if (preset.sectionStinger && stingerCount > 0) {
+    stingerMs = (await addSound(preset.sectionStinger, 'stinger')).durationMs;
+    const labels = Array.from({ length: stingerCount }, (_, i) => `[stinger${i}]`).join('');
+    filters.push(`[stinger]asplit=${stingerCount}${labels}`);
+  }
+
+  // Join the lines one after another
+  let speech = 'line0';
+  let step = 0;
+  let stingersUsed = 0;
+  const append = (label: string, filter = 'concat=n=2:v=0:a=1') => {
+    const joined = `speech${step++}`;
+    filters.push(`[${speech}][${label}]${filter}[${joined}]`);
+    speech = joined;
+  };
+  joins.forEach((join, i) => {
+    if (join.stinger) {
+      append(`stinger${stingersUsed++}`);
+    } else if (join.gapMs > 0) {
+      const padded = `speech${step++}`;
+      filters.push(`[${speech}]apad=pad_dur=${join.gapMs / 1000}[${padded}]`);
+      speech = padded;
+    }
+    append(
+      `line${i + 1}`,
+      join.crossfadeMs > 0 ? `acrossfade=d=${join.crossfadeMs / 1000}` : undefined
+    );
+  });
+
+  if (preset.bed) {
+    await addSound(preset.bed.sound, 'bedsource', true);
+    filters.push(
+      `[bedsource]volume=${preset.bed.volumeDb}dB,afade=t=in:d=2[bed]`,
+      `[${speech}]asplit=2[voices][key]`,
+      '[bed][key]sidechaincompress=threshold=0.02:ratio=10:attack=20:release=500[ducked]',
+      '[voices][ducked]amix=inputs=2:duration=first[mixed]'
+    );
+    speech = 'mixed';
+  }
+
+  const parts = [speech];
+  let leadMs = 0;
+  let tailMs = 0;
+  if (preset.intro) {
+    leadMs = (await addSound(preset.intro, 'intro')).durationMs;
+    parts.unshift('intro');
+  }
+  if (preset.outro) {
+    tailMs = (await addSound(preset.outro, 'outro')).durationMs;
+    parts.push('outro');
+  }
+  filters.push(
+    parts.length > 1
+      ? `${parts.map(part => `[${part}]`).join('')}concat=n=${parts.length}:v=0:a=1,${LOUDNORM_FILTER}[out]`
+      : `[${speech}]${LOUDNORM_FILTER}[out]`
+  );
+
+  const command = [
+    'ffmpeg',
+    ...inputs,
+    `-filter_complex "${filters.join(';')}"`,
+    '-map "[out]"',
+    '-codec:a libmp3lame',
+    '-b:a 128k',
+    '-ar 44100',
+    '-ac 1', // Mono
+    '-y', // Overwrite output file
+    `"${outputPath}"`,
+  ].join(' ');
+
+  return {
+    command,
+    layout: {
+      leadMs,
+      joinsMs: joins.map(join => (join.stinger ? stingerMs : join.gapMs - join.crossfadeMs)),
+      tailMs,
+    },
+  };
+}
+
 /**
  * Stitches audio segments into a single MP3 file
+ * Without a preset the lines are joined back to back (the plain preset)
  */
 export async function stitchAudioSegments(
   scriptId: string,
-  segments: AudioSegment[]
-): Promise<{ filePath: string; durationSeconds: number; fileSizeBytes: number }> {
+  segments: AudioSegment[],
+  options: StitchOptions = {}
+): Promise<StitchResult> {
   // Validate segments
   if (segments.length === 0) {
     throw new Error('No audio segments to stitch');
@@ -105,26 +365,47 @@ export async function stitchAudioSegments(
   const tempDir = path.join(config.outputDir, 'temp');
   await fs.mkdir(tempDir, { recursive: true });
   
+  const preset = options.preset ?? resolveAudioPreset();
+  const sortedSegments = [...segments].sort((a, b) => a.lineIndex - b.lineIndex);
+  let concatFilePath: string | undefined;
+  
   try {
-    // Create concat file
-    const concatFilePath = await createConcatFile(segments, tempDir);
+    let ffmpegCommand: string;
+    let layout: TimelineLayout | undefined;
+    let lengthsMs: number[] | undefined;
     
-    // FFmpeg command to concatenate and normalize
-    // Using concat demuxer for lossless concatenation
-    // Applying loudnorm filter for volume normalization
-    const ffmpegCommand = [
-      'ffmpeg',
-      '-f concat',
-      '-safe 0',
-      `-i "${concatFilePath}"`,
-      '-af "loudnorm=I=-16:TP=-1.5:LRA=11"',
-      '-codec:a libmp3lame',
-      '-b:a 128k',
-      '-ar 44100',
-      '-ac 1', // Mono
-      '-y', // Overwrite output file
-      `"${outputPath}"`,
-    ].join(' ');
+    if (isProduced(preset)) {
+      console.log(`Producing audio with the "${preset.id}" preset`);
+      // Transitions are fitted to the measured lines, so measure them first
+      lengthsMs = await measureSegmentLengths(sortedSegments);
+      ({ command: ffmpegCommand, layout } = await buildProductionCommand(
+        sortedSegments,
+        lengthsMs,
+        preset,
+        options.sections,
+        outputPath
+      ));
+    } else {
+      // Create concat file
+      concatFilePath = await createConcatFile(scriptId, segments, tempDir);
+      
+      // FFmpeg command to concatenate and normalize
+      // Using concat demuxer for lossless concatenation
+      // Applying loudnorm filter for volume normalization
+      ffmpegCommand = [
+        'ffmpeg',
+        '-f concat',
+        '-safe 0',
+        `-i "${concatFilePath}"`,
+        `-af "${LOUDNORM_FILTER}"`,
+        '-codec:a libmp3lame',
+        '-b:a 128k',
+        '-ar 44100',
+        '-ac 1', // Mono
+        '-y', // Overwrite output file
+        `"${outputPath}"`,
+      ].join(' ');
+    }
     
     console.log('Running FFmpeg command...');
     
@@ -140,27 +421,32 @@ export async function stitchAudioSegments(
     // Get actual duration and file size
     const durationSeconds = await getAudioDuration(outputPath);
     const stats = await fs.stat(outputPath);
+    lengthsMs ??= await measureSegmentLengths(sortedSegments);
+    const lineTimings = measureLineTimings(sortedSegments, lengthsMs, durationSeconds, layout);
     
     console.log(`Audio stitched successfully: ${outputPath}`);
     console.log(`Duration: ${durationSeconds.toFixed(2)}s, Size: ${(stats.size / 1024 / 1024).toFixed(2)}MB`);
     
-    // Clean up temp files
-    try {
-      await fs.unlink(concatFilePath);
-    } catch (cleanupError) {
-      console.warn('Failed to clean up temp files:', cleanupError);
-    }
-    
     return {
       filePath: outputPath,
       durationSeconds: Math.round(durationSeconds),
       fileSizeBytes: stats.size,
+      lineTimings,
     };
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Audio stitching failed: ${error.message}`);
     }
     throw new Error('Audio stitching failed with unknown error');
+  } finally {
+    // Clean up temp files, whether or not FFmpeg succeeded
+    if (concatFilePath) {
+      try {
+        await fs.unlink(concatFilePath);
+      } catch (cleanupError) {
+        console.warn('Failed to clean up temp files:', cleanupError);
+      }
+    }
   }
 }
 
@@ -171,7 +457,7 @@ export async function stitchAudioSegments(
 export async function stitchAudioSegmentsSimple(
   scriptId: string,
   segments: AudioSegment[]
-): Promise<{ filePath: string; durationSeconds: number; fileSizeBytes: number }> {
+): Promise<StitchResult> {
   if (segments.length === 0) {
     throw new Error('No audio segments to stitch');
   }
@@ -205,11 +491,14 @@ export async function stitchAudioSegmentsSimple(
   
   const durationSeconds = await getAudioDuration(outputPath);
   const stats = await fs.stat(outputPath);
+  const lengthsMs = await measureSegmentLengths(sortedSegments);
+  const lineTimings = measureLineTimings(sortedSegments, lengthsMs, durationSeconds);
   
   return {
     filePath: outputPath,
     durationSeconds: Math.round(durationSeconds),
     fileSizeBytes: stats.size,
+    lineTimings,
   };
 }
 
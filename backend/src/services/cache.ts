@@ -0,0 +1,249 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { getConfig } from '../config/env.js';
+import { getCacheDir, saveJson, loadJson } from '../utils/fileManager.js';
+import type { CacheNamespace, CacheStats, CacheEvictionResult } from '../types/index.js';
+import { CACHE_NAMESPACES } from '../types/index.js';
+
+/**
+ * Content-Addressed Cache
+ * 
+ * Stores reusable pipeline artifacts under output/cache/<namespace>:
+ * - articles: keyed by title + revision ID
+ * - scripts:  keyed by article revision + prompt version + model parameters;
+ *             fact checks by the script lines + articles + checker settings
+ * - audio:    keyed by provider + voice + text hash
+ * 
+ * Keys are SHA-256 hashes of their parts. A file's mtime records its last
+ * use; eviction drops entries older than `cacheMaxAgeDays`, then the least
+ * recently used ones until the cache fits in `cacheMaxBytes`.
+ */
+
+interface CacheFile {
+  namespace: CacheNamespace;
+  filePath: string;
+  sizeBytes: number;
+  lastUsedMs: number;
+}
+
+/**
+ * Hashes key parts into a content address
+ */
+export function hashKey(...parts: unknown[]): string {
+  return crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+/**
+ * Checks whether caching is enabled
+ */
+export function isCacheEnabled(): boolean {
+  return getConfig().cacheEnabled;
+}
+
+/**
+ * Gets the path of a cache entry
+ */
+function getEntryPath(namespace: CacheNamespace, key: string, extension: string): string {
+  return path.join(getCacheDir(namespace), `${key}.${extension}`);
+}
+
+/**
+ * Marks an entry as recently used
+ */
+async function touch(filePath: string): Promise<void> {
+  const now = new Date();
+  await fs.utimes(filePath, now, now).catch(() => undefined);
+}
+
+/**
+ * Reads a JSON cache entry, or null on a miss
+ */
+export async function getCachedJson<T>(namespace: CacheNamespace, key: string): Promise<T | null> {
+  if (!isCacheEnabled()) {
+    return null;
+  }
+  
+  const filePath = getEntryPath(namespace, key, 'json');
+  try {
+    const value = await loadJson<T>(filePath);
+    await touch(filePath);
+    return value;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Writes a JSON cache entry
+ * Cache write failures are logged and never fail the pipeline
+ */
+export async function setCachedJson<T>(namespace: CacheNamespace, key: string, value: T): Promise<void> {
+  if (!isCacheEnabled()) {
+    return;
+  }
+  
+  try {
+    await saveJson(getEntryPath(namespace, key, 'json'), value);
+  } catch (error) {
+    console.warn(`Failed to write ${namespace} cache entry:`, error);
+  }
+}
+
+/**
+ * Copies a cached file to the destination, returning false on a miss
+ */
+export async function restoreCachedFile(
+  namespace: CacheNamespace,
+  key: string,
+  extension: string,
+  destinationPath: string
+): Promise<boolean> {
+  if (!isCacheEnabled()) {
+    return false;
+  }
+  
+  const filePath = getEntryPath(namespace, key, extension);
+  try {
+    await fs.copyFile(filePath, destinationPath);
+    await touch(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Stores a copy of a file in the cache
+ * Cache write failures are logged and never fail the pipeline
+ */
+export async function storeCachedFile(
+  namespace: CacheNamespace,
+  key: string,
+  extension: string,
+  sourcePath: string
+): Promise<void> {
+  if (!isCacheEnabled()) {
+    return;
+  }
+  
+  try {
+    await fs.mkdir(getCacheDir(namespace), { recursive: true });
+    await fs.copyFile(sourcePath, getEntryPath(namespace, key, extension));
+  } catch (error) {
+    console.warn(`Failed to write ${namespace} cache entry:`, error);
+  }
+}
+
+/**
+ * Lists all cache files with their size and last use
+ */
+async function listCacheFiles(): Promise<CacheFile[]> {
+  const files: CacheFile[] = [];
+  
+  for (const namespace of CACHE_NAMESPACES) {
+    const dir = getCacheDir(namespace);
+    let names: string[];
+    try {
+      names = await fs.readdir(dir);
+    } catch {
+      continue;
+    }
+    
+    for (const name of names) {
+      const filePath = path.join(dir, name);
+      try {
+        const stats = await fs.stat(filePath);
+        if (!stats.isFile()) continue;
+        files.push({ namespace, filePath, sizeBytes: stats.size, lastUsedMs: stats.mtimeMs });
+      } catch {
+        // Removed concurrently
+      }
+    }
+  }
+  
+  return files;
+}
+
+/**
+ * Summarizes cache contents per namespace
+ */
+export async function getCacheStats(): Promise<CacheStats> {
+  const config = getConfig();
+  const files = await listCacheFiles();
+  
+  const namespaces = Object.fromEntries(
+    CACHE_NAMESPACES.map(namespace => [namespace, { entries: 0, sizeBytes: 0 }])
+  ) as CacheStats['namespaces'];
+  
+  let oldestMs: number | null = null;
+  for (const file of files) {
+    namespaces[file.namespace].entries++;
+    namespaces[file.namespace].sizeBytes += file.sizeBytes;
+    oldestMs = oldestMs === null ? file.lastUsedMs : Math.min(oldestMs, file.lastUsedMs);
+  }
+  
+  return {
+    enabled: config.cacheEnabled,
+    maxBytes: config.cacheMaxBytes,
+    maxAgeDays: config.cacheMaxAgeDays,
+    totalEntries: files.length,
+    totalSizeBytes: files.reduce((sum, file) => sum + file.sizeBytes, 0),
+    oldestEntryUsedAt: oldestMs === null ? null : new Date(oldestMs).toISOString(),
+    namespaces,
+  };
+}
+
+/**
+ * Removes all entries, or only those in one namespace
+ */
+export async function clearCache(namespace?: CacheNamespace): Promise<CacheEvictionResult> {
+  const files = (await listCacheFiles()).filter(file => !namespace || file.namespace === namespace);
+  return removeFiles(files);
+}
+
+/**
+ * Applies the eviction policy: age limit first, then LRU down to the size limit
+ */
+export async function evictCache(): Promise<CacheEvictionResult> {
+  const config = getConfig();
+  const files = await listCacheFiles();
+  
+  const cutoffMs = Date.now() - config.cacheMaxAgeDays * 24 * 60 * 60 * 1000;
+  const expired = files.filter(file => file.lastUsedMs < cutoffMs);
+  
+  // Least recently used first
+  const remaining = files
+    .filter(file => file.lastUsedMs >= cutoffMs)
+    .sort((a, b) => a.lastUsedMs - b.lastUsedMs);
+  
+  let totalBytes = remaining.reduce((sum, file) => sum + file.sizeBytes, 0);
+  const overflow: CacheFile[] = [];
+  for (const file of remaining) {
+    if (totalBytes <= config.cacheMaxBytes) break;
+    overflow.push(file);
+    totalBytes -= file.sizeBytes;
+  }
+  
+  return removeFiles([...expired, ...overflow]);
+}
+
+/**
+ * Deletes cache files and reports what was freed
+ */
+async function removeFiles(files: CacheFile[]): Promise<CacheEvictionResult> {
+  let removedEntries = 0;
+  let freedBytes = 0;
+  
+  for (const file of files) {
+    try {
+      await fs.rm(file.filePath, { force: true });
+      removedEntries++;
+      freedBytes += file.sizeBytes;
+    } catch (error) {
+      console.warn(`Failed to remove cache entry ${file.filePath}:`, error);
+    }
+  }
+  
+  return { removedEntries, freedBytes };
+}
@@ -0,0 +1,131 @@
+import { Script, LineTiming } from '../types/index.js';
+
+/**
+ * Caption Service
+ *
+ * Turns a script and the line timings measured when its audio was stitched
+ * into WebVTT and SRT captions with speaker labels. Long lines are split into
+ * several cues so each fits on screen, with the line's time shared out by
+ * length.
+ */
+
+/** Caption file formats */
+export type CaptionFormat = 'vtt' | 'srt';
+
+/** Longest cue text, in characters (two lines of a video caption) */
+const MAX_CUE_LENGTH = 84;
+
+/**
+ * One caption shown on screen
+ */
+export interface CaptionCue {
+  startMs: number;
+  endMs: number;
+  speaker: string;
+  text: string;
+}
+
+/**
+ * Splits a line into chunks of at most MAX_CUE_LENGTH characters at word
+ * boundaries, ending a chunk early at a sentence end once it is half full
+ */
+function splitCueText(text: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length > MAX_CUE_LENGTH && current) {
+      chunks.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+
+    if (/[.!?…]["')\]]?$/.test(current) && current.length >= MAX_CUE_LENGTH / 2) {
+      chunks.push(current);
+      current = '';
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Builds the caption cues of a script, in playback order
+ * Lines without a timing are left out
+ */
+export function buildCaptionCues(script: Script, lineTimings: LineTiming[]): CaptionCue[] {
+  const timings = new Map(lineTimings.map(timing => [timing.lineIndex, timing]));
+
+  return [...script.lines]
+    .sort((a, b) => a.index - b.index)
+    .flatMap(line => {
+      const timing = timings.get(line.index);
+      const chunks = splitCueText(line.text);
+      if (!timing || chunks.length === 0) {
+        return [];
+      }
+
+      const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+      const lineMs = timing.endMs - timing.startMs;
+      let elapsed = 0;
+
+      return chunks.map((chunk): CaptionCue => {
+        const startMs = timing.startMs + Math.round((lineMs * elapsed) / totalLength);
+        elapsed += chunk.length;
+        const endMs = timing.startMs + Math.round((lineMs * elapsed) / totalLength);
+        return { startMs, endMs, speaker: line.speaker, text: chunk };
+      });
+    });
+}
+
+/**
+ * Formats milliseconds as HH:MM:SS plus milliseconds after the given separator
+ */
+function formatTimestamp(ms: number, separator: '.' | ','): string {
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  const pad = (value: number, width = 2) => value.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Renders cues as WebVTT, labelling speakers with voice spans
+ */
+export function toWebVtt(cues: CaptionCue[]): string {
+  const body = cues.map((cue, i) => [
+    `${i + 1}`,
+    `${formatTimestamp(cue.startMs, '.')} --> ${formatTimestamp(cue.endMs, '.')}`,
+    `<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}`,
+  ].join('\n'));
+
+  return ['WEBVTT', ...body].join('\n\n') + '\n';
+}
+
+/**
+ * Renders cues as SRT, prefixing each caption with its speaker
+ */
+export function toSrt(cues: CaptionCue[]): string {
+  return cues.map((cue, i) => [
+    `${i + 1}`,
+    `${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cue.endMs, ',')}`,
+    `${cue.speaker}: ${cue.text}`,
+  ].join('\n')).join('\n\n') + '\n';
+}
+
+/**
+ * Renders a script's captions in the given format
+ */
+export function formatCaptions(script: Script, lineTimings: LineTiming[], format: CaptionFormat): string {
+  const cues = buildCaptionCues(script, lineTimings);
+  return format === 'vtt' ? toWebVtt(cues) : toSrt(cues);
+}
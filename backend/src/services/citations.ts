@@ -0,0 +1,122 @@
+import {
+  Script,
+  ScriptLine,
+  Article,
+  ArticleSection,
+  GroundingPassage,
+  LineGrounding,
+  LineSource,
+} from '../types/index.js';
+import { matchLinePassages } from './factChecker.js';
+
+/**
+ * Citation Service
+ *
+ * Gives each supported script line its `sources`: the article passages it
+ * draws on, the section heading they appear under and a link to that section
+ * on Wikipedia. The passages come from the fact check; when it is off, lines
+ * are matched to passages by word overlap here.
+ */
+
+/** Longest snippet quoted from a passage, in characters */
+const MAX_SNIPPET_LENGTH = 200;
+
+/** Title of the lead section when the article has none */
+const LEAD_TITLE = 'Introduction';
+
+/** Where a section's heading appears in the cleaned text */
+interface SectionHeading {
+  offset: number;
+  title: string;
+  anchor: string;
+}
+
+/**
+ * Lists sections with a heading, in page order
+ */
+function flattenHeadedSections(sections: ArticleSection[]): ArticleSection[] {
+  return sections.flatMap(section => [
+    ...(section.anchor ? [section] : []),
+    ...flattenHeadedSections(section.subsections),
+  ]);
+}
+
+/**
+ * Finds the headings in an article's cleaned text and pairs them, in order,
+ * with the section tree the text was rendered from
+ */
+function indexHeadings(article: Article): SectionHeading[] {
+  const sections = flattenHeadedSections(article.sections);
+  const headings: SectionHeading[] = [];
+  let offset = 0;
+
+  for (const line of article.cleanedText.split('\n')) {
+    const match = line.match(/^#{2,}\s+(.+)$/);
+    if (match) {
+      const title = match[1].trim();
+      const section = sections[headings.length];
+      headings.push({
+        offset,
+        title,
+        anchor: section?.title === title ? section.anchor : title.replace(/ /g, '_'),
+      });
+    }
+    offset += line.length + 1;
+  }
+
+  return headings;
+}
+
+/**
+ * Shortens a passage to a quotable snippet, cutting at a word boundary
+ */
+function toSnippet(text: string): string {
+  if (text.length <= MAX_SNIPPET_LENGTH) {
+    return text;
+  }
+  const cut = text.slice(0, MAX_SNIPPET_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:]+$/, '')}…`;
+}
+
+function toSource(passage: GroundingPassage, article: Article, headings: SectionHeading[]): LineSource {
+  const heading = [...headings].reverse().find(candidate => candidate.offset < passage.start);
+  const leadTitle = article.sections.find(section => !section.anchor)?.title ?? LEAD_TITLE;
+
+  return {
+    article: passage.article,
+    section: heading?.title ?? leadTitle,
+    url: heading ? `${article.url}#${encodeURIComponent(heading.anchor)}` : article.url,
+    start: passage.start,
+    end: passage.end,
+    snippet: toSnippet(passage.text),
+  };
+}
+
+/**
+ * Cites the supporting passages of each supported line
+ * Lines without support lose any sources they had
+ */
+export function addLineSources(script: Script, articles: Article[]): Script {
+  const groundings: LineGrounding[] = script.lines.every(line => line.grounding)
+    ? script.lines.map(line => line.grounding!)
+    : matchLinePassages(script, articles);
+  const headings = articles.map(indexHeadings);
+
+  const lines = script.lines.map((line, i): ScriptLine => {
+    const { sources: _previous, ...rest } = line;
+    const grounding = groundings[i];
+    if (grounding.verdict !== 'supported' || grounding.passages.length === 0) {
+      return rest;
+    }
+
+    return {
+      ...rest,
+      sources: grounding.passages.map(passage =>
+        toSource(passage, articles[passage.article - 1], headings[passage.article - 1])
+      ),
+    };
+  });
+
+  return { ...script, lines };
+}
@@ -0,0 +1,515 @@
+import {
+  Script,
+  ScriptLine,
+  Article,
+  GroundingPassage,
+  GroundingVerdict,
+  LineGrounding,
+  DroppedLine,
+  ScriptSection,
+  ScriptGrounding,
+} from '../types/index.js';
+import { getConfig } from '../config/env.js';
+import { getFormat, getDefaultFormat } from '../config/formats.js';
+import { getDefaultHosts } from '../config/hosts.js';
+import {
+  generateSystemPrompt,
+  getEpisodeLength,
+  EpisodeLength,
+  PromptArticle,
+  GENERATION_PARAMS,
+  PROMPT_VERSION,
+} from '../prompts/podcast.js';
+import {
+  generateJudgeSystemPrompt,
+  generateJudgePrompt,
+  generateRewritePrompt,
+  FactCheckPromptLine,
+  FACT_CHECK_PROMPT_VERSION,
+} from '../prompts/factCheck.js';
+import { getLlmProvider, LlmProvider, LlmMessage, LlmTask } from '../providers/llm/index.js';
+import { rebuildScript, validateScriptLines } from './scriptGenerator.js';
+import { hashKey, getCachedJson, setCachedJson } from './cache.js';
+
+/**
+ * Fact Checker Service
+ *
+ * Checks each line of a generated script against the cleaned text of its
+ * source articles (`FACT_CHECK`):
+ * - lexical: the sentences sharing the most content words with a line are
+ *   its supporting passages; the line is supported when they contain at
+ *   least `FACT_CHECK_MIN_OVERLAP` of its content words
+ * - judge: the passages are found the same way, and the LLM gives the
+ *   verdict; if the judge fails, the word overlap decides
+ *
+ * Lines in the format's opening and closing sections, questions and lines
+ * with only a couple of content words make no claims. Unsupported lines are then kept
+ * and flagged, dropped, or rewritten by the model and checked again
+ * (`FACT_CHECK_POLICY`); rewrites that are still unsupported are dropped.
+ * A line is kept, still flagged, when dropping it would leave its section
+ * empty or break another rule the script was written under (at least 10
+ * lines, every host speaking, section lengths, the requested word range).
+ *
+ * Word overlap assumes the script and the articles share a language; for
+ * translated scripts, only the judge gives meaningful verdicts.
+ *
+ * Results are cached next to the scripts, keyed by the lines, the article
+ * texts and the checker's settings, so a cached script is not judged again.
+ * Checks where the judge or the rewrite failed are not cached.
+ */
+
+/** Supporting passages kept per line */
+const MAX_PASSAGES = 3;
+
+/** Lines with fewer content words make no claims */
+const MIN_CLAIM_WORDS = 3;
+
+/** Lines judged per request, to keep replies within the token limit */
+const JUDGE_BATCH_LINES = 40;
+
+const GROUNDING_VERDICTS: readonly GroundingVerdict[] = ['supported', 'unsupported', 'no_claims'];
+
+/** Words that carry no facts: English function words, show talk and the romanized Hindi of the bilingual scripts */
+const STOPWORDS = new Set([
+  'about', 'after', 'again', 'all', 'also', 'and', 'any', 'are', 'because', 'been', 'before',
+  'being', 'but', 'can', 'could', 'did', 'does', 'doing', 'down', 'each', 'even', 'every', 'few',
+  'for', 'from', 'had', 'has', 'have', 'her', 'here', 'him', 'his', 'how', 'into', 'its', 'just',
+  'like', 'more', 'most', 'much', 'not', 'now', 'off', 'once', 'one', 'only', 'other', 'our',
+  'out', 'over', 'own', 'really', 'same', 'she', 'should', 'some', 'such', 'than', 'that', 'the',
+  'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'too',
+  'under', 'until', 'very', 'was', 'way', 'were', 'what', 'when', 'where', 'which', 'while', 'who',
+  'whom', 'why', 'will', 'with', 'would', 'yes', 'you', 'your',
+  'article', 'episode', 'listener', 'podcast', 'today', 'welcome', 'wiki', 'wikipedia', 'minute',
+  'thank', 'thanks', 'let', 'know', 'think', 'right', 'exactly', 'yeah', 'okay', 'wow', 'interesting',
+  'acha', 'accha', 'achha', 'aur', 'bahut', 'baat', 'bhi', 'bilkul', 'haan', 'hai', 'hain', 'kya',
+  'matlab', 'nahi', 'sahi', 'toh', 'woh', 'yeh', 'yaar', 'arre', 'dekho', 'samjha', 'samjhe',
+]);
+
+/** An article sentence and its content words */
+interface IndexedPassage extends GroundingPassage {
+  words: Set<string>;
+}
+
+/** What the check needs to know about the script and its articles */
+interface CheckContext {
+  provider: LlmProvider;
+  passages: IndexedPassage[];
+  /** Host names, which say nothing about the facts */
+  hostNames: Set<string>;
+  /** The format's opening and closing sections, which make no claims */
+  framing: Set<ScriptSection>;
+  minOverlap: number;
+  promptArticles: PromptArticle[];
+  length: EpisodeLength;
+}
+
+/** A line whose grounding has been checked */
+type GroundedLine = ScriptLine & { grounding: LineGrounding };
+
+/** A fact check kept in the cache: the lines after the policy, and the summary */
+interface CachedFactCheck {
+  lines: ScriptLine[];
+  grounding: ScriptGrounding;
+}
+
+interface RawJudgeResponse {
+  lines: Array<{
+    index: number;
+    verdict: string;
+    reason?: string;
+  }>;
+}
+
+interface RawRewriteResponse {
+  lines: Array<{
+    index: number;
+    text: string;
+  }>;
+}
+
+/**
+ * Normalizes a word: lowercase, with a plural "s" removed
+ */
+function normalizeWord(word: string): string {
+  const lower = word.toLowerCase();
+  return lower.length > 4 && lower.endsWith('s') && !lower.endsWith('ss') ? lower.slice(0, -1) : lower;
+}
+
+/**
+ * Extracts the words of a text that can carry facts: numbers and words of three or more letters
+ */
+function getContentWords(text: string, excluded: Set<string> = new Set()): Set<string> {
+  const words = (text.match(/[\p{L}\p{N}]+/gu) ?? [])
+    .map(normalizeWord)
+    .filter(word => (word.length >= 3 || /^\p{N}+$/u.test(word)) && !STOPWORDS.has(word) && !excluded.has(word));
+  return new Set(words);
+}
+
+/**
+ * Splits an article's cleaned text into sentences with their offsets, skipping headings
+ */
+function splitPassages(article: Article, articleNumber: number): IndexedPassage[] {
+  const passages: IndexedPassage[] = [];
+  let offset = 0;
+
+  for (const line of article.cleanedText.split('\n')) {
+    if (!line.trimStart().startsWith('#')) {
+      for (const match of line.matchAll(/[^.!?]+(?:[.!?]+["')\]]*|$)/g)) {
+        const text = match[0].trim();
+        const words = getContentWords(text);
+        if (words.size === 0) continue;
+
+        const start = offset + match.index! + match[0].indexOf(text);
+        passages.push({ article: articleNumber, start, end: start + text.length, text, words });
+      }
+    }
+    offset += line.length + 1;
+  }
+
+  return passages;
+}
+
+/**
+ * Removes the questions from a line; asking makes no claims
+ */
+function stripQuestions(text: string): string {
+  return (text.match(/[^.!?]+[.!?]*/g) ?? [])
+    .filter(sentence => !sentence.trim().endsWith('?'))
+    .join(' ');
+}
+
+/**
+ * Finds a line's supporting passages by word overlap and gives the lexical verdict
+ * Lines citing source articles are only matched against those articles
+ */
+function groundByOverlap(line: ScriptLine, context: CheckContext): LineGrounding {
+  const words = getContentWords(stripQuestions(line.text), context.hostNames);
+  const cited = line.sourceArticles?.length ? line.sourceArticles : null;
+
+  const ranked = context.passages
+    .filter(passage => !cited || cited.includes(passage.article))
+    .map(passage => ({ passage, shared: [...words].filter(word => passage.words.has(word)).length }))
+    .filter(({ shared }) => shared > 0)
+    .sort((a, b) => b.shared - a.shared)
+    .slice(0, MAX_PASSAGES)
+    .map(({ passage }) => passage);
+
+  const covered = [...words].filter(word => ranked.some(passage => passage.words.has(word))).length;
+  const overlap = words.size > 0 ? Math.round((covered / words.size) * 100) / 100 : 0;
+
+  let verdict: GroundingVerdict;
+  if (context.framing.has(line.section) || words.size < MIN_CLAIM_WORDS) {
+    verdict = 'no_claims';
+  } else {
+    verdict = overlap >= context.minOverlap ? 'supported' : 'unsupported';
+  }
+
+  return {
+    verdict,
+    overlap,
+    passages: ranked.map(({ article, start, end, text }) => ({ article, start, end, text })),
+  };
+}
+
+function toPromptLine(line: GroundedLine): FactCheckPromptLine {
+  return {
+    index: line.index,
+    speaker: line.speaker,
+    section: line.section,
+    text: line.text,
+    passages: line.grounding.passages.map(passage => passage.text),
+  };
+}
+
+/**
+ * Parses the JSON from a model reply, which may be wrapped in a code block
+ */
+function parseJsonReply<T>(content: string): T {
+  const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  return JSON.parse(jsonMatch ? jsonMatch[1] : content);
+}
+
+async function completeJson<T>(
+  provider: LlmProvider,
+  messages: LlmMessage[],
+  task: LlmTask
+): Promise<{ value: T; model: string }> {
+  const completion = await provider.complete({
+    messages,
+    temperature: GENERATION_PARAMS.temperature,
+    maxTokens: GENERATION_PARAMS.maxTokens,
+    topP: GENERATION_PARAMS.topP,
+    task,
+  });
+
+  try {
+    return { value: parseJsonReply<T>(completion.content), model: completion.model };
+  } catch (parseError) {
+    throw new Error(`Failed to parse ${provider.label} response as JSON: ${parseError}`);
+  }
+}
+
+/**
+ * Asks the judge for a verdict on each line, in batches
+ * Lines the judge skips keep their lexical verdict
+ */
+async function judgeLines(
+  lines: GroundedLine[],
+  context: CheckContext
+): Promise<{ lines: GroundedLine[]; model: string }> {
+  const verdicts = new Map<number, { verdict: GroundingVerdict; reason?: string }>();
+  let model = context.provider.model;
+
+  for (let start = 0; start < lines.length; start += JUDGE_BATCH_LINES) {
+    const batch = lines.slice(start, start + JUDGE_BATCH_LINES).map(toPromptLine);
+    const reply = await completeJson<RawJudgeResponse>(context.provider, [
+      { role: 'system', content: generateJudgeSystemPrompt() },
+      { role: 'user', content: generateJudgePrompt(context.promptArticles, batch, context.length) },
+    ], { kind: 'judge', lines: batch.map(({ index, passages }) => ({ index, passages })) });
+    model = reply.model;
+
+    if (!Array.isArray(reply.value?.lines)) {
+      throw new Error('Judge reply has no "lines" array');
+    }
+    for (const entry of reply.value.lines) {
+      if (!GROUNDING_VERDICTS.includes(entry?.verdict as GroundingVerdict)) continue;
+      if (!batch.some(line => line.index === entry.index)) continue;
+      verdicts.set(entry.index, {
+        verdict: entry.verdict as GroundingVerdict,
+        ...(typeof entry.reason === 'string' && entry.reason.trim() && { reason: entry.reason.trim() }),
+      });
+    }
+  }
+
+  return {
+    lines: lines.map(line => {
+      const judged = verdicts.get(line.index);
+      return judged ? { ...line, grounding: { ...line.grounding, ...judged } } : line;
+    }),
+    model,
+  };
+}
+
+/**
+ * Grounds lines by word overlap and, when a judge is used, by the judge's verdicts
+ */
+async function groundLines(
+  lines: ScriptLine[],
+  context: CheckContext,
+  useJudge: boolean
+): Promise<{ lines: GroundedLine[]; judgeModel?: string; judgeError?: string }> {
+  const grounded = lines.map(({ grounding: _previous, ...line }) => ({
+    ...line,
+    grounding: groundByOverlap(line, context),
+  }));
+
+  if (!useJudge || grounded.length === 0) {
+    return { lines: grounded };
+  }
+
+  try {
+    const judged = await judgeLines(grounded, context);
+    return { lines: judged.lines, judgeModel: judged.model };
+  } catch (error) {
+    const judgeError = error instanceof Error ? error.message : String(error);
+    console.warn(`Fact-check judge failed, using word overlap instead: ${judgeError}`);
+    return { lines: grounded, judgeError };
+  }
+}
+
+/**
+ * Asks the script writer to rewrite unsupported lines
+ * Returns the new text of each line it rewrote
+ */
+async function requestRewrites(
+  script: Script,
+  lines: GroundedLine[],
+  context: CheckContext
+): Promise<Map<number, string>> {
+  const format = (script.format && getFormat(script.format.id)) ?? getDefaultFormat();
+  const promptLines = lines.map(line => ({ ...toPromptLine(line), reason: line.grounding.reason }));
+  const prompt = generateRewritePrompt(context.promptArticles, promptLines, context.length);
+
+  const reply = await completeJson<RawRewriteResponse>(context.provider, [
+    { role: 'system', content: generateSystemPrompt(script.hosts ?? getDefaultHosts(), format) },
+    { role: 'user', content: prompt },
+  ], { kind: 'rewrite', lines: promptLines.map(({ index, passages }) => ({ index, passages })) });
+  if (!Array.isArray(reply.value?.lines)) {
+    throw new Error('Rewrite reply has no "lines" array');
+  }
+
+  const rewrites = new Map<number, string>();
+  for (const entry of reply.value.lines) {
+    if (typeof entry?.text === 'string' && entry.text.trim() && lines.some(line => line.index === entry.index)) {
+      rewrites.set(entry.index, entry.text.trim());
+    }
+  }
+  return rewrites;
+}
+
+/**
+ * Removes unsupported lines, one at a time, as long as the script still
+ * passes validation: a drop may not add an error the script did not have.
+ * The last line left in a section is always kept
+ */
+function dropUnsupported(script: Script, lines: GroundedLine[], dropped: DroppedLine[]): GroundedLine[] {
+  const existing = new Set(validateScriptLines(script, lines));
+  let kept = lines;
+
+  for (const line of lines) {
+    if (line.grounding.verdict !== 'unsupported') {
+      continue;
+    }
+    const remaining = kept.filter(candidate => candidate !== line);
+    if (!remaining.some(candidate => candidate.section === line.section)) {
+      continue;
+    }
+    if (validateScriptLines(script, remaining).some(error => !existing.has(error))) {
+      continue;
+    }
+
+    kept = remaining;
+    dropped.push({
+      speaker: line.speaker,
+      section: line.section,
+      text: line.text,
+      ...(line.grounding.reason && { reason: line.grounding.reason }),
+    });
+  }
+
+  return kept;
+}
+
+/**
+ * Finds each line's supporting passages and lexical verdict by word overlap alone
+ * Used to cite sources when the fact check is off
+ */
+export function matchLinePassages(script: Script, articles: Article[]): LineGrounding[] {
+  const context = createContext(script, articles, getConfig().factCheckMinOverlap);
+  return script.lines.map(line => groundByOverlap(line, context));
+}
+
+function createContext(script: Script, articles: Article[], minOverlap: number): CheckContext {
+  const format = (script.format && getFormat(script.format.id)) ?? getDefaultFormat();
+  const hosts = script.hosts ?? getDefaultHosts();
+
+  return {
+    provider: getLlmProvider(),
+    passages: articles.flatMap((article, i) => splitPassages(article, i + 1)),
+    hostNames: new Set(hosts.flatMap(host => [...getContentWords(host.name)])),
+    framing: new Set([format.sections[0].id, format.sections[format.sections.length - 1].id]),
+    minOverlap,
+    promptArticles: articles.map(({ title, cleanedText, language }) => ({ title, content: cleanedText, language })),
+    length: getEpisodeLength(script.targetMinutes),
+  };
+}
+
+/**
+ * Builds the cache key for a fact check: the lines, the article texts, the
+ * rules the script was written under, and the checker's settings and model
+ */
+function getFactCheckCacheKey(script: Script, articles: Article[], context: CheckContext): string {
+  const { factCheck, factCheckPolicy, factCheckMinOverlap } = getConfig();
+
+  return hashKey(
+    'fact-check',
+    script.lines.map(({ index, speaker, text, section, sourceArticles }) => [index, speaker, text, section, sourceArticles ?? null]),
+    articles.map(article => hashKey(article.cleanedText)),
+    (script.hosts ?? getDefaultHosts()).map(host => [host.name, host.role, host.persona]),
+    script.format ? [script.format.id, script.format.version] : null,
+    script.targetMinutes ?? null,
+    script.language,
+    Boolean(script.outline),
+    factCheck,
+    factCheckPolicy,
+    factCheckMinOverlap,
+    FACT_CHECK_PROMPT_VERSION,
+    PROMPT_VERSION,
+    context.provider.name,
+    context.provider.model,
+    GENERATION_PARAMS.temperature,
+    GENERATION_PARAMS.maxTokens,
+    GENERATION_PARAMS.topP
+  );
+}
+
+/**
+ * Checks a script's lines against its source articles and applies the fact-check policy
+ * Returns the script unchanged when the fact check is off
+ */
+export async function checkScriptFacts(script: Script, articles: Article[]): Promise<Script> {
+  const { factCheck: mode, factCheckPolicy: policy, factCheckMinOverlap: minOverlap } = getConfig();
+  if (mode === 'off') {
+    return script;
+  }
+
+  const context = createContext(script, articles, minOverlap);
+  const cacheKey = getFactCheckCacheKey(script, articles, context);
+  const cached = await getCachedJson<CachedFactCheck>('scripts', cacheKey);
+  if (cached) {
+    console.log(`Using cached fact check for script ${script.id}`);
+    return { ...rebuildScript(script, cached.lines), grounding: { ...cached.grounding, fromCache: true } };
+  }
+
+  const checked = await groundLines(script.lines, context, mode === 'judge');
+  let lines = checked.lines;
+
+  let rewrittenLines = 0;
+  let rewriteError: string | undefined;
+  const unsupported = lines.filter(line => line.grounding.verdict === 'unsupported');
+
+  if (policy === 'regenerate' && unsupported.length > 0) {
+    try {
+      const rewrites = await requestRewrites(script, unsupported, context);
+      const candidates = unsupported
+        .filter(line => rewrites.has(line.index))
+        .map(line => ({ ...line, text: rewrites.get(line.index)! }));
+
+      // Rewrites are checked the same way, by overlap alone if the judge already failed
+      const rechecked = await groundLines(candidates, context, mode === 'judge' && !checked.judgeError);
+      const accepted = new Map(rechecked.lines
+        .filter(line => line.grounding.verdict !== 'unsupported')
+        .map(line => [line.index, { ...line, grounding: { ...line.grounding, rewritten: true } }]));
+
+      rewrittenLines = accepted.size;
+      lines = lines.map(line => accepted.get(line.index) ?? line);
+    } catch (error) {
+      rewriteError = error instanceof Error ? error.message : String(error);
+      console.warn(`Rewriting unsupported lines failed, dropping them instead: ${rewriteError}`);
+    }
+  }
+
+  const droppedLines: DroppedLine[] = [];
+  if (policy !== 'flag') {
+    lines = dropUnsupported(script, lines, droppedLines);
+  }
+
+  const countVerdict = (verdict: GroundingVerdict) =>
+    lines.filter(line => line.grounding.verdict === verdict).length;
+  const grounding: ScriptGrounding = {
+    mode,
+    policy,
+    minOverlap,
+    ...(checked.judgeModel && { judgeModel: checked.judgeModel }),
+    ...(checked.judgeError && { judgeError: checked.judgeError }),
+    ...(rewriteError && { rewriteError }),
+    supportedLines: countVerdict('supported'),
+    unsupportedLines: countVerdict('unsupported'),
+    noClaimLines: countVerdict('no_claims'),
+    rewrittenLines,
+    droppedLines,
+    checkedAt: new Date().toISOString(),
+  };
+
+  console.log(
+    `Fact check (${mode}, ${policy}): ${grounding.supportedLines} supported, ` +
+    `${grounding.unsupportedLines} unsupported, ${rewrittenLines} rewritten, ${droppedLines.length} dropped`
+  );
+
+  // A failed judge or rewrite may work next time
+  if (!checked.judgeError && !rewriteError) {
+    await setCachedJson<CachedFactCheck>('scripts', cacheKey, { lines, grounding });
+  }
+
+  return { ...rebuildScript(script, lines), grounding };
+}
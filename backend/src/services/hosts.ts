@@ -0,0 +1,134 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { HostProfile } from '../types/index.js';
+import { getConfig } from '../config/env.js';
+import { BUILT_IN_HOSTS, DEFAULT_HOST_IDS } from '../config/hosts.js';
+import { validateHostProfile } from '../utils/validation.js';
+import { InvalidInputError } from '../utils/errors.js';
+
+/**
+ * Host Roster Service
+ *
+ * Host profiles are stored as `{id}.json` files in the hosts directory
+ * (`HOSTS_DIR`), next to the built-in Nishi and Shyam. A stored profile with
+ * the ID of a built-in host replaces it; deleting the file restores it.
+ */
+
+function getHostPath(id: string): string {
+  return path.join(getConfig().hostsDir, `${id}.json`);
+}
+
+/**
+ * Reads the stored profiles, skipping files that are not valid profiles
+ */
+async function readStoredHosts(): Promise<HostProfile[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(getConfig().hostsDir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const hosts: HostProfile[] = [];
+  for (const file of files.filter(name => name.endsWith('.json')).sort()) {
+    const id = path.basename(file, '.json');
+    try {
+      const profile = JSON.parse(await fs.readFile(getHostPath(id), 'utf-8'));
+      const validation = validateHostProfile(id, profile);
+      if (validation.host) {
+        hosts.push(validation.host);
+      } else {
+        console.warn(`Skipping host profile ${file}: ${validation.error}`);
+      }
+    } catch (error) {
+      console.warn(`Skipping unreadable host profile ${file}:`, error);
+    }
+  }
+
+  return hosts;
+}
+
+/**
+ * Lists every host, built-in and stored, ordered by ID
+ */
+export async function listHosts(): Promise<HostProfile[]> {
+  const stored = await readStoredHosts();
+  const storedIds = new Set(stored.map(host => host.id));
+
+  return [...BUILT_IN_HOSTS.filter(host => !storedIds.has(host.id)), ...stored]
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Gets a host by ID, or null if there is none
+ */
+export async function getHost(id: string): Promise<HostProfile | null> {
+  const hosts = await listHosts();
+  return hosts.find(host => host.id === id) ?? null;
+}
+
+/**
+ * Checks whether a host is built in (a stored profile may still replace it)
+ */
+export function isBuiltInHost(id: string): boolean {
+  return BUILT_IN_HOSTS.some(host => host.id === id);
+}
+
+/**
+ * Creates or replaces a stored host profile
+ */
+export async function saveHost(host: HostProfile): Promise<void> {
+  await fs.mkdir(getConfig().hostsDir, { recursive: true });
+  await fs.writeFile(getHostPath(host.id), JSON.stringify(host, null, 2), 'utf-8');
+}
+
+/**
+ * Deletes a stored host profile
+ * Returns false if there was no stored profile with that ID
+ */
+export async function deleteHost(id: string): Promise<boolean> {
+  try {
+    await fs.unlink(getHostPath(id));
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resolves host IDs into the episode's roster, in the given order
+ * Without IDs, the default roster (Nishi and Shyam) is used
+ * Throws InvalidInputError for unknown hosts or hosts sharing a name
+ */
+export async function resolveHosts(ids: readonly string[] = DEFAULT_HOST_IDS): Promise<HostProfile[]> {
+  const available = await listHosts();
+  const roster: HostProfile[] = [];
+
+  for (const id of ids) {
+    const host = available.find(candidate => candidate.id === id);
+    if (!host) {
+      throw new InvalidInputError(`Unknown host "${id}"`, {
+        host: id,
+        available: available.map(candidate => candidate.id),
+      });
+    }
+
+    // Scripts tell hosts apart by name
+    const namesake = roster.find(other => other.name.toLowerCase() === host.name.toLowerCase());
+    if (namesake) {
+      throw new InvalidInputError(
+        `Hosts "${namesake.id}" and "${host.id}" are both called ${host.name}`
+      );
+    }
+
+    roster.push(host);
+  }
+
+  return roster;
+}
@@ -0,0 +1,361 @@
+import { promises as fs } from 'fs';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
+import {
+  PodcastJob,
+  PodcastRequest,
+  PodcastResponse,
+  ScriptOnlyResponse,
+  Podcast,
+  Script,
+  GenerationStage,
+} from '../types/index.js';
+import { getConfig } from '../config/env.js';
+import { getMappedSpeakers } from '../providers/tts/index.js';
+import {
+  generatePodcast,
+  resumePodcast,
+  getPipelineStageNames,
+  GenerationOptions,
+} from './podcastOrchestrator.js';
+import {
+  getJobPath,
+  getJobsDir,
+  getCheckpointPath,
+  saveJson,
+  loadJson,
+  fileExists,
+} from '../utils/fileManager.js';
+import { classifyGenerationError } from '../utils/errors.js';
+import { withEditLock } from './scriptEditor.js';
+import { getScriptArticles } from './scriptGenerator.js';
+
+/**
+ * Job Queue Service
+ *
+ * Runs podcast generation as background jobs:
+ * - Submissions return a job ID immediately
+ * - Job state is persisted under output/jobs and outlives the HTTP request
+ * - At most `maxConcurrentJobs` pipelines run at once; the rest wait in FIFO order
+ * - Failed or interrupted jobs resume from their pipeline checkpoint (keyed by job ID)
+ */
+
+/**
+ * Listener for job updates
+ * `stage` is set when the update was caused by a pipeline stage transition
+ */
+export type JobListener = (job: PodcastJob, stage?: GenerationStage) => void;
+
+const jobs = new Map<string, PodcastJob>();
+const pendingJobIds: string[] = [];
+const persistChains = new Map<string, Promise<void>>();
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+let runningCount = 0;
+
+/**
+ * Builds the API response for a generated podcast
+ */
+export function toPodcastResponse(podcast: Podcast): PodcastResponse {
+  return {
+    id: podcast.id,
+    audioUrl: `/api/podcast/${podcast.id}/audio`,
+    scriptUrl: `/api/podcast/${podcast.id}/script`,
+    durationSeconds: podcast.durationSeconds,
+    article: {
+      title: podcast.articles[0].title,
+      url: podcast.articles[0].url,
+    },
+    articles: podcast.articles.map(({ title, url }) => ({ title, url })),
+    speakers: getMappedSpeakers(podcast.voiceMapping),
+    createdAt: podcast.createdAt,
+  };
+}
+
+/**
+ * Builds the API response for a job that stopped after writing the script
+ */
+export function toScriptResponse(script: Script): ScriptOnlyResponse {
+  return {
+    id: script.id,
+    scriptUrl: `/api/podcast/${script.id}/script`,
+    synthesizeUrl: `/api/podcast/${script.id}/synthesize`,
+    articles: getScriptArticles(script).map(({ title, url }) => ({ title, url })),
+    lineCount: script.lines.length,
+    estimatedDuration: script.estimatedDuration,
+    createdAt: script.generatedAt,
+  };
+}
+
+/**
+ * Picks the optional request fields that are passed on to the pipeline
+ */
+function getRequestOptions(request: PodcastRequest): GenerationOptions {
+  return {
+    ...(request.language && { language: request.language }),
+    ...(request.outputLanguage && { outputLanguage: request.outputLanguage }),
+    ...(request.sections?.length && { sections: request.sections }),
+    ...(request.targetMinutes !== undefined && { targetMinutes: request.targetMinutes }),
+    ...(request.hosts?.length && { hosts: request.hosts }),
+    ...(request.format && { format: request.format }),
+    ...(request.script && { script: request.script }),
+    ...(request.stopAfter && { stopAfter: request.stopAfter }),
+    ...(request.lexicon?.length && { lexicon: request.lexicon }),
+    ...(request.audioPreset && { audioPreset: request.audioPreset }),
+  };
+}
+
+/**
+ * Checks whether a job has finished (successfully or not)
+ */
+export function isJobFinished(job: PodcastJob): boolean {
+  return job.status === 'completed' || job.status === 'failed';
+}
+
+/**
+ * Resets stages that did not complete so they show as pending again
+ */
+function resetIncompleteStages(stages: GenerationStage[]): GenerationStage[] {
+  return stages.map(stage => (
+    stage.status === 'completed' ? stage : { name: stage.name, status: 'pending' }
+  ));
+}
+
+/**
+ * Persists job state, serializing writes per job so files are never interleaved
+ */
+function persistJob(job: PodcastJob): Promise<void> {
+  const snapshot = JSON.parse(JSON.stringify(job)) as PodcastJob;
+  const previous = persistChains.get(job.id) ?? Promise.resolve();
+
+  const next = previous
+    .then(() => saveJson(getJobPath(job.id), snapshot))
+    .catch((error) => {
+      console.warn(`Failed to persist job ${job.id}:`, error);
+    });
+
+  persistChains.set(job.id, next);
+  return next;
+}
+
+/**
+ * Records a state change, notifies listeners and persists the job
+ */
+function updateJob(job: PodcastJob, stage?: GenerationStage): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  jobEvents.emit(job.id, job, stage);
+  return persistJob(job);
+}
+
+/**
+ * Runs a single job through the generation pipeline
+ */
+async function runJob(job: PodcastJob): Promise<void> {
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+  await updateJob(job);
+
+  console.log(`Job ${job.id} started: ${job.request.input}`);
+
+  const onProgress = (stage: GenerationStage) => {
+    job.stages = job.stages.map(s => (s.name === stage.name ? { ...stage } : s));
+    void updateJob(job, stage);
+  };
+
+  try {
+    // Fall back to a fresh run if the job stopped before its first checkpoint
+    const resumable = Boolean(job.resumedAt) && await fileExists(getCheckpointPath(job.id));
+
+    const run = () => resumable
+      ? resumePodcast(job.id, onProgress)
+      : generatePodcast(job.request.input, job.request.type, onProgress, {
+          checkpointId: job.id,
+          ...getRequestOptions(job.request),
+        });
+
+    // Voicing a stored script rewrites its audio, so it waits for no edit
+    // and lets none start until it is done
+    const result = job.request.script
+      ? await withEditLock(job.request.script.id, run)
+      : await run();
+
+    job.status = 'completed';
+    job.result = 'lines' in result ? toScriptResponse(result) : toPodcastResponse(result);
+    console.log(`Job ${job.id} completed: ${result.id}`);
+  } catch (error) {
+    job.status = 'failed';
+    job.error = classifyGenerationError(error).toResponse();
+    console.error(`Job ${job.id} failed:`, job.error.message);
+  }
+
+  job.completedAt = new Date().toISOString();
+  await updateJob(job);
+}
+
+/**
+ * Starts queued jobs while capacity is available
+ */
+function drainQueue(): void {
+  const limit = getConfig().maxConcurrentJobs;
+
+  while (runningCount < limit && pendingJobIds.length > 0) {
+    const jobId = pendingJobIds.shift() as string;
+    const job = jobs.get(jobId);
+    if (!job) continue;
+
+    runningCount++;
+    runJob(job)
+      .catch((error) => {
+        console.error(`Job ${jobId} crashed:`, error);
+      })
+      .finally(() => {
+        runningCount--;
+        // Keep the entry if the job was already re-queued for resume
+        if (jobs.get(jobId) === job) jobs.delete(jobId);
+        drainQueue();
+      });
+  }
+}
+
+/**
+ * Submits a new podcast generation job
+ * Jobs with a given script only voice and stitch it; jobs with `stopAfter`
+ * end once that stage completes
+ */
+export async function submitJob(request: PodcastRequest): Promise<PodcastJob> {
+  const now = new Date().toISOString();
+
+  const job: PodcastJob = {
+    id: uuidv4(),
+    status: 'queued',
+    request: { input: request.input, type: request.type, ...getRequestOptions(request) },
+    stages: getPipelineStageNames(request).map(name => ({ name, status: 'pending' })),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  jobs.set(job.id, job);
+  pendingJobIds.push(job.id);
+  await persistJob(job);
+
+  drainQueue();
+
+  return job;
+}
+
+/**
+ * Checks whether a finished job can be resumed from its checkpoint
+ */
+export async function canResumeJob(job: PodcastJob): Promise<boolean> {
+  return job.status === 'failed' && fileExists(getCheckpointPath(job.id));
+}
+
+/**
+ * Re-queues a failed job to continue from its last checkpoint
+ */
+export async function resumeJob(job: PodcastJob): Promise<PodcastJob> {
+  const resumed: PodcastJob = {
+    ...job,
+    status: 'queued',
+    stages: resetIncompleteStages(job.stages),
+    resumedAt: new Date().toISOString(),
+  };
+  delete resumed.error;
+  delete resumed.completedAt;
+
+  jobs.set(resumed.id, resumed);
+  pendingJobIds.push(resumed.id);
+  await updateJob(resumed);
+
+  console.log(`Job ${resumed.id} queued for resume`);
+
+  drainQueue();
+
+  return resumed;
+}
+
+/**
+ * Gets a job by ID from memory or from its persisted state
+ */
+export async function getJob(jobId: string): Promise<PodcastJob | null> {
+  if (!isUuid(jobId)) {
+    return null;
+  }
+
+  const active = jobs.get(jobId);
+  if (active) {
+    return active;
+  }
+
+  const filePath = getJobPath(jobId);
+  if (!(await fileExists(filePath))) {
+    return null;
+  }
+  return loadJson<PodcastJob>(filePath);
+}
+
+/**
+ * Gets the 1-based position of a queued job, or null if it is not waiting
+ */
+export function getQueuePosition(jobId: string): number | null {
+  const index = pendingJobIds.indexOf(jobId);
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Subscribes to updates for a job
+ * Returns an unsubscribe function
+ */
+export function subscribeToJob(jobId: string, listener: JobListener): () => void {
+  jobEvents.on(jobId, listener);
+  return () => {
+    jobEvents.off(jobId, listener);
+  };
+}
+
+/**
+ * Restores persisted jobs after a restart
+ *
+ * Queued jobs are re-enqueued in submission order. Jobs that were running
+ * when the process stopped are re-enqueued to resume from their checkpoint.
+ */
+export async function restoreJobs(): Promise<void> {
+  let files: string[];
+  try {
+    files = await fs.readdir(getJobsDir());
+  } catch {
+    return;
+  }
+
+  const restored: PodcastJob[] = [];
+
+  for (const file of files.filter(f => f.endsWith('.json'))) {
+    try {
+      const job = await loadJson<PodcastJob>(getJobPath(file.replace('.json', '')));
+      if (isJobFinished(job) || jobs.has(job.id)) continue;
+      restored.push(job);
+    } catch (error) {
+      console.warn(`Failed to restore job file ${file}:`, error);
+    }
+  }
+
+  restored.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const job of restored) {
+    if (job.status === 'running') {
+      job.status = 'queued';
+      job.stages = resetIncompleteStages(job.stages);
+      job.resumedAt = new Date().toISOString();
+      await updateJob(job);
+    }
+    jobs.set(job.id, job);
+    pendingJobIds.push(job.id);
+  }
+
+  if (restored.length > 0) {
+    console.log(`Restored ${restored.length} unfinished job(s)`);
+  }
+
+  drainQueue();
+}
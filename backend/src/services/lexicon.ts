@@ -0,0 +1,181 @@
+import { promises as fs } from 'fs';
+import { PronunciationEntry, MAX_LEXICON_ENTRIES } from '../types/index.js';
+import { getLexiconPath, saveJson } from '../utils/fileManager.js';
+import { validateLexiconEntries } from '../utils/validation.js';
+import { InvalidInputError } from '../utils/errors.js';
+
+/**
+ * Pronunciation Lexicon Service
+ *
+ * Tells the TTS provider how to say names and romanized Hindi words it gets
+ * wrong ("Acha", "Bilkul"). The global lexicon applies to every episode; an
+ * episode's own lexicon adds to it and wins for the same term. Before a line
+ * is sent to the provider each term, matched as a whole word ignoring case,
+ * becomes an SSML phoneme tag for providers that read SSML, or its respelling
+ * for the others.
+ */
+
+/** Pending writes per lexicon file, so concurrent edits do not drop entries */
+const writeChains = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs a read-modify-write of a lexicon file after the ones already queued
+ */
+function queueWrite<T>(filePath: string, write: () => Promise<T>): Promise<T> {
+  const previous = writeChains.get(filePath) ?? Promise.resolve();
+  const next = previous.catch(() => {}).then(write);
+  writeChains.set(filePath, next);
+  return next;
+}
+
+/**
+ * Loads a lexicon: an episode's, or the global one
+ * A missing file is an empty lexicon; an invalid one is ignored with a warning
+ */
+export async function loadLexicon(podcastId?: string): Promise<PronunciationEntry[]> {
+  const filePath = getLexiconPath(podcastId);
+
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const validation = validateLexiconEntries(JSON.parse(content));
+  if (!validation.entries) {
+    console.warn(`Ignoring lexicon ${filePath}: ${validation.error}`);
+    return [];
+  }
+  return validation.entries;
+}
+
+/**
+ * Adds or replaces entries of a lexicon, matching terms ignoring case
+ * Returns the terms that were new
+ * Throws InvalidInputError when the lexicon would grow past its limit
+ */
+export function saveLexiconEntries(entries: PronunciationEntry[], podcastId?: string): Promise<string[]> {
+  const filePath = getLexiconPath(podcastId);
+
+  return queueWrite(filePath, async () => {
+    const lexicon = new Map((await loadLexicon(podcastId)).map(entry => [entry.term.toLowerCase(), entry]));
+    const added = entries
+      .filter(entry => !lexicon.has(entry.term.toLowerCase()))
+      .map(entry => entry.term);
+
+    for (const entry of entries) {
+      lexicon.set(entry.term.toLowerCase(), entry);
+    }
+    if (lexicon.size > MAX_LEXICON_ENTRIES) {
+      throw new InvalidInputError(`A lexicon can have at most ${MAX_LEXICON_ENTRIES} entries`);
+    }
+
+    await saveJson(filePath, [...lexicon.values()].sort((a, b) => a.term.localeCompare(b.term)));
+    return added;
+  });
+}
+
+/**
+ * Adds or replaces one entry of a lexicon
+ * Returns true if the term was new
+ */
+export async function saveLexiconEntry(entry: PronunciationEntry, podcastId?: string): Promise<boolean> {
+  const added = await saveLexiconEntries([entry], podcastId);
+  return added.length > 0;
+}
+
+/**
+ * Removes a term from a lexicon
+ * Returns false if the lexicon has no such term
+ */
+export function deleteLexiconEntry(term: string, podcastId?: string): Promise<boolean> {
+  const filePath = getLexiconPath(podcastId);
+
+  return queueWrite(filePath, async () => {
+    const lexicon = await loadLexicon(podcastId);
+    const remaining = lexicon.filter(entry => entry.term.toLowerCase() !== term.trim().toLowerCase());
+    if (remaining.length === lexicon.length) {
+      return false;
+    }
+
+    await saveJson(filePath, remaining);
+    return true;
+  });
+}
+
+/**
+ * Gets the pronunciations used for an episode: the global lexicon overlaid
+ * with the episode's own
+ */
+export async function resolveLexicon(podcastId?: string): Promise<PronunciationEntry[]> {
+  const [global, episode] = await Promise.all([
+    loadLexicon(),
+    podcastId ? loadLexicon(podcastId) : Promise.resolve([]),
+  ]);
+  const episodeTerms = new Set(episode.map(entry => entry.term.toLowerCase()));
+
+  return [...global.filter(entry => !episodeTerms.has(entry.term.toLowerCase())), ...episode];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Rewrites a line so the provider pronounces the lexicon's terms
+ * With `ssml`, terms that have a phoneme become SSML phoneme tags; other terms
+ * are replaced by their respelling, and terms with neither are left as written.
+ * A line with phoneme tags is SSML, so the rest of its text is escaped too
+ */
+export function applyLexicon(text: string, lexicon: PronunciationEntry[], ssml = false): string {
+  if (lexicon.length === 0) {
+    return text;
+  }
+
+  const byTerm = new Map(lexicon.map(entry => [entry.term.toLowerCase(), entry]));
+  // Longer terms first, so "Bilkul sahi" wins over "Bilkul"
+  const alternatives = [...byTerm.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{N}])`, 'giu');
+
+  // Spoken text between the phoneme tags, which are kept apart to be escaped
+  const pieces: string[] = [];
+  const tags: string[] = [];
+  let spoken = '';
+  let last = 0;
+
+  for (const found of text.matchAll(pattern)) {
+    const match = found[0];
+    const entry = byTerm.get(match.toLowerCase());
+    spoken += text.slice(last, found.index);
+    last = found.index! + match.length;
+
+    if (ssml && entry?.phoneme) {
+      pieces.push(spoken);
+      tags.push(`<phoneme alphabet="${entry.phoneme.alphabet}" ph="${escapeXml(entry.phoneme.ph)}">${escapeXml(match)}</phoneme>`);
+      spoken = '';
+    } else {
+      spoken += entry?.respelling ?? match;
+    }
+  }
+  pieces.push(spoken + text.slice(last));
+
+  if (tags.length === 0) {
+    return pieces[0];
+  }
+  return pieces.map((piece, i) => escapeXml(piece) + (tags[i] ?? '')).join('');
+}
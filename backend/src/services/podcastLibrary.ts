@@ -0,0 +1,89 @@
+import { Podcast, PodcastListQuery, PodcastListResponse } from '../types/index.js';
+import { listPodcasts, deletePodcastFiles } from '../utils/fileManager.js';
+import { loadPodcast } from './podcastOrchestrator.js';
+import { toPodcastResponse } from './jobQueue.js';
+
+/**
+ * Podcast Library Service
+ *
+ * Lists previously generated podcasts and deletes them.
+ * Every podcast with a final MP3 and readable metadata is part of the library.
+ */
+
+/**
+ * Loads all podcasts in the library, skipping ones with missing or unreadable metadata
+ */
+async function loadAllPodcasts(): Promise<Podcast[]> {
+  const ids = await listPodcasts();
+  const podcasts: Podcast[] = [];
+
+  for (const id of ids) {
+    try {
+      const podcast = await loadPodcast(id);
+      if (podcast) {
+        podcasts.push(podcast);
+      }
+    } catch (error) {
+      console.warn(`Skipping podcast ${id} with unreadable metadata:`, error);
+    }
+  }
+
+  return podcasts;
+}
+
+/**
+ * Compares two podcasts by the requested sort field (ascending)
+ * Ties are broken by ID so pages are stable
+ */
+function comparePodcasts(a: Podcast, b: Podcast, query: PodcastListQuery): number {
+  const difference = query.sort === 'duration'
+    ? a.durationSeconds - b.durationSeconds
+    : a.createdAt.localeCompare(b.createdAt);
+
+  return difference !== 0 ? difference : a.id.localeCompare(b.id);
+}
+
+/**
+ * Lists podcasts with title filtering, sorting and pagination
+ * The title filter matches any of a podcast's source articles
+ */
+export async function listLibrary(query: PodcastListQuery): Promise<PodcastListResponse> {
+  let podcasts = await loadAllPodcasts();
+
+  if (query.title) {
+    const needle = query.title.toLowerCase();
+    podcasts = podcasts.filter(p =>
+      p.articles.some(article => article.title.toLowerCase().includes(needle))
+    );
+  }
+
+  const direction = query.order === 'asc' ? 1 : -1;
+  podcasts.sort((a, b) => direction * comparePodcasts(a, b, query));
+
+  const start = (query.page - 1) * query.pageSize;
+  const page = podcasts.slice(start, start + query.pageSize);
+
+  return {
+    podcasts: page.map(toPodcastResponse),
+    total: podcasts.length,
+    page: query.page,
+    pageSize: query.pageSize,
+    totalPages: Math.ceil(podcasts.length / query.pageSize),
+  };
+}
+
+/**
+ * Deletes a podcast and all of its artifacts
+ * Returns false if the podcast does not exist
+ */
+export async function deletePodcast(id: string): Promise<boolean> {
+  const podcast = await loadPodcast(id);
+  if (!podcast) {
+    return false;
+  }
+
+  await deletePodcastFiles(id);
+  console.log(`Deleted podcast ${id}`);
+
+  return true;
+}
@@ -1,22 +1,53 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { Podcast, GenerationMetadata, GenerationStage } from '../types/index.js';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Article,
+  Podcast,
+  GenerationMetadata,
+  MetadataSource,
+  GenerationStage,
+  GenerationStageName,
+  PipelineCheckpoint,
+  PipelineStopStage,
+  PronunciationEntry,
+  Script,
+  GENERATION_STAGES_ORDER,
+  VOICING_STAGES_ORDER,
+} from '../types/index.js';
 import { getConfig } from '../config/env.js';
-import { SPEAKERS } from '../config/speakers.js';
-import { fetchArticle } from './wikipedia.js';
-import { generateScript } from './scriptGenerator.js';
-import { generateAudioSegmentsWithRetry } from './tts.js';
+import { saveCheckpoint, loadCheckpoint, deleteCheckpoint, loadMetadata } from '../utils/fileManager.js';
+import { fetchArticle, selectArticleSections } from './wikipedia.js';
+import { generateScript, getScriptArticles } from './scriptGenerator.js';
+import { checkScriptFacts } from './factChecker.js';
+import { addLineSources } from './citations.js';
+import { generateAudioSegmentsWithRetry, DEFAULT_TTS_RETRIES } from './tts.js';
 import { stitchAudioSegments } from './audioStitcher.js';
+import { getVoiceMapping } from '../providers/tts/index.js';
+import { resolveHosts } from './hosts.js';
+import { resolveLexicon, saveLexiconEntries } from './lexicon.js';
+import { getDefaultHosts } from '../config/hosts.js';
+import { resolveFormat } from '../config/formats.js';
+import { resolveAudioPreset, DEFAULT_AUDIO_PRESET_ID } from '../config/audioPresets.js';
+import { isCacheEnabled, evictCache } from './cache.js';
+import { AppError } from '../utils/errors.js';
 
 /**
  * Podcast Orchestrator
  * 
  * Coordinates the end-to-end podcast generation pipeline:
- * 1. Fetch Wikipedia article
- * 2. Generate conversational script
+ * 1. Fetch Wikipedia article(s) in parallel (restricted to the requested sections)
+ * 2. Generate conversational script, check its lines against the articles and cite them
  * 3. Synthesize audio segments
  * 4. Stitch segments into final MP3
  * 5. Save all artifacts
+ * 
+ * A given script (hand-written, or stored from an earlier run) skips the
+ * first two stages: it is voiced and stitched as is. A run can also stop after
+ * writing the script, so it can be reviewed before anything is voiced.
+ * 
+ * A checkpoint is saved after each stage (and each audio segment) so a
+ * failed run can be resumed without repeating completed work.
  */
 
 export type ProgressCallback = (stage: GenerationStage) => void;
@@ -81,81 +112,342 @@ function createStage(
   return { name, status };
 }
 
+/**
+ * Options for a generation run
+ */
+export interface GenerationOptions {
+  /** ID under which checkpoints are stored (generated if omitted) */
+  checkpointId?: string;
+  /** Wikipedia edition for title input (URLs carry their own) */
+  language?: string;
+  /** Language to write the script in */
+  outputLanguage?: string;
+  /** Section headings to cover (default: the whole article) */
+  sections?: string[];
+  /** Episode length in minutes (default: 2-3 minutes) */
+  targetMinutes?: number;
+  /** Host IDs, in roster order (default: Nishi and Shyam) */
+  hosts?: string[];
+  /** Show format ID (default: classic) */
+  format?: string;
+  /** Script to voice (hand-written or stored); no article is fetched and no script generated */
+  script?: Script;
+  /** Stop once this stage completes; "generate_script" returns the script without audio */
+  stopAfter?: PipelineStopStage;
+  /** Pronunciations added to the episode's lexicon once its script exists */
+  lexicon?: PronunciationEntry[];
+  /** Audio production preset ID (default: plain) */
+  audioPreset?: string;
+}
+
+/**
+ * Lists the stages a run goes through, in order
+ * A given script skips the fetch and script stages; `stopAfter` ends the run early
+ */
+export function getPipelineStageNames(
+  options: Pick<GenerationOptions, 'script' | 'stopAfter'>
+): GenerationStageName[] {
+  const names = options.script ? [...VOICING_STAGES_ORDER] : [...GENERATION_STAGES_ORDER];
+  return options.stopAfter ? names.slice(0, names.indexOf(options.stopAfter) + 1) : names;
+}
+
+/**
+ * Fetches every input in parallel
+ * The same article given twice (e.g. as a title and a URL) is rejected
+ */
+async function fetchArticles(
+  inputs: string[],
+  type: 'url' | 'title' | undefined,
+  language: string | undefined
+): Promise<Article[]> {
+  const articles = await Promise.all(inputs.map(input => fetchArticle(input, type, language)));
+  
+  const seen = new Set<string>();
+  for (const article of articles) {
+    if (seen.has(article.url)) {
+      throw new AppError('INVALID_INPUT', `The article "${article.title}" was given more than once`, 400);
+    }
+    seen.add(article.url);
+  }
+  
+  return articles;
+}
+
 /**
  * Main orchestration function
+ * Several inputs produce one episode that connects their articles
+ * With `stopAfter: 'generate_script'` the saved script is returned instead
  */
 export async function generatePodcast(
-  input: string,
+  input: string | string[],
+  type: 'url' | 'title' | undefined,
+  onProgress: ProgressCallback | undefined,
+  options: GenerationOptions & { stopAfter: PipelineStopStage }
+): Promise<Script>;
+export async function generatePodcast(
+  input: string | string[],
   type?: 'url' | 'title',
+  onProgress?: ProgressCallback,
+  options?: GenerationOptions & { stopAfter?: undefined }
+): Promise<Podcast>;
+export async function generatePodcast(
+  input: string | string[],
+  type?: 'url' | 'title',
+  onProgress?: ProgressCallback,
+  options?: GenerationOptions
+): Promise<Podcast | Script>;
+export async function generatePodcast(
+  input: string | string[],
+  type?: 'url' | 'title',
+  onProgress?: ProgressCallback,
+  options: GenerationOptions = {}
+): Promise<Podcast | Script> {
+  const now = new Date().toISOString();
+  
+  const checkpoint: PipelineCheckpoint = {
+    id: options.checkpointId ?? uuidv4(),
+    request: {
+      input,
+      type,
+      ...(options.language && { language: options.language }),
+      ...(options.outputLanguage && { outputLanguage: options.outputLanguage }),
+      ...(options.sections?.length && { sections: options.sections }),
+      ...(options.targetMinutes !== undefined && { targetMinutes: options.targetMinutes }),
+      ...(options.hosts?.length && { hosts: options.hosts }),
+      ...(options.format && { format: options.format }),
+      ...(options.stopAfter && { stopAfter: options.stopAfter }),
+      ...(options.lexicon?.length && { lexicon: options.lexicon }),
+      ...(options.audioPreset && { audioPreset: options.audioPreset }),
+    },
+    stages: getPipelineStageNames(options).map(name => createStage(name)),
+    ...(options.script && { script: options.script }),
+    segments: [],
+    startedAt: now,
+    updatedAt: now,
+  };
+  
+  return runPipeline(checkpoint, onProgress);
+}
+
+/**
+ * Resumes a failed generation from its last checkpoint
+ * 
+ * Completed stages are skipped and audio segments already on disk are reused.
+ * Runs that stop after the script resolve to the script.
+ */
+export async function resumePodcast(
+  checkpointId: string,
   onProgress?: ProgressCallback
-): Promise<Podcast> {
-  const stages: GenerationStage[] = [
-    createStage('fetch'),
-    createStage('generate_script'),
-    createStage('synthesize_audio'),
-    createStage('stitch_audio'),
-  ];
+): Promise<Podcast | Script> {
+  const checkpoint = await loadCheckpoint(checkpointId);
+  if (!checkpoint) {
+    throw new Error(`No checkpoint found for generation "${checkpointId}"`);
+  }
+  
+  // Stages that did not complete run again from scratch
+  checkpoint.stages = checkpoint.stages.map(stage =>
+    stage.status === 'completed' ? stage : createStage(stage.name)
+  );
   
-  const startTime = new Date().toISOString();
+  console.log(`Resuming generation ${checkpointId} from checkpoint`);
+  
+  return runPipeline(checkpoint, onProgress);
+}
+
+/**
+ * Runs the pipeline stages that have not yet completed in the checkpoint
+ */
+async function runPipeline(
+  checkpoint: PipelineCheckpoint,
+  onProgress?: ProgressCallback
+): Promise<Podcast | Script> {
+  const { stages } = checkpoint;
+  const {
+    input,
+    type,
+    language,
+    outputLanguage,
+    sections,
+    targetMinutes,
+    hosts,
+    format,
+    audioPreset,
+  } = checkpoint.request;
+  
+  // Runs voicing a given script have no fetch or script stage, and runs
+  // stopping after the script have no audio stages
+  const findStage = (name: GenerationStageName) => stages.find(stage => stage.name === name);
+  const fetchStage = findStage('fetch');
+  const scriptStage = findStage('generate_script');
+  const synthesizeStage = findStage('synthesize_audio');
+  const stitchStage = findStage('stitch_audio');
+  
+  const startTime = checkpoint.startedAt;
+  
+  // Serialize checkpoint writes; a failed write never aborts the pipeline
+  let pendingWrite: Promise<void> = Promise.resolve();
+  const persistCheckpoint = (): Promise<void> => {
+    checkpoint.updatedAt = new Date().toISOString();
+    const snapshot = JSON.parse(JSON.stringify(checkpoint)) as PipelineCheckpoint;
+    pendingWrite = pendingWrite
+      .then(() => saveCheckpoint(snapshot))
+      .then(() => undefined)
+      .catch((error) => {
+        console.warn(`Failed to save checkpoint ${checkpoint.id}:`, error);
+      });
+    return pendingWrite;
+  };
+  
+  const startStage = (stage: GenerationStage) => {
+    stage.status = 'in_progress';
+    stage.startedAt = new Date().toISOString();
+    delete stage.completedAt;
+    delete stage.error;
+    if (onProgress) onProgress(stage);
+  };
+  
+  const completeStage = async (stage: GenerationStage) => {
+    stage.status = 'completed';
+    stage.completedAt = new Date().toISOString();
+    if (onProgress) onProgress(stage);
+    await persistCheckpoint();
+  };
+  
+  // Report stages restored from the checkpoint
+  for (const stage of stages) {
+    if (stage.status === 'completed' && onProgress) onProgress(stage);
+  }
   
   try {
-    // Stage 1: Fetch article
-    console.log('Stage 1: Fetching Wikipedia article...');
-    stages[0].status = 'in_progress';
-    stages[0].startedAt = new Date().toISOString();
-    if (onProgress) onProgress(stages[0]);
-    
-    const article = await fetchArticle(input, type);
-    
-    stages[0].status = 'completed';
-    stages[0].completedAt = new Date().toISOString();
-    if (onProgress) onProgress(stages[0]);
+    await persistCheckpoint();
     
-    console.log(`Article fetched: "${article.title}" (${article.wordCount} words)`);
+    // Stage 1: Fetch articles
+    let articles = checkpoint.articles;
+    if (fetchStage && (fetchStage.status !== 'completed' || !articles?.length)) {
+      console.log('Stage 1: Fetching Wikipedia article...');
+      startStage(fetchStage);
+      
+      if (Array.isArray(input)) {
+        articles = await fetchArticles(input, type, language);
+      } else {
+        let article = await fetchArticle(input, type, language);
+        if (sections?.length) {
+          article = selectArticleSections(article, sections);
+        }
+        articles = [article];
+      }
+      checkpoint.articles = articles;
+      
+      await completeStage(fetchStage);
+      
+      for (const article of articles) {
+        console.log(`Article fetched: "${article.title}" (${article.wordCount} words)`);
+      }
+    } else if (articles?.length) {
+      console.log(`Stage 1: Reusing checkpointed articles "${articles.map(a => a.title).join('", "')}"`);
+    }
     
     // Stage 2: Generate script
-    console.log('Stage 2: Generating podcast script...');
-    stages[1].status = 'in_progress';
-    stages[1].startedAt = new Date().toISOString();
-    if (onProgress) onProgress(stages[1]);
-    
-    const script = await generateScript(article);
+    let script = checkpoint.script;
+    let scriptPath: string;
+    if (scriptStage && articles && (scriptStage.status !== 'completed' || !script)) {
+      console.log('Stage 2: Generating podcast script...');
+      startStage(scriptStage);
+      
+      script = await generateScript(articles.length === 1 ? articles[0] : articles, {
+        outputLanguage,
+        targetMinutes,
+        hosts: await resolveHosts(hosts),
+        format: resolveFormat(format),
+      });
+      
+      // Check the lines against the articles before anything is voiced, then cite them
+      script = addLineSources(await checkScriptFacts(script, articles), articles);
+      checkpoint.script = script;
+      
+      // Save script
+      scriptPath = await saveScript(script.id, script);
+      console.log(`Script saved: ${scriptPath}`);
+      
+      await completeStage(scriptStage);
+      
+      console.log(`Script generated: ${script.lines.length} lines, ~${script.estimatedDuration}s`);
+    } else if (script) {
+      scriptPath = await saveScript(script.id, script);
+      console.log(scriptStage
+        ? `Stage 2: Reusing checkpointed script ${script.id}`
+        : `Stage 2: Skipped, voicing the given script ${script.id}`);
+    } else {
+      throw new Error(`Generation ${checkpoint.id} has neither articles nor a script`);
+    }
     
-    stages[1].status = 'completed';
-    stages[1].completedAt = new Date().toISOString();
-    if (onProgress) onProgress(stages[1]);
+    // Pronunciations sent with the request join the episode's lexicon
+    if (checkpoint.request.lexicon?.length) {
+      await saveLexiconEntries(checkpoint.request.lexicon, script.id);
+    }
     
-    console.log(`Script generated: ${script.lines.length} lines, ~${script.estimatedDuration}s`);
+    if (!synthesizeStage || !stitchStage) {
+      // The script is reviewed before it is voiced (POST /api/podcast/:id/synthesize)
+      await pendingWrite;
+      await deleteCheckpoint(checkpoint.id);
+      
+      console.log(`✅ Script ${script.id} ready for review`);
+      
+      return script;
+    }
     
-    // Save script
-    const scriptPath = await saveScript(script.id, script);
-    console.log(`Script saved: ${scriptPath}`);
+    // Scripts written before hosts were configurable are read by Nishi and Shyam
+    const scriptHosts = script.hosts ?? getDefaultHosts();
     
     // Stage 3: Synthesize audio
-    console.log('Stage 3: Synthesizing audio segments...');
-    stages[2].status = 'in_progress';
-    stages[2].startedAt = new Date().toISOString();
-    if (onProgress) onProgress(stages[2]);
-    
-    const audioSegments = await generateAudioSegmentsWithRetry(script.id, script.lines);
-    
-    stages[2].status = 'completed';
-    stages[2].completedAt = new Date().toISOString();
-    if (onProgress) onProgress(stages[2]);
-    
-    console.log(`Audio segments synthesized: ${audioSegments.length} segments`);
+    let audioSegments = checkpoint.segments;
+    if (synthesizeStage.status !== 'completed') {
+      console.log('Stage 3: Synthesizing audio segments...');
+      startStage(synthesizeStage);
+      
+      const existingSegments = checkpoint.segments;
+      if (existingSegments.length > 0) {
+        console.log(`Reusing up to ${existingSegments.length} segments from checkpoint`);
+      }
+      
+      const completedSegments = new Map(existingSegments.map(s => [s.lineIndex, s]));
+      
+      audioSegments = await generateAudioSegmentsWithRetry(
+        script.id,
+        script.lines,
+        DEFAULT_TTS_RETRIES,
+        {
+          existingSegments,
+          hosts: scriptHosts,
+          lexicon: await resolveLexicon(script.id),
+          onSegment: (segment) => {
+            completedSegments.set(segment.lineIndex, segment);
+            checkpoint.segments = [...completedSegments.values()]
+              .sort((a, b) => a.lineIndex - b.lineIndex);
+            void persistCheckpoint();
+          },
+        }
+      );
+      checkpoint.segments = audioSegments;
+      
+      await completeStage(synthesizeStage);
+      
+      console.log(`Audio segments synthesized: ${audioSegments.length} segments`);
+    }
     
     // Stage 4: Stitch audio
     console.log('Stage 4: Stitching audio segments...');
-    stages[3].status = 'in_progress';
-    stages[3].startedAt = new Date().toISOString();
-    if (onProgress) onProgress(stages[3]);
+    startStage(stitchStage);
     
-    const audioResult = await stitchAudioSegments(script.id, audioSegments);
+    const preset = resolveAudioPreset(audioPreset);
+    const audioResult = await stitchAudioSegments(script.id, audioSegments, {
+      preset,
+      sections: script.sections,
+    });
     
-    stages[3].status = 'completed';
-    stages[3].completedAt = new Date().toISOString();
-    if (onProgress) onProgress(stages[3]);
+    stitchStage.status = 'completed';
+    stitchStage.completedAt = new Date().toISOString();
+    if (onProgress) onProgress(stitchStage);
     
     console.log(`Audio stitched: ${audioResult.filePath} (${audioResult.durationSeconds}s)`);
     
@@ -163,8 +455,7 @@ export async function generatePodcast(
     const podcast: Podcast = {
       id: script.id,
       scriptId: script.id,
-      articleTitle: article.title,
-      articleUrl: article.url,
+      articles: (articles ?? getScriptArticles(script)).map(({ title, url, language }) => ({ title, url, language })),
       audioFilePath: audioResult.filePath,
       durationSeconds: audioResult.durationSeconds,
       fileSizeBytes: audioResult.fileSizeBytes,
@@ -173,38 +464,63 @@ export async function generatePodcast(
         bitrate: '128k',
         sampleRate: 44100,
         channels: 1,
+        preset: preset.id,
       },
-      voiceMapping: {
-        Nishi: SPEAKERS.Nishi.voiceId,
-        Shyam: SPEAKERS.Shyam.voiceId,
-      },
+      voiceMapping: getVoiceMapping(scriptHosts),
+      lineTimings: audioResult.lineTimings,
       createdAt: new Date().toISOString(),
       pipelineVersion: PIPELINE_VERSION,
     };
     
+    // A stored script that was edited keeps its revision history
+    const previousRevisions = script.revision !== undefined
+      ? (await loadMetadata(script.id))?.script.revisions
+      : undefined;
+    
     // Create generation metadata
     const metadata: GenerationMetadata = {
       id: script.id,
-      source: {
-        title: article.title,
-        url: article.url,
-        fetchedAt: article.fetchedAt,
-      },
+      source: articles
+        ? articles.map((article): MetadataSource => ({
+            title: article.title,
+            url: article.url,
+            fetchedAt: article.fetchedAt,
+            language: article.language,
+            ...(article.selectedSections && { sections: article.selectedSections }),
+          }))
+        // Nothing was fetched when voicing a given script; its articles date from the script
+        : getScriptArticles(script).map(({ title, url, language }): MetadataSource => ({
+            title,
+            url,
+            fetchedAt: script.generatedAt,
+            language,
+          })),
       script: {
         id: script.id,
         generatedAt: script.generatedAt,
-        model: script.model,
-        promptVersion: script.generationParams.promptVersion,
-        temperature: script.generationParams.temperature,
+        ...(script.author && { author: script.author }),
+        ...(script.provider && { provider: script.provider }),
+        ...(script.model && { model: script.model }),
+        ...(script.generationParams && {
+          promptVersion: script.generationParams.promptVersion,
+          temperature: script.generationParams.temperature,
+        }),
+        attempts: script.attempts ?? [],
+        language: script.language,
+        ...(script.targetMinutes !== undefined && { targetMinutes: script.targetMinutes }),
+        hosts: scriptHosts.map(host => host.id),
+        ...(script.format && { format: script.format }),
+        ...(script.grounding && { grounding: script.grounding }),
+        ...(script.revision !== undefined && { revision: script.revision }),
+        ...(previousRevisions && { revisions: previousRevisions }),
       },
       audio: {
         id: podcast.id,
         createdAt: podcast.createdAt,
         durationSeconds: podcast.durationSeconds,
-        voiceMapping: {
-          Nishi: podcast.voiceMapping.Nishi,
-          Shyam: podcast.voiceMapping.Shyam,
-        },
+        voiceMapping: { ...podcast.voiceMapping },
+        lineTimings: audioResult.lineTimings,
+        preset: preset.id,
       },
       pipeline: {
         version: PIPELINE_VERSION,
@@ -217,13 +533,30 @@ export async function generatePodcast(
         audioPath: audioResult.filePath,
         metadataPath: '', // Will be set after saving
       },
+      cache: {
+        article: Boolean(articles?.every(article => article.fromCache)),
+        script: Boolean(script.fromCache),
+        audioLines: audioSegments.filter(s => s.fromCache).map(s => s.lineIndex),
+      },
     };
     
     // Save metadata
     const metadataPath = await saveMetadata(metadata);
     metadata.artifacts.metadataPath = metadataPath;
     
+    // Checkpoint is no longer needed once all artifacts are saved
+    await pendingWrite;
+    await deleteCheckpoint(checkpoint.id);
+    
     console.log(`Metadata saved: ${metadataPath}`);
+    
+    // Keep the cache within its limits now that new entries were added
+    if (isCacheEnabled()) {
+      await evictCache().catch((error) => {
+        console.warn('Cache eviction failed:', error);
+      });
+    }
+    
     console.log('✅ Podcast generation complete!');
     
     return podcast;
@@ -237,6 +570,8 @@ export async function generatePodcast(
       if (onProgress) onProgress(currentStage);
     }
     
+    await persistCheckpoint();
+    
     console.error('❌ Podcast generation failed:', error);
     throw error;
   }
@@ -253,12 +588,19 @@ export async function loadPodcast(id: string): Promise<Podcast | null> {
     const content = await fs.readFile(metadataPath, 'utf-8');
     const metadata: GenerationMetadata = JSON.parse(content);
     
+    // Metadata written before multi-article episodes has a single source
+    const sources: MetadataSource[] = Array.isArray(metadata.source) ? metadata.source : [metadata.source];
+    
     // Reconstruct podcast entity
     const podcast: Podcast = {
       id: metadata.id,
       scriptId: metadata.script.id,
-      articleTitle: metadata.source.title,
-      articleUrl: metadata.source.url,
+      articles: sources.map(source => ({
+        title: source.title,
+        url: source.url,
+        // Metadata written before other Wikipedia editions were supported has no language
+        language: source.language ?? 'en',
+      })),
       audioFilePath: metadata.artifacts.audioPath,
       durationSeconds: metadata.audio.durationSeconds,
       fileSizeBytes: 0, // Can be retrieved from file stats if needed
@@ -267,11 +609,14 @@ export async function loadPodcast(id: string): Promise<Podcast | null> {
         bitrate: '128k',
         sampleRate: 44100,
         channels: 1,
+        preset: metadata.audio.preset ?? DEFAULT_AUDIO_PRESET_ID,
       },
       voiceMapping: {
-        Nishi: metadata.audio.voiceMapping.Nishi,
-        Shyam: metadata.audio.voiceMapping.Shyam,
+        ...metadata.audio.voiceMapping,
+        // Metadata written before TTS providers were pluggable has no provider
+        provider: metadata.audio.voiceMapping.provider ?? 'elevenlabs',
       },
+      ...(metadata.audio.lineTimings && { lineTimings: metadata.audio.lineTimings }),
       createdAt: metadata.audio.createdAt,
       pipelineVersion: metadata.pipeline.version,
     };
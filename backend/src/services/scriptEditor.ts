@@ -0,0 +1,368 @@
+import { promises as fs } from 'fs';
+import {
+  Script,
+  ScriptLine,
+  ScriptLineEdit,
+  ScriptRevision,
+  AudioSegment,
+  GenerationMetadata,
+  Podcast,
+} from '../types/index.js';
+import {
+  loadScript,
+  loadMetadata,
+  saveJson,
+  loadJson,
+  fileExists,
+  getScriptPath,
+  getMetadataPath,
+  getSegmentsDir,
+  getSegmentPath,
+  getAudioPath,
+  getScriptRevisionPath,
+} from '../utils/fileManager.js';
+import { InvalidInputError } from '../utils/errors.js';
+import { getDefaultHosts } from '../config/hosts.js';
+import { resolveAudioPreset } from '../config/audioPresets.js';
+import { rebuildScript, validateScriptLines } from './scriptGenerator.js';
+import { generateAudioSegmentsWithRetry, DEFAULT_TTS_RETRIES } from './tts.js';
+import { stitchAudioSegments, getAudioDuration } from './audioStitcher.js';
+import { resolveLexicon } from './lexicon.js';
+import { loadPodcast } from './podcastOrchestrator.js';
+
+/**
+ * Script Editor Service
+ *
+ * Applies edits to the script of a finished podcast. The edited lines are
+ * checked against the rules the script was generated under. Only lines whose
+ * speaker or text changed are synthesized again; the segments of the others
+ * are reused from audio/segments/<id> and the episode is stitched anew.
+ *
+ * The new segments, audio, script and metadata are written next to the
+ * current ones and swapped in only once all of them were written. The swap
+ * moves the current files aside first and puts them back if a later step
+ * fails, so a failed edit leaves the podcast as it was. Each edit saves the
+ * script it replaces, so the episode keeps a revision history.
+ */
+
+/**
+ * Outcome of an edit
+ */
+export interface ScriptEditResult {
+  script: Script;
+  podcast: Podcast;
+  /** Lines synthesized for the edit, by their new index */
+  resynthesizedLines: number[];
+}
+
+/** Podcasts with an edit (or another rewrite of their files) in progress */
+const editsInProgress = new Set<string>();
+
+/**
+ * Checks whether a podcast's script is being edited (or voiced)
+ */
+export function isEditInProgress(id: string): boolean {
+  return editsInProgress.has(id);
+}
+
+/**
+ * Runs a task that rewrites or removes a podcast's script and audio, holding
+ * the lock edits take, so it never runs alongside an edit
+ * Throws if the podcast is already locked
+ */
+export async function withEditLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+  if (editsInProgress.has(id)) {
+    throw new Error(`The script of podcast ${id} is already being edited or voiced`);
+  }
+  editsInProgress.add(id);
+
+  try {
+    return await task();
+  } finally {
+    editsInProgress.delete(id);
+  }
+}
+
+/**
+ * Builds the edited lines, pairing each with the current line it replaces
+ * Unchanged lines keep their fact check and citations; changed lines lose them
+ */
+function applyEdits(
+  script: Script,
+  edits: ScriptLineEdit[]
+): { lines: ScriptLine[]; reused: Map<number, ScriptLine> } {
+  const current = new Map(script.lines.map(line => [line.index, line]));
+  const reused = new Map<number, ScriptLine>();
+
+  const lines = edits.map((edit, position): ScriptLine => {
+    const index = position + 1;
+    const previous = edit.index !== undefined ? current.get(edit.index) : undefined;
+    const line: ScriptLine = {
+      index,
+      speaker: edit.speaker,
+      text: edit.text,
+      section: edit.section,
+      ...(edit.sourceArticles && { sourceArticles: edit.sourceArticles }),
+    };
+
+    if (previous && previous.speaker === edit.speaker && previous.text === edit.text) {
+      reused.set(index, previous);
+      return {
+        ...line,
+        ...(previous.grounding && { grounding: previous.grounding }),
+        ...(previous.sources && { sources: previous.sources }),
+      };
+    }
+    return line;
+  });
+
+  return { lines, reused };
+}
+
+/**
+ * Checks whether an edit leaves the script exactly as it was
+ */
+function isUnchanged(script: Script, lines: ScriptLine[], reused: Map<number, ScriptLine>): boolean {
+  return lines.length === script.lines.length && lines.every((line, i) => {
+    const previous = script.lines[i];
+    return reused.get(line.index) === previous &&
+      line.section === previous.section &&
+      JSON.stringify(line.sourceArticles ?? []) === JSON.stringify(previous.sourceArticles ?? []);
+  });
+}
+
+/**
+ * Copies the segments of unchanged lines into the staging directory under
+ * their new line numbers
+ * Lines whose segment is missing from disk are synthesized instead; segments
+ * of episodes without line timings are measured with FFprobe
+ */
+async function stageReusedSegments(
+  id: string,
+  stagingId: string,
+  reused: Map<number, ScriptLine>,
+  metadata: GenerationMetadata
+): Promise<AudioSegment[]> {
+  const timings = new Map((metadata.audio.lineTimings ?? []).map(timing => [timing.lineIndex, timing]));
+  await fs.mkdir(getSegmentsDir(stagingId), { recursive: true });
+
+  const segments: AudioSegment[] = [];
+  for (const [index, previous] of reused) {
+    const source = getSegmentPath(id, previous.index);
+    if (!(await fileExists(source))) {
+      continue;
+    }
+
+    const filePath = getSegmentPath(stagingId, index);
+    await fs.copyFile(source, filePath);
+    const timing = timings.get(previous.index);
+    segments.push({
+      lineIndex: index,
+      speaker: previous.speaker,
+      filePath,
+      durationMs: timing
+        ? timing.endMs - timing.startMs
+        : Math.round((await getAudioDuration(filePath)) * 1000),
+      format: 'mp3',
+      generatedAt: metadata.audio.createdAt,
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Moves a file or directory, skipping it when it does not exist
+ * Returns whether anything was moved
+ */
+async function moveIfExists(source: string, target: string): Promise<boolean> {
+  try {
+    await fs.rename(source, target);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+    return false;
+  }
+}
+
+/**
+ * Swaps the staged script, metadata, audio and segments in for the current ones
+ *
+ * Each current artifact is moved aside under `<id>.previous` before the staged
+ * one takes its place. If any step fails, the artifacts already swapped are
+ * put back so the podcast is left as it was; the set-aside copies are removed
+ * only after every swap succeeded.
+ */
+async function commitStagedEdit(id: string, stagingId: string): Promise<void> {
+  const previousId = `${id}.previous`;
+  const swapped: Array<{ current: string; previous: string; existed: boolean }> = [];
+
+  try {
+    for (const getPath of [getScriptPath, getMetadataPath, getAudioPath, getSegmentsDir]) {
+      const current = getPath(id);
+      const previous = getPath(previousId);
+      const existed = await moveIfExists(current, previous);
+      swapped.push({ current, previous, existed });
+      await fs.rename(getPath(stagingId), current);
+    }
+  } catch (error) {
+    for (const { current, previous, existed } of swapped.reverse()) {
+      await fs.rm(current, { recursive: true, force: true }).catch(() => {});
+      if (existed) {
+        await fs.rename(previous, current).catch((restoreError) => {
+          console.error(`Failed to restore ${current}:`, restoreError);
+        });
+      }
+    }
+    throw error;
+  }
+
+  // The edit is in place at this point; a leftover copy is harmless
+  for (const { previous } of swapped) {
+    await fs.rm(previous, { recursive: true, force: true }).catch((error) => {
+      console.warn(`Failed to remove ${previous}:`, error);
+    });
+  }
+}
+
+/**
+ * Lists a script's revisions; scripts never edited have only the generated one
+ */
+function getRevisions(script: Script, metadata: GenerationMetadata): ScriptRevision[] {
+  return metadata.script.revisions ?? [{
+    revision: 1,
+    createdAt: script.generatedAt,
+    lineCount: script.lines.length,
+    changedLines: script.lines.map(line => line.index),
+  }];
+}
+
+/**
+ * Edits a podcast's script and re-voices the lines that changed
+ * Returns null if the podcast does not exist
+ * Throws InvalidInputError when the edited lines break the script's rules
+ */
+export function editScript(id: string, edits: ScriptLineEdit[]): Promise<ScriptEditResult | null> {
+  return withEditLock(id, () => applyScriptEdits(id, edits));
+}
+
+/**
+ * Edits the script, holding the edit lock
+ */
+async function applyScriptEdits(id: string, edits: ScriptLineEdit[]): Promise<ScriptEditResult | null> {
+  const stagingId = `${id}.edit`;
+  try {
+    const [script, metadata] = await Promise.all([loadScript(id), loadMetadata(id)]);
+    if (!script || !metadata) {
+      return null;
+    }
+
+    const { lines, reused } = applyEdits(script, edits);
+    const errors = validateScriptLines(script, lines);
+    if (errors.length > 0) {
+      throw new InvalidInputError(`The edited script is invalid: ${errors.join('; ')}`, { errors });
+    }
+
+    if (isUnchanged(script, lines, reused)) {
+      return { script, podcast: (await loadPodcast(id))!, resynthesizedLines: [] };
+    }
+
+    const revision = (script.revision ?? 1) + 1;
+    const editedAt = new Date().toISOString();
+    const edited: Script = { ...rebuildScript(script, lines), revision, editedAt };
+
+    // Build the new audio next to the current one
+    const existingSegments = await stageReusedSegments(id, stagingId, reused, metadata);
+    const reusedLines = new Set(existingSegments.map(segment => segment.lineIndex));
+    const resynthesizedLines = edited.lines
+      .map(line => line.index)
+      .filter(index => !reusedLines.has(index));
+
+    console.log(
+      `Editing script ${id}: re-synthesizing ${resynthesizedLines.length} of ${edited.lines.length} lines`
+    );
+
+    const segments = await generateAudioSegmentsWithRetry(stagingId, edited.lines, DEFAULT_TTS_RETRIES, {
+      existingSegments,
+      hosts: script.hosts ?? getDefaultHosts(),
+      lexicon: await resolveLexicon(id),
+    });
+    // The edited episode is produced the way it was first
+    const audio = await stitchAudioSegments(stagingId, segments, {
+      preset: resolveAudioPreset(metadata.audio.preset),
+      sections: edited.sections,
+    });
+
+    // Keep the replaced script and stage the new one with its metadata, then
+    // swap everything in
+    await saveJson(getScriptRevisionPath(id, script.revision ?? 1), script);
+    await saveJson(getScriptPath(stagingId), edited);
+    await saveJson<GenerationMetadata>(getMetadataPath(stagingId), {
+      ...metadata,
+      script: {
+        ...metadata.script,
+        revision,
+        revisions: [
+          ...getRevisions(script, metadata),
+          { revision, createdAt: editedAt, lineCount: edited.lines.length, changedLines: resynthesizedLines },
+        ],
+      },
+      audio: {
+        ...metadata.audio,
+        durationSeconds: audio.durationSeconds,
+        lineTimings: audio.lineTimings,
+      },
+      artifacts: {
+        ...metadata.artifacts,
+        audioPath: getAudioPath(id),
+      },
+    });
+    await commitStagedEdit(id, stagingId);
+
+    console.log(`Script ${id} saved as revision ${revision}`);
+
+    return { script: edited, podcast: (await loadPodcast(id))!, resynthesizedLines };
+  } finally {
+    await fs.rm(getSegmentsDir(stagingId), { recursive: true, force: true }).catch(() => {});
+    await fs.rm(getAudioPath(stagingId), { force: true }).catch(() => {});
+    await fs.rm(getScriptPath(stagingId), { force: true }).catch(() => {});
+    await fs.rm(getMetadataPath(stagingId), { force: true }).catch(() => {});
+  }
+}
+
+/**
+ * Lists the revisions of a podcast's script, oldest first
+ * Returns null if the podcast does not exist
+ */
+export async function listScriptRevisions(
+  id: string
+): Promise<{ current: number; revisions: ScriptRevision[] } | null> {
+  const [script, metadata] = await Promise.all([loadScript(id), loadMetadata(id)]);
+  if (!script || !metadata) {
+    return null;
+  }
+
+  return { current: script.revision ?? 1, revisions: getRevisions(script, metadata) };
+}
+
+/**
+ * Loads one revision of a podcast's script
+ * Returns null if the podcast or the revision does not exist
+ */
+export async function loadScriptRevision(id: string, revision: number): Promise<Script | null> {
+  const script = await loadScript(id);
+  if (!script) {
+    return null;
+  }
+  if (revision === (script.revision ?? 1)) {
+    return script;
+  }
+
+  const revisionPath = getScriptRevisionPath(id, revision);
+  if (revision > (script.revision ?? 1) || !(await fileExists(revisionPath))) {
+    return null;
+  }
+  return loadJson<Script>(revisionPath);
+}
@@ -1,150 +1,437 @@
-import { Script, ScriptLine, Article } from '../types/index.js';
+import crypto from 'crypto';
+import {
+  Script,
+  ScriptLine,
+  ScriptSection,
+  ScriptSections,
+  ScriptOutlineSegment,
+  Article,
+  ArticleReference,
+  ScriptGenerationAttempt,
+  HostProfile,
+  ShowFormat,
+  WORDS_PER_MINUTE,
+} from '../types/index.js';
 import { getConfig } from '../config/env.js';
-import { SYSTEM_PROMPT, generateUserPrompt, GENERATION_PARAMS, PROMPT_VERSION } from '../prompts/podcast.js';
-import https from 'https';
-import fetch from 'node-fetch';
+import {
+  generateSystemPrompt,
+  generateUserPrompt,
+  generateOutlinePrompt,
+  generateSegmentPrompt,
+  generateRepairPrompt,
+  getEpisodeLength,
+  EpisodeLength,
+  PromptArticle,
+  PromptOptions,
+  PromptHost,
+  joinNames,
+  GENERATION_PARAMS,
+  PROMPT_VERSION,
+} from '../prompts/podcast.js';
+import { getLlmProvider, LlmProvider, LlmMessage, LlmTask } from '../providers/llm/index.js';
+import { hashKey, getCachedJson, setCachedJson } from './cache.js';
+import { DEFAULT_LANGUAGE } from '../config/languages.js';
+import { getWikipediaUrlLanguage } from '../utils/validation.js';
+import { getDefaultHosts } from '../config/hosts.js';
+import { getFormat, getDefaultFormat } from '../config/formats.js';
+import { GenerationFailedError } from '../utils/errors.js';
 
 /**
  * Script Generator Service
  * 
- * Generates podcast scripts using xAI Grok API with deterministic settings.
- * Enforces constitution requirements for structure and content.
+ * Generates podcast scripts using the configured LLM provider (xAI Grok by
+ * default) with deterministic settings.
+ * Enforces constitution requirements for structure and content. Replies that
+ * fail to parse or validate are sent back to the model with the specific
+ * errors, up to `scriptRepairAttempts` times.
+ *
+ * Episodes longer than a few minutes are written in two steps: the model
+ * first plans an outline of segments, then writes each segment in turn,
+ * seeing the outline and the last lines written so far.
+ *
+ * An episode can connect several articles; each line then names the
+ * articles its facts come from.
+ *
+ * Scripts are written for a roster of 1-4 hosts (Nishi and Shyam by
+ * default); a single host narrates the whole episode.
+ *
+ * The show format (classic by default) decides the sections, their order
+ * and how many lines each gets.
  */
 
-// Create an HTTPS agent that handles SSL certificates properly
-const httpsAgent = new https.Agent({
-  rejectUnauthorized: process.env.NODE_ENV === 'production',
-});
+/** Longest episode written in a single request, in minutes */
+const SINGLE_PASS_MAX_MINUTES = 5;
 
-interface GrokMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
-interface GrokRequest {
-  model: string;
-  messages: GrokMessage[];
-  temperature: number;
-  max_tokens: number;
-  top_p: number;
-}
+/** Approximate length of one long-form segment, in minutes */
+const SEGMENT_MINUTES = 4;
 
-interface GrokResponse {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: Array<{
-    index: number;
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
+/** Lines of the script so far shown to the model when writing the next segment */
+const CONTEXT_LINES = 6;
 
 interface RawScriptResponse {
   lines: Array<{
     index: number;
-    speaker: 'Nishi' | 'Shyam';
+    speaker: string;
     text: string;
-    section: 'greeting' | 'explanation' | 'clarification' | 'qna' | 'signoff';
+    section: string;
+    sourceArticles?: unknown;
+  }>;
+}
+
+interface RawOutlineResponse {
+  segments: Array<{
+    title: string;
+    points: string[];
   }>;
 }
 
+function countWords(lines: ScriptLine[]): number {
+  return lines.reduce((sum, line) => sum + line.text.split(/\s+/).length, 0);
+}
+
 /**
- * Validates that the script follows constitution requirements
+ * Checks speakers: only the episode's hosts, at most 5 consecutive lines each
+ * A single narrator speaks every line
  */
-function validateScript(lines: ScriptLine[]): void {
-  // Check minimum lines
-  if (lines.length < 10) {
-    throw new Error('Script too short: must have at least 10 lines');
-  }
-  
-  // Check that all 5 sections are present
-  const sections = new Set(lines.map(line => line.section));
-  const requiredSections: Array<ScriptLine['section']> = [
-    'greeting',
-    'explanation',
-    'clarification',
-    'qna',
-    'signoff'
-  ];
+function validateSpeakers(lines: ScriptLine[], hosts: PromptHost[]): string[] {
+  const errors: string[] = [];
+  const names = hosts.map(host => host.name);
   
-  for (const section of requiredSections) {
-    if (!sections.has(section)) {
-      throw new Error(`Missing required section: ${section}`);
-    }
-  }
-  
-  // Check speakers are only Nishi and Shyam
+  // Check speakers are only the hosts
   const speakers = new Set(lines.map(line => line.speaker));
   for (const speaker of speakers) {
-    if (speaker !== 'Nishi' && speaker !== 'Shyam') {
-      throw new Error(`Invalid speaker: ${speaker}. Only Nishi and Shyam are allowed.`);
+    if (!names.includes(speaker)) {
+      errors.push(`Invalid speaker: ${speaker}. Only ${joinNames(names)} ${names.length === 1 ? 'is' : 'are'} allowed.`);
     }
   }
   
-  // Check section order
-  const sectionOrder = ['greeting', 'explanation', 'clarification', 'qna', 'signoff'];
-  let lastSectionIndex = -1;
-  
-  for (const line of lines) {
-    const currentSectionIndex = sectionOrder.indexOf(line.section);
-    if (currentSectionIndex < lastSectionIndex) {
-      throw new Error(`Sections out of order at line ${line.index}`);
-    }
-    lastSectionIndex = currentSectionIndex;
+  if (hosts.length === 1) {
+    return errors;
   }
   
-  // Check for excessive consecutive same speaker (max 5)
+  // Check for excessive consecutive same speaker (max 5), once per run
   let consecutiveCount = 1;
   let lastSpeaker = lines[0]?.speaker;
   
   for (let i = 1; i < lines.length; i++) {
     if (lines[i].speaker === lastSpeaker) {
       consecutiveCount++;
-      if (consecutiveCount > 5) {
-        throw new Error(`Too many consecutive lines by ${lastSpeaker} at line ${i + 1}`);
+      if (consecutiveCount === 6) {
+        errors.push(`Too many consecutive lines by ${lastSpeaker} at line ${i + 1}`);
       }
     } else {
       consecutiveCount = 1;
       lastSpeaker = lines[i].speaker;
     }
   }
+  
+  return errors;
+}
+
+/**
+ * Numbers the format's sections by position in the running order
+ * Adjacent repeatable sections share a position, so their turns may alternate
+ */
+function getSectionPositions(format: ShowFormat): Map<ScriptSection, number> {
+  const positions = new Map<ScriptSection, number>();
+  let position = -1;
+  
+  format.sections.forEach((section, i) => {
+    if (!(section.repeatable && format.sections[i - 1]?.repeatable)) {
+      position++;
+    }
+    positions.set(section.id, position);
+  });
+  
+  return positions;
+}
+
+/**
+ * Checks that the listed sections are present and that they appear in the format's order
+ * Optional sections may be left out
+ */
+function validateSections(
+  lines: ScriptLine[],
+  format: ShowFormat,
+  sectionIds: readonly ScriptSection[] = format.sections.map(section => section.id)
+): string[] {
+  const errors: string[] = [];
+  const present = new Set(lines.map(line => line.section));
+  
+  for (const section of format.sections) {
+    if (sectionIds.includes(section.id) && !section.optional && !present.has(section.id)) {
+      errors.push(`Missing required section: ${section.id}`);
+    }
+  }
+  
+  const positions = getSectionPositions(format);
+  let lastPosition = -1;
+  
+  for (const line of lines) {
+    if (!sectionIds.includes(line.section)) {
+      errors.push(`Section ${line.section} at line ${line.index} does not belong here; use only: ${sectionIds.join(', ')}`);
+      break;
+    }
+    const position = positions.get(line.section)!;
+    if (position < lastPosition) {
+      errors.push(`Sections out of order at line ${line.index}`);
+      break;
+    }
+    lastPosition = position;
+  }
+  
+  return errors;
+}
+
+/**
+ * Checks each section's line count against the format's range
+ * Longer episodes scale their sections up, so only the minimum applies to them
+ */
+function validateSectionLengths(lines: ScriptLine[], format: ShowFormat, length?: EpisodeLength): string[] {
+  const errors: string[] = [];
+  
+  for (const section of format.sections) {
+    const count = lines.filter(line => line.section === section.id).length;
+    // Missing sections are reported by validateSections
+    if (count === 0) {
+      continue;
+    }
+    
+    const { min, max } = section.lines;
+    if (count < min) {
+      errors.push(`Section ${section.id} has ${count} line(s): write at least ${min}`);
+    } else if (length?.minutes === undefined && count > max) {
+      errors.push(`Section ${section.id} has ${count} lines: write at most ${max}`);
+    }
+  }
+  
+  return errors;
+}
+
+/**
+ * Checks the articles lines cite in a multi-article script
+ * With `requireAll`, every article must be cited at least once
+ */
+function validateSourceArticles(lines: ScriptLine[], articleCount: number, requireAll: boolean): string[] {
+  if (articleCount < 2) {
+    return [];
+  }
+  
+  const errors: string[] = [];
+  const cited = new Set<number>();
+  
+  for (const line of lines) {
+    for (const source of line.sourceArticles ?? []) {
+      if (source < 1 || source > articleCount) {
+        errors.push(`Line ${line.index} cites article ${source}, but there are only ${articleCount} articles`);
+      } else {
+        cited.add(source);
+      }
+    }
+  }
+  
+  if (requireAll) {
+    for (let source = 1; source <= articleCount; source++) {
+      if (!cited.has(source)) {
+        errors.push(`Article ${source} is never cited in "sourceArticles"; draw on every article`);
+      }
+    }
+  }
+  
+  return errors;
+}
+
+/**
+ * Checks that the script follows constitution requirements
+ * With a requested length, the estimated duration must also fit it
+ * Long-form scripts are `segmented`: their sections span several parts, so
+ * the format's line ranges do not apply
+ * Returns every problem found so they can be sent back to the model at once
+ */
+function validateScript(
+  lines: ScriptLine[],
+  hosts: PromptHost[],
+  format: ShowFormat,
+  length?: EpisodeLength,
+  articleCount = 1,
+  segmented = false
+): string[] {
+  const errors: string[] = [];
+  
+  // Check minimum lines
+  if (lines.length < 10) {
+    errors.push('Script too short: must have at least 10 lines');
+  }
+  
+  errors.push(...validateSections(lines, format));
+  if (!segmented) {
+    errors.push(...validateSectionLengths(lines, format, length));
+  }
+  errors.push(...validateSpeakers(lines, hosts));
+  errors.push(...validateSourceArticles(lines, articleCount, true));
+  
+  // Every host takes part in the conversation
+  const speakers = new Set(lines.map(line => line.speaker));
+  for (const host of hosts) {
+    if (!speakers.has(host.name)) {
+      errors.push(`${host.name} never speaks; every host must have lines`);
+    }
+  }
+  
+  if (length?.minutes !== undefined) {
+    const { totalWords, estimatedDuration } = calculateDuration(lines);
+    if (totalWords < length.minWords || totalWords > length.maxWords) {
+      const [minSeconds, maxSeconds] = [length.minWords, length.maxWords].map(wordsToSeconds);
+      errors.push(
+        `Script runs about ${estimatedDuration}s (${totalWords} words) but ${length.minutes} minutes were requested: ` +
+        `write ${length.minWords}-${length.maxWords} words (${minSeconds}-${maxSeconds}s)`
+      );
+    }
+  }
+  
+  return errors;
+}
+
+/**
+ * Checks one segment of a long-form script against its planned sections and word budget
+ */
+function validateSegment(
+  lines: ScriptLine[],
+  sections: ScriptSection[],
+  segmentLength: EpisodeLength,
+  hosts: PromptHost[],
+  format: ShowFormat,
+  articleCount: number
+): string[] {
+  const errors: string[] = [];
+  const minLines = sections.length * 2;
+  
+  if (lines.length < minLines) {
+    errors.push(`Part too short: must have at least ${minLines} lines`);
+  }
+  
+  errors.push(...validateSections(lines, format, sections));
+  errors.push(...validateSpeakers(lines, hosts));
+  errors.push(...validateSourceArticles(lines, articleCount, false));
+  
+  const totalWords = countWords(lines);
+  if (totalWords < segmentLength.minWords || totalWords > segmentLength.maxWords) {
+    errors.push(
+      `Part has ${totalWords} words: write ${segmentLength.minWords}-${segmentLength.maxWords} words`
+    );
+  }
+  
+  return errors;
+}
+
+/**
+ * Converts the raw outline reply into segments with their planned sections
+ */
+function parseOutline(
+  rawOutline: RawOutlineResponse,
+  segmentSections: ScriptSection[][]
+): { segments: ScriptOutlineSegment[]; errors: string[] } {
+  if (!rawOutline || !Array.isArray(rawOutline.segments)) {
+    return { segments: [], errors: ['Response must be a JSON object with a "segments" array'] };
+  }
+  
+  const errors: string[] = [];
+  if (rawOutline.segments.length !== segmentSections.length) {
+    errors.push(`Outline must have exactly ${segmentSections.length} segments, got ${rawOutline.segments.length}`);
+  }
+  
+  const segments: ScriptOutlineSegment[] = [];
+  rawOutline.segments.slice(0, segmentSections.length).forEach((segment, position) => {
+    const points = Array.isArray(segment?.points)
+      ? segment.points.filter((point): point is string => typeof point === 'string' && point.trim() !== '')
+      : [];
+    
+    if (typeof segment?.title !== 'string' || !segment.title.trim() || points.length === 0) {
+      errors.push(`Segment ${position + 1} must have a "title" and a non-empty "points" array`);
+      return;
+    }
+    
+    segments.push({
+      title: segment.title.trim(),
+      points: points.map(point => point.trim()),
+      sections: segmentSections[position],
+    });
+  });
+  
+  return { segments, errors };
+}
+
+function isSourceList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(source => Number.isInteger(source));
+}
+
+/**
+ * Converts the raw reply into script lines, reporting malformed entries
+ * Source articles are kept only when the script connects several articles
+ */
+function parseLines(
+  rawScript: RawScriptResponse,
+  format: ShowFormat,
+  articleCount = 1
+): { lines: ScriptLine[]; errors: string[] } {
+  if (!rawScript || !Array.isArray(rawScript.lines)) {
+    return { lines: [], errors: ['Response must be a JSON object with a "lines" array'] };
+  }
+  
+  const errors: string[] = [];
+  const lines: ScriptLine[] = [];
+  
+  rawScript.lines.forEach((line, position) => {
+    if (!line || typeof line.text !== 'string' || typeof line.speaker !== 'string') {
+      errors.push(`Line ${position + 1} must have string "speaker" and "text" fields`);
+      return;
+    }
+    if (!format.sections.some(section => section.id === line.section)) {
+      errors.push(`Line ${position + 1} has unknown section: ${line.section}`);
+      return;
+    }
+    
+    const hasSources = articleCount > 1 && line.sourceArticles !== undefined;
+    if (hasSources && !isSourceList(line.sourceArticles)) {
+      errors.push(`Line ${position + 1} must list its "sourceArticles" as article numbers`);
+      return;
+    }
+    
+    lines.push({
+      index: line.index,
+      speaker: line.speaker,
+      text: line.text.trim(),
+      section: line.section,
+      ...(hasSources && { sourceArticles: [...new Set(line.sourceArticles as number[])] }),
+    });
+  });
+  
+  return { lines, errors };
+}
+
+function wordsToSeconds(words: number): number {
+  return Math.round((words / WORDS_PER_MINUTE) * 60);
 }
 
 /**
  * Calculates estimated duration based on word count (150 WPM)
  */
 function calculateDuration(lines: ScriptLine[]): { totalWords: number; estimatedDuration: number } {
-  const totalWords = lines.reduce((sum, line) => {
-    return sum + line.text.split(/\s+/).length;
-  }, 0);
+  const totalWords = countWords(lines);
   
   // Average speaking rate: 150 words per minute
-  const estimatedDuration = Math.round((totalWords / 150) * 60);
+  const estimatedDuration = wordsToSeconds(totalWords);
   
   return { totalWords, estimatedDuration };
 }
 
 /**
- * Organizes lines by section
+ * Organizes lines by the format's sections
  */
-function organizeSections(lines: ScriptLine[]) {
-  const sections = {
-    greeting: [] as number[],
-    explanation: [] as number[],
-    clarification: [] as number[],
-    qna: [] as number[],
-    signoff: [] as number[],
-  };
+function organizeSections(lines: ScriptLine[], format: ShowFormat): ScriptSections {
+  const sections: ScriptSections = Object.fromEntries(
+    format.sections.map(section => [section.id, [] as number[]])
+  );
   
   lines.forEach((line) => {
     sections[line.section].push(line.index);
@@ -153,15 +440,66 @@ function organizeSections(lines: ScriptLine[]) {
   return sections;
 }
 
+/**
+ * Renumbers a script's lines from 1 and recomputes its sections, word count and duration
+ * Used after lines were removed or rewritten
+ */
+export function rebuildScript(script: Script, lines: ScriptLine[]): Script {
+  const format = (script.format && getFormat(script.format.id)) ?? getDefaultFormat();
+  const renumbered = lines.map((line, i) => ({ ...line, index: i + 1 }));
+  
+  return {
+    ...script,
+    lines: renumbered,
+    sections: organizeSections(renumbered, format),
+    ...calculateDuration(renumbered),
+  };
+}
+
+/**
+ * Checks lines for a saved script against the rules it was generated under:
+ * its hosts, format, requested length and source articles
+ */
+export function validateScriptLines(script: Script, lines: ScriptLine[]): string[] {
+  const format = (script.format && getFormat(script.format.id)) ?? getDefaultFormat();
+  const length = script.targetMinutes !== undefined ? getEpisodeLength(script.targetMinutes) : undefined;
+  
+  return validateScript(
+    lines,
+    script.hosts ?? getDefaultHosts(),
+    format,
+    length,
+    getScriptArticles(script).length,
+    Boolean(script.outline)
+  );
+}
+
+/**
+ * Lists a script's source articles
+ * Scripts saved before several articles were supported name only their article title and URL
+ */
+export function getScriptArticles(script: Script): ArticleReference[] {
+  return script.articles ?? [{
+    title: script.articleTitle,
+    url: script.articleUrl,
+    language: getWikipediaUrlLanguage(script.articleUrl),
+  }];
+}
+
 /**
  * Generates a unique script ID based on article title and timestamp
+ * Titles in any script keep their letters; a title without any falls back to a hash of the article URL
  */
-function generateScriptId(articleTitle: string): string {
-  const sanitized = articleTitle
-    .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, '')
-    .replace(/\s+/g, '_')
-    .substring(0, 50);
+export function generateScriptId(articleTitle: string, articleUrl: string): string {
+  const slug = Array.from(
+    articleTitle
+      .normalize('NFC')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{M}\p{N}\s-]/gu, '')
+      .trim()
+      .replace(/\s+/g, '_')
+  ).slice(0, 50).join('');
+  const sanitized = /[\p{L}\p{N}]/u.test(slug) ? slug : crypto.createHash('sha256').update(articleUrl).digest('hex').slice(0, 8);
   
   const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+/, '').replace('T', '_');
   
@@ -169,120 +507,430 @@ function generateScriptId(articleTitle: string): string {
 }
 
 /**
- * Calls xAI Grok API to generate script
+ * Parses the JSON from a model reply
  */
-async function callGrokAPI(articleTitle: string, articleContent: string): Promise<RawScriptResponse> {
-  const config = getConfig();
-  const apiUrl = 'https://api.x.ai/v1/chat/completions';
-  
-  const request: GrokRequest = {
-    model: GENERATION_PARAMS.model,
-    messages: [
-      {
-        role: 'system',
-        content: SYSTEM_PROMPT,
-      },
-      {
-        role: 'user',
-        content: generateUserPrompt(articleTitle, articleContent),
-      },
-    ],
-    temperature: GENERATION_PARAMS.temperature,
-    max_tokens: GENERATION_PARAMS.maxTokens,
-    top_p: GENERATION_PARAMS.topP,
+function parseJsonResponse<T>(content: string, provider: LlmProvider): T {
+  try {
+    // Try to extract JSON if wrapped in markdown code blocks
+    const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+    const jsonString = jsonMatch ? jsonMatch[1] : content;
+    return JSON.parse(jsonString);
+  } catch (parseError) {
+    throw new Error(`Failed to parse ${provider.label} response as JSON: ${parseError}`);
+  }
+}
+
+/**
+ * Options for script generation
+ */
+export interface ScriptGenerationOptions {
+  /** Language to write the script in (default: "en", the English-Hindi mix) */
+  outputLanguage?: string;
+  /** Episode length in minutes (default: 2-3 minutes) */
+  targetMinutes?: number;
+  /** Hosts, in roster order (default: Nishi and Shyam); one host narrates alone */
+  hosts?: HostProfile[];
+  /** Show format (default: classic) */
+  format?: ShowFormat;
+}
+
+/** Script lines accepted from the model, with how they were obtained */
+interface GeneratedLines {
+  lines: ScriptLine[];
+  model: string;
+  attempts: ScriptGenerationAttempt[];
+  /** Plan of a long-form script */
+  outline?: ScriptOutlineSegment[];
+}
+
+/** A reply accepted by the repair loop */
+interface AcceptedReply<T> {
+  value: T;
+  model: string;
+  attempts: ScriptGenerationAttempt[];
+}
+
+/**
+ * Describes the script being written, for the structured task of a request
+ */
+function describeScriptTask(articles: PromptArticle[], hosts: PromptHost[], format: ShowFormat) {
+  return {
+    title: articles[0].title,
+    hosts: hosts.map(host => host.name),
+    sections: format.sections.map(section => ({
+      id: section.id,
+      optional: Boolean(section.optional),
+      minLines: section.lines.min,
+      maxLines: section.lines.max,
+    })),
+    articleCount: articles.length,
   };
+}
+
+/**
+ * Sends the messages to the model, repairing rejected replies
+ * `task` describes the request for providers that reply without a model;
+ * `parseReply` turns a reply into a value and the problems found in it
+ * When the repairs run out, the thrown GenerationFailedError carries every
+ * attempt in its details, after the `earlierAttempts` of previous steps
+ */
+async function requestWithRepairs<T>(
+  provider: LlmProvider,
+  messages: LlmMessage[],
+  task: LlmTask,
+  parseReply: (content: string) => { value: T; errors: string[] },
+  step?: { name: string; subject: string },
+  earlierAttempts: ScriptGenerationAttempt[] = []
+): Promise<AcceptedReply<T>> {
+  const maxAttempts = getConfig().scriptRepairAttempts + 1;
+  const attempts: ScriptGenerationAttempt[] = [];
   
-  try {
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.xaiApiKey}`,
-      },
-      body: JSON.stringify(request),
-      agent: httpsAgent,
+  for (let attempt = 1; ; attempt++) {
+    // API errors are not repairable and propagate immediately
+    const completion = await provider.complete({
+      messages,
+      temperature: GENERATION_PARAMS.temperature,
+      maxTokens: GENERATION_PARAMS.maxTokens,
+      topP: GENERATION_PARAMS.topP,
+      task,
     });
     
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Grok API error: ${response.status} ${response.statusText} - ${errorText}`);
+    let value: T | undefined;
+    let errors: string[];
+    try {
+      ({ value, errors } = parseReply(completion.content));
+    } catch (parseError) {
+      errors = [parseError instanceof Error ? parseError.message : String(parseError)];
     }
     
-    const data = await response.json() as GrokResponse;
+    attempts.push({
+      attempt,
+      errors,
+      completedAt: new Date().toISOString(),
+      ...(step && { step: step.name }),
+    });
     
-    if (!data.choices || data.choices.length === 0) {
-      throw new Error('No response from Grok API');
+    if (errors.length === 0 && value !== undefined) {
+      return { value, model: completion.model, attempts };
     }
     
-    const content = data.choices[0].message.content;
-    
-    // Parse JSON response
-    let parsed: RawScriptResponse;
-    try {
-      // Try to extract JSON if wrapped in markdown code blocks
-      const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-      const jsonString = jsonMatch ? jsonMatch[1] : content;
-      parsed = JSON.parse(jsonString);
-    } catch (parseError) {
-      throw new Error(`Failed to parse Grok response as JSON: ${parseError}`);
+    const stepLabel = step ? ` (${step.name})` : '';
+    if (attempt >= maxAttempts) {
+      throw new GenerationFailedError(
+        'script',
+        `Script generation failed after ${attempt} attempt(s)${stepLabel}: ${errors.join('; ')}`,
+        { attempts: [...earlierAttempts, ...attempts] }
+      );
     }
     
-    return parsed;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw error;
-    }
-    throw new Error('Unknown error calling Grok API');
+    console.warn(`Script attempt ${attempt}${stepLabel} rejected, asking for a repair: ${errors.join('; ')}`);
+    
+    // Send the rejected reply back with the specific problems to fix
+    messages.push(
+      { role: 'assistant', content: completion.content },
+      { role: 'user', content: generateRepairPrompt(errors, step?.subject) }
+    );
+  }
+}
+
+/**
+ * Requests a whole script in one go
+ */
+async function requestValidLines(
+  provider: LlmProvider,
+  articles: PromptArticle[],
+  promptOptions: PromptOptions,
+  length: EpisodeLength,
+  hosts: PromptHost[],
+  format: ShowFormat
+): Promise<GeneratedLines> {
+  const messages: LlmMessage[] = [
+    {
+      role: 'system',
+      content: generateSystemPrompt(hosts, format),
+    },
+    {
+      role: 'user',
+      content: generateUserPrompt(articles, promptOptions),
+    },
+  ];
+  
+  const task: LlmTask = {
+    kind: 'script',
+    ...describeScriptTask(articles, hosts, format),
+    minWords: length.minWords,
+    maxWords: length.maxWords,
+    sectionsMayGrow: length.minutes !== undefined,
+  };
+  
+  const { value: lines, model, attempts } = await requestWithRepairs(provider, messages, task, content => {
+    const parsed = parseLines(parseJsonResponse<RawScriptResponse>(content, provider), format, articles.length);
+    return {
+      value: parsed.lines,
+      errors: parsed.errors.length > 0
+        ? parsed.errors
+        : validateScript(parsed.lines, hosts, format, length, articles.length),
+    };
+  });
+  
+  return { lines, model, attempts };
+}
+
+/**
+ * Assigns the format's sections to the segments of a long-form episode
+ *
+ * The first segment opens the show and the last one closes it; the sections
+ * in between are spread over the segments in order. With fewer sections
+ * than segments, the first segment also starts the body, the last one holds
+ * its final section, and segments in between take the remaining sections in
+ * turn (for the classic format: explanation, then clarification).
+ */
+function planSegmentSections(format: ShowFormat, segmentCount: number): ScriptSection[][] {
+  const ids = format.sections.map(section => section.id);
+  const opening = ids[0];
+  const closing = ids[ids.length - 1];
+  const body = ids.slice(1, -1);
+  
+  if (body.length >= segmentCount) {
+    const groups = Array.from({ length: segmentCount }, (_, i) =>
+      body.slice(Math.floor((i * body.length) / segmentCount), Math.floor(((i + 1) * body.length) / segmentCount))
+    );
+    groups[0].unshift(opening);
+    groups[segmentCount - 1].push(closing);
+    return groups;
   }
+  
+  const middleCount = segmentCount - 2;
+  const fillers = body.slice(0, -1);
+  const middle = Array.from({ length: middleCount }, (_, i): ScriptSection[] =>
+    [fillers[Math.floor(((i + 1) * fillers.length - 1) / middleCount)]]
+  );
+  
+  return [[opening, body[0]], ...middle, [body[body.length - 1], closing]];
 }
 
 /**
- * Generates a podcast script from an article
+ * Requests a long script as an outline followed by one request per segment
  */
-export async function generateScript(article: Article): Promise<Script> {
-  // Call Grok API
-  const rawScript = await callGrokAPI(article.title, article.cleanedText);
+async function requestLongFormLines(
+  provider: LlmProvider,
+  articles: PromptArticle[],
+  promptOptions: PromptOptions,
+  length: EpisodeLength,
+  targetMinutes: number,
+  hosts: PromptHost[],
+  format: ShowFormat
+): Promise<GeneratedLines> {
+  const segmentCount = Math.max(2, Math.ceil(targetMinutes / SEGMENT_MINUTES));
+  const segmentSections = planSegmentSections(format, segmentCount);
+  const attempts: ScriptGenerationAttempt[] = [];
+  
+  const planned = await requestWithRepairs(
+    provider,
+    [
+      { role: 'system', content: generateSystemPrompt(hosts, format) },
+      {
+        role: 'user',
+        content: generateOutlinePrompt(articles, segmentSections, promptOptions),
+      },
+    ],
+    { kind: 'outline', ...describeScriptTask(articles, hosts, format), segmentCount },
+    content => {
+      const parsed = parseOutline(parseJsonResponse<RawOutlineResponse>(content, provider), segmentSections);
+      return { value: parsed.segments, errors: parsed.errors };
+    },
+    { name: 'outline', subject: 'outline' }
+  );
+  attempts.push(...planned.attempts);
   
-  // Validate and transform lines
-  const lines: ScriptLine[] = rawScript.lines.map((line) => ({
-    index: line.index,
-    speaker: line.speaker,
-    text: line.text.trim(),
-    section: line.section,
-  }));
+  const outline = planned.value;
+  // Rounded inwards so the segments add up to a valid episode
+  const segmentLength: EpisodeLength = {
+    minWords: Math.ceil(length.minWords / segmentCount),
+    maxWords: Math.floor(length.maxWords / segmentCount),
+  };
+  const lines: ScriptLine[] = [];
+  let model = planned.model;
+  
+  for (let segmentIndex = 0; segmentIndex < segmentCount; segmentIndex++) {
+    const prompt = generateSegmentPrompt(
+      articles,
+      {
+        outline,
+        segmentIndex,
+        previousLines: lines.slice(-CONTEXT_LINES),
+        firstLineIndex: lines.length + 1,
+        segmentLength,
+      },
+      promptOptions
+    );
+    
+    const written = await requestWithRepairs(
+      provider,
+      [
+        { role: 'system', content: generateSystemPrompt(hosts, format) },
+        { role: 'user', content: prompt },
+      ],
+      {
+        kind: 'segment',
+        ...describeScriptTask(articles, hosts, format),
+        segmentSections: outline[segmentIndex].sections,
+        firstLineIndex: lines.length + 1,
+        minWords: segmentLength.minWords,
+        maxWords: segmentLength.maxWords,
+      },
+      content => {
+        const parsed = parseLines(parseJsonResponse<RawScriptResponse>(content, provider), format, articles.length);
+        return {
+          value: parsed.lines,
+          errors: parsed.errors.length > 0
+            ? parsed.errors
+            : validateSegment(parsed.lines, outline[segmentIndex].sections, segmentLength, hosts, format, articles.length),
+        };
+      },
+      { name: `segment ${segmentIndex + 1}`, subject: 'part' },
+      attempts
+    );
+    attempts.push(...written.attempts);
+    model = written.model;
+    
+    const firstIndex = lines.length + 1;
+    lines.push(...written.value.map((line, i) => ({ ...line, index: firstIndex + i })));
+  }
+  
+  // Segments are checked one by one; the joins can still break speaker rules
+  const errors = validateScript(lines, hosts, format, length, articles.length, true);
+  if (errors.length > 0) {
+    throw new GenerationFailedError('script', `Script generation failed: ${errors.join('; ')}`, { attempts });
+  }
+  
+  return { lines, model, attempts, outline };
+}
+
+function getArticleRevision(article: Article): string {
+  return article.revisionId ?? hashKey(article.cleanedText);
+}
+
+/**
+ * Builds the cache key for a script: article revisions and sections, languages, length, prompt version, model parameters, hosts and format
+ * Articles after the first are appended last
+ */
+function getScriptCacheKey(
+  provider: LlmProvider,
+  articles: Article[],
+  outputLanguage: string,
+  targetMinutes: number | undefined,
+  hosts: HostProfile[],
+  format: ShowFormat
+): string {
+  const [article, ...otherArticles] = articles;
+  
+  return hashKey(
+    'script',
+    article.language,
+    outputLanguage,
+    article.title,
+    getArticleRevision(article),
+    article.selectedSections ?? null,
+    targetMinutes ?? null,
+    PROMPT_VERSION,
+    provider.name,
+    provider.model,
+    GENERATION_PARAMS.temperature,
+    GENERATION_PARAMS.maxTokens,
+    GENERATION_PARAMS.topP,
+    hosts.map(host => [host.name, host.role, host.persona]),
+    [format.id, format.version],
+    ...otherArticles.map(other => [other.language, other.title, getArticleRevision(other)])
+  );
+}
+
+function toArticleReference(article: Article): ArticleReference {
+  return { title: article.title, url: article.url, language: article.language };
+}
+
+/**
+ * Generates a podcast script from an article, or from several articles it connects
+ * Reuses cached lines when the same article revisions were scripted with the same settings
+ */
+export async function generateScript(
+  source: Article | Article[],
+  options: ScriptGenerationOptions = {}
+): Promise<Script> {
+  const articles = Array.isArray(source) ? source : [source];
+  if (articles.length === 0) {
+    throw new Error('At least one article is required to generate a script');
+  }
+  const [article] = articles;
+  
+  const provider = getLlmProvider();
+  const outputLanguage = options.outputLanguage ?? DEFAULT_LANGUAGE;
+  const { targetMinutes } = options;
+  const hosts = options.hosts ?? getDefaultHosts();
+  const format = options.format ?? getDefaultFormat();
+  const length = getEpisodeLength(targetMinutes);
+  const cacheKey = getScriptCacheKey(provider, articles, outputLanguage, targetMinutes, hosts, format);
+  
+  const cached = await getCachedJson<GeneratedLines>('scripts', cacheKey);
+  let generated: GeneratedLines;
+  if (cached) {
+    console.log(`Using cached script for "${articles.map(({ title }) => title).join('", "')}"`);
+    // No model calls were made for this script
+    generated = { ...cached, attempts: [] };
+  } else {
+    const promptArticles: PromptArticle[] = articles.map(({ title, cleanedText, language }) => ({
+      title,
+      content: cleanedText,
+      language,
+    }));
+    const promptOptions: PromptOptions = { outputLanguage, length, hosts, format };
+    generated = targetMinutes !== undefined && targetMinutes > SINGLE_PASS_MAX_MINUTES
+      ? await requestLongFormLines(provider, promptArticles, promptOptions, length, targetMinutes, hosts, format)
+      : await requestValidLines(provider, promptArticles, promptOptions, length, hosts, format);
+    await setCachedJson('scripts', cacheKey, generated);
+  }
   
-  // Validate constitution compliance
-  validateScript(lines);
+  const { lines, model, attempts, outline } = generated;
   
   // Calculate duration
   const { totalWords, estimatedDuration } = calculateDuration(lines);
   
-  // Validate duration (should be 120-180 seconds)
-  if (estimatedDuration < 120 || estimatedDuration > 180) {
+  // Validate duration (120-180 seconds unless a length was requested)
+  const [minSeconds, maxSeconds] = [length.minWords, length.maxWords].map(wordsToSeconds);
+  if (estimatedDuration < minSeconds || estimatedDuration > maxSeconds) {
     console.warn(
-      `Script duration ${estimatedDuration}s outside target range (120-180s). Word count: ${totalWords}`
+      `Script duration ${estimatedDuration}s outside target range (${minSeconds}-${maxSeconds}s). Word count: ${totalWords}`
     );
   }
   
   // Generate script ID
-  const scriptId = generateScriptId(article.title);
+  const scriptId = generateScriptId(articles.map(({ title }) => title).join(' and '), article.url);
   
   // Build script entity
   const script: Script = {
     id: scriptId,
     articleTitle: article.title,
     articleUrl: article.url,
+    articles: articles.map(toArticleReference),
+    hosts,
+    format: { id: format.id, version: format.version },
     lines,
-    sections: organizeSections(lines),
+    sections: organizeSections(lines, format),
     totalWords,
     estimatedDuration,
     generatedAt: new Date().toISOString(),
-    model: GENERATION_PARAMS.model,
+    provider: provider.name,
+    model,
     generationParams: {
       temperature: GENERATION_PARAMS.temperature,
       maxTokens: GENERATION_PARAMS.maxTokens,
       promptVersion: PROMPT_VERSION,
     },
+    attempts,
+    language: outputLanguage,
+    ...(targetMinutes !== undefined && { targetMinutes }),
+    ...(outline && { outline }),
+    ...(cached && { fromCache: true }),
   };
   
   return script;
@@ -0,0 +1,232 @@
+import {
+  Script,
+  ScriptLine,
+  ScriptLineEdit,
+  ArticleReference,
+  MULTI_ARTICLE_INPUTS,
+} from '../types/index.js';
+import {
+  validateScriptLineEdits,
+  validateWikipediaUrl,
+  getWikipediaUrlLanguage,
+  validateTargetMinutes,
+} from '../utils/validation.js';
+import { DEFAULT_LANGUAGE, isValidLanguageCode } from '../config/languages.js';
+import { resolveFormat } from '../config/formats.js';
+import { InvalidInputError } from '../utils/errors.js';
+import { resolveHosts } from './hosts.js';
+import { generateScriptId, rebuildScript, validateScriptLines } from './scriptGenerator.js';
+
+/**
+ * Script Import Service
+ *
+ * Turns a hand-written script into a `Script` ready to be voiced. It accepts
+ * either a Script-shaped JSON document (such as one returned by
+ * GET /api/podcast/:id/script) or plain text with one "Speaker: line" per row
+ * and a "[section]" header starting each section:
+ *
+ *   [greeting]
+ *   Nishi: Welcome to the show!
+ *   Shyam: Today we talk about the Moon.
+ *
+ * The script must pass the same checks as a generated one for its hosts,
+ * format and length. It is marked as written by a human.
+ */
+
+/**
+ * Settings sent with a hand-written script
+ * They take precedence over the matching fields of a JSON document
+ */
+export interface ScriptImportOptions {
+  /** Title of the article the episode is about (required for text scripts) */
+  title?: string;
+  /** Wikipedia URL of that article (default: built from the title on the edition of `language`) */
+  url?: string;
+  /** Language the script is written in (default: "en") */
+  language?: string;
+  /** Host IDs, in roster order (default: Nishi and Shyam) */
+  hosts?: string[];
+  /** Show format ID (default: classic) */
+  format?: string;
+  /** Episode length in minutes the script was written for */
+  targetMinutes?: number;
+}
+
+/** "[section]" header starting a section of a text script */
+const SECTION_HEADER = /^\[\s*([a-z0-9_-]+)\s*\]$/i;
+
+/** "Speaker: line" row of a text script */
+const SPEAKER_LINE = /^([^:]{1,40}):\s*(.*)$/;
+
+/**
+ * Parses a "Speaker: line" text script into lines
+ * Blank rows are skipped; every problem found is returned at once
+ */
+export function parseScriptText(text: string): { lines: ScriptLineEdit[]; errors: string[] } {
+  const lines: ScriptLineEdit[] = [];
+  const errors: string[] = [];
+  let section: string | undefined;
+
+  text.split(/\r?\n/).forEach((row, i) => {
+    const trimmed = row.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    const header = trimmed.match(SECTION_HEADER);
+    if (header) {
+      section = header[1].toLowerCase();
+      return;
+    }
+
+    const match = trimmed.match(SPEAKER_LINE);
+    if (!match || !match[2].trim()) {
+      errors.push(`Row ${i + 1} must read "Speaker: line" or "[section]"`);
+    } else if (!section) {
+      errors.push(`Row ${i + 1} comes before the first [section] header`);
+    } else {
+      lines.push({ speaker: match[1].trim(), text: match[2].trim(), section });
+    }
+  });
+
+  if (lines.length === 0 && errors.length === 0) {
+    errors.push('The script has no lines');
+  }
+
+  return { lines, errors };
+}
+
+/**
+ * Builds the link to an article from its title
+ */
+function toWikipediaUrl(title: string, language: string): string {
+  return `https://${language}.wikipedia.org/wiki/${encodeURIComponent(title.replace(/ /g, '_'))}`;
+}
+
+/**
+ * Reads the articles a script is about: the title given with the request,
+ * else the document's `articles`, else its `articleTitle` and `articleUrl`
+ * Articles named without a URL are linked on the edition of the script's language
+ */
+function readArticles(
+  document: Record<string, unknown>,
+  options: ScriptImportOptions,
+  language: string
+): ArticleReference[] {
+  const toReference = (title: unknown, url: unknown): ArticleReference => {
+    if (typeof title !== 'string' || !title.trim()) {
+      throw new InvalidInputError('Give the title of the article the script is about');
+    }
+    if (url === undefined) {
+      return { title: title.trim(), url: toWikipediaUrl(title.trim(), language), language };
+    }
+
+    const urlError = typeof url === 'string' ? validateWikipediaUrl(url) : 'url must be a Wikipedia article URL';
+    if (urlError) {
+      throw new InvalidInputError(`Invalid article URL: ${urlError}`);
+    }
+    const trimmed = (url as string).trim();
+    return { title: title.trim(), url: trimmed, language: getWikipediaUrlLanguage(trimmed) };
+  };
+
+  if (options.title !== undefined) {
+    return [toReference(options.title, options.url)];
+  }
+
+  const { articles, articleTitle, articleUrl } = document;
+  if (Array.isArray(articles) && articles.length > 0) {
+    if (articles.length > MULTI_ARTICLE_INPUTS.max) {
+      throw new InvalidInputError(`A script can draw on at most ${MULTI_ARTICLE_INPUTS.max} articles`);
+    }
+    return articles.map((article) => {
+      const { title, url } = (article && typeof article === 'object' ? article : {}) as Record<string, unknown>;
+      return toReference(title, url);
+    });
+  }
+
+  return [toReference(articleTitle, articleUrl)];
+}
+
+/**
+ * Reads the host IDs of a document, whose `hosts` are profiles or IDs
+ */
+function readHostIds(hosts: unknown): string[] | undefined {
+  if (!Array.isArray(hosts)) {
+    return undefined;
+  }
+  return hosts.map(host => (host && typeof host === 'object' ? (host as { id?: unknown }).id : host) as string);
+}
+
+/**
+ * Builds a hand-written script from a JSON document or "Speaker: line" text
+ * Throws InvalidInputError when the script is malformed or breaks the rules
+ * for its hosts, format or length
+ */
+export async function importScript(source: unknown, options: ScriptImportOptions = {}): Promise<Script> {
+  const isText = typeof source === 'string';
+  if (!isText && (!source || typeof source !== 'object' || Array.isArray(source))) {
+    throw new InvalidInputError('script must be a Script JSON document or "Speaker: line" text');
+  }
+  const document = (isText ? {} : source) as Record<string, unknown>;
+
+  let rawLines = document.lines;
+  if (isText) {
+    const parsed = parseScriptText(source);
+    if (parsed.errors.length > 0) {
+      throw new InvalidInputError(`The script could not be read: ${parsed.errors.join('; ')}`, {
+        errors: parsed.errors,
+      });
+    }
+    rawLines = parsed.lines;
+  }
+
+  const validation = validateScriptLineEdits(rawLines);
+  if (!validation.valid) {
+    throw new InvalidInputError(validation.error || 'Invalid script lines');
+  }
+
+  const language = options.language ?? document.language ?? DEFAULT_LANGUAGE;
+  if (typeof language !== 'string' || !isValidLanguageCode(language)) {
+    throw new InvalidInputError('language must be a language code (e.g. "en", "hi")');
+  }
+  const articles = readArticles(document, options, language);
+
+  const targetMinutes = options.targetMinutes ?? document.targetMinutes;
+  const lengthValidation = validateTargetMinutes(targetMinutes);
+  if (!lengthValidation.valid) {
+    throw new InvalidInputError(lengthValidation.error || 'Invalid targetMinutes');
+  }
+
+  const documentFormat = document.format && typeof document.format === 'object'
+    ? (document.format as { id?: unknown }).id
+    : document.format;
+  const format = resolveFormat((options.format ?? documentFormat) as string | undefined);
+  const hosts = await resolveHosts(options.hosts ?? readHostIds(document.hosts));
+
+  const lines = validation.lines!.map(({ index: _index, ...line }, i): ScriptLine => ({ ...line, index: i + 1 }));
+
+  const script = rebuildScript({
+    id: generateScriptId(articles.map(({ title }) => title).join(' and '), articles[0].url),
+    articleTitle: articles[0].title,
+    articleUrl: articles[0].url,
+    articles,
+    hosts,
+    format: { id: format.id, version: format.version },
+    lines: [],
+    sections: {},
+    totalWords: 0,
+    estimatedDuration: 0,
+    generatedAt: new Date().toISOString(),
+    author: 'human',
+    attempts: [],
+    language,
+    ...(typeof targetMinutes === 'number' && { targetMinutes }),
+  }, lines);
+
+  const errors = validateScriptLines(script, script.lines);
+  if (errors.length > 0) {
+    throw new InvalidInputError(`The script is invalid: ${errors.join('; ')}`, { errors });
+  }
+
+  return script;
+}
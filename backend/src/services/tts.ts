@@ -1,36 +1,54 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { ScriptLine, AudioSegment } from '../types/index.js';
+import { ScriptLine, AudioSegment, HostProfile, PronunciationEntry } from '../types/index.js';
 import { getConfig } from '../config/env.js';
-import { SPEAKERS } from '../config/speakers.js';
-import https from 'https';
-import fetch from 'node-fetch';
+import { getDefaultHosts } from '../config/hosts.js';
+import { fileExists } from '../utils/fileManager.js';
+import {
+  getTtsProvider,
+  getVoiceMapping,
+  getMappedSpeakers,
+  TtsProvider,
+  TtsApiError,
+} from '../providers/tts/index.js';
+import { hashKey, restoreCachedFile, storeCachedFile } from './cache.js';
+import { applyLexicon } from './lexicon.js';
 
 /**
  * Text-to-Speech Service
  * 
- * Generates audio segments using ElevenLabs TTS API.
- * Maps speakers to their fixed voice IDs.
+ * Generates audio segments using the configured TTS provider
+ * (ElevenLabs, OpenAI-compatible or a local engine).
+ * Maps each host of the episode to a voice of the provider.
+ * Lines are synthesized in parallel (bounded by `ttsConcurrency`) and each
+ * line is retried independently, so one failure never re-synthesizes the rest.
+ * Audio is cached by provider, voice and text, so repeated lines are free.
+ * Each line's text is rewritten with the pronunciation lexicon before it is
+ * sent, and cached under the rewritten text.
  */
 
-const ELEVENLABS_API_BASE = 'https://api.elevenlabs.io/v1';
+/** Default number of retries per line */
+export const DEFAULT_TTS_RETRIES = 2;
 
-// Create an HTTPS agent that handles SSL certificates properly
-const httpsAgent = new https.Agent({
-  rejectUnauthorized: process.env.NODE_ENV === 'production',
-});
+/** Base delay for exponential backoff between retries */
+const RETRY_BASE_DELAY_MS = 1000;
 
-interface ElevenLabsVoiceSettings {
-  stability: number;
-  similarity_boost: number;
-  style?: number;
-  use_speaker_boost?: boolean;
-}
-
-interface ElevenLabsRequest {
-  text: string;
-  model_id: string;
-  voice_settings: ElevenLabsVoiceSettings;
+/**
+ * Options for segment generation
+ */
+export interface SegmentGenerationOptions {
+  /** Segments from a previous run, reused when their files are still on disk */
+  existingSegments?: AudioSegment[];
+  /** Called after each segment is synthesized or reused (in completion order) */
+  onSegment?: (segment: AudioSegment) => void;
+  /** Retries per line after the first attempt (default: 0) */
+  maxRetries?: number;
+  /** Number of lines synthesized at once (default: config `ttsConcurrency`) */
+  concurrency?: number;
+  /** Hosts speaking the lines, in roster order (default: Nishi and Shyam) */
+  hosts?: HostProfile[];
+  /** Pronunciations applied to each line before it is sent (default: none) */
+  lexicon?: PronunciationEntry[];
 }
 
 /**
@@ -68,84 +86,117 @@ async function estimateAudioDuration(filePath: string): Promise<number> {
 }
 
 /**
- * Calls ElevenLabs TTS API to generate audio for a single line
+ * Checks whether a failed TTS call is worth retrying
+ * Rate limits, server errors and network failures are transient; other 4xx are not
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof TtsApiError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return true;
+}
+
+/**
+ * Computes the delay before the next attempt
+ * Honors Retry-After on 429 responses, otherwise uses exponential backoff
  */
-async function synthesizeLine(
+function getRetryDelay(error: unknown, attempt: number): number {
+  if (error instanceof TtsApiError && error.status === 429 && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+  return Math.pow(2, attempt) * RETRY_BASE_DELAY_MS;
+}
+
+/**
+ * Synthesizes a single line, retrying transient failures with backoff
+ * `text` is the line as spoken, with the lexicon applied
+ */
+async function synthesizeLineWithRetry(
+  provider: TtsProvider,
+  line: ScriptLine,
   text: string,
-  voiceId: string,
-  outputPath: string
+  voice: string,
+  filePath: string,
+  maxRetries: number
 ): Promise<void> {
-  const config = getConfig();
-  const apiUrl = `${ELEVENLABS_API_BASE}/text-to-speech/${voiceId}`;
-  
-  const request: ElevenLabsRequest = {
-    text,
-    model_id: 'eleven_multilingual_v2',
-    voice_settings: {
-      stability: 0.75,
-      similarity_boost: 0.75,
-      style: 0,
-      use_speaker_boost: true,
-    },
-  };
-  
-  try {
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'xi-api-key': config.elevenLabsApiKey,
-      },
-      body: JSON.stringify(request),
-      agent: httpsAgent,
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`ElevenLabs API error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-    
-    // Save audio to file
-    const arrayBuffer = await response.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-    await fs.writeFile(outputPath, buffer);
-  } catch (error) {
-    if (error instanceof Error) {
-      throw error;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await provider.synthesize(text, voice, filePath);
+      return;
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryable(error)) {
+        throw error;
+      }
+      
+      const delay = getRetryDelay(error, attempt);
+      console.warn(
+        `TTS failed for line ${line.index} (attempt ${attempt + 1}), retrying in ${delay}ms...`
+      );
+      await new Promise(resolve => setTimeout(resolve, delay));
     }
-    throw new Error('Unknown error calling ElevenLabs API');
   }
 }
 
 /**
  * Generates audio segments for all script lines
+ * 
+ * Up to `concurrency` lines are in flight at once. Segments are returned in
+ * lineIndex order regardless of completion order. After a line fails for good,
+ * no new lines are started; in-flight lines finish and the lowest failing line
+ * is reported.
  */
 export async function generateAudioSegments(
   scriptId: string,
-  lines: ScriptLine[]
+  lines: ScriptLine[],
+  options: SegmentGenerationOptions = {}
 ): Promise<AudioSegment[]> {
-  // Create segments directory
-  const segmentsDir = await ensureSegmentsDirectory(scriptId);
+  const provider = getTtsProvider();
+  const voices = getVoiceMapping(options.hosts ?? getDefaultHosts(), provider);
   
-  const segments: AudioSegment[] = [];
-  
-  // Process each line
+  // Validate speakers before spending any TTS credits
+  const speakers = getMappedSpeakers(voices);
   for (const line of lines) {
-    // Get voice ID for speaker
-    const speaker = SPEAKERS[line.speaker];
-    if (!speaker) {
+    if (!speakers.includes(line.speaker)) {
       throw new Error(`Unknown speaker: ${line.speaker}`);
     }
+  }
+  
+  // Create segments directory
+  const segmentsDir = await ensureSegmentsDirectory(scriptId);
+  const maxRetries = options.maxRetries ?? 0;
+  const concurrency = Math.max(1, options.concurrency ?? getConfig().ttsConcurrency);
+  const existingByIndex = new Map(
+    (options.existingSegments ?? []).map(segment => [segment.lineIndex, segment])
+  );
+  
+  const processLine = async (line: ScriptLine): Promise<AudioSegment> => {
+    // Reuse segment from a previous run if its audio is still on disk
+    const existing = existingByIndex.get(line.index);
+    if (existing && await fileExists(existing.filePath)) {
+      options.onSegment?.(existing);
+      return existing;
+    }
     
     // Generate filename (zero-padded 3-digit index)
     const filename = `${String(line.index).padStart(3, '0')}.mp3`;
     const filePath = path.join(segmentsDir, filename);
     
-    console.log(`Synthesizing line ${line.index} (${line.speaker}): "${line.text.substring(0, 50)}..."`);
+    const voice = voices[line.speaker];
+    const text = applyLexicon(line.text, options.lexicon ?? [], provider.supportsPhonemes);
+    const cacheKey = hashKey('audio', provider.name, provider.model, voice, text);
     
     try {
-      // Call TTS API
-      await synthesizeLine(line.text, speaker.voiceId, filePath);
+      const fromCache = await restoreCachedFile('audio', cacheKey, 'mp3', filePath);
+      
+      if (fromCache) {
+        console.log(`Using cached audio for line ${line.index} (${line.speaker})`);
+      } else {
+        console.log(`Synthesizing line ${line.index} (${line.speaker}): "${line.text.substring(0, 50)}..."`);
+        
+        // Call TTS API
+        await synthesizeLineWithRetry(provider, line, text, voice, filePath, maxRetries);
+        await storeCachedFile('audio', cacheKey, 'mp3', filePath);
+      }
       
       // Estimate duration
       const durationMs = await estimateAudioDuration(filePath);
@@ -158,43 +209,88 @@ export async function generateAudioSegments(
         durationMs,
         format: 'mp3',
         generatedAt: new Date().toISOString(),
+        ...(fromCache && { fromCache: true }),
       };
       
-      segments.push(segment);
+      options.onSegment?.(segment);
+      return segment;
     } catch (error) {
       throw new Error(`Failed to synthesize line ${line.index}: ${error}`);
     }
+  };
+  
+  const segments: AudioSegment[] = [];
+  const failures: Array<{ lineIndex: number; error: unknown }> = [];
+  let nextPosition = 0;
+  
+  // Each worker pulls the next pending line until all are done or one fails
+  const worker = async () => {
+    while (failures.length === 0 && nextPosition < lines.length) {
+      const line = lines[nextPosition++];
+      try {
+        segments.push(await processLine(line));
+      } catch (error) {
+        failures.push({ lineIndex: line.index, error });
+      }
+    }
+  };
+  
+  const workerCount = Math.min(concurrency, lines.length);
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  
+  if (failures.length > 0) {
+    failures.sort((a, b) => a.lineIndex - b.lineIndex);
+    throw failures[0].error;
   }
   
+  segments.sort((a, b) => a.lineIndex - b.lineIndex);
+  
   console.log(`Successfully generated ${segments.length} audio segments`);
   
   return segments;
 }
 
 /**
- * Retry wrapper for TTS generation with exponential backoff
+ * Generates audio segments with per-line retries
+ * 
+ * Each line gets up to `maxRetries` extra attempts; lines that succeeded are
+ * never re-synthesized because of another line's failure.
  */
 export async function generateAudioSegmentsWithRetry(
   scriptId: string,
   lines: ScriptLine[],
-  maxRetries: number = 2
+  maxRetries: number = DEFAULT_TTS_RETRIES,
+  options: SegmentGenerationOptions = {}
 ): Promise<AudioSegment[]> {
-  let lastError: Error | null = null;
-  
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      return await generateAudioSegments(scriptId, lines);
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      
-      if (attempt < maxRetries) {
-        const delay = Math.pow(2, attempt) * 1000; // Exponential backoff
-        console.warn(`TTS generation failed (attempt ${attempt + 1}), retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-    }
+  try {
+    return await generateAudioSegments(scriptId, lines, { ...options, maxRetries });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`TTS generation failed after ${maxRetries + 1} attempts: ${message}`);
   }
-  
-  throw new Error(`TTS generation failed after ${maxRetries + 1} attempts: ${lastError?.message}`);
 }
 
+/**
+ * Synthesizes a word or phrase with a host's voice, to hear how the lexicon
+ * makes it sound
+ * Hosts without a voice for the provider are heard with its first default
+ * voice. Writes an MP3 to outputPath; previews are cached like script lines.
+ */
+export async function synthesizePreview(
+  text: string,
+  host: HostProfile,
+  lexicon: PronunciationEntry[],
+  outputPath: string
+): Promise<void> {
+  const provider = getTtsProvider();
+  const voice = getVoiceMapping([host], provider)[host.name];
+  const spoken = applyLexicon(text, lexicon, provider.supportsPhonemes);
+  const cacheKey = hashKey('audio', provider.name, provider.model, voice, spoken);
+
+  if (await restoreCachedFile('audio', cacheKey, 'mp3', outputPath)) {
+    return;
+  }
+
+  await provider.synthesize(spoken, voice, outputPath);
+  await storeCachedFile('audio', cacheKey, 'mp3', outputPath);
+}
@@ -1,15 +1,29 @@
-import { Article } from '../types/index.js';
+import { Article, ArticleSection } from '../types/index.js';
 import https from 'https';
 import fetch from 'node-fetch';
+import { hashKey, getCachedJson, setCachedJson } from './cache.js';
+import { DEFAULT_LANGUAGE, isValidLanguageCode, isSupportedWikiLanguage } from '../config/languages.js';
+import { UnsupportedLanguageError, InvalidInputError } from '../utils/errors.js';
+import { getWikipediaUrlLanguage } from '../utils/validation.js';
+import {
+  parseArticleSections,
+  sectionsToText,
+  selectSections,
+  ARTICLE_PARSER_VERSION,
+} from './articleParser.js';
 
 /**
  * Wikipedia Service
  * 
  * Fetches and processes Wikipedia articles using the Wikimedia REST API.
- * Handles both URL-based and title-based fetching.
+ * Handles both URL-based and title-based fetching from any supported
+ * Wikipedia edition (xx.wikipedia.org).
+ * Page HTML is parsed into a section tree (see articleParser) and flattened
+ * into the cleaned text used for prompts.
+ * Full content is cached per article revision, so an unchanged article only
+ * costs a summary request.
  */
 
-const WIKIPEDIA_API_BASE = 'https://en.wikipedia.org/api/rest_v1';
 const MIN_CONTENT_LENGTH = 500;
 const MAX_CONTENT_LENGTH = 50000;
 
@@ -21,6 +35,7 @@ const httpsAgent = new https.Agent({
 
 interface WikipediaPageSummary {
   title: string;
+  revision?: string;
   extract: string;
   extract_html: string;
   content_urls: {
@@ -31,62 +46,82 @@ interface WikipediaPageSummary {
 }
 
 /**
- * Extracts article title from Wikipedia URL
+ * Gets the REST API base URL for a Wikipedia edition
  */
-function extractTitleFromUrl(url: string): string {
-  const urlPattern = /https?:\/\/en\.wikipedia\.org\/wiki\/([^#?]+)/;
+function getWikipediaApiBase(language: string): string {
+  return `https://${language}.wikipedia.org/api/rest_v1`;
+}
+
+/**
+ * Extracts article title and wiki language from a Wikipedia URL
+ * Mobile URLs (xx.m.wikipedia.org) resolve to the same edition
+ */
+function parseWikipediaUrl(url: string): { title: string; language: string } {
+  const urlPattern = /https?:\/\/(?:[a-z0-9-]+\.)*wikipedia\.org\/wiki\/([^#?]+)/i;
   const match = url.match(urlPattern);
   
   if (!match) {
     throw new Error('Invalid Wikipedia URL format');
   }
   
-  return decodeURIComponent(match[1].replace(/_/g, ' '));
+  return {
+    title: decodeURIComponent(match[1].replace(/_/g, ' ')),
+    language: getWikipediaUrlLanguage(url),
+  };
 }
 
 /**
- * Cleans HTML content to plain text
- * Removes HTML tags, citations, and unnecessary whitespace
+ * Flattens sections into the text sent to the script generator
+ * Throws if the text is too short; truncates it if too long
  */
-function cleanHtmlToText(html: string): string {
-  let text = html;
+function buildArticleText(
+  sections: ArticleSection[],
+  label: string
+): { cleanedText: string; wordCount: number } {
+  const text = sectionsToText(sections);
   
-  // Remove citation/reference markers like [1], [2], etc.
-  text = text.replace(/\[\d+\]/g, '');
-  
-  // Remove HTML tags
-  text = text.replace(/<[^>]*>/g, ' ');
-  
-  // Decode HTML entities
-  text = text
-    .replace(/&nbsp;/g, ' ')
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'");
+  // Validate content length
+  if (text.length < MIN_CONTENT_LENGTH) {
+    throw new Error(
+      `${label} too short: ${text.length} characters (minimum: ${MIN_CONTENT_LENGTH})`
+    );
+  }
   
-  // Remove multiple spaces and normalize whitespace
-  text = text.replace(/\s+/g, ' ').trim();
+  // Truncate if too long
+  const cleanedText = text.length > MAX_CONTENT_LENGTH
+    ? text.substring(0, MAX_CONTENT_LENGTH) + '...'
+    : text;
   
-  return text;
+  return { cleanedText, wordCount: cleanedText.split(/\s+/).length };
 }
 
 /**
  * Fetches article by Wikipedia URL
  */
 export async function fetchArticleByUrl(url: string): Promise<Article> {
-  const title = extractTitleFromUrl(url);
-  return fetchArticleByTitle(title, url);
+  const { title, language } = parseWikipediaUrl(url);
+  return fetchArticleByTitle(title, url, language);
 }
 
 /**
- * Fetches article by title
+ * Fetches article by title from the given Wikipedia edition
  */
-export async function fetchArticleByTitle(title: string, url?: string): Promise<Article> {
+export async function fetchArticleByTitle(
+  title: string,
+  url?: string,
+  language: string = DEFAULT_LANGUAGE
+): Promise<Article> {
+  if (!isValidLanguageCode(language)) {
+    throw new Error(`Invalid Wikipedia language code: "${language}"`);
+  }
+  if (!isSupportedWikiLanguage(language)) {
+    throw new UnsupportedLanguageError(language);
+  }
+  
   // URL encode the title for the API call
+  const apiBase = getWikipediaApiBase(language);
   const encodedTitle = encodeURIComponent(title.replace(/ /g, '_'));
-  const apiUrl = `${WIKIPEDIA_API_BASE}/page/summary/${encodedTitle}`;
+  const apiUrl = `${apiBase}/page/summary/${encodedTitle}`;
   
   try {
     const response = await fetch(apiUrl, {
@@ -104,9 +139,22 @@ export async function fetchArticleByTitle(title: string, url?: string): Promise<
     }
     
     const data = await response.json() as WikipediaPageSummary;
+    const articleUrl = url || data.content_urls.desktop.page;
+    
+    // The summary carries the current revision, which addresses the cached content
+    const cacheKey = data.revision
+      ? hashKey('article', language, data.title, data.revision, ARTICLE_PARSER_VERSION)
+      : null;
+    if (cacheKey) {
+      const cached = await getCachedJson<Article>('articles', cacheKey);
+      if (cached) {
+        console.log(`Using cached article "${data.title}" (revision ${data.revision})`);
+        return { ...cached, url: articleUrl, fromCache: true };
+      }
+    }
     
     // Get the full content by fetching the HTML version
-    const htmlUrl = `${WIKIPEDIA_API_BASE}/page/html/${encodedTitle}`;
+    const htmlUrl = `${apiBase}/page/html/${encodedTitle}`;
     const htmlResponse = await fetch(htmlUrl, {
       headers: {
         'User-Agent': 'WikipediaPodcastGenerator/1.0',
@@ -119,36 +167,26 @@ export async function fetchArticleByTitle(title: string, url?: string): Promise<
     }
     
     const rawContent = await htmlResponse.text();
-    const cleanedText = cleanHtmlToText(rawContent);
-    
-    // Validate content length
-    if (cleanedText.length < MIN_CONTENT_LENGTH) {
-      throw new Error(
-        `Article too short: ${cleanedText.length} characters (minimum: ${MIN_CONTENT_LENGTH})`
-      );
-    }
-    
-    // Truncate if too long
-    const finalText = cleanedText.length > MAX_CONTENT_LENGTH
-      ? cleanedText.substring(0, MAX_CONTENT_LENGTH) + '...'
-      : cleanedText;
-    
-    // Count words
-    const wordCount = finalText.split(/\s+/).length;
-    
-    const articleUrl = url || data.content_urls.desktop.page;
+    const sections = parseArticleSections(rawContent);
+    const { cleanedText, wordCount } = buildArticleText(sections, 'Article');
     
     const article: Article = {
       title: data.title,
       url: articleUrl,
       rawContent,
-      cleanedText: finalText,
+      cleanedText,
+      sections,
       summary: data.extract,
       wordCount,
       fetchedAt: new Date().toISOString(),
-      language: 'en',
+      language,
+      ...(data.revision && { revisionId: data.revision }),
     };
     
+    if (cacheKey) {
+      await setCachedJson('articles', cacheKey, article);
+    }
+    
     return article;
   } catch (error) {
     if (error instanceof Error) {
@@ -161,14 +199,52 @@ export async function fetchArticleByTitle(title: string, url?: string): Promise<
 /**
  * Auto-detects input type and fetches article accordingly
  */
-export async function fetchArticle(input: string, type?: 'url' | 'title'): Promise<Article> {
+export async function fetchArticle(
+  input: string,
+  type?: 'url' | 'title',
+  language?: string
+): Promise<Article> {
   // Auto-detect type if not specified
   const inputType = type || (input.startsWith('http') ? 'url' : 'title');
   
+  // URLs carry their own edition
   if (inputType === 'url') {
     return fetchArticleByUrl(input);
   } else {
-    return fetchArticleByTitle(input);
+    return fetchArticleByTitle(input, undefined, language);
   }
 }
 
+/**
+ * Lists the headings of sections and their subsections, in article order
+ */
+function listSectionTitles(sections: ArticleSection[]): string[] {
+  return sections.flatMap(section => [section.title, ...listSectionTitles(section.subsections)]);
+}
+
+/**
+ * Restricts an article to the named sections (headings or anchors)
+ * Throws InvalidInputError, listing the article's headings, if a name matches
+ * no section; throws if the selection is too short
+ */
+export function selectArticleSections(article: Article, names: string[]): Article {
+  const { selected, missing } = selectSections(article.sections, names);
+  if (missing.length > 0) {
+    const available = listSectionTitles(article.sections);
+    const quote = (list: string[]) => list.map(name => `"${name}"`).join(', ');
+    throw new InvalidInputError(
+      `Sections missing from "${article.title}": ${quote(missing)} (available: ${quote(available)})`,
+      { missing, available }
+    );
+  }
+  
+  const { cleanedText, wordCount } = buildArticleText(selected, 'Selected sections');
+  
+  return {
+    ...article,
+    cleanedText,
+    wordCount,
+    sections: selected,
+    selectedSections: selected.map(section => section.title),
+  };
+}
@@ -9,23 +9,75 @@
 // Speaker Types
 // =============================================================================
 
-/** Valid speaker names - exactly two speakers per constitution */
-export type SpeakerName = "Nishi" | "Shyam";
+/** Name a host speaks under in scripts (e.g. "Nishi") */
+export type SpeakerName = string;
 
-/** Speaker configuration with voice mapping */
-export interface Speaker {
-  /** Speaker identifier */
+/** Part a host plays in the conversation */
+export type HostRole = "interviewer" | "expert" | "skeptic";
+
+/** Valid host roles for validation */
+export const HOST_ROLES: readonly HostRole[] = [
+  "interviewer",
+  "expert",
+  "skeptic"
+] as const;
+
+/** A podcast host, built in or stored as JSON in the hosts directory */
+export interface HostProfile {
+  /** Identifier and file name, lowercase letters, digits and hyphens (e.g. "nishi") */
+  id: string;
+  /** Name used in scripts */
   name: SpeakerName;
-  /** ElevenLabs voice ID */
-  voiceId: string;
-  /** Display name in script */
-  displayName: string;
+  /** Personality and speaking style, given to the script writer */
+  persona: string;
+  role: HostRole;
+  /** Voice per TTS provider; providers without one hand out a default voice */
+  voices: Partial<Record<TtsProviderName, string>>;
 }
 
 // =============================================================================
 // Article Types
 // =============================================================================
 
+/** A paragraph of article prose */
+export interface ArticleParagraph {
+  type: "paragraph";
+  text: string;
+}
+
+/** A bulleted or numbered list; nested lists are flattened into its items */
+export interface ArticleList {
+  type: "list";
+  ordered: boolean;
+  items: string[];
+}
+
+/** A block of content within a section */
+export type ArticleBlock = ArticleParagraph | ArticleList;
+
+/** A section of an article with its nested subsections */
+export interface ArticleSection {
+  /** Heading text ("Introduction" for the lead section) */
+  title: string;
+  /** Heading level: 2 for top-level sections (including the lead), 3+ for subsections */
+  level: number;
+  /** Heading anchor on the Wikipedia page ("" for the lead section) */
+  anchor: string;
+  /** Content blocks before the first subsection */
+  blocks: ArticleBlock[];
+  subsections: ArticleSection[];
+}
+
+/** Table-of-contents entry for a section */
+export interface ArticleSectionOutline {
+  title: string;
+  level: number;
+  anchor: string;
+  /** Words in the section, including its subsections */
+  wordCount: number;
+  subsections: ArticleSectionOutline[];
+}
+
 /** Represents the source Wikipedia content */
 export interface Article {
   /** Wikipedia article title (canonical form) */
@@ -34,38 +86,77 @@ export interface Article {
   url: string;
   /** Raw HTML content from Wikipedia API */
   rawContent: string;
-  /** Cleaned plain text (no markup, citations, tables) */
+  /** Cleaned plain text (no markup, citations, tables) with section headings */
   cleanedText: string;
+  /** Top-level sections in page order, starting with the lead */
+  sections: ArticleSection[];
+  /** Section headings the content was restricted to (absent for the whole article) */
+  selectedSections?: string[];
   /** Article summary/extract (first paragraph) */
   summary: string;
   /** Word count of cleaned text */
   wordCount: number;
   /** ISO 8601 timestamp of when article was fetched */
   fetchedAt: string;
-  /** Wikipedia article language code */
-  language: "en"; // MVP: English only
+  /** Wikipedia edition the article was fetched from (e.g. "en", "de") */
+  language: string;
+  /** Wikipedia revision ID of the fetched content */
+  revisionId?: string;
+  /** True when the content was served from the cache */
+  fromCache?: boolean;
+}
+
+/** Identifies a source article of a script or podcast */
+export interface ArticleReference {
+  title: string;
+  url: string;
+  /** Wikipedia edition the article was fetched from */
+  language: string;
 }
 
 // =============================================================================
 // Script Types
 // =============================================================================
 
-/** Script section identifiers - must appear in this order */
-export type ScriptSection =
-  | "greeting"       // 1. Greeting + topic introduction
-  | "explanation"    // 2. Core factual explanation
-  | "clarification"  // 3. Engaging clarification or connection
-  | "qna"           // 4. Back-and-forth Q&A
-  | "signoff";      // 5. Wrap-up and sign-off
-
-/** Ordered list of sections for validation */
-export const SCRIPT_SECTIONS_ORDER: readonly ScriptSection[] = [
-  "greeting",
-  "explanation",
-  "clarification",
-  "qna",
-  "signoff"
-] as const;
+/** Script section identifier, defined by the episode's show format (e.g. "greeting") */
+export type ScriptSection = string;
+
+/** One section of a show format */
+export interface FormatSection {
+  /** Identifier written in script lines (lowercase letters and hyphens) */
+  id: ScriptSection;
+  /** What happens in the section; {hosts}, {explainers} and {askers} stand for host names */
+  description: string;
+  /** What happens when one host narrates alone (default: the description) */
+  narration?: string;
+  /** Lines the section has in a 2-3 minute episode; longer episodes may exceed the maximum */
+  lines: { min: number; max: number };
+  /** The section may be left out */
+  optional?: boolean;
+  /** Adjacent repeatable sections may take turns any number of times (e.g. arguments and rebuttals) */
+  repeatable?: boolean;
+}
+
+/** A named, versioned template for the sections an episode is written in */
+export interface ShowFormat {
+  /** Identifier chosen in requests (e.g. "news-brief") */
+  id: string;
+  /** Semantic version, bumped whenever the template changes */
+  version: string;
+  name: string;
+  /** One-sentence summary for users and the script writer */
+  description: string;
+  /** Sections, in the order they appear */
+  sections: FormatSection[];
+  /** Extra instructions for the script writer */
+  guidance: string[];
+}
+
+/** The format and template version a script was written in */
+export interface FormatReference {
+  id: string;
+  version: string;
+}
 
 /** Represents a single line of dialogue in the script */
 export interface ScriptLine {
@@ -77,8 +168,144 @@ export interface ScriptLine {
   text: string;
   /** Script section this line belongs to */
   section: ScriptSection;
+  /** Source articles of the line's facts, as 1-based positions in `Script.articles` (multi-article scripts) */
+  sourceArticles?: number[];
+  /** How well the articles support the line (set by the fact check) */
+  grounding?: LineGrounding;
+  /** Article passages the line's facts come from, strongest first (supported lines only) */
+  sources?: LineSource[];
+}
+
+/** A line of an edited script, as submitted to PUT /api/podcast/:id/script */
+export interface ScriptLineEdit {
+  /** Index of the line this replaces in the current script; omitted for new lines */
+  index?: number;
+  speaker: SpeakerName;
+  text: string;
+  section: ScriptSection;
+  sourceArticles?: number[];
+}
+
+/** One version of a podcast's script */
+export interface ScriptRevision {
+  /** Revision number; the generated script is revision 1 */
+  revision: number;
+  /** ISO 8601 timestamp of when the revision was written */
+  createdAt: string;
+  /** Number of lines in the revision */
+  lineCount: number;
+  /** Lines voiced for this revision; later revisions voice only the lines whose speaker or text changed */
+  changedLines: number[];
 }
 
+/** An article passage cited by a script line */
+export interface LineSource {
+  /** Source article, as a 1-based position in `Script.articles` */
+  article: number;
+  /** Heading of the article section the passage is in (the lead section's title for the lead) */
+  section: string;
+  /** Link to that section of the Wikipedia article */
+  url: string;
+  /** Character offsets of the passage in the article's cleaned text */
+  start: number;
+  end: number;
+  /** The passage, shortened to a quotable length */
+  snippet: string;
+}
+
+/** Fact-check modes: off, word overlap with the article, or word overlap plus an LLM judge */
+export type FactCheckMode = "off" | "lexical" | "judge";
+
+/** Valid fact-check modes for validation */
+export const FACT_CHECK_MODES: readonly FactCheckMode[] = [
+  "off",
+  "lexical",
+  "judge"
+] as const;
+
+/** What happens to lines the articles do not support: kept and flagged, removed, or rewritten */
+export type FactCheckPolicy = "flag" | "drop" | "regenerate";
+
+/** Valid fact-check policies for validation */
+export const FACT_CHECK_POLICIES: readonly FactCheckPolicy[] = [
+  "flag",
+  "drop",
+  "regenerate"
+] as const;
+
+/** Whether a line's facts are backed by the articles; greetings and banter make no claims */
+export type GroundingVerdict = "supported" | "unsupported" | "no_claims";
+
+/** A passage of a source article that supports a script line */
+export interface GroundingPassage {
+  /** Source article, as a 1-based position in `Script.articles` */
+  article: number;
+  /** Character offsets of the passage in the article's cleaned text */
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** How well the articles support one script line */
+export interface LineGrounding {
+  verdict: GroundingVerdict;
+  /** Share of the line's content words found in its passages, 0-1 */
+  overlap: number;
+  /** Best supporting passages, strongest first */
+  passages: GroundingPassage[];
+  /** The judge's explanation (judge mode) */
+  reason?: string;
+  /** The line replaces an unsupported one (regenerate policy) */
+  rewritten?: boolean;
+}
+
+/** A line removed by the fact check */
+export interface DroppedLine {
+  speaker: SpeakerName;
+  section: ScriptSection;
+  text: string;
+  reason?: string;
+}
+
+/** Outcome of checking a script's lines against its articles */
+export interface ScriptGrounding {
+  mode: Exclude<FactCheckMode, "off">;
+  policy: FactCheckPolicy;
+  /** Minimum word overlap for a line to count as supported without a judge */
+  minOverlap: number;
+  /** Model that judged the lines (judge mode) */
+  judgeModel?: string;
+  /** Why the judge could not be used; the word overlap decided instead */
+  judgeError?: string;
+  /** Why the unsupported lines could not be rewritten; they were dropped instead */
+  rewriteError?: string;
+  /** Lines by verdict, after the policy was applied */
+  supportedLines: number;
+  unsupportedLines: number;
+  noClaimLines: number;
+  /** Lines rewritten by the regenerate policy */
+  rewrittenLines: number;
+  /** Lines removed by the drop and regenerate policies */
+  droppedLines: DroppedLine[];
+  /** ISO 8601 timestamp of the check */
+  checkedAt: string;
+  /** Reused from an earlier check of the same lines, articles and settings */
+  fromCache?: boolean;
+}
+
+/** Supported script generation (LLM) providers */
+export type LlmProviderName = "xai" | "openai" | "fixture";
+
+/** Valid LLM provider names for validation */
+export const LLM_PROVIDERS: readonly LlmProviderName[] = [
+  "xai",
+  "openai",
+  "fixture"
+] as const;
+
+/** Who wrote a script's lines */
+export type ScriptAuthor = "model" | "human";
+
 /** Generation parameters for reproducibility */
 export interface GenerationParams {
   temperature: number;
@@ -86,22 +313,44 @@ export interface GenerationParams {
   promptVersion: string;
 }
 
-/** Section breakdown with line indices */
-export interface ScriptSections {
-  greeting: number[];
-  explanation: number[];
-  clarification: number[];
-  qna: number[];
-  signoff: number[];
+/** Section breakdown with line indices, keyed by the format's sections */
+export type ScriptSections = Record<ScriptSection, number[]>;
+
+/** One request/response round while generating a script */
+export interface ScriptGenerationAttempt {
+  /** Attempt number (1 = initial request, 2+ = repair turns) */
+  attempt: number;
+  /** Parse and validation errors found in the reply (empty if accepted) */
+  errors: string[];
+  /** ISO 8601 timestamp when the reply was received */
+  completedAt: string;
+  /** Long-form step the attempt belongs to ("outline", "segment 2"); absent for single-pass scripts */
+  step?: string;
+}
+
+/** One planned part of a long-form script */
+export interface ScriptOutlineSegment {
+  /** Short title of the part */
+  title: string;
+  /** Article points the part covers */
+  points: string[];
+  /** Script sections the part is written in */
+  sections: ScriptSection[];
 }
 
 /** Represents the complete generated conversation */
 export interface Script {
   /** Unique identifier (based on article + timestamp) */
   id: string;
-  /** Reference to source article */
+  /** Reference to the first source article */
   articleTitle: string;
   articleUrl: string;
+  /** All source articles, in request order (absent in older scripts: the article above) */
+  articles?: ArticleReference[];
+  /** Hosts the script was written for, in roster order (absent in older scripts: Nishi and Shyam) */
+  hosts?: HostProfile[];
+  /** Show format the script follows (absent in older scripts: classic 1.0.0) */
+  format?: FormatReference;
   /** Ordered list of dialogue lines */
   lines: ScriptLine[];
   /** Section breakdown for validation */
@@ -110,12 +359,32 @@ export interface Script {
   totalWords: number;
   /** Estimated duration in seconds (based on 150 WPM) */
   estimatedDuration: number;
-  /** ISO 8601 timestamp of generation */
+  /** ISO 8601 timestamp of generation (or of submission, for hand-written scripts) */
   generatedAt: string;
-  /** AI model used for generation */
-  model: string;
-  /** Generation parameters for reproducibility */
-  generationParams: GenerationParams;
+  /** Who wrote the lines (absent: the model) */
+  author?: ScriptAuthor;
+  /** LLM provider used for generation (absent for hand-written scripts) */
+  provider?: LlmProviderName;
+  /** AI model used for generation, as reported by the provider (absent for hand-written scripts) */
+  model?: string;
+  /** Generation parameters for reproducibility (absent for hand-written scripts) */
+  generationParams?: GenerationParams;
+  /** Every attempt made, including repair turns after rejected replies */
+  attempts: ScriptGenerationAttempt[];
+  /** Language the script was written in */
+  language: string;
+  /** Requested episode length in minutes (absent: the default 2-3 minutes) */
+  targetMinutes?: number;
+  /** Plan the script was written from, for long-form episodes */
+  outline?: ScriptOutlineSegment[];
+  /** True when the lines were served from the cache */
+  fromCache?: boolean;
+  /** Result of checking the lines against the articles (absent when the fact check is off) */
+  grounding?: ScriptGrounding;
+  /** Revision number, raised by each edit (absent: 1, the generated script) */
+  revision?: number;
+  /** ISO 8601 timestamp of the last edit */
+  editedAt?: string;
 }
 
 // =============================================================================
@@ -136,6 +405,8 @@ export interface AudioSegment {
   format: "mp3";
   /** Generation timestamp */
   generatedAt: string;
+  /** True when the audio was copied from the cache */
+  fromCache?: boolean;
 }
 
 /** Audio specifications for the final output */
@@ -144,23 +415,117 @@ export interface AudioSpec {
   bitrate: "128k";
   sampleRate: 44100;
   channels: 1; // Mono
+  /** ID of the production preset the episode was stitched with */
+  preset: string;
+}
+
+/** How consecutive lines by different speakers meet */
+export interface TurnTransition {
+  /** "gap" puts silence between the lines; "crossfade" overlaps them */
+  type: "gap" | "crossfade";
+  /** Length of the silence or overlap in milliseconds */
+  ms: number;
+}
+
+/** Music under the speech, ducked while someone talks */
+export interface MusicBed {
+  /** Sound looped for the length of the speech */
+  sound: string;
+  /** Gain applied to the sound in dB (negative is quieter) */
+  volumeDb: number;
+}
+
+/**
+ * A named way of producing an episode's lines into the final audio
+ * Sounds are referred to by name (see config/audioPresets)
+ */
+export interface AudioPreset {
+  /** Identifier chosen in requests (e.g. "studio") */
+  id: string;
+  name: string;
+  /** One-sentence summary for users */
+  description: string;
+  /** Jingle before the first line */
+  intro?: string;
+  /** Jingle after the last line */
+  outro?: string;
+  /** Music bed under the lines */
+  bed?: MusicBed;
+  /** Silence or overlap between speaker turns (default: lines back to back) */
+  turnTransition?: TurnTransition;
+  /** Sound played where one script section ends and the next begins */
+  sectionStinger?: string;
+}
+
+/** A sound made by FFmpeg, used when no audio file of that name is provided */
+export interface GeneratedSound {
+  /** Name presets refer to the sound by */
+  id: string;
+  /** FFmpeg lavfi source graph that makes the sound */
+  lavfi: string;
+  /** Length of the sound in milliseconds (0 for a sound that loops forever) */
+  durationMs: number;
 }
 
-/** Voice mapping for speakers */
+/** Supported text-to-speech providers */
+export type TtsProviderName = "elevenlabs" | "openai" | "local";
+
+/** Valid TTS provider names for validation */
+export const TTS_PROVIDERS: readonly TtsProviderName[] = [
+  "elevenlabs",
+  "openai",
+  "local"
+] as const;
+
+/**
+ * Voice mapping for speakers, recorded with the provider that owns the voices
+ * Every other key is a host name mapped to its voice
+ */
 export interface VoiceMapping {
-  Nishi: string;
-  Shyam: string;
+  provider: TtsProviderName;
+  [speaker: SpeakerName]: string;
+}
+
+/** Phonetic alphabets an SSML phoneme tag may use */
+export type PhonemeAlphabet = "ipa" | "cmu-arpabet";
+
+/** Valid phonetic alphabets for validation */
+export const PHONEME_ALPHABETS: readonly PhonemeAlphabet[] = [
+  "ipa",
+  "cmu-arpabet"
+] as const;
+
+/**
+ * How a word or name is pronounced
+ * Providers that read SSML use the phoneme; the others speak the respelling
+ */
+export interface PronunciationEntry {
+  /** Spelling as written in scripts, matched as a whole word ignoring case */
+  term: string;
+  /** Phonetic respelling spoken in place of the term (e.g. "uh-CHAA") */
+  respelling?: string;
+  /** SSML phoneme for the term */
+  phoneme?: {
+    alphabet: PhonemeAlphabet;
+    ph: string;
+  };
 }
 
 /** Represents the final audio output */
+/** Where a script line is heard in the stitched audio */
+export interface LineTiming {
+  lineIndex: number;
+  startMs: number;
+  endMs: number;
+}
+
 export interface Podcast {
   /** Unique identifier (matches Script.id) */
   id: string;
   /** Reference to source script */
   scriptId: string;
-  /** Reference to source article */
-  articleTitle: string;
-  articleUrl: string;
+  /** Source articles, in request order */
+  articles: ArticleReference[];
   /** Path to final MP3 file */
   audioFilePath: string;
   /** Actual duration in seconds */
@@ -171,6 +536,8 @@ export interface Podcast {
   audioSpec: AudioSpec;
   /** Voice mapping used */
   voiceMapping: VoiceMapping;
+  /** Start and end of each line in the audio (absent in older podcasts) */
+  lineTimings?: LineTiming[];
   /** ISO 8601 timestamp of creation */
   createdAt: string;
   /** Generation pipeline version */
@@ -195,6 +562,23 @@ export type GenerationStageStatus =
   | "completed" 
   | "failed";
 
+/** Ordered list of pipeline stages */
+export const GENERATION_STAGES_ORDER: readonly GenerationStageName[] = [
+  "fetch",
+  "generate_script",
+  "synthesize_audio",
+  "stitch_audio"
+] as const;
+
+/** Stages of a run that voices a given script (hand-written or stored) */
+export const VOICING_STAGES_ORDER: readonly GenerationStageName[] = [
+  "synthesize_audio",
+  "stitch_audio"
+] as const;
+
+/** Stage after which a run may stop: "generate_script" writes the script without voicing it */
+export type PipelineStopStage = "generate_script";
+
 /** Represents a single stage in the generation pipeline */
 export interface GenerationStage {
   name: GenerationStageName;
@@ -204,20 +588,67 @@ export interface GenerationStage {
   error?: string;
 }
 
+/**
+ * Pipeline progress persisted after each stage so a failed run can resume
+ * from the first incomplete stage instead of starting over
+ */
+export interface PipelineCheckpoint {
+  /** Generation ID (matches the job ID when run through the job queue) */
+  id: string;
+  /** Original generation request */
+  request: PodcastRequest;
+  /** Stage progress at the time of the checkpoint */
+  stages: GenerationStage[];
+  /** Fetched articles, in request order (set once the fetch stage completes) */
+  articles?: Article[];
+  /** Generated script (set once the script stage completes) */
+  script?: Script;
+  /** Audio segments synthesized so far */
+  segments: AudioSegment[];
+  /** ISO 8601 timestamp of the first run */
+  startedAt: string;
+  /** ISO 8601 timestamp of the last checkpoint write */
+  updatedAt: string;
+}
+
 /** Source article information in metadata */
 export interface MetadataSource {
   title: string;
   url: string;
   fetchedAt: string;
+  /** Wikipedia edition the article was fetched from */
+  language: string;
+  /** Sections the episode covers (absent for the whole article) */
+  sections?: string[];
 }
 
 /** Script information in metadata */
 export interface MetadataScript {
   id: string;
   generatedAt: string;
-  model: string;
-  promptVersion: string;
-  temperature: number;
+  /** Who wrote the lines (absent: the model) */
+  author?: ScriptAuthor;
+  /** Generation settings (absent for hand-written scripts) */
+  provider?: LlmProviderName;
+  model?: string;
+  promptVersion?: string;
+  temperature?: number;
+  /** Generation attempts and the errors that triggered each repair */
+  attempts: ScriptGenerationAttempt[];
+  /** Language the script was written in */
+  language: string;
+  /** Requested episode length in minutes */
+  targetMinutes?: number;
+  /** IDs of the hosts, in roster order */
+  hosts?: string[];
+  /** Show format the script follows */
+  format?: FormatReference;
+  /** Result of the fact check (absent when it was off) */
+  grounding?: ScriptGrounding;
+  /** Current revision of the script (absent: 1) */
+  revision?: number;
+  /** Every revision of the script, oldest first (absent until the script is first edited) */
+  revisions?: ScriptRevision[];
 }
 
 /** Audio information in metadata */
@@ -225,7 +656,11 @@ export interface MetadataAudio {
   id: string;
   createdAt: string;
   durationSeconds: number;
-  voiceMapping: Record<string, string>;
+  voiceMapping: VoiceMapping;
+  /** Start and end of each line in the audio */
+  lineTimings?: LineTiming[];
+  /** Production preset the audio was stitched with (absent: "plain") */
+  preset?: string;
 }
 
 /** Pipeline execution information */
@@ -243,12 +678,21 @@ export interface MetadataArtifacts {
   metadataPath: string;
 }
 
+/** Which pipeline outputs were served from the cache */
+export interface MetadataCache {
+  /** True when every source article came from the cache */
+  article: boolean;
+  script: boolean;
+  /** Line indices whose audio was copied from the cache */
+  audioLines: number[];
+}
+
 /** Represents traceability information for each generation run */
 export interface GenerationMetadata {
   /** Unique generation ID */
   id: string;
-  /** Source article information */
-  source: MetadataSource;
+  /** Source articles, in request order */
+  source: MetadataSource[];
   /** Script generation details */
   script: MetadataScript;
   /** Audio generation details */
@@ -257,6 +701,93 @@ export interface GenerationMetadata {
   pipeline: MetadataPipeline;
   /** Output artifacts */
   artifacts: MetadataArtifacts;
+  /** Cache hits during this run */
+  cache: MetadataCache;
+}
+
+// =============================================================================
+// Cache Types
+// =============================================================================
+
+/** Kinds of cached pipeline outputs */
+export type CacheNamespace = "articles" | "scripts" | "audio";
+
+/** Valid cache namespaces */
+export const CACHE_NAMESPACES: readonly CacheNamespace[] = [
+  "articles",
+  "scripts",
+  "audio"
+] as const;
+
+/** Size of one cache namespace */
+export interface CacheNamespaceStats {
+  entries: number;
+  sizeBytes: number;
+}
+
+/** Cache contents and limits (admin endpoint response) */
+export interface CacheStats {
+  enabled: boolean;
+  maxBytes: number;
+  maxAgeDays: number;
+  totalEntries: number;
+  totalSizeBytes: number;
+  /** ISO 8601 timestamp of the least recently used entry */
+  oldestEntryUsedAt: string | null;
+  namespaces: Record<CacheNamespace, CacheNamespaceStats>;
+}
+
+/** Result of clearing or evicting cache entries */
+export interface CacheEvictionResult {
+  removedEntries: number;
+  freedBytes: number;
+}
+
+// =============================================================================
+// Job Types
+// =============================================================================
+
+/** Lifecycle status of a background generation job */
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed";
+
+/** Represents a queued or running podcast generation job */
+export interface PodcastJob {
+  /** Unique job identifier (UUID) */
+  id: string;
+  /** Current job status */
+  status: JobStatus;
+  /** Original generation request */
+  request: PodcastRequest;
+  /** Pipeline stage progress */
+  stages: GenerationStage[];
+  /** ISO 8601 timestamp of submission */
+  createdAt: string;
+  /** ISO 8601 timestamp of the last state change */
+  updatedAt: string;
+  /** ISO 8601 timestamp when the pipeline started */
+  startedAt?: string;
+  /** ISO 8601 timestamp when the job completed or failed */
+  completedAt?: string;
+  /** ISO 8601 timestamp of the last resume request */
+  resumedAt?: string;
+  /** Generated podcast, or the script of a job that stopped after writing it (set when completed) */
+  result?: PodcastResponse | ScriptOnlyResponse;
+  /** Failure details (set when failed) */
+  error?: ErrorResponse;
+}
+
+/** Response for POST /api/podcast (job accepted) */
+export interface JobSubmissionResponse {
+  /** Job identifier to poll */
+  jobId: string;
+  /** Initial job status */
+  status: JobStatus;
+  /** URL to poll for job status */
+  statusUrl: string;
 }
 
 // =============================================================================
@@ -268,10 +799,38 @@ export type PodcastInputType = "url" | "title";
 
 /** Request body for POST /api/podcast */
 export interface PodcastRequest {
-  /** Wikipedia URL or article title */
-  input: string;
+  /** Wikipedia URL or article title, or 2-5 of them for an episode connecting several articles */
+  input: string | string[];
   /** Type of input provided */
   type?: PodcastInputType;
+  /** Wikipedia edition to fetch from (default: from the URL, else "en") */
+  language?: string;
+  /** Language to write the script in (default: "en") */
+  outputLanguage?: string;
+  /** Section headings to cover (default: the whole article) */
+  sections?: string[];
+  /** Episode length in minutes, 2-30 (default: 2-3 minutes) */
+  targetMinutes?: number;
+  /** IDs of 1-4 hosts, in speaking order (default: Nishi and Shyam); one host narrates alone */
+  hosts?: string[];
+  /** ID of the show format to write the script in (default: "classic") */
+  format?: string;
+  /** Script to voice (hand-written or stored) instead of fetching articles and generating one */
+  script?: Script;
+  /** Stop once this stage completes, e.g. to review the script before it is voiced */
+  stopAfter?: PipelineStopStage;
+  /** Pronunciations for this episode, added to its lexicon (they override global ones) */
+  lexicon?: PronunciationEntry[];
+  /** ID of the audio production preset (default: "plain") */
+  audioPreset?: string;
+}
+
+/** Table of contents of an article, for choosing sections */
+export interface ArticleSectionsResponse {
+  title: string;
+  url: string;
+  language: string;
+  sections: ArticleSectionOutline[];
 }
 
 /** Response for successful podcast generation */
@@ -284,17 +843,77 @@ export interface PodcastResponse {
   scriptUrl: string;
   /** Audio duration in seconds */
   durationSeconds: number;
-  /** Source article info */
+  /** First source article */
   article: {
     title: string;
     url: string;
   };
+  /** All source articles, in request order */
+  articles: Array<{
+    title: string;
+    url: string;
+  }>;
   /** Speakers in the podcast */
   speakers: SpeakerName[];
   /** Creation timestamp */
   createdAt: string;
 }
 
+/** Response for a job that stopped after writing the script */
+export interface ScriptOnlyResponse {
+  /** Script identifier, which the podcast takes once voiced */
+  id: string;
+  /** URL to retrieve the script */
+  scriptUrl: string;
+  /** URL to POST to voice the script */
+  synthesizeUrl: string;
+  /** All source articles, in request order */
+  articles: Array<{
+    title: string;
+    url: string;
+  }>;
+  /** Number of lines in the script */
+  lineCount: number;
+  /** Estimated duration in seconds once voiced */
+  estimatedDuration: number;
+  /** Creation timestamp */
+  createdAt: string;
+}
+
+/** Fields the podcast library can be sorted by */
+export type PodcastSortField = "createdAt" | "duration";
+
+/** Sort direction */
+export type SortOrder = "asc" | "desc";
+
+/** Query parameters for GET /api/podcasts */
+export interface PodcastListQuery {
+  /** 1-based page number */
+  page: number;
+  /** Podcasts per page */
+  pageSize: number;
+  /** Field to sort by */
+  sort: PodcastSortField;
+  /** Sort direction */
+  order: SortOrder;
+  /** Case-insensitive article title substring */
+  title?: string;
+}
+
+/** Response for GET /api/podcasts */
+export interface PodcastListResponse {
+  /** Podcasts on the requested page */
+  podcasts: PodcastResponse[];
+  /** Number of podcasts matching the filter */
+  total: number;
+  /** 1-based page number */
+  page: number;
+  /** Podcasts per page */
+  pageSize: number;
+  /** Number of pages available */
+  totalPages: number;
+}
+
 /** Error codes for API responses */
 export type ErrorCode =
   | "INVALID_INPUT"
@@ -341,12 +960,51 @@ export const MIN_ARTICLE_LENGTH = 500;
 /** Maximum article length in characters (will be truncated) */
 export const MAX_ARTICLE_LENGTH = 50000;
 
+/** Maximum number of sections a request may select */
+export const MAX_SELECTED_SECTIONS = 50;
+
+/** Number of hosts an episode may have; one host narrates alone */
+export const HOST_COUNT = {
+  min: 1,
+  max: 4,
+} as const;
+
+/** Number of articles a multi-article episode may combine */
+export const MULTI_ARTICLE_INPUTS = {
+  min: 2,
+  max: 5,
+} as const;
+
+/** Pagination limits for the podcast library */
+export const PODCAST_LIST_PAGE_SIZE = {
+  default: 20,
+  max: 100,
+} as const;
+
 /** Target podcast duration range in seconds */
 export const PODCAST_DURATION = {
   min: 120,
   max: 180,
 } as const;
 
+/** Limits for a requested episode length in minutes */
+export const TARGET_MINUTES = {
+  min: 2,
+  max: 30,
+} as const;
+
+/** Most lines an edited or hand-written script may have */
+export const MAX_SCRIPT_LINES = 1000;
+
+/** Longest accepted script line, in characters */
+export const MAX_SCRIPT_LINE_LENGTH = 1000;
+
+/** Most entries a pronunciation lexicon may have */
+export const MAX_LEXICON_ENTRIES = 500;
+
+/** Longest accepted lexicon term, respelling or phoneme, in characters */
+export const MAX_LEXICON_TEXT_LENGTH = 100;
+
 /** Words per minute for duration estimation */
 export const WORDS_PER_MINUTE = 150;
 
@@ -7,6 +7,7 @@
 
 import type { ErrorCode, ErrorResponse } from '../types/index.js';
 import type { Response } from 'express';
+import { UNSUPPORTED_WIKI_LANGUAGES } from '../config/languages.js';
 
 /**
  * Base application error class
@@ -91,9 +92,9 @@ export class UnsupportedLanguageError extends AppError {
   constructor(language: string) {
     super(
       'UNSUPPORTED_LANGUAGE',
-      `Language '${language}' is not supported. Only English Wikipedia articles are supported.`,
+      `The '${language}' Wikipedia is not supported.`,
       400,
-      { language, supported: ['en'] }
+      { language, unsupported: [...UNSUPPORTED_WIKI_LANGUAGES] }
     );
     this.name = 'UnsupportedLanguageError';
   }
@@ -103,12 +104,12 @@ export class UnsupportedLanguageError extends AppError {
  * Generation failed error (500)
  */
 export class GenerationFailedError extends AppError {
-  constructor(stage: string, reason?: string) {
+  constructor(stage: string, reason?: string, details?: Record<string, unknown>) {
     super(
       'GENERATION_FAILED',
       reason || `Podcast generation failed during ${stage}`,
       500,
-      { stage }
+      { stage, ...details }
     );
     this.name = 'GenerationFailedError';
   }
@@ -161,6 +162,33 @@ export function toAppError(error: unknown): AppError {
   return new InternalError(String(error));
 }
 
+/**
+ * Classify a pipeline error into an AppError
+ * 
+ * Services throw plain Errors, so the category is inferred from the message.
+ */
+export function classifyGenerationError(error: unknown): AppError {
+  if (isAppError(error)) {
+    return error;
+  }
+  
+  if (!(error instanceof Error)) {
+    return new InternalError('An unknown error occurred');
+  }
+  
+  if (error.message.includes('not found') || error.message.includes('Article not found')) {
+    return new AppError('ARTICLE_NOT_FOUND', error.message, 404);
+  }
+  if (error.message.includes('too short')) {
+    return new AppError('ARTICLE_TOO_SHORT', error.message, 400);
+  }
+  if (error.message.includes('Wikipedia') || error.message.includes('unavailable')) {
+    return new AppError('SERVICE_UNAVAILABLE', error.message, 503);
+  }
+  
+  return new AppError('GENERATION_FAILED', error.message, 500);
+}
+
 /**
  * Send error response
  */
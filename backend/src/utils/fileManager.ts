@@ -9,7 +9,7 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { getConfig } from '../config/env.js';
-import type { Script, GenerationMetadata } from '../types/index.js';
+import type { Script, GenerationMetadata, PipelineCheckpoint } from '../types/index.js';
 // Podcast type available if needed for future file operations
 
 /**
@@ -17,9 +17,16 @@ import type { Script, GenerationMetadata } from '../types/index.js';
  */
 const OUTPUT_DIRS = {
   scripts: 'scripts',
+  revisions: 'scripts/revisions',
   audio: 'audio',
   segments: 'audio/segments',
   metadata: 'metadata',
+  jobs: 'jobs',
+  checkpoints: 'checkpoints',
+  cache: 'cache',
+  lexicons: 'lexicons',
+  episodeLexicons: 'lexicons/episodes',
+  trash: '.trash',
 } as const;
 
 /**
@@ -85,6 +92,31 @@ export function getScriptPath(id: string): string {
   return path.join(config.outputDir, OUTPUT_DIRS.scripts, `${id}.json`);
 }
 
+/**
+ * Get directory for the earlier revisions of an edited script
+ */
+export function getScriptRevisionsDir(id: string): string {
+  const config = getConfig();
+  return path.join(config.outputDir, OUTPUT_DIRS.revisions, id);
+}
+
+/**
+ * Get path for an earlier revision of a script
+ */
+export function getScriptRevisionPath(id: string, revision: number): string {
+  return path.join(getScriptRevisionsDir(id), `${revision}.json`);
+}
+
+/**
+ * Get path for a pronunciation lexicon: an episode's, or the global one
+ */
+export function getLexiconPath(podcastId?: string): string {
+  const config = getConfig();
+  return podcastId
+    ? path.join(config.outputDir, OUTPUT_DIRS.episodeLexicons, `${podcastId}.json`)
+    : path.join(config.outputDir, OUTPUT_DIRS.lexicons, 'global.json');
+}
+
 /**
  * Get path for the final audio file
  */
@@ -117,6 +149,39 @@ export function getMetadataPath(id: string): string {
   return path.join(config.outputDir, OUTPUT_DIRS.metadata, `${id}.json`);
 }
 
+/**
+ * Get path for a job state file
+ */
+export function getJobPath(jobId: string): string {
+  const config = getConfig();
+  return path.join(config.outputDir, OUTPUT_DIRS.jobs, `${jobId}.json`);
+}
+
+/**
+ * Get directory holding job state files
+ */
+export function getJobsDir(): string {
+  const config = getConfig();
+  return path.join(config.outputDir, OUTPUT_DIRS.jobs);
+}
+
+/**
+ * Get path for a pipeline checkpoint file
+ */
+export function getCheckpointPath(id: string): string {
+  const config = getConfig();
+  return path.join(config.outputDir, OUTPUT_DIRS.checkpoints, `${id}.json`);
+}
+
+/**
+ * Get the cache directory, or a namespace inside it
+ */
+export function getCacheDir(namespace?: string): string {
+  const config = getConfig();
+  const cacheDir = path.join(config.outputDir, OUTPUT_DIRS.cache);
+  return namespace ? path.join(cacheDir, namespace) : cacheDir;
+}
+
 /**
  * Save JSON data to a file
  */
@@ -194,6 +259,37 @@ export async function loadMetadata(id: string): Promise<GenerationMetadata | nul
   return loadJson<GenerationMetadata>(filePath);
 }
 
+/**
+ * Save a pipeline checkpoint
+ */
+export async function saveCheckpoint(checkpoint: PipelineCheckpoint): Promise<string> {
+  const filePath = getCheckpointPath(checkpoint.id);
+  await saveJson(filePath, checkpoint);
+  return filePath;
+}
+
+/**
+ * Load a pipeline checkpoint
+ */
+export async function loadCheckpoint(id: string): Promise<PipelineCheckpoint | null> {
+  const filePath = getCheckpointPath(id);
+  if (!(await fileExists(filePath))) {
+    return null;
+  }
+  return loadJson<PipelineCheckpoint>(filePath);
+}
+
+/**
+ * Remove a pipeline checkpoint once it is no longer needed
+ */
+export async function deleteCheckpoint(id: string): Promise<void> {
+  try {
+    await fs.rm(getCheckpointPath(id), { force: true });
+  } catch {
+    // Ignore cleanup errors
+  }
+}
+
 /**
  * Save binary data (audio) to a file
  */
@@ -224,6 +320,59 @@ export async function cleanupSegments(id: string): Promise<void> {
   }
 }
 
+/**
+ * Delete every artifact of a podcast: metadata, script and its revisions, final
+ * audio, segments and its pronunciation lexicon
+ *
+ * Artifacts are first moved into a staging directory under output/.trash.
+ * If any move fails, the ones already moved are put back so the podcast is
+ * left intact; only after all moves succeed is the staging directory removed.
+ * Missing artifacts are skipped.
+ */
+export async function deletePodcastFiles(id: string): Promise<void> {
+  const config = getConfig();
+  const stagingDir = path.join(config.outputDir, OUTPUT_DIRS.trash, `${id}_${Date.now()}`);
+  await fs.mkdir(stagingDir, { recursive: true });
+  
+  // Metadata goes first so the podcast stops being listed immediately
+  const artifacts: Array<[string, string]> = [
+    [getMetadataPath(id), 'metadata.json'],
+    [getScriptPath(id), 'script.json'],
+    [getScriptRevisionsDir(id), 'revisions'],
+    [getAudioPath(id), 'audio.mp3'],
+    [getSegmentsDir(id), 'segments'],
+    [getLexiconPath(id), 'lexicon.json'],
+  ];
+  const moved: Array<[string, string]> = [];
+  
+  try {
+    for (const [source, name] of artifacts) {
+      const staged = path.join(stagingDir, name);
+      try {
+        await fs.rename(source, staged);
+        moved.push([source, staged]);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+  } catch (error) {
+    for (const [source, staged] of moved.reverse()) {
+      await fs.rename(staged, source).catch((restoreError) => {
+        console.error(`Failed to restore ${source}:`, restoreError);
+      });
+    }
+    await fs.rm(stagingDir, { recursive: true, force: true }).catch(() => {});
+    throw error;
+  }
+  
+  // The podcast is already gone at this point; a leftover staging dir is harmless
+  await fs.rm(stagingDir, { recursive: true, force: true }).catch((error) => {
+    console.warn(`Failed to remove staging directory ${stagingDir}:`, error);
+  });
+}
+
 /**
  * List all podcast IDs in the output directory
  */
@@ -0,0 +1,209 @@
+/**
+ * HTML Utility
+ *
+ * Minimal HTML parser producing an element tree.
+ * Written for the well-formed HTML served by Wikipedia's Parsoid; it
+ * tolerates stray and missing close tags but does not implement the full
+ * HTML5 tree construction algorithm.
+ */
+
+export interface HtmlElement {
+  type: 'element';
+  /** Lowercase tag name */
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export interface HtmlText {
+  type: 'text';
+  /** Text with entities decoded */
+  text: string;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+/**
+ * Elements that never have children
+ */
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+/**
+ * Elements whose content is raw text rather than markup
+ */
+const RAW_TEXT_TAGS = new Set(['script', 'style']);
+
+/**
+ * Block elements that implicitly close an open <p>
+ */
+const CLOSES_PARAGRAPH = new Set([
+  'p', 'div', 'ul', 'ol', 'dl', 'table', 'section', 'blockquote', 'figure',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'pre', 'hr',
+]);
+
+const OPEN_TAG = /<([a-zA-Z][a-zA-Z0-9:-]*)((?:\s+[^\s"'=<>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/y;
+const CLOSE_TAG = /<\/([a-zA-Z][a-zA-Z0-9:-]*)\s*>/y;
+const ATTRIBUTE = /([^\s"'=<>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  ndash: '–',
+  mdash: '—',
+  minus: '−',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  middot: '·',
+  times: '×',
+  deg: '°',
+  thinsp: ' ',
+  ensp: ' ',
+  emsp: ' ',
+  shy: '',
+  zwj: '',
+  zwnj: '',
+  copy: '©',
+  reg: '®',
+  euro: '€',
+  pound: '£',
+};
+
+/**
+ * Decodes named and numeric character references
+ * Unknown named references are left as they are
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      try {
+        return String.fromCodePoint(codePoint);
+      } catch {
+        return match;
+      }
+    }
+    return NAMED_ENTITIES[entity] ?? NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    attributes[match[1].toLowerCase()] = decodeHtmlEntities(value);
+  }
+  return attributes;
+}
+
+function createElement(tag: string, attributes: Record<string, string> = {}): HtmlElement {
+  return { type: 'element', tag, attributes, children: [] };
+}
+
+/**
+ * Parses an HTML document or fragment into a tree under a synthetic root element
+ * Comments, doctypes and the contents of <script>/<style> are dropped
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root = createElement('#root');
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const appendText = (text: string) => {
+    if (text) {
+      current().children.push({ type: 'text', text: decodeHtmlEntities(text) });
+    }
+  };
+
+  let position = 0;
+  while (position < html.length) {
+    const tagStart = html.indexOf('<', position);
+    if (tagStart === -1) {
+      appendText(html.slice(position));
+      break;
+    }
+    appendText(html.slice(position, tagStart));
+    position = tagStart;
+
+    // Comments, doctypes and processing instructions
+    if (html.startsWith('<!--', position)) {
+      const end = html.indexOf('-->', position + 4);
+      position = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[position + 1] === '!' || html[position + 1] === '?') {
+      const end = html.indexOf('>', position);
+      position = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    CLOSE_TAG.lastIndex = position;
+    const closeMatch = CLOSE_TAG.exec(html);
+    if (closeMatch) {
+      const tag = closeMatch[1].toLowerCase();
+      // Close the nearest matching element; stray close tags are ignored
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].tag === tag) {
+          stack.length = i;
+          break;
+        }
+      }
+      position = CLOSE_TAG.lastIndex;
+      continue;
+    }
+
+    OPEN_TAG.lastIndex = position;
+    const openMatch = OPEN_TAG.exec(html);
+    if (!openMatch) {
+      // A lone '<' is text
+      appendText('<');
+      position += 1;
+      continue;
+    }
+    position = OPEN_TAG.lastIndex;
+
+    const tag = openMatch[1].toLowerCase();
+    const element = createElement(tag, parseAttributes(openMatch[2]));
+
+    if (current().tag === 'p' && CLOSES_PARAGRAPH.has(tag)) {
+      stack.pop();
+    }
+    if (tag === 'li' && current().tag === 'li') {
+      stack.pop();
+    }
+    current().children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const rawTextEnd = new RegExp(`</${tag}\\s*>`, 'gi');
+      rawTextEnd.lastIndex = position;
+      position = rawTextEnd.exec(html) ? rawTextEnd.lastIndex : html.length;
+      continue;
+    }
+
+    if (!VOID_TAGS.has(tag) && openMatch[3] !== '/') {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Gets the class names of an element
+ */
+export function getClassList(element: HtmlElement): string[] {
+  return (element.attributes.class ?? '').split(/\s+/).filter(Boolean);
+}
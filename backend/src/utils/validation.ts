@@ -5,15 +5,68 @@
  * Handles URL validation, title sanitization, and content validation.
  */
 
-import type { PodcastInputType } from '../types/index.js';
-import { MIN_ARTICLE_LENGTH, MAX_ARTICLE_LENGTH } from '../types/index.js';
+import type {
+  PodcastInputType,
+  PodcastListQuery,
+  HostProfile,
+  HostRole,
+  TtsProviderName,
+  ScriptLineEdit,
+  PipelineStopStage,
+  PronunciationEntry,
+  PhonemeAlphabet,
+} from '../types/index.js';
+import {
+  MIN_ARTICLE_LENGTH,
+  MAX_ARTICLE_LENGTH,
+  PODCAST_LIST_PAGE_SIZE,
+  MAX_SELECTED_SECTIONS,
+  TARGET_MINUTES,
+  MULTI_ARTICLE_INPUTS,
+  HOST_COUNT,
+  HOST_ROLES,
+  TTS_PROVIDERS,
+  MAX_SCRIPT_LINES,
+  MAX_SCRIPT_LINE_LENGTH,
+  PHONEME_ALPHABETS,
+  MAX_LEXICON_ENTRIES,
+  MAX_LEXICON_TEXT_LENGTH,
+} from '../types/index.js';
+import { DEFAULT_LANGUAGE, isValidLanguageCode, isSupportedWikiLanguage } from '../config/languages.js';
+import { BUILT_IN_FORMATS, getFormat } from '../config/formats.js';
+import { BUILT_IN_AUDIO_PRESETS, getAudioPreset } from '../config/audioPresets.js';
 
 /**
  * Extended Wikipedia URL pattern (includes mobile and other subdomains)
  * Matches: https://en.wikipedia.org/wiki/Article_Name
- * Also handles: https://m.wikipedia.org/wiki/Article_Name
+ * Also handles: https://m.wikipedia.org/wiki/Article_Name, https://zh-yue.wikipedia.org/wiki/...
  */
-const WIKIPEDIA_URL_EXTENDED = /^https?:\/\/([a-z]{2}\.)?(?:m\.)?wikipedia\.org\/wiki\/[^/]+$/i;
+const WIKIPEDIA_URL_EXTENDED = /^https?:\/\/([a-z0-9-]+\.)?(?:m\.)?wikipedia\.org\/wiki\/[^/]+$/i;
+
+/**
+ * Longest accepted section heading
+ */
+const MAX_SECTION_NAME_LENGTH = 200;
+
+/**
+ * Host IDs double as file names: lowercase letters, digits and hyphens
+ */
+const HOST_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+/**
+ * Host names appear as speakers in scripts: letters, spaces, dots, apostrophes and hyphens
+ */
+const HOST_NAME_PATTERN = /^\p{L}[\p{L}\p{M} .'-]{0,39}$/u;
+
+/**
+ * Longest accepted host persona
+ */
+const MAX_PERSONA_LENGTH = 500;
+
+/**
+ * Captures the edition subdomain of a Wikipedia URL
+ */
+const WIKIPEDIA_LANGUAGE_PATTERN = /^https?:\/\/(?:([a-z0-9-]+)\.)?(?:m\.)?wikipedia\.org\//i;
 
 /**
  * Check if a string is a valid Wikipedia URL
@@ -55,12 +108,117 @@ export function validateWikipediaUrl(url: string): string | null {
     return 'URL must be a valid Wikipedia article URL (e.g., https://en.wikipedia.org/wiki/Article_Name)';
   }
   
-  // Check for English Wikipedia specifically for MVP
-  if (!trimmed.match(/^https?:\/\/(en\.)?(m\.)?wikipedia\.org/i)) {
-    return 'Only English Wikipedia articles are supported';
+  return null;
+}
+
+/**
+ * Get the Wikipedia edition of a URL
+ * URLs without an edition subdomain (wikipedia.org, m.wikipedia.org) are English
+ */
+export function getWikipediaUrlLanguage(url: string): string {
+  const match = url.trim().match(WIKIPEDIA_LANGUAGE_PATTERN);
+  const subdomain = match?.[1]?.toLowerCase();
+  
+  if (!subdomain || subdomain === 'm' || subdomain === 'www') {
+    return DEFAULT_LANGUAGE;
+  }
+  return subdomain;
+}
+
+/**
+ * Validate the source and output languages of a podcast request
+ * 
+ * `unsupportedLanguage` is set when the source wiki is well-formed but
+ * explicitly not supported, so callers can report it separately.
+ */
+export function validateLanguageOptions(
+  input: string,
+  type: PodcastInputType,
+  language?: unknown,
+  outputLanguage?: unknown
+): { valid: boolean; error?: string; unsupportedLanguage?: string } {
+  if (language !== undefined && (typeof language !== 'string' || !isValidLanguageCode(language))) {
+    return { valid: false, error: 'language must be a Wikipedia language code (e.g. "en", "de")' };
   }
   
-  return null;
+  if (
+    outputLanguage !== undefined &&
+    (typeof outputLanguage !== 'string' || !isValidLanguageCode(outputLanguage))
+  ) {
+    return { valid: false, error: 'outputLanguage must be a language code (e.g. "en", "hi")' };
+  }
+  
+  let sourceLanguage = language ?? DEFAULT_LANGUAGE;
+  if (type === 'url') {
+    sourceLanguage = getWikipediaUrlLanguage(input);
+    if (language !== undefined && language !== sourceLanguage) {
+      return {
+        valid: false,
+        error: `language "${language}" does not match the URL's Wikipedia edition "${sourceLanguage}"`,
+      };
+    }
+  }
+  
+  if (!isSupportedWikiLanguage(sourceLanguage)) {
+    return {
+      valid: false,
+      error: `Wikipedia language "${sourceLanguage}" is not supported`,
+      unsupportedLanguage: sourceLanguage,
+    };
+  }
+  
+  return { valid: true };
+}
+
+/**
+ * Validate the list of section headings a podcast should cover
+ * Returns the trimmed, de-duplicated headings
+ */
+export function validateSections(
+  sections: unknown
+): { valid: boolean; error?: string; sections?: string[] } {
+  if (sections === undefined) {
+    return { valid: true };
+  }
+  
+  if (!Array.isArray(sections) || sections.some(s => typeof s !== 'string' || !s.trim())) {
+    return { valid: false, error: 'sections must be a list of section headings' };
+  }
+  
+  const unique = [...new Set(sections.map((s: string) => s.trim()))];
+  if (unique.length > MAX_SELECTED_SECTIONS) {
+    return { valid: false, error: `At most ${MAX_SELECTED_SECTIONS} sections can be selected` };
+  }
+  if (unique.some(s => s.length > MAX_SECTION_NAME_LENGTH)) {
+    return { valid: false, error: `Section headings must be at most ${MAX_SECTION_NAME_LENGTH} characters` };
+  }
+  
+  return { valid: true, sections: unique };
+}
+
+/**
+ * Validate the requested episode length in minutes
+ */
+export function validateTargetMinutes(
+  targetMinutes: unknown
+): { valid: boolean; error?: string } {
+  if (targetMinutes === undefined) {
+    return { valid: true };
+  }
+  
+  if (
+    typeof targetMinutes !== 'number' ||
+    !Number.isFinite(targetMinutes) ||
+    targetMinutes < TARGET_MINUTES.min ||
+    targetMinutes > TARGET_MINUTES.max
+  ) {
+    return {
+      valid: false,
+      error: `targetMinutes must be a number from ${TARGET_MINUTES.min} to ${TARGET_MINUTES.max}`,
+    };
+  }
+  
+  return { valid: true };
 }
 
 /**
@@ -187,11 +345,116 @@ export function validatePodcastInput(
   return { valid: true, type: detectedType };
 }
 
+/**
+ * Validate the shape of a multi-article request's input list
+ * A single input (not a list) is always accepted here
+ */
+export function validateInputList(
+  input: unknown
+): { valid: boolean; error?: string } {
+  if (!Array.isArray(input)) {
+    return { valid: true };
+  }
+  
+  if (input.length < MULTI_ARTICLE_INPUTS.min || input.length > MULTI_ARTICLE_INPUTS.max) {
+    return {
+      valid: false,
+      error: `A list of inputs must have ${MULTI_ARTICLE_INPUTS.min}-${MULTI_ARTICLE_INPUTS.max} entries`,
+    };
+  }
+  
+  if (input.some(item => typeof item !== 'string')) {
+    return { valid: false, error: 'Every input must be a Wikipedia URL or article title' };
+  }
+  
+  return { valid: true };
+}
+
 /**
  * Alias for validatePodcastInput for backwards compatibility
  */
 export const validateInput = validatePodcastInput;
 
+/**
+ * Check that a podcast ID has the shape produced by generateId
+ * Rejects anything that could escape the output directory
+ */
+export function isValidPodcastId(id: string): boolean {
+  return /^[\p{L}\p{M}\p{N}_-]{1,100}$/u.test(id);
+}
+
+/**
+ * Parse a positive integer query parameter
+ * Returns the fallback when absent, null when malformed
+ */
+function parsePositiveInt(value: unknown, fallback: number): number | null {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    return null;
+  }
+  const parsed = parseInt(value, 10);
+  return parsed > 0 ? parsed : null;
+}
+
+/**
+ * Validate query parameters for listing podcasts
+ * Applies defaults: page 1, 20 per page, newest first
+ */
+export function validatePodcastListQuery(
+  params: Record<string, unknown>
+): { valid: boolean; error?: string; query: PodcastListQuery } {
+  const query: PodcastListQuery = {
+    page: 1,
+    pageSize: PODCAST_LIST_PAGE_SIZE.default,
+    sort: 'createdAt',
+    order: 'desc',
+  };
+  
+  const page = parsePositiveInt(params.page, query.page);
+  if (page === null) {
+    return { valid: false, error: 'page must be a positive integer', query };
+  }
+  query.page = page;
+  
+  const pageSize = parsePositiveInt(params.pageSize, query.pageSize);
+  if (pageSize === null || pageSize > PODCAST_LIST_PAGE_SIZE.max) {
+    return {
+      valid: false,
+      error: `pageSize must be an integer between 1 and ${PODCAST_LIST_PAGE_SIZE.max}`,
+      query,
+    };
+  }
+  query.pageSize = pageSize;
+  
+  if (params.sort !== undefined) {
+    if (params.sort !== 'createdAt' && params.sort !== 'duration') {
+      return { valid: false, error: 'sort must be "createdAt" or "duration"', query };
+    }
+    query.sort = params.sort;
+  }
+  
+  if (params.order !== undefined) {
+    if (params.order !== 'asc' && params.order !== 'desc') {
+      return { valid: false, error: 'order must be "asc" or "desc"', query };
+    }
+    query.order = params.order;
+  }
+  
+  if (params.title !== undefined) {
+    if (typeof params.title !== 'string') {
+      return { valid: false, error: 'title must be a string', query };
+    }
+    const title = params.title.trim();
+    if (title) {
+      query.title = title;
+    }
+  }
+  
+  return { valid: true, query };
+}
+
 /**
  * Check if content is in English
  * Simple heuristic based on common English words
@@ -207,10 +470,320 @@ export function isLikelyEnglish(text: string): boolean {
  * Normalize Wikipedia URL to canonical form
  */
 export function normalizeWikipediaUrl(url: string): string {
-  // Remove mobile prefix, normalize to en.wikipedia.org
+  // Remove mobile prefix, keeping the edition; bare domains are English
   return url
     .replace(/\/\/m\.wikipedia/, '//en.wikipedia')
-    .replace(/\/\/([a-z]{2})\.m\.wikipedia/, '//en.wikipedia')
+    .replace(/\/\/([a-z0-9-]+)\.m\.wikipedia/, '//$1.wikipedia')
     .replace(/\/\/wikipedia\.org/, '//en.wikipedia.org');
 }
 
+/**
+ * Check a host ID (also the profile's file name)
+ */
+export function isValidHostId(id: string): boolean {
+  return HOST_ID_PATTERN.test(id);
+}
+
+/**
+ * Validate the hosts chosen for an episode: 1-4 distinct host IDs
+ */
+export function validateHostIds(
+  hosts: unknown
+): { valid: boolean; error?: string; hosts?: string[] } {
+  if (hosts === undefined) {
+    return { valid: true };
+  }
+  
+  if (!Array.isArray(hosts) || hosts.some(id => typeof id !== 'string' || !isValidHostId(id))) {
+    return { valid: false, error: 'hosts must be a list of host IDs' };
+  }
+  if (hosts.length < HOST_COUNT.min || hosts.length > HOST_COUNT.max) {
+    return { valid: false, error: `An episode must have ${HOST_COUNT.min}-${HOST_COUNT.max} hosts` };
+  }
+  if (new Set(hosts).size !== hosts.length) {
+    return { valid: false, error: 'Each host can only be chosen once' };
+  }
+  
+  return { valid: true, hosts };
+}
+
+/**
+ * Validate the show format chosen for an episode
+ */
+export function validateFormat(
+  format: unknown
+): { valid: boolean; error?: string; format?: string } {
+  if (format === undefined) {
+    return { valid: true };
+  }
+  
+  if (typeof format !== 'string') {
+    return { valid: false, error: 'format must be a format ID' };
+  }
+  if (!getFormat(format)) {
+    const available = BUILT_IN_FORMATS.map(candidate => candidate.id).join(', ');
+    return { valid: false, error: `Unknown format "${format}"; choose one of: ${available}` };
+  }
+  
+  return { valid: true, format };
+}
+
+/**
+ * Validate the audio production preset chosen for an episode
+ */
+export function validateAudioPreset(
+  audioPreset: unknown
+): { valid: boolean; error?: string; audioPreset?: string } {
+  if (audioPreset === undefined) {
+    return { valid: true };
+  }
+  
+  if (typeof audioPreset !== 'string') {
+    return { valid: false, error: 'audioPreset must be a preset ID' };
+  }
+  if (!getAudioPreset(audioPreset)) {
+    const available = BUILT_IN_AUDIO_PRESETS.map(candidate => candidate.id).join(', ');
+    return { valid: false, error: `Unknown audio preset "${audioPreset}"; choose one of: ${available}` };
+  }
+  
+  return { valid: true, audioPreset };
+}
+
+/**
+ * Validate the stage a generation stops after
+ * Only "generate_script" is supported: the script is returned without audio
+ */
+export function validateStopAfter(
+  stopAfter: unknown
+): { valid: boolean; error?: string; stopAfter?: PipelineStopStage } {
+  if (stopAfter === undefined) {
+    return { valid: true };
+  }
+  
+  if (stopAfter !== 'generate_script') {
+    return { valid: false, error: 'stopAfter must be "generate_script"' };
+  }
+  
+  return { valid: true, stopAfter };
+}
+
+/**
+ * Validate a host profile for the given ID
+ * Returns the profile with trimmed text fields
+ */
+export function validateHostProfile(
+  id: string,
+  profile: unknown
+): { valid: boolean; error?: string; host?: HostProfile } {
+  if (!isValidHostId(id)) {
+    return { valid: false, error: 'Host IDs use lowercase letters, digits and hyphens (at most 40 characters)' };
+  }
+  if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+    return { valid: false, error: 'A host profile must be a JSON object' };
+  }
+  
+  const { name, persona, role, voices = {} } = profile as Record<string, unknown>;
+  
+  if (typeof name !== 'string' || !HOST_NAME_PATTERN.test(name.trim())) {
+    return { valid: false, error: 'name must be 1-40 letters, spaces, dots, apostrophes or hyphens' };
+  }
+  // "provider" is taken in voice mappings
+  if (name.trim().toLowerCase() === 'provider') {
+    return { valid: false, error: 'name "provider" is reserved' };
+  }
+  if (typeof persona !== 'string' || !persona.trim() || persona.length > MAX_PERSONA_LENGTH) {
+    return { valid: false, error: `persona must be a description of 1-${MAX_PERSONA_LENGTH} characters` };
+  }
+  if (!HOST_ROLES.includes(role as HostRole)) {
+    return { valid: false, error: `role must be one of: ${HOST_ROLES.join(', ')}` };
+  }
+  if (
+    !voices || typeof voices !== 'object' || Array.isArray(voices) ||
+    Object.entries(voices).some(([provider, voice]) =>
+      !TTS_PROVIDERS.includes(provider as TtsProviderName) || typeof voice !== 'string' || !voice.trim())
+  ) {
+    return {
+      valid: false,
+      error: `voices must map TTS providers (${TTS_PROVIDERS.join(', ')}) to voice names`,
+    };
+  }
+  
+  return {
+    valid: true,
+    host: {
+      id,
+      name: name.trim(),
+      persona: persona.trim(),
+      role: role as HostRole,
+      voices: voices as HostProfile['voices'],
+    },
+  };
+}
+
+/**
+ * Validate the shape of an edited script's lines
+ * Lines keep the `index` of the line they replace; new lines have none
+ * Whether the lines make a valid script is checked against the script's rules later
+ */
+export function validateScriptLineEdits(
+  lines: unknown
+): { valid: boolean; error?: string; lines?: ScriptLineEdit[] } {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    return { valid: false, error: 'lines must be a non-empty list of script lines' };
+  }
+  if (lines.length > MAX_SCRIPT_LINES) {
+    return { valid: false, error: `A script can have at most ${MAX_SCRIPT_LINES} lines` };
+  }
+  
+  const edits: ScriptLineEdit[] = [];
+  const indices = new Set<number>();
+  
+  for (const [position, line] of lines.entries()) {
+    const label = `Line ${position + 1}`;
+    if (!line || typeof line !== 'object' || Array.isArray(line)) {
+      return { valid: false, error: `${label} must be an object` };
+    }
+    
+    const { index, speaker, text, section, sourceArticles } = line as Record<string, unknown>;
+    if (index !== undefined) {
+      if (!Number.isInteger(index) || (index as number) < 1) {
+        return { valid: false, error: `${label} has an invalid index` };
+      }
+      if (indices.has(index as number)) {
+        return { valid: false, error: `${label} repeats index ${index}` };
+      }
+      indices.add(index as number);
+    }
+    if (typeof speaker !== 'string' || !speaker.trim()) {
+      return { valid: false, error: `${label} must have a speaker` };
+    }
+    if (typeof text !== 'string' || !text.trim() || text.length > MAX_SCRIPT_LINE_LENGTH) {
+      return { valid: false, error: `${label} must have text of 1-${MAX_SCRIPT_LINE_LENGTH} characters` };
+    }
+    if (typeof section !== 'string' || !section) {
+      return { valid: false, error: `${label} must have a section` };
+    }
+    if (
+      sourceArticles !== undefined &&
+      (!Array.isArray(sourceArticles) || sourceArticles.some(source => !Number.isInteger(source)))
+    ) {
+      return { valid: false, error: `${label} must list its sourceArticles as article numbers` };
+    }
+    
+    edits.push({
+      ...(index !== undefined && { index: index as number }),
+      speaker: speaker.trim(),
+      text: text.trim(),
+      section,
+      ...(sourceArticles !== undefined && { sourceArticles: [...new Set(sourceArticles as number[])] }),
+    });
+  }
+  
+  return { valid: true, lines: edits };
+}
+
+/**
+ * Checks that a lexicon field is a single line of 1-100 characters
+ */
+function isLexiconText(value: unknown): value is string {
+  return typeof value === 'string' &&
+    value.trim().length > 0 &&
+    value.length <= MAX_LEXICON_TEXT_LENGTH &&
+    !/[\r\n]/.test(value);
+}
+
+/**
+ * Validate how a term is pronounced: a respelling, an SSML phoneme or both
+ * Without `phonemes` (the voices cannot read phoneme tags) a respelling is required
+ * Returns the entry with trimmed text fields
+ */
+export function validatePronunciationEntry(
+  term: unknown,
+  entry: unknown,
+  phonemes = true
+): { valid: boolean; error?: string; entry?: PronunciationEntry } {
+  if (!isLexiconText(term)) {
+    return { valid: false, error: `term must be a word or name of 1-${MAX_LEXICON_TEXT_LENGTH} characters` };
+  }
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return { valid: false, error: 'A pronunciation must be a JSON object' };
+  }
+  
+  const { respelling, phoneme } = entry as Record<string, unknown>;
+  if (respelling === undefined && phoneme === undefined) {
+    return { valid: false, error: `Give a respelling or a phoneme for "${term.trim()}"` };
+  }
+  if (respelling !== undefined && !isLexiconText(respelling)) {
+    return { valid: false, error: `respelling must be 1-${MAX_LEXICON_TEXT_LENGTH} characters on one line` };
+  }
+  if (respelling === undefined && !phonemes) {
+    return {
+      valid: false,
+      error: `Give a respelling for "${term.trim()}": the current voices cannot read phonemes`,
+    };
+  }
+  
+  let parsedPhoneme: PronunciationEntry['phoneme'];
+  if (phoneme !== undefined) {
+    const { alphabet = 'ipa', ph } = (phoneme && typeof phoneme === 'object' ? phoneme : {}) as Record<string, unknown>;
+    if (!PHONEME_ALPHABETS.includes(alphabet as PhonemeAlphabet)) {
+      return { valid: false, error: `phoneme.alphabet must be one of: ${PHONEME_ALPHABETS.join(', ')}` };
+    }
+    // The phoneme is written into an SSML attribute
+    if (!isLexiconText(ph) || /["<>&]/.test(ph)) {
+      return {
+        valid: false,
+        error: `phoneme.ph must be 1-${MAX_LEXICON_TEXT_LENGTH} characters without quotes, angle brackets or "&"`,
+      };
+    }
+    parsedPhoneme = { alphabet: alphabet as PhonemeAlphabet, ph: ph.trim() };
+  }
+  
+  return {
+    valid: true,
+    entry: {
+      term: term.trim(),
+      ...(respelling !== undefined && { respelling: (respelling as string).trim() }),
+      ...(parsedPhoneme && { phoneme: parsedPhoneme }),
+    },
+  };
+}
+
+/**
+ * Validate a list of pronunciations, such as an episode's lexicon sent with a
+ * generation request; terms must be distinct ignoring case
+ */
+export function validateLexiconEntries(
+  entries: unknown,
+  phonemes = true
+): { valid: boolean; error?: string; entries?: PronunciationEntry[] } {
+  if (entries === undefined) {
+    return { valid: true };
+  }
+  if (!Array.isArray(entries)) {
+    return { valid: false, error: 'lexicon must be a list of pronunciations' };
+  }
+  if (entries.length > MAX_LEXICON_ENTRIES) {
+    return { valid: false, error: `A lexicon can have at most ${MAX_LEXICON_ENTRIES} entries` };
+  }
+  
+  const parsed: PronunciationEntry[] = [];
+  const terms = new Set<string>();
+  
+  for (const [position, entry] of entries.entries()) {
+    const term = entry && typeof entry === 'object' ? (entry as { term?: unknown }).term : undefined;
+    const validation = validatePronunciationEntry(term, entry, phonemes);
+    if (!validation.entry) {
+      return { valid: false, error: `Lexicon entry ${position + 1}: ${validation.error}` };
+    }
+    
+    const key = validation.entry.term.toLowerCase();
+    if (terms.has(key)) {
+      return { valid: false, error: `Lexicon entry ${position + 1}: "${validation.entry.term}" is listed twice` };
+    }
+    terms.add(key);
+    parsed.push(validation.entry);
+  }
+  
+  return { valid: true, entries: parsed };
+}
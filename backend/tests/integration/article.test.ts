@@ -0,0 +1,131 @@
+/**
+ * Integration Tests for Article Preview Endpoints
+ *
+ * Tests GET /api/article/sections
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import articleRouter from '../../src/routes/article.js';
+import { fetchArticle } from '../../src/services/wikipedia.js';
+
+jest.mock('../../src/services/wikipedia.js');
+
+describe('Article API', () => {
+  let app: Express;
+
+  const mockArticle = {
+    title: 'Ada Lovelace',
+    url: 'https://en.wikipedia.org/wiki/Ada_Lovelace',
+    language: 'en',
+    sections: [
+      {
+        title: 'Introduction',
+        level: 2,
+        anchor: '',
+        blocks: [{ type: 'paragraph', text: 'Ada was a mathematician.' }],
+        subsections: [],
+      },
+      {
+        title: 'Early life',
+        level: 2,
+        anchor: 'Early_life',
+        blocks: [{ type: 'paragraph', text: 'She was born in London.' }],
+        subsections: [
+          {
+            title: 'Education',
+            level: 3,
+            anchor: 'Education',
+            blocks: [{ type: 'list', ordered: false, items: ['Mathematics', 'Science'] }],
+            subsections: [],
+          },
+        ],
+      },
+    ],
+  };
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/article', articleRouter);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/article/sections', () => {
+    test('returns the table of contents', async () => {
+      (fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+
+      const response = await request(app)
+        .get('/api/article/sections')
+        .query({ input: 'https://en.wikipedia.org/wiki/Ada_Lovelace' })
+        .expect(200)
+        .expect('Content-Type', /json/);
+
+      expect(response.body).toEqual({
+        title: 'Ada Lovelace',
+        url: 'https://en.wikipedia.org/wiki/Ada_Lovelace',
+        language: 'en',
+        sections: [
+          { title: 'Introduction', level: 2, anchor: '', wordCount: 4, subsections: [] },
+          {
+            title: 'Early life',
+            level: 2,
+            anchor: 'Early_life',
+            wordCount: 7,
+            subsections: [
+              { title: 'Education', level: 3, anchor: 'Education', wordCount: 2, subsections: [] },
+            ],
+          },
+        ],
+      });
+      expect(fetchArticle).toHaveBeenCalledWith(
+        'https://en.wikipedia.org/wiki/Ada_Lovelace',
+        'url',
+        undefined
+      );
+    });
+
+    test('passes title input and language through', async () => {
+      (fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+
+      await request(app)
+        .get('/api/article/sections')
+        .query({ input: 'Ada Lovelace', type: 'title', language: 'de' })
+        .expect(200);
+
+      expect(fetchArticle).toHaveBeenCalledWith('Ada Lovelace', 'title', 'de');
+    });
+
+    test('returns 400 without input', async () => {
+      const response = await request(app)
+        .get('/api/article/sections')
+        .expect(400);
+
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(fetchArticle).not.toHaveBeenCalled();
+    });
+
+    test('returns 400 for an unsupported edition', async () => {
+      const response = await request(app)
+        .get('/api/article/sections')
+        .query({ input: 'https://mo.wikipedia.org/wiki/Chisinau' })
+        .expect(400);
+
+      expect(response.body.error).toBe('UNSUPPORTED_LANGUAGE');
+    });
+
+    test('returns 404 when the article does not exist', async () => {
+      (fetchArticle as jest.Mock).mockRejectedValue(new Error('Article not found: "Nope"'));
+
+      const response = await request(app)
+        .get('/api/article/sections')
+        .query({ input: 'Nope', type: 'title' })
+        .expect(404);
+
+      expect(response.body.error).toBe('ARTICLE_NOT_FOUND');
+    });
+  });
+});
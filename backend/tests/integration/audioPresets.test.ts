@@ -0,0 +1,54 @@
+/**
+ * Integration Tests for Audio Preset Endpoints
+ *
+ * Tests GET /api/audio-presets and GET /api/audio-presets/:id
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import audioPresetsRouter from '../../src/routes/audioPresets.js';
+
+describe('Audio Presets API', () => {
+  let app: Express;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/audio-presets', audioPresetsRouter);
+  });
+
+  describe('GET /api/audio-presets', () => {
+    test('lists the built-in presets, plain first', async () => {
+      const response = await request(app).get('/api/audio-presets').expect(200);
+
+      expect(response.body.presets.map((preset: { id: string }) => preset.id)).toEqual([
+        'plain', 'studio', 'newsroom', 'conversation',
+      ]);
+      expect(response.body.presets[0]).toEqual({
+        id: 'plain',
+        name: 'Plain',
+        description: 'The lines back to back, loudness-normalized',
+      });
+    });
+  });
+
+  describe('GET /api/audio-presets/:id', () => {
+    test('returns a preset with its sounds and transitions', async () => {
+      const response = await request(app).get('/api/audio-presets/studio').expect(200);
+
+      expect(response.body).toMatchObject({
+        intro: 'chime-intro',
+        outro: 'chime-outro',
+        bed: { sound: 'soft-pad', volumeDb: -20 },
+        turnTransition: { type: 'gap', ms: 350 },
+        sectionStinger: 'swoosh',
+      });
+    });
+
+    test('returns 404 for unknown presets', async () => {
+      const response = await request(app).get('/api/audio-presets/radio').expect(404);
+
+      expect(response.body.error).toBe('AUDIO_PRESET_NOT_FOUND');
+    });
+  });
+});
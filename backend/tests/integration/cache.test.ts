@@ -0,0 +1,108 @@
+/**
+ * Integration Tests for Cache Admin Endpoints
+ *
+ * Tests GET /api/admin/cache and DELETE /api/admin/cache
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import cacheRouter from '../../src/routes/cache.js';
+import { getConfig } from '../../src/config/env.js';
+import { getCacheStats, clearCache } from '../../src/services/cache.js';
+
+jest.mock('../../src/services/cache.js');
+
+describe('Cache Admin API', () => {
+  const baseConfig = (getConfig as jest.Mock)();
+  let app: Express;
+
+  beforeAll(() => {
+    app = express();
+    app.use('/api/admin/cache', cacheRouter);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, cacheAdminEnabled: true });
+  });
+
+  afterAll(() => {
+    (getConfig as jest.Mock).mockReturnValue(baseConfig);
+  });
+
+  test('is not served unless CACHE_ADMIN_ENABLED is set', async () => {
+    (getConfig as jest.Mock).mockReturnValue(baseConfig);
+
+    await request(app).get('/api/admin/cache').expect(404);
+    await request(app).delete('/api/admin/cache').expect(404);
+    expect(getCacheStats).not.toHaveBeenCalled();
+    expect(clearCache).not.toHaveBeenCalled();
+  });
+
+  describe('GET /api/admin/cache', () => {
+    test('returns cache stats', async () => {
+      const stats = {
+        enabled: true,
+        maxBytes: 1024,
+        maxAgeDays: 30,
+        totalEntries: 2,
+        totalSizeBytes: 300,
+        oldestEntryUsedAt: '2025-01-01T00:00:00.000Z',
+        namespaces: {
+          articles: { entries: 1, sizeBytes: 100 },
+          scripts: { entries: 0, sizeBytes: 0 },
+          audio: { entries: 1, sizeBytes: 200 },
+        },
+      };
+      (getCacheStats as jest.Mock).mockResolvedValue(stats);
+
+      const response = await request(app)
+        .get('/api/admin/cache')
+        .expect(200);
+
+      expect(response.body).toEqual(stats);
+    });
+
+    test('returns 500 when stats cannot be read', async () => {
+      (getCacheStats as jest.Mock).mockRejectedValue(new Error('EACCES'));
+
+      const response = await request(app)
+        .get('/api/admin/cache')
+        .expect(500);
+
+      expect(response.body.error).toBe('INTERNAL_ERROR');
+    });
+  });
+
+  describe('DELETE /api/admin/cache', () => {
+    test('clears the whole cache', async () => {
+      (clearCache as jest.Mock).mockResolvedValue({ removedEntries: 3, freedBytes: 400 });
+
+      const response = await request(app)
+        .delete('/api/admin/cache')
+        .expect(200);
+
+      expect(clearCache).toHaveBeenCalledWith(undefined);
+      expect(response.body).toEqual({ removedEntries: 3, freedBytes: 400 });
+    });
+
+    test('clears a single namespace', async () => {
+      (clearCache as jest.Mock).mockResolvedValue({ removedEntries: 1, freedBytes: 200 });
+
+      await request(app)
+        .delete('/api/admin/cache?namespace=audio')
+        .expect(200);
+
+      expect(clearCache).toHaveBeenCalledWith('audio');
+    });
+
+    test('rejects unknown namespaces', async () => {
+      const response = await request(app)
+        .delete('/api/admin/cache?namespace=jobs')
+        .expect(400);
+
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(clearCache).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Integration Tests for Show Format Endpoints
+ *
+ * Tests GET /api/formats and GET /api/formats/:id
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import formatsRouter from '../../src/routes/formats.js';
+
+describe('Show Formats API', () => {
+  let app: Express;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/formats', formatsRouter);
+  });
+
+  describe('GET /api/formats', () => {
+    test('lists the built-in formats, classic first', async () => {
+      const response = await request(app).get('/api/formats').expect(200);
+
+      expect(response.body.formats.map((format: { id: string }) => format.id)).toEqual([
+        'classic', 'news-brief', 'debate', 'quiz-show', 'timeline', 'kids-explainer',
+      ]);
+      expect(response.body.formats[0]).toMatchObject({ name: 'Classic', version: '1.0.0' });
+    });
+  });
+
+  describe('GET /api/formats/:id', () => {
+    test('returns a format with its sections', async () => {
+      const response = await request(app).get('/api/formats/quiz-show').expect(200);
+
+      expect(response.body.sections.map((section: { id: string }) => section.id)).toEqual([
+        'welcome', 'rules', 'questions', 'final-round', 'scores-and-signoff',
+      ]);
+      expect(response.body.sections[3]).toMatchObject({ optional: true, lines: { min: 2, max: 4 } });
+    });
+
+    test('returns 404 for unknown formats', async () => {
+      const response = await request(app).get('/api/formats/sitcom').expect(404);
+
+      expect(response.body.error).toBe('FORMAT_NOT_FOUND');
+    });
+  });
+});
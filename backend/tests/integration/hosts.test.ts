@@ -0,0 +1,124 @@
+/**
+ * Integration Tests for Host Roster Endpoints
+ *
+ * Tests GET, PUT and DELETE /api/hosts
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import hostsRouter from '../../src/routes/hosts.js';
+import { listHosts, getHost, saveHost, deleteHost, isBuiltInHost } from '../../src/services/hosts.js';
+
+jest.mock('../../src/services/hosts.js');
+
+describe('Host Roster API', () => {
+  let app: Express;
+
+  const ada = {
+    id: 'ada',
+    name: 'Ada',
+    persona: 'A mathematician who loves a good tangent',
+    role: 'expert',
+    voices: { openai: 'shimmer' },
+  };
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/hosts', hostsRouter);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/hosts', () => {
+    test('lists hosts', async () => {
+      (listHosts as jest.Mock).mockResolvedValue([ada]);
+
+      const response = await request(app).get('/api/hosts').expect(200);
+
+      expect(response.body).toEqual({ hosts: [ada] });
+    });
+
+    test('returns 500 when hosts cannot be read', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (listHosts as jest.Mock).mockRejectedValue(new Error('EACCES'));
+
+      const response = await request(app).get('/api/hosts').expect(500);
+
+      expect(response.body.error).toBe('INTERNAL_ERROR');
+    });
+  });
+
+  describe('GET /api/hosts/:id', () => {
+    test('returns a host', async () => {
+      (getHost as jest.Mock).mockResolvedValue(ada);
+
+      const response = await request(app).get('/api/hosts/ada').expect(200);
+
+      expect(response.body).toEqual(ada);
+    });
+
+    test('returns 404 for unknown or malformed IDs', async () => {
+      (getHost as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).get('/api/hosts/zed').expect(404);
+      await request(app).get('/api/hosts/Not%20An%20Id').expect(404);
+
+      expect(response.body.error).toBe('HOST_NOT_FOUND');
+      expect(getHost).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('PUT /api/hosts/:id', () => {
+    const { id, ...profile } = ada;
+
+    test('creates a host', async () => {
+      (getHost as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).put('/api/hosts/ada').send(profile).expect(201);
+
+      expect(response.body).toEqual(ada);
+      expect(saveHost).toHaveBeenCalledWith(ada);
+    });
+
+    test('replaces an existing host', async () => {
+      (getHost as jest.Mock).mockResolvedValue(ada);
+
+      await request(app).put('/api/hosts/ada').send({ ...profile, role: 'skeptic' }).expect(200);
+
+      expect(saveHost).toHaveBeenCalledWith({ ...ada, role: 'skeptic' });
+    });
+
+    test('returns 400 for an invalid profile', async () => {
+      const response = await request(app)
+        .put('/api/hosts/ada')
+        .send({ ...profile, role: 'narrator' })
+        .expect(400);
+
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(response.body.message).toContain('role');
+      expect(saveHost).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/hosts/:id', () => {
+    test('deletes a stored host', async () => {
+      (deleteHost as jest.Mock).mockResolvedValue(true);
+
+      await request(app).delete('/api/hosts/ada').expect(204);
+
+      expect(deleteHost).toHaveBeenCalledWith('ada');
+    });
+
+    test('returns 404 for a built-in host without a stored profile', async () => {
+      (deleteHost as jest.Mock).mockResolvedValue(false);
+      (isBuiltInHost as jest.Mock).mockReturnValue(true);
+
+      const response = await request(app).delete('/api/hosts/nishi').expect(404);
+
+      expect(response.body.message).toContain('built in');
+    });
+  });
+});
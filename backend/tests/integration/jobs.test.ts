@@ -0,0 +1,99 @@
+/**
+ * Integration Tests for Job Status Endpoint
+ *
+ * Tests GET /api/jobs/:id
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import jobsRouter from '../../src/routes/jobs.js';
+import { getJob, getQueuePosition } from '../../src/services/jobQueue.js';
+
+jest.mock('../../src/services/jobQueue.js');
+
+describe('GET /api/jobs/:id', () => {
+  let app: Express;
+
+  const mockJob = {
+    id: '6f1c2b9e-3a4d-4e5f-8a7b-1c2d3e4f5a6b',
+    status: 'running' as const,
+    request: { input: 'Test Article', type: 'title' as const },
+    stages: [
+      { name: 'fetch' as const, status: 'completed' as const },
+      { name: 'generate_script' as const, status: 'in_progress' as const },
+      { name: 'synthesize_audio' as const, status: 'pending' as const },
+      { name: 'stitch_audio' as const, status: 'pending' as const },
+    ],
+    createdAt: '2025-01-01T12:00:00Z',
+    updatedAt: '2025-01-01T12:00:05Z',
+    startedAt: '2025-01-01T12:00:00Z',
+  };
+
+  beforeAll(() => {
+    app = express();
+    app.use('/api/jobs', jobsRouter);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('returns job status with stages', async () => {
+    (getJob as jest.Mock).mockResolvedValue(mockJob);
+
+    const response = await request(app)
+      .get(`/api/jobs/${mockJob.id}`)
+      .expect(200)
+      .expect('Content-Type', /json/);
+
+    expect(response.body.id).toBe(mockJob.id);
+    expect(response.body.status).toBe('running');
+    expect(response.body.stages).toHaveLength(4);
+    expect(response.body).not.toHaveProperty('queuePosition');
+  });
+
+  test('includes queue position for queued jobs', async () => {
+    (getJob as jest.Mock).mockResolvedValue({ ...mockJob, status: 'queued' });
+    (getQueuePosition as jest.Mock).mockReturnValue(3);
+
+    const response = await request(app)
+      .get(`/api/jobs/${mockJob.id}`)
+      .expect(200);
+
+    expect(response.body.queuePosition).toBe(3);
+  });
+
+  test('returns result for completed jobs', async () => {
+    (getJob as jest.Mock).mockResolvedValue({
+      ...mockJob,
+      status: 'completed',
+      result: { id: 'test_article_20250101_120000' },
+    });
+
+    const response = await request(app)
+      .get(`/api/jobs/${mockJob.id}`)
+      .expect(200);
+
+    expect(response.body.result.id).toBe('test_article_20250101_120000');
+  });
+
+  test('returns 404 for unknown job', async () => {
+    (getJob as jest.Mock).mockResolvedValue(null);
+
+    const response = await request(app)
+      .get('/api/jobs/unknown')
+      .expect(404);
+
+    expect(response.body.error).toBe('JOB_NOT_FOUND');
+  });
+
+  test('returns 500 for internal error', async () => {
+    (getJob as jest.Mock).mockRejectedValue(new Error('File system error'));
+
+    const response = await request(app)
+      .get(`/api/jobs/${mockJob.id}`)
+      .expect(500);
+
+    expect(response.body.error).toBe('INTERNAL_ERROR');
+  });
+});
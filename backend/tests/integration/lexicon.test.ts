@@ -0,0 +1,243 @@
+/**
+ * Integration Tests for Pronunciation Lexicon Endpoints
+ *
+ * Tests GET, PUT and DELETE /api/lexicon, previews, and episode lexicons at
+ * /api/podcast/:id/lexicon
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import lexiconRouter from '../../src/routes/lexicon.js';
+import {
+  loadLexicon,
+  saveLexiconEntry,
+  deleteLexiconEntry,
+  resolveLexicon,
+} from '../../src/services/lexicon.js';
+import { synthesizePreview } from '../../src/services/tts.js';
+import { getHost } from '../../src/services/hosts.js';
+import { loadScript } from '../../src/utils/fileManager.js';
+import { InvalidInputError } from '../../src/utils/errors.js';
+import { getDefaultHosts } from '../../src/config/hosts.js';
+import { getConfig } from '../../src/config/env.js';
+
+jest.mock('../../src/services/lexicon.js');
+jest.mock('../../src/services/tts.js');
+jest.mock('../../src/services/hosts.js');
+jest.mock('../../src/utils/fileManager.js');
+
+describe('Pronunciation Lexicon API', () => {
+  let app: Express;
+  const fs = require('fs/promises');
+  const originalFs = { ...fs };
+
+  const podcastId = 'moon_20250101_120000';
+  const acha = { term: 'Acha', respelling: 'uh-chaa' };
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/lexicon', lexiconRouter);
+    app.use('/api/podcast/:id/lexicon', lexiconRouter);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fs.readFile = jest.fn().mockResolvedValue(Buffer.from('ID3 preview'));
+    fs.rm = jest.fn().mockResolvedValue(undefined);
+    (loadScript as jest.Mock).mockResolvedValue({ id: podcastId });
+    (getHost as jest.Mock).mockImplementation(async (id: string) =>
+      getDefaultHosts().find(host => host.id === id) ?? null
+    );
+    (synthesizePreview as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  afterAll(() => {
+    Object.assign(fs, originalFs);
+  });
+
+  describe('GET /api/lexicon', () => {
+    test('lists the global lexicon', async () => {
+      (loadLexicon as jest.Mock).mockResolvedValue([acha]);
+
+      const response = await request(app).get('/api/lexicon').expect(200);
+
+      expect(response.body).toEqual({ entries: [acha] });
+      expect(loadLexicon).toHaveBeenCalledWith(undefined);
+    });
+
+    test('lists an episode lexicon', async () => {
+      (loadLexicon as jest.Mock).mockResolvedValue([acha]);
+
+      await request(app).get(`/api/podcast/${podcastId}/lexicon`).expect(200);
+
+      expect(loadLexicon).toHaveBeenCalledWith(podcastId);
+    });
+
+    test('returns 404 for an unknown episode', async () => {
+      (loadScript as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).get(`/api/podcast/${podcastId}/lexicon`).expect(404);
+
+      expect(response.body.error).toBe('PODCAST_NOT_FOUND');
+      expect(loadLexicon).not.toHaveBeenCalled();
+    });
+
+    test('returns 404 for an invalid episode ID', async () => {
+      const response = await request(app).get('/api/podcast/..%2Fsecrets/lexicon').expect(404);
+
+      expect(response.body.error).toBe('PODCAST_NOT_FOUND');
+      expect(loadScript).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/lexicon/:term', () => {
+    test('adds a pronunciation', async () => {
+      (saveLexiconEntry as jest.Mock).mockResolvedValue(true);
+
+      const response = await request(app)
+        .put('/api/lexicon/Acha')
+        .send({ respelling: 'uh-chaa' })
+        .expect(201);
+
+      expect(response.body).toEqual(acha);
+      expect(saveLexiconEntry).toHaveBeenCalledWith(acha, undefined);
+    });
+
+    test('replaces a pronunciation of an episode', async () => {
+      (saveLexiconEntry as jest.Mock).mockResolvedValue(false);
+
+      await request(app)
+        .put(`/api/podcast/${podcastId}/lexicon/Acha`)
+        .send({ respelling: 'uh-chaa' })
+        .expect(200);
+
+      expect(saveLexiconEntry).toHaveBeenCalledWith(acha, podcastId);
+    });
+
+    test('returns 400 for an invalid pronunciation', async () => {
+      const response = await request(app)
+        .put('/api/lexicon/Acha')
+        .send({ phoneme: { alphabet: 'x-sampa', ph: 'a' } })
+        .expect(400);
+
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(saveLexiconEntry).not.toHaveBeenCalled();
+    });
+
+    test('requires a respelling when the voices cannot read phonemes', async () => {
+      const response = await request(app)
+        .put('/api/lexicon/Acha')
+        .send({ phoneme: { ph: 'ətʃʰaː' } })
+        .expect(400);
+
+      expect(response.body.message).toBe('Give a respelling for "Acha": the current voices cannot read phonemes');
+      expect(saveLexiconEntry).not.toHaveBeenCalled();
+    });
+
+    test('accepts a phoneme alone for voices that read phonemes', async () => {
+      const baseConfig = (getConfig as jest.Mock)();
+      (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, elevenLabsModel: 'eleven_turbo_v2' });
+      (saveLexiconEntry as jest.Mock).mockResolvedValue(true);
+
+      try {
+        await request(app)
+          .put('/api/lexicon/Acha')
+          .send({ phoneme: { ph: 'ətʃʰaː' } })
+          .expect(201);
+      } finally {
+        (getConfig as jest.Mock).mockReturnValue(baseConfig);
+      }
+
+      expect(saveLexiconEntry).toHaveBeenCalledWith(
+        { term: 'Acha', phoneme: { alphabet: 'ipa', ph: 'ətʃʰaː' } },
+        undefined
+      );
+    });
+
+    test('returns 400 when the lexicon is full', async () => {
+      (saveLexiconEntry as jest.Mock).mockRejectedValue(new InvalidInputError('A lexicon can have at most 500 entries'));
+
+      const response = await request(app)
+        .put('/api/lexicon/Acha')
+        .send({ respelling: 'uh-chaa' })
+        .expect(400);
+
+      expect(response.body.message).toBe('A lexicon can have at most 500 entries');
+    });
+  });
+
+  describe('DELETE /api/lexicon/:term', () => {
+    test('removes a pronunciation', async () => {
+      (deleteLexiconEntry as jest.Mock).mockResolvedValue(true);
+
+      await request(app).delete('/api/lexicon/Acha').expect(204);
+
+      expect(deleteLexiconEntry).toHaveBeenCalledWith('Acha', undefined);
+    });
+
+    test('returns 404 for an unknown term', async () => {
+      (deleteLexiconEntry as jest.Mock).mockResolvedValue(false);
+
+      const response = await request(app).delete('/api/lexicon/Acha').expect(404);
+
+      expect(response.body.error).toBe('TERM_NOT_FOUND');
+    });
+  });
+
+  describe('POST /api/lexicon/preview', () => {
+    test('speaks a word with the lexicon applied', async () => {
+      (resolveLexicon as jest.Mock).mockResolvedValue([acha]);
+
+      const response = await request(app)
+        .post(`/api/podcast/${podcastId}/lexicon/preview`)
+        .send({ text: 'Acha' })
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('audio/mpeg');
+      expect(Buffer.from(response.body).toString()).toBe('ID3 preview');
+      expect(resolveLexicon).toHaveBeenCalledWith(podcastId);
+      expect(synthesizePreview).toHaveBeenCalledWith(
+        'Acha',
+        expect.objectContaining({ id: 'nishi' }),
+        [acha],
+        expect.stringContaining('pronunciation-')
+      );
+      expect(fs.rm).toHaveBeenCalledWith(fs.readFile.mock.calls[0][0], { force: true });
+    });
+
+    test('tries a pronunciation before saving it', async () => {
+      await request(app)
+        .post('/api/lexicon/preview')
+        .send({ text: 'Acha', host: 'shyam', respelling: 'ah-cha' })
+        .expect(200);
+
+      expect(resolveLexicon).not.toHaveBeenCalled();
+      expect(synthesizePreview).toHaveBeenCalledWith(
+        'Acha',
+        expect.objectContaining({ id: 'shyam' }),
+        [{ term: 'Acha', respelling: 'ah-cha' }],
+        expect.any(String)
+      );
+    });
+
+    test('returns 400 for missing text, a bad pronunciation or an unknown host', async () => {
+      await request(app).post('/api/lexicon/preview').send({}).expect(400);
+      await request(app).post('/api/lexicon/preview').send({ text: 'Acha', phoneme: 'a' }).expect(400);
+      const response = await request(app).post('/api/lexicon/preview').send({ text: 'Acha', host: 'ada' }).expect(400);
+
+      expect(response.body.message).toBe('Unknown host "ada"');
+      expect(synthesizePreview).not.toHaveBeenCalled();
+    });
+
+    test('returns 503 when speech synthesis fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (resolveLexicon as jest.Mock).mockResolvedValue([]);
+      (synthesizePreview as jest.Mock).mockRejectedValue(new Error('quota exceeded'));
+
+      const response = await request(app).post('/api/lexicon/preview').send({ text: 'Acha' }).expect(503);
+
+      expect(response.body.error).toBe('SERVICE_UNAVAILABLE');
+    });
+  });
+});
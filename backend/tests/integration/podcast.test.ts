@@ -8,9 +8,26 @@ import request from 'supertest';
 import express, { Express } from 'express';
 import podcastRouter from '../../src/routes/podcast.js';
 import { generatePodcast, loadPodcast, loadScript } from '../../src/services/podcastOrchestrator.js';
-
-// Mock the podcast orchestrator
+import { submitJob, getJob, canResumeJob, resumeJob } from '../../src/services/jobQueue.js';
+import {
+  editScript,
+  isEditInProgress,
+  listScriptRevisions,
+  loadScriptRevision,
+} from '../../src/services/scriptEditor.js';
+import { importScript } from '../../src/services/scriptImport.js';
+import { fetchArticle } from '../../src/services/wikipedia.js';
+import { InvalidInputError } from '../../src/utils/errors.js';
+
+// Mock the podcast orchestrator and job queue
 jest.mock('../../src/services/podcastOrchestrator.js');
+jest.mock('../../src/services/jobQueue.js');
+jest.mock('../../src/services/scriptEditor.js');
+jest.mock('../../src/services/scriptImport.js');
+jest.mock('../../src/services/wikipedia.js', () => ({
+  fetchArticle: jest.fn(),
+  selectArticleSections: jest.requireActual('../../src/services/wikipedia.js').selectArticleSections,
+}));
 
 describe('Podcast API Integration Tests', () => {
   let app: Express;
@@ -26,30 +43,20 @@ describe('Podcast API Integration Tests', () => {
   });
 
   describe('POST /api/podcast', () => {
-    const mockPodcast = {
-      id: 'test_article_20250101_120000',
-      scriptId: 'test_article_20250101_120000',
-      articleTitle: 'Test Article',
-      articleUrl: 'https://en.wikipedia.org/wiki/Test_Article',
-      audioFilePath: '/tmp/test.mp3',
-      durationSeconds: 150,
-      fileSizeBytes: 2000000,
-      audioSpec: {
-        format: 'mp3' as const,
-        bitrate: '128k' as const,
-        sampleRate: 44100,
-        channels: 1,
-      },
-      voiceMapping: {
-        Nishi: 'voice-id-1',
-        Shyam: 'voice-id-2',
+    const mockJob = {
+      id: '6f1c2b9e-3a4d-4e5f-8a7b-1c2d3e4f5a6b',
+      status: 'queued' as const,
+      request: {
+        input: 'https://en.wikipedia.org/wiki/Test_Article',
+        type: 'url' as const,
       },
+      stages: [],
       createdAt: '2025-01-01T12:00:00Z',
-      pipelineVersion: '1.0.0',
+      updatedAt: '2025-01-01T12:00:00Z',
     };
 
-    test('generates podcast from valid URL', async () => {
-      (generatePodcast as jest.Mock).mockResolvedValue(mockPodcast);
+    test('queues podcast from valid URL', async () => {
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
 
       const response = await request(app)
         .post('/api/podcast')
@@ -57,26 +64,22 @@ describe('Podcast API Integration Tests', () => {
           input: 'https://en.wikipedia.org/wiki/Test_Article',
           type: 'url',
         })
-        .expect(200)
+        .expect(202)
         .expect('Content-Type', /json/);
 
-      expect(response.body).toHaveProperty('id');
-      expect(response.body).toHaveProperty('audioUrl');
-      expect(response.body).toHaveProperty('scriptUrl');
-      expect(response.body).toHaveProperty('durationSeconds');
-      expect(response.body).toHaveProperty('article');
-      expect(response.body).toHaveProperty('speakers');
-      expect(response.body).toHaveProperty('createdAt');
-
-      expect(response.body.speakers).toEqual(['Nishi', 'Shyam']);
-      expect(generatePodcast).toHaveBeenCalledWith(
-        'https://en.wikipedia.org/wiki/Test_Article',
-        'url'
-      );
+      expect(response.body).toEqual({
+        jobId: mockJob.id,
+        status: 'queued',
+        statusUrl: `/api/jobs/${mockJob.id}`,
+      });
+      expect(submitJob).toHaveBeenCalledWith({
+        input: 'https://en.wikipedia.org/wiki/Test_Article',
+        type: 'url',
+      });
     });
 
-    test('generates podcast from valid title', async () => {
-      (generatePodcast as jest.Mock).mockResolvedValue(mockPodcast);
+    test('queues podcast from valid title', async () => {
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
 
       const response = await request(app)
         .post('/api/podcast')
@@ -84,23 +87,45 @@ describe('Podcast API Integration Tests', () => {
           input: 'Albert Einstein',
           type: 'title',
         })
-        .expect(200);
+        .expect(202);
+
+      expect(response.body.jobId).toBeDefined();
+      expect(submitJob).toHaveBeenCalledWith({ input: 'Albert Einstein', type: 'title' });
+    });
+
+    test('sets Location header to job status URL', async () => {
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
+
+      const response = await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', type: 'title' })
+        .expect(202);
+
+      expect(response.headers.location).toBe(`/api/jobs/${mockJob.id}`);
+    });
+
+    test('does not wait for generation to finish', async () => {
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
+
+      await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', type: 'title' })
+        .expect(202);
 
-      expect(response.body.id).toBeDefined();
-      expect(generatePodcast).toHaveBeenCalledWith('Albert Einstein', 'title');
+      expect(generatePodcast).not.toHaveBeenCalled();
     });
 
     test('auto-detects input type when not specified', async () => {
-      (generatePodcast as jest.Mock).mockResolvedValue(mockPodcast);
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
 
       await request(app)
         .post('/api/podcast')
         .send({
           input: 'https://en.wikipedia.org/wiki/Test',
         })
-        .expect(200);
+        .expect(202);
 
-      expect(generatePodcast).toHaveBeenCalled();
+      expect(submitJob).toHaveBeenCalled();
     });
 
     test('returns 400 for invalid input', async () => {
@@ -115,6 +140,7 @@ describe('Podcast API Integration Tests', () => {
 
       expect(response.body).toHaveProperty('error', 'INVALID_INPUT');
       expect(response.body).toHaveProperty('message');
+      expect(submitJob).not.toHaveBeenCalled();
     });
 
     test('returns 400 for invalid URL', async () => {
@@ -141,68 +167,539 @@ describe('Podcast API Integration Tests', () => {
       expect(response.body.error).toBe('INVALID_INPUT');
     });
 
-    test('returns 404 when article not found', async () => {
-      (generatePodcast as jest.Mock).mockRejectedValue(
-        new Error('Article not found: "NonexistentArticle"')
-      );
+    test('queues podcast from another Wikipedia edition with an output language', async () => {
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
 
-      const response = await request(app)
+      await request(app)
         .post('/api/podcast')
         .send({
-          input: 'NonexistentArticle',
-          type: 'title',
+          input: 'https://de.wikipedia.org/wiki/Albert_Einstein',
+          type: 'url',
+          outputLanguage: 'fr',
         })
-        .expect(404);
+        .expect(202);
 
-      expect(response.body.error).toBe('ARTICLE_NOT_FOUND');
+      expect(submitJob).toHaveBeenCalledWith({
+        input: 'https://de.wikipedia.org/wiki/Albert_Einstein',
+        type: 'url',
+        outputLanguage: 'fr',
+      });
     });
 
-    test('returns 400 when article too short', async () => {
-      (generatePodcast as jest.Mock).mockRejectedValue(
-        new Error('Article too short: 100 characters (minimum: 500)')
-      );
-
+    test('returns 400 when language does not match the URL edition', async () => {
       const response = await request(app)
         .post('/api/podcast')
         .send({
-          input: 'https://en.wikipedia.org/wiki/Short',
+          input: 'https://de.wikipedia.org/wiki/Albert_Einstein',
           type: 'url',
+          language: 'fr',
         })
         .expect(400);
 
-      expect(response.body.error).toBe('ARTICLE_TOO_SHORT');
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(submitJob).not.toHaveBeenCalled();
     });
 
-    test('returns 503 for Wikipedia service unavailable', async () => {
-      (generatePodcast as jest.Mock).mockRejectedValue(
-        new Error('Wikipedia API error: 503 Service Unavailable')
+    test('returns 400 UNSUPPORTED_LANGUAGE for an unsupported edition', async () => {
+      const response = await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Moldova', type: 'title', language: 'mo' })
+        .expect(400);
+
+      expect(response.body.error).toBe('UNSUPPORTED_LANGUAGE');
+      expect(response.body.details.language).toBe('mo');
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+
+    const einstein = {
+      title: 'Albert Einstein',
+      url: 'https://en.wikipedia.org/wiki/Albert_Einstein',
+      language: 'en',
+      sections: ['Introduction', 'Early life', 'Legacy'].map(title => ({
+        title,
+        level: 2,
+        anchor: title.replace(/ /g, '_'),
+        blocks: [{ type: 'paragraph', text: `${title}. `.repeat(100).trim() }],
+        subsections: [],
+      })),
+    };
+
+    test('passes selected sections to the job', async () => {
+      (fetchArticle as jest.Mock).mockResolvedValue(einstein);
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
+
+      await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', type: 'title', sections: ['Legacy', ' Early life '] })
+        .expect(202);
+
+      expect(fetchArticle).toHaveBeenCalledWith('Albert Einstein', 'title', undefined);
+      expect(submitJob).toHaveBeenCalledWith({
+        input: 'Albert Einstein',
+        type: 'title',
+        sections: ['Legacy', 'Early life'],
+      });
+    });
+
+    test('returns 400 listing the headings for sections the article lacks', async () => {
+      (fetchArticle as jest.Mock).mockResolvedValue(einstein);
+
+      const response = await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', type: 'title', sections: ['Legasy'] })
+        .expect(400);
+
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(response.body.message).toBe(
+        'Sections missing from "Albert Einstein": "Legasy" (available: "Introduction", "Early life", "Legacy")'
       );
+      expect(response.body.details.available).toEqual(['Introduction', 'Early life', 'Legacy']);
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+
+    test('returns 404 when the article with the chosen sections does not exist', async () => {
+      (fetchArticle as jest.Mock).mockRejectedValue(new Error('Article not found: Albert Einsteen'));
 
       const response = await request(app)
         .post('/api/podcast')
-        .send({
-          input: 'https://en.wikipedia.org/wiki/Test',
-          type: 'url',
-        })
-        .expect(503);
+        .send({ input: 'Albert Einsteen', type: 'title', sections: ['Legacy'] })
+        .expect(404);
 
-      expect(response.body.error).toBe('SERVICE_UNAVAILABLE');
+      expect(response.body.error).toBe('ARTICLE_NOT_FOUND');
+      expect(submitJob).not.toHaveBeenCalled();
     });
 
-    test('returns 500 for generation failure', async () => {
-      (generatePodcast as jest.Mock).mockRejectedValue(
-        new Error('Failed to generate script')
-      );
+    test('returns 400 for malformed sections', async () => {
+      const response = await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', type: 'title', sections: 'Legacy' })
+        .expect(400);
+
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+
+    test('passes the requested length to the job', async () => {
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
+
+      await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', type: 'title', targetMinutes: 10 })
+        .expect(202);
+
+      expect(submitJob).toHaveBeenCalledWith({
+        input: 'Albert Einstein',
+        type: 'title',
+        targetMinutes: 10,
+      });
+    });
 
+    test('returns 400 for a length outside 2-30 minutes', async () => {
       const response = await request(app)
         .post('/api/podcast')
-        .send({
-          input: 'https://en.wikipedia.org/wiki/Test',
-          type: 'url',
-        })
+        .send({ input: 'Albert Einstein', type: 'title', targetMinutes: 45 })
+        .expect(400);
+
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(response.body.message).toContain('targetMinutes');
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+
+    test('passes the chosen hosts to the job', async () => {
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
+
+      await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', type: 'title', hosts: ['shyam'] })
+        .expect(202);
+
+      expect(submitJob).toHaveBeenCalledWith({
+        input: 'Albert Einstein',
+        type: 'title',
+        hosts: ['shyam'],
+      });
+    });
+
+    test('returns 400 for more than 4 hosts', async () => {
+      const response = await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', hosts: ['a', 'b', 'c', 'd', 'e'] })
+        .expect(400);
+
+      expect(response.body.message).toBe('An episode must have 1-4 hosts');
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+
+    test('returns 400 for a host that is not on the roster', async () => {
+      const response = await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', hosts: ['nishi', 'zed'] })
+        .expect(400);
+
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(response.body.message).toBe('Unknown host "zed"');
+      expect(response.body.details.available).toEqual(['nishi', 'shyam']);
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+
+    test('passes the chosen format to the job', async () => {
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
+
+      await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', type: 'title', format: 'timeline' })
+        .expect(202);
+
+      expect(submitJob).toHaveBeenCalledWith({
+        input: 'Albert Einstein',
+        type: 'title',
+        format: 'timeline',
+      });
+    });
+
+    test('returns 400 for an unknown format', async () => {
+      const response = await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', format: 'sitcom' })
+        .expect(400);
+
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(response.body.message).toContain('Unknown format "sitcom"');
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+
+    test('passes the chosen audio preset to the job', async () => {
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
+
+      await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', type: 'title', audioPreset: 'studio' })
+        .expect(202);
+
+      expect(submitJob).toHaveBeenCalledWith({
+        input: 'Albert Einstein',
+        type: 'title',
+        audioPreset: 'studio',
+      });
+    });
+
+    test('returns 400 for an unknown audio preset', async () => {
+      const response = await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', audioPreset: 'radio' })
+        .expect(400);
+
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(response.body.message).toContain('Unknown audio preset "radio"');
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+
+    test('passes stopAfter to the job', async () => {
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
+
+      await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', type: 'title', stopAfter: 'generate_script' })
+        .expect(202);
+
+      expect(submitJob).toHaveBeenCalledWith({
+        input: 'Albert Einstein',
+        type: 'title',
+        stopAfter: 'generate_script',
+      });
+    });
+
+    test('returns 400 for a stage runs cannot stop after', async () => {
+      const response = await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', stopAfter: 'fetch' })
+        .expect(400);
+
+      expect(response.body.message).toBe('stopAfter must be "generate_script"');
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+
+    test('passes an episode lexicon to the job', async () => {
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
+
+      await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', lexicon: [{ term: ' Acha ', respelling: 'uh-chaa' }] })
+        .expect(202);
+
+      expect(submitJob).toHaveBeenCalledWith({
+        input: 'Albert Einstein',
+        lexicon: [{ term: 'Acha', respelling: 'uh-chaa' }],
+      });
+    });
+
+    test('returns 400 for an invalid lexicon', async () => {
+      const response = await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', lexicon: [{ term: 'Acha' }] })
+        .expect(400);
+
+      expect(response.body.message).toBe('Lexicon entry 1: Give a respelling or a phoneme for "Acha"');
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+
+    test('passes a list of inputs to the job', async () => {
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
+
+      await request(app)
+        .post('/api/podcast')
+        .send({ input: ['Alan Turing', 'https://en.wikipedia.org/wiki/Enigma_machine'] })
+        .expect(202);
+
+      expect(submitJob).toHaveBeenCalledWith({
+        input: ['Alan Turing', 'https://en.wikipedia.org/wiki/Enigma_machine'],
+      });
+    });
+
+    test('returns 400 for a list of more than 5 inputs', async () => {
+      const response = await request(app)
+        .post('/api/podcast')
+        .send({ input: ['A1', 'B1', 'C1', 'D1', 'E1', 'F1'] })
+        .expect(400);
+
+      expect(response.body.message).toBe('A list of inputs must have 2-5 entries');
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+
+    test('returns 400 when any listed input is invalid', async () => {
+      const response = await request(app)
+        .post('/api/podcast')
+        .send({ input: ['Alan Turing', 'https://example.com/Enigma'] })
+        .expect(400);
+
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+
+    test('returns 400 for sections with a list of inputs', async () => {
+      const response = await request(app)
+        .post('/api/podcast')
+        .send({ input: ['Alan Turing', 'Enigma machine'], sections: ['Legacy'] })
+        .expect(400);
+
+      expect(response.body.message).toBe('sections can only be chosen for a single input');
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+
+    test('returns 500 when job cannot be queued', async () => {
+      (submitJob as jest.Mock).mockRejectedValue(new Error('Disk full'));
+
+      const response = await request(app)
+        .post('/api/podcast')
+        .send({ input: 'Albert Einstein', type: 'title' })
         .expect(500);
 
-      expect(response.body.error).toBe('GENERATION_FAILED');
+      expect(response.body.error).toBe('INTERNAL_ERROR');
+    });
+  });
+
+  describe('POST /api/podcast/from-script', () => {
+    const mockJob = {
+      id: '6f1c2b9e-3a4d-4e5f-8a7b-1c2d3e4f5a6b',
+      status: 'queued' as const,
+      request: { input: 'https://en.wikipedia.org/wiki/Moon', type: 'url' as const },
+      stages: [],
+      createdAt: '2025-01-01T12:00:00Z',
+      updatedAt: '2025-01-01T12:00:00Z',
+    };
+    const script = {
+      id: 'moon_20250101_120000',
+      articleTitle: 'Moon',
+      articleUrl: 'https://en.wikipedia.org/wiki/Moon',
+      articles: [{ title: 'Moon', url: 'https://en.wikipedia.org/wiki/Moon', language: 'en' }],
+      lines: [{ index: 1, speaker: 'Nishi', text: 'Hello!', section: 'greeting' }],
+      author: 'human',
+    };
+
+    test('queues a job that voices the script', async () => {
+      (importScript as jest.Mock).mockResolvedValue(script);
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
+
+      const response = await request(app)
+        .post('/api/podcast/from-script')
+        .send({ script: '[greeting]\nNishi: Hello!', title: 'Moon', hosts: ['nishi', 'shyam'] })
+        .expect(202);
+
+      expect(response.headers.location).toBe(`/api/jobs/${mockJob.id}`);
+      expect(response.body).toEqual({ jobId: mockJob.id, status: 'queued', statusUrl: `/api/jobs/${mockJob.id}` });
+      expect(importScript).toHaveBeenCalledWith('[greeting]\nNishi: Hello!', {
+        title: 'Moon',
+        hosts: ['nishi', 'shyam'],
+      });
+      expect(submitJob).toHaveBeenCalledWith({ input: 'https://en.wikipedia.org/wiki/Moon', type: 'url', script });
+    });
+
+    test('returns 400 with the broken rules when the script is invalid', async () => {
+      (importScript as jest.Mock).mockRejectedValue(
+        new InvalidInputError('The script is invalid: Script too short', { errors: ['Script too short'] })
+      );
+
+      const response = await request(app)
+        .post('/api/podcast/from-script')
+        .send({ script: { articleTitle: 'Moon', lines: [] } })
+        .expect(400);
+
+      expect(response.body).toMatchObject({ error: 'INVALID_INPUT', details: { errors: ['Script too short'] } });
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+
+    test('returns 400 for invalid settings before reading the script', async () => {
+      const response = await request(app)
+        .post('/api/podcast/from-script')
+        .send({ script: '[greeting]\nNishi: Hello!', title: 'Moon', format: 'opera' })
+        .expect(400);
+
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(response.body.message).toContain('Unknown format "opera"');
+      expect(importScript).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/podcast/:id/synthesize', () => {
+    const mockJob = {
+      id: '6f1c2b9e-3a4d-4e5f-8a7b-1c2d3e4f5a6b',
+      status: 'queued' as const,
+      request: { input: 'https://en.wikipedia.org/wiki/Moon', type: 'url' as const },
+      stages: [],
+      createdAt: '2025-01-01T12:00:00Z',
+      updatedAt: '2025-01-01T12:00:00Z',
+    };
+    const script = {
+      id: 'moon_20250101_120000',
+      articleTitle: 'Moon',
+      articleUrl: 'https://en.wikipedia.org/wiki/Moon',
+      articles: [{ title: 'Moon', url: 'https://en.wikipedia.org/wiki/Moon', language: 'en' }],
+      lines: [{ index: 1, speaker: 'Nishi', text: 'Hello!', section: 'greeting' }],
+    };
+
+    test('queues a job that voices the stored script', async () => {
+      (loadScript as jest.Mock).mockResolvedValue(script);
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
+
+      const response = await request(app)
+        .post(`/api/podcast/${script.id}/synthesize`)
+        .expect(202);
+
+      expect(response.headers.location).toBe(`/api/jobs/${mockJob.id}`);
+      expect(response.body).toEqual({ jobId: mockJob.id, status: 'queued', statusUrl: `/api/jobs/${mockJob.id}` });
+      expect(loadScript).toHaveBeenCalledWith(script.id);
+      expect(submitJob).toHaveBeenCalledWith({ input: 'https://en.wikipedia.org/wiki/Moon', type: 'url', script });
+    });
+
+    test('voices a script saved before it listed its articles', async () => {
+      const { articles: _articles, ...legacyScript } = script;
+      (loadScript as jest.Mock).mockResolvedValue(legacyScript);
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
+
+      await request(app)
+        .post(`/api/podcast/${script.id}/synthesize`)
+        .expect(202);
+
+      expect(submitJob).toHaveBeenCalledWith({
+        input: 'https://en.wikipedia.org/wiki/Moon',
+        type: 'url',
+        script: legacyScript,
+      });
+    });
+
+    test('produces the audio with the chosen preset', async () => {
+      (loadScript as jest.Mock).mockResolvedValue(script);
+      (submitJob as jest.Mock).mockResolvedValue(mockJob);
+
+      await request(app)
+        .post(`/api/podcast/${script.id}/synthesize`)
+        .send({ audioPreset: 'newsroom' })
+        .expect(202);
+
+      expect(submitJob).toHaveBeenCalledWith(expect.objectContaining({ script, audioPreset: 'newsroom' }));
+    });
+
+    test('returns 400 for an unknown audio preset', async () => {
+      const response = await request(app)
+        .post(`/api/podcast/${script.id}/synthesize`)
+        .send({ audioPreset: 'radio' })
+        .expect(400);
+
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+
+    test('returns 404 when there is no such script', async () => {
+      (loadScript as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/podcast/nonexistent/synthesize')
+        .expect(404);
+
+      expect(response.body.error).toBe('SCRIPT_NOT_FOUND');
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+
+    test('returns 409 while the script is being edited', async () => {
+      (isEditInProgress as jest.Mock).mockReturnValueOnce(true);
+
+      const response = await request(app)
+        .post(`/api/podcast/${script.id}/synthesize`)
+        .expect(409);
+
+      expect(response.body.error).toBe('EDIT_IN_PROGRESS');
+      expect(submitJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/podcast/:id/resume', () => {
+    const failedJob = {
+      id: '6f1c2b9e-3a4d-4e5f-8a7b-1c2d3e4f5a6b',
+      status: 'failed' as const,
+      request: { input: 'Test Article', type: 'title' as const },
+      stages: [],
+      createdAt: '2025-01-01T12:00:00Z',
+      updatedAt: '2025-01-01T12:00:05Z',
+      error: { error: 'GENERATION_FAILED', message: 'TTS failed' },
+    };
+
+    test('re-queues a failed job', async () => {
+      (getJob as jest.Mock).mockResolvedValue(failedJob);
+      (canResumeJob as jest.Mock).mockResolvedValue(true);
+      (resumeJob as jest.Mock).mockResolvedValue({ ...failedJob, status: 'queued' });
+
+      const response = await request(app)
+        .post(`/api/podcast/${failedJob.id}/resume`)
+        .expect(202);
+
+      expect(response.body).toEqual({
+        jobId: failedJob.id,
+        status: 'queued',
+        statusUrl: `/api/jobs/${failedJob.id}`,
+      });
+      expect(resumeJob).toHaveBeenCalledWith(failedJob);
+    });
+
+    test('returns 404 for unknown job', async () => {
+      (getJob as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/podcast/unknown/resume')
+        .expect(404);
+
+      expect(response.body.error).toBe('JOB_NOT_FOUND');
+    });
+
+    test('returns 409 for jobs that are not resumable', async () => {
+      (getJob as jest.Mock).mockResolvedValue({ ...failedJob, status: 'running' });
+      (canResumeJob as jest.Mock).mockResolvedValue(false);
+
+      const response = await request(app)
+        .post(`/api/podcast/${failedJob.id}/resume`)
+        .expect(409);
+
+      expect(response.body.error).toBe('JOB_NOT_RESUMABLE');
+      expect(resumeJob).not.toHaveBeenCalled();
     });
   });
 
@@ -210,8 +707,9 @@ describe('Podcast API Integration Tests', () => {
     const mockPodcast = {
       id: 'test_article_20250101_120000',
       scriptId: 'test_article_20250101_120000',
-      articleTitle: 'Test Article',
-      articleUrl: 'https://en.wikipedia.org/wiki/Test_Article',
+      articles: [
+        { title: 'Test Article', url: 'https://en.wikipedia.org/wiki/Test_Article', language: 'en' },
+      ],
       audioFilePath: '/tmp/test.mp3',
       durationSeconds: 150,
       fileSizeBytes: 2000000,
@@ -220,8 +718,10 @@ describe('Podcast API Integration Tests', () => {
         bitrate: '128k' as const,
         sampleRate: 44100,
         channels: 1,
+        preset: 'plain',
       },
       voiceMapping: {
+        provider: 'elevenlabs' as const,
         Nishi: 'voice-id-1',
         Shyam: 'voice-id-2',
       },
@@ -250,6 +750,25 @@ describe('Podcast API Integration Tests', () => {
       expect(response.body.audio).toHaveProperty('durationSeconds');
       expect(response.body.audio).toHaveProperty('fileSizeBytes');
       expect(response.body.audio).toHaveProperty('format');
+      expect(response.body.audio.preset).toBe('plain');
+      expect(response.body.audio).not.toHaveProperty('lineTimings');
+    });
+
+    test('includes the timing of each line when recorded', async () => {
+      const lineTimings = [
+        { lineIndex: 1, startMs: 0, endMs: 2100 },
+        { lineIndex: 2, startMs: 2100, endMs: 5400 },
+      ];
+      (loadPodcast as jest.Mock).mockResolvedValue({ ...mockPodcast, lineTimings });
+
+      const fs = require('fs/promises');
+      fs.stat = jest.fn().mockResolvedValue({ size: 2000000 });
+
+      const response = await request(app)
+        .get('/api/podcast/test_article_20250101_120000')
+        .expect(200);
+
+      expect(response.body.audio.lineTimings).toEqual(lineTimings);
     });
 
     test('returns 404 for non-existent podcast', async () => {
@@ -277,8 +796,9 @@ describe('Podcast API Integration Tests', () => {
     const mockPodcast = {
       id: 'test_article_20250101_120000',
       scriptId: 'test_article_20250101_120000',
-      articleTitle: 'Test Article',
-      articleUrl: 'https://en.wikipedia.org/wiki/Test_Article',
+      articles: [
+        { title: 'Test Article', url: 'https://en.wikipedia.org/wiki/Test_Article', language: 'en' },
+      ],
       audioFilePath: '/tmp/test.mp3',
       durationSeconds: 150,
       fileSizeBytes: 2000000,
@@ -287,8 +807,10 @@ describe('Podcast API Integration Tests', () => {
         bitrate: '128k' as const,
         sampleRate: 44100,
         channels: 1,
+        preset: 'plain',
       },
       voiceMapping: {
+        provider: 'elevenlabs' as const,
         Nishi: 'voice-id-1',
         Shyam: 'voice-id-2',
       },
@@ -339,6 +861,7 @@ describe('Podcast API Integration Tests', () => {
       totalWords: 50,
       estimatedDuration: 120,
       generatedAt: '2025-01-01T12:00:00Z',
+      provider: 'xai' as const,
       model: 'grok-3',
       generationParams: {
         temperature: 0,
@@ -382,5 +905,239 @@ describe('Podcast API Integration Tests', () => {
       expect(response.body.error).toBe('INTERNAL_ERROR');
     });
   });
-});
 
+  describe('PUT /api/podcast/:id/script', () => {
+    const lines = [
+      { index: 1, speaker: 'Nishi', text: 'Welcome back!', section: 'greeting' },
+      { speaker: 'Shyam', text: 'A new line.', section: 'greeting' },
+    ];
+
+    test('saves the edited script and reports the lines voiced again', async () => {
+      const script = { id: 'test_article_20250101_120000', lines, revision: 2 };
+      (editScript as jest.Mock).mockResolvedValue({
+        script,
+        podcast: { durationSeconds: 150, lineTimings: [{ lineIndex: 1, startMs: 0, endMs: 1200 }] },
+        resynthesizedLines: [1, 2],
+      });
+
+      const response = await request(app)
+        .put('/api/podcast/test_article_20250101_120000/script')
+        .send({ lines })
+        .expect(200);
+
+      expect(editScript).toHaveBeenCalledWith('test_article_20250101_120000', lines);
+      expect(response.body).toEqual({
+        script,
+        revision: 2,
+        resynthesizedLines: [1, 2],
+        audio: { durationSeconds: 150, lineTimings: [{ lineIndex: 1, startMs: 0, endMs: 1200 }] },
+      });
+    });
+
+    test('returns 400 for malformed lines', async () => {
+      const response = await request(app)
+        .put('/api/podcast/test_article_20250101_120000/script')
+        .send({ lines: [{ index: 1, speaker: 'Nishi', section: 'greeting' }] })
+        .expect(400);
+
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(response.body.message).toContain('Line 1 must have text');
+      expect(editScript).not.toHaveBeenCalled();
+    });
+
+    test('returns 400 with the broken rules when the script is invalid', async () => {
+      (editScript as jest.Mock).mockRejectedValue(
+        new InvalidInputError('The edited script is invalid: Script too short', { errors: ['Script too short'] })
+      );
+
+      const response = await request(app)
+        .put('/api/podcast/test_article_20250101_120000/script')
+        .send({ lines })
+        .expect(400);
+
+      expect(response.body).toMatchObject({ error: 'INVALID_INPUT', details: { errors: ['Script too short'] } });
+    });
+
+    test('returns 409 while another edit is in progress', async () => {
+      (isEditInProgress as jest.Mock).mockReturnValueOnce(true);
+
+      const response = await request(app)
+        .put('/api/podcast/test_article_20250101_120000/script')
+        .send({ lines })
+        .expect(409);
+
+      expect(response.body.error).toBe('EDIT_IN_PROGRESS');
+    });
+
+    test('returns 404 for non-existent podcast', async () => {
+      (editScript as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .put('/api/podcast/nonexistent_id/script')
+        .send({ lines })
+        .expect(404);
+
+      expect(response.body.error).toBe('PODCAST_NOT_FOUND');
+    });
+  });
+
+  describe('GET /api/podcast/:id/script/revisions', () => {
+    test('lists the revisions of the script', async () => {
+      const revisions = {
+        current: 2,
+        revisions: [
+          { revision: 1, createdAt: '2025-01-01T12:00:00Z', lineCount: 14, changedLines: [1, 2] },
+          { revision: 2, createdAt: '2025-01-02T12:00:00Z', lineCount: 14, changedLines: [2] },
+        ],
+      };
+      (listScriptRevisions as jest.Mock).mockResolvedValue(revisions);
+
+      const response = await request(app)
+        .get('/api/podcast/test_article_20250101_120000/script/revisions')
+        .expect(200);
+
+      expect(response.body).toEqual(revisions);
+    });
+
+    test('returns one revision of the script', async () => {
+      (loadScriptRevision as jest.Mock).mockResolvedValue({ id: 'test_article_20250101_120000', revision: 1 });
+
+      const response = await request(app)
+        .get('/api/podcast/test_article_20250101_120000/script/revisions/1')
+        .expect(200);
+
+      expect(loadScriptRevision).toHaveBeenCalledWith('test_article_20250101_120000', 1);
+      expect(response.body.revision).toBe(1);
+    });
+
+    test('returns 404 for unknown revisions', async () => {
+      (loadScriptRevision as jest.Mock).mockResolvedValue(null);
+
+      await request(app)
+        .get('/api/podcast/test_article_20250101_120000/script/revisions/abc')
+        .expect(404);
+      const response = await request(app)
+        .get('/api/podcast/test_article_20250101_120000/script/revisions/9')
+        .expect(404);
+
+      expect(response.body.error).toBe('REVISION_NOT_FOUND');
+      expect(loadScriptRevision).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('GET /api/podcast/:id/captions.vtt and .srt', () => {
+    const mockPodcast = {
+      id: 'test_article_20250101_120000',
+      scriptId: 'test_article_20250101_120000',
+      articles: [
+        { title: 'Test Article', url: 'https://en.wikipedia.org/wiki/Test_Article', language: 'en' },
+      ],
+      audioFilePath: '/tmp/test.mp3',
+      durationSeconds: 4,
+      fileSizeBytes: 64000,
+      audioSpec: { format: 'mp3' as const, bitrate: '128k' as const, sampleRate: 44100, channels: 1, preset: 'plain' },
+      voiceMapping: { provider: 'elevenlabs' as const, Nishi: 'voice-id-1', Shyam: 'voice-id-2' },
+      lineTimings: [
+        { lineIndex: 1, startMs: 0, endMs: 1500 },
+        { lineIndex: 2, startMs: 1500, endMs: 4000 },
+      ],
+      createdAt: '2025-01-01T12:00:00Z',
+      pipelineVersion: '1.0.0',
+    };
+
+    const mockScript = {
+      id: 'test_article_20250101_120000',
+      lines: [
+        { index: 1, speaker: 'Nishi', text: 'Hello & welcome!', section: 'greeting' },
+        { index: 2, speaker: 'Shyam', text: 'Hi there.', section: 'greeting' },
+      ],
+    };
+
+    test('returns WebVTT captions with speaker voice spans', async () => {
+      (loadPodcast as jest.Mock).mockResolvedValue(mockPodcast);
+      (loadScript as jest.Mock).mockResolvedValue(mockScript);
+
+      const response = await request(app)
+        .get('/api/podcast/test_article_20250101_120000/captions.vtt')
+        .expect(200)
+        .expect('Content-Type', /text\/vtt/);
+
+      expect(response.text).toBe([
+        'WEBVTT',
+        '',
+        '1',
+        '00:00:00.000 --> 00:00:01.500',
+        '<v Nishi>Hello &amp; welcome!',
+        '',
+        '2',
+        '00:00:01.500 --> 00:00:04.000',
+        '<v Shyam>Hi there.',
+        '',
+      ].join('\n'));
+    });
+
+    test('returns SRT captions with speaker labels', async () => {
+      (loadPodcast as jest.Mock).mockResolvedValue(mockPodcast);
+      (loadScript as jest.Mock).mockResolvedValue(mockScript);
+
+      const response = await request(app)
+        .get('/api/podcast/test_article_20250101_120000/captions.srt')
+        .buffer(true)
+        .parse((res, callback) => {
+          let text = '';
+          res.on('data', (chunk: Buffer) => { text += chunk.toString(); });
+          res.on('end', () => callback(null, text));
+        })
+        .expect(200)
+        .expect('Content-Type', /application\/x-subrip/)
+        .expect('Content-Disposition', /test_article_20250101_120000\.srt/);
+
+      expect(response.body).toBe([
+        '1',
+        '00:00:00,000 --> 00:00:01,500',
+        'Nishi: Hello & welcome!',
+        '',
+        '2',
+        '00:00:01,500 --> 00:00:04,000',
+        'Shyam: Hi there.',
+        '',
+      ].join('\n'));
+    });
+
+    test('names the captions file of a podcast with a non-Latin ID', async () => {
+      const id = 'ताज_महल_20250101_120000';
+      (loadPodcast as jest.Mock).mockResolvedValue({ ...mockPodcast, id, scriptId: id });
+      (loadScript as jest.Mock).mockResolvedValue({ ...mockScript, id });
+
+      const response = await request(app)
+        .get(`/api/podcast/${encodeURIComponent(id)}/captions.vtt`)
+        .expect(200)
+        .expect('Content-Type', /text\/vtt/);
+
+      expect(response.headers['content-disposition'])
+        .toContain(`filename*=UTF-8''${encodeURIComponent(`${id}.vtt`)}`);
+    });
+
+    test('returns 404 for podcasts without line timings', async () => {
+      const { lineTimings: _lineTimings, ...untimed } = mockPodcast;
+      (loadPodcast as jest.Mock).mockResolvedValue(untimed);
+
+      const response = await request(app)
+        .get('/api/podcast/test_article_20250101_120000/captions.vtt')
+        .expect(404);
+
+      expect(response.body.error).toBe('CAPTIONS_NOT_AVAILABLE');
+      expect(loadScript).not.toHaveBeenCalled();
+    });
+
+    test('returns 404 for non-existent podcast', async () => {
+      (loadPodcast as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/podcast/nonexistent_id/captions.srt')
+        .expect(404);
+
+      expect(response.body.error).toBe('PODCAST_NOT_FOUND');
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Integration Tests for Podcast Library Endpoints
+ *
+ * Tests GET /api/podcasts and DELETE /api/podcast/:id
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import podcastRouter from '../../src/routes/podcast.js';
+import podcastsRouter from '../../src/routes/podcasts.js';
+import { listLibrary, deletePodcast } from '../../src/services/podcastLibrary.js';
+import { withEditLock } from '../../src/services/scriptEditor.js';
+
+jest.mock('../../src/services/podcastLibrary.js');
+jest.mock('../../src/services/podcastOrchestrator.js');
+jest.mock('../../src/services/jobQueue.js');
+
+describe('Podcast Library API', () => {
+  let app: Express;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/podcast', podcastRouter);
+    app.use('/api/podcasts', podcastsRouter);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/podcasts', () => {
+    const mockList = {
+      podcasts: [
+        {
+          id: 'test_article_20250101_120000',
+          audioUrl: '/api/podcast/test_article_20250101_120000/audio',
+          scriptUrl: '/api/podcast/test_article_20250101_120000/script',
+          durationSeconds: 150,
+          article: { title: 'Test Article', url: 'https://en.wikipedia.org/wiki/Test_Article' },
+          speakers: ['Nishi', 'Shyam'],
+          createdAt: '2025-01-01T12:00:00Z',
+        },
+      ],
+      total: 1,
+      page: 1,
+      pageSize: 20,
+      totalPages: 1,
+    };
+
+    test('lists podcasts with default query', async () => {
+      (listLibrary as jest.Mock).mockResolvedValue(mockList);
+
+      const response = await request(app)
+        .get('/api/podcasts')
+        .expect(200)
+        .expect('Content-Type', /json/);
+
+      expect(response.body).toEqual(mockList);
+      expect(listLibrary).toHaveBeenCalledWith({
+        page: 1,
+        pageSize: 20,
+        sort: 'createdAt',
+        order: 'desc',
+      });
+    });
+
+    test('passes filter, sort and pagination through', async () => {
+      (listLibrary as jest.Mock).mockResolvedValue(mockList);
+
+      await request(app)
+        .get('/api/podcasts?page=2&pageSize=5&sort=duration&order=asc&title=test')
+        .expect(200);
+
+      expect(listLibrary).toHaveBeenCalledWith({
+        page: 2,
+        pageSize: 5,
+        sort: 'duration',
+        order: 'asc',
+        title: 'test',
+      });
+    });
+
+    test('returns 400 for invalid query', async () => {
+      const response = await request(app)
+        .get('/api/podcasts?sort=size')
+        .expect(400);
+
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(listLibrary).not.toHaveBeenCalled();
+    });
+
+    test('returns 500 for internal error', async () => {
+      (listLibrary as jest.Mock).mockRejectedValue(new Error('File system error'));
+
+      const response = await request(app)
+        .get('/api/podcasts')
+        .expect(500);
+
+      expect(response.body.error).toBe('INTERNAL_ERROR');
+    });
+  });
+
+  describe('DELETE /api/podcast/:id', () => {
+    test('deletes podcast', async () => {
+      (deletePodcast as jest.Mock).mockResolvedValue(true);
+
+      await request(app)
+        .delete('/api/podcast/test_article_20250101_120000')
+        .expect(204);
+
+      expect(deletePodcast).toHaveBeenCalledWith('test_article_20250101_120000');
+    });
+
+    test('returns 409 while the script is being edited', async () => {
+      let finishEdit!: () => void;
+      const edit = withEditLock('test_article_20250101_120000', () => new Promise<void>(resolve => { finishEdit = resolve; }));
+
+      const response = await request(app)
+        .delete('/api/podcast/test_article_20250101_120000')
+        .expect(409);
+      finishEdit();
+      await edit;
+
+      expect(response.body.error).toBe('EDIT_IN_PROGRESS');
+      expect(deletePodcast).not.toHaveBeenCalled();
+    });
+
+    test('keeps edits out while deleting', async () => {
+      (deletePodcast as jest.Mock).mockImplementation(async (id: string) => {
+        await expect(withEditLock(id, async () => {})).rejects.toThrow('already being edited');
+        return true;
+      });
+
+      await request(app)
+        .delete('/api/podcast/test_article_20250101_120000')
+        .expect(204);
+    });
+
+    test('returns 404 for non-existent podcast', async () => {
+      (deletePodcast as jest.Mock).mockResolvedValue(false);
+
+      const response = await request(app)
+        .delete('/api/podcast/nonexistent_id')
+        .expect(404);
+
+      expect(response.body.error).toBe('PODCAST_NOT_FOUND');
+    });
+
+    test('returns 400 for malformed ID', async () => {
+      const response = await request(app)
+        .delete('/api/podcast/..%2Fjobs%2Fx')
+        .expect(400);
+
+      expect(response.body.error).toBe('INVALID_INPUT');
+      expect(deletePodcast).not.toHaveBeenCalled();
+    });
+
+    test('returns 500 when deletion fails', async () => {
+      (deletePodcast as jest.Mock).mockRejectedValue(new Error('EBUSY'));
+
+      const response = await request(app)
+        .delete('/api/podcast/test_article_20250101_120000')
+        .expect(500);
+
+      expect(response.body.error).toBe('INTERNAL_ERROR');
+    });
+  });
+});
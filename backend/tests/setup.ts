@@ -11,8 +11,34 @@ jest.mock('../src/config/env.js', () => ({
     port: 3000,
     nodeEnv: 'test',
     outputDir: '/tmp/test-output',
+    hostsDir: '/tmp/test-hosts',
+    audioAssetsDir: '/tmp/test-assets/audio',
+    llmProvider: 'xai',
+    llmModel: '',
+    openAiLlmApiUrl: 'https://api.openai.com/v1',
+    openAiLlmApiKey: 'test-openai-api-key',
+    llmFixturePath: '',
+    scriptRepairAttempts: 2,
+    factCheck: 'judge',
+    factCheckPolicy: 'flag',
+    factCheckMinOverlap: 0.5,
+    // Cache tests enable it explicitly; elsewhere it would persist files between runs
+    cacheEnabled: false,
+    cacheMaxBytes: 1024 * 1024 * 1024,
+    cacheMaxAgeDays: 30,
+    cacheAdminEnabled: false,
+    maxConcurrentJobs: 2,
+    ttsProvider: 'elevenlabs',
+    ttsConcurrency: 3,
+    ttsVoices: {},
+    openAiTtsApiUrl: 'https://api.openai.com/v1',
+    openAiTtsApiKey: 'test-openai-api-key',
+    openAiTtsModel: 'tts-1',
+    localTtsEngine: 'espeak-ng',
+    piperModelDir: '/tmp/test-models/piper',
     xaiApiUrl: 'https://api.x.ai/v1',
     elevenLabsApiUrl: 'https://api.elevenlabs.io/v1',
+    elevenLabsModel: 'eleven_multilingual_v2',
     wikipediaApiUrl: 'https://en.wikipedia.org/api/rest_v1',
   })),
   isProduction: jest.fn(() => false),
@@ -0,0 +1,223 @@
+/**
+ * Unit Tests for Article Parser
+ *
+ * Tests the section tree built from Parsoid HTML and its plain-text rendering.
+ */
+
+import {
+  parseArticleSections,
+  sectionsToText,
+  selectSections,
+  getSectionOutline,
+  LEAD_SECTION_TITLE,
+} from '../../src/services/articleParser.js';
+import { parseHtml, decodeHtmlEntities } from '../../src/utils/html.js';
+
+describe('Article Parser', () => {
+  // Trimmed-down Parsoid output for a typical biography
+  const parsoidHtml = `<!DOCTYPE html>
+<html prefix="dc: http://purl.org/dc/terms/"><head><meta charset="utf-8"/><title>Ada Lovelace</title>
+<style>.mw-parser-output .hatnote{font-style:italic}</style></head>
+<body class="mw-content-ltr">
+<section data-mw-section-id="0" id="mwAQ">
+<div class="shortdescription nomobile noexcerpt" style="display:none">English mathematician (1815–1852)</div>
+<div role="note" class="hatnote navigation-not-searchable">For other uses, see Lovelace (disambiguation).</div>
+<table class="infobox biography vcard"><tbody><tr><th>Born</th><td>10 December 1815</td></tr></tbody></table>
+<p><b>Augusta Ada King, Countess of Lovelace</b> was an English <a rel="mw:WikiLink" href="./Mathematician">mathematician</a>&nbsp;and writer.<sup about="#mwt5" class="mw-ref reference" typeof="mw:Extension/ref"><a href="./Ada_Lovelace#cite_note-1"><span class="mw-reflink-text">[1]</span></a></sup></p>
+<figure typeof="mw:File/Thumb"><a><img src="//upload.wikimedia.org/ada.jpg"/></a><figcaption>Portrait by Chalon</figcaption></figure>
+</section>
+<section data-mw-section-id="1" id="mwBg"><h2 id="Early_life">Early life</h2>
+<p>She was the only legitimate child of <a href="./Lord_Byron">Lord Byron</a>.</p>
+<section data-mw-section-id="2" id="mwCw"><h3 id="Childhood">Childhood</h3>
+<p>She was often ill in childhood.</p>
+<ul><li>Measles in 1829<ul><li>Paralysis afterwards</li></ul></li><li>Recovered by 1831</li></ul>
+</section>
+</section>
+<section data-mw-section-id="3" id="mwDA"><h2 id="Work">Work</h2>
+<p>Her notes describe an <i>algorithm</i> for the Analytical Engine.</p>
+<div role="navigation" class="navbox"><ul><li>Computing pioneers</li></ul></div>
+<table class="wikitable"><tr><td>Note G</td></tr></table>
+</section>
+<section data-mw-section-id="4" id="mwEA"><h2 id="See_also">See also</h2>
+<ul><li>Ada (programming language)</li></ul>
+</section>
+<section data-mw-section-id="5" id="mwEQ"><h2 id="References">References</h2>
+<div class="mw-references-wrap"><ol class="mw-references references"><li id="cite_note-1">Toole 1998.</li></ol></div>
+</section>
+</body></html>`;
+
+  describe('parseArticleSections', () => {
+    test('builds a section tree with the lead first', () => {
+      const sections = parseArticleSections(parsoidHtml);
+
+      expect(sections.map(section => section.title)).toEqual([LEAD_SECTION_TITLE, 'Early life', 'Work']);
+      expect(sections[0]).toMatchObject({ level: 2, anchor: '' });
+      expect(sections[1]).toMatchObject({ level: 2, anchor: 'Early_life' });
+      expect(sections[1].subsections).toHaveLength(1);
+      expect(sections[1].subsections[0]).toMatchObject({ title: 'Childhood', level: 3, anchor: 'Childhood' });
+    });
+
+    test('extracts paragraph text without markup or citations', () => {
+      const [lead] = parseArticleSections(parsoidHtml);
+
+      expect(lead.blocks).toEqual([
+        {
+          type: 'paragraph',
+          text: 'Augusta Ada King, Countess of Lovelace was an English mathematician and writer.',
+        },
+      ]);
+    });
+
+    test('drops infoboxes, hatnotes, short descriptions, figures and stylesheets', () => {
+      const text = sectionsToText(parseArticleSections(parsoidHtml));
+
+      expect(text).not.toContain('10 December 1815');
+      expect(text).not.toContain('For other uses');
+      expect(text).not.toContain('English mathematician (1815');
+      expect(text).not.toContain('Portrait by Chalon');
+      expect(text).not.toContain('font-style');
+    });
+
+    test('drops tables and navboxes inside sections', () => {
+      const work = parseArticleSections(parsoidHtml)[2];
+
+      expect(work.blocks).toEqual([
+        { type: 'paragraph', text: 'Her notes describe an algorithm for the Analytical Engine.' },
+      ]);
+    });
+
+    test('drops reference-style sections', () => {
+      const text = sectionsToText(parseArticleSections(parsoidHtml));
+
+      expect(text).not.toContain('See also');
+      expect(text).not.toContain('Ada (programming language)');
+      expect(text).not.toContain('Toole 1998');
+    });
+
+    test('flattens nested lists into list items', () => {
+      const childhood = parseArticleSections(parsoidHtml)[1].subsections[0];
+
+      expect(childhood.blocks[1]).toEqual({
+        type: 'list',
+        ordered: false,
+        items: ['Measles in 1829', 'Paralysis afterwards', 'Recovered by 1831'],
+      });
+    });
+
+    test('splits plain HTML on bare headings', () => {
+      const sections = parseArticleSections(
+        '<p>Lead.</p><h2>History</h2><p>Old.</p><h3>Origins</h3><p>Older.</p><h2>Today</h2><p>New.</p>'
+      );
+
+      expect(sections.map(section => section.title)).toEqual([LEAD_SECTION_TITLE, 'History', 'Today']);
+      expect(sections[1].anchor).toBe('History');
+      expect(sections[1].subsections[0].blocks).toEqual([{ type: 'paragraph', text: 'Older.' }]);
+    });
+
+    test('treats bare text as a lead paragraph', () => {
+      const sections = parseArticleSections('Just some <b>plain</b> text');
+
+      expect(sections).toEqual([
+        {
+          title: LEAD_SECTION_TITLE,
+          level: 2,
+          anchor: '',
+          blocks: [{ type: 'paragraph', text: 'Just some plain text' }],
+          subsections: [],
+        },
+      ]);
+    });
+
+    test('omits sections without content', () => {
+      const sections = parseArticleSections(
+        '<section><h2 id="Gallery">Gallery</h2><table><tr><td>Image</td></tr></table></section>'
+      );
+
+      expect(sections).toEqual([]);
+    });
+
+    test('finds headings wrapped in mw-heading containers', () => {
+      const sections = parseArticleSections(
+        '<section><p>Lead.</p></section>' +
+        '<section><div class="mw-heading mw-heading2"><h2 id="Legacy">Legacy</h2></div><p>Remembered.</p></section>'
+      );
+
+      expect(sections[1]).toMatchObject({ title: 'Legacy', anchor: 'Legacy' });
+    });
+  });
+
+  describe('sectionsToText', () => {
+    test('renders headings, paragraphs and list items', () => {
+      const text = sectionsToText(parseArticleSections(parsoidHtml));
+
+      expect(text).toContain('## Early life\n\nShe was the only legitimate child of Lord Byron.');
+      expect(text).toContain('### Childhood');
+      expect(text).toContain('- Measles in 1829\n- Paralysis afterwards');
+      expect(text.startsWith('Augusta Ada King')).toBe(true);
+    });
+  });
+
+  describe('selectSections', () => {
+    test('selects sections by heading or anchor, case-insensitively, in page order', () => {
+      const sections = parseArticleSections(parsoidHtml);
+
+      const { selected, missing } = selectSections(sections, ['work', 'Early_life']);
+
+      expect(selected.map(section => section.title)).toEqual(['Early life', 'Work']);
+      expect(missing).toEqual([]);
+    });
+
+    test('keeps subsections of a selected section', () => {
+      const { selected } = selectSections(parseArticleSections(parsoidHtml), ['Early life']);
+
+      expect(selected[0].subsections.map(section => section.title)).toEqual(['Childhood']);
+    });
+
+    test('selects nested sections on their own', () => {
+      const { selected } = selectSections(parseArticleSections(parsoidHtml), ['Childhood']);
+
+      expect(selected.map(section => section.title)).toEqual(['Childhood']);
+    });
+
+    test('reports names that match no section', () => {
+      const { missing } = selectSections(parseArticleSections(parsoidHtml), ['Work', 'Legacy']);
+
+      expect(missing).toEqual(['Legacy']);
+    });
+  });
+
+  describe('getSectionOutline', () => {
+    test('lists sections with word counts that include subsections', () => {
+      const outline = getSectionOutline(parseArticleSections(parsoidHtml));
+
+      expect(outline.map(entry => entry.title)).toEqual([LEAD_SECTION_TITLE, 'Early life', 'Work']);
+      expect(outline[1].subsections[0]).toEqual({
+        title: 'Childhood',
+        level: 3,
+        anchor: 'Childhood',
+        wordCount: 14,
+        subsections: [],
+      });
+      // 9 words of its own plus the Childhood subsection
+      expect(outline[1].wordCount).toBe(9 + 14);
+    });
+  });
+
+  describe('HTML parsing', () => {
+    test('decodes named and numeric entities', () => {
+      expect(decodeHtmlEntities('A&amp;B &#8211; &#x2014; &ndash; &unknown;')).toBe('A&B – — – &unknown;');
+    });
+
+    test('tolerates stray and missing close tags', () => {
+      const root = parseHtml('<p>One<p>Two</span></p>');
+
+      expect(root.children).toHaveLength(2);
+    });
+
+    test('treats a lone angle bracket as text', () => {
+      const sections = parseArticleSections('<p>3 < 4 and 5 > 2</p>');
+
+      expect(sections[0].blocks).toEqual([{ type: 'paragraph', text: '3 < 4 and 5 > 2' }]);
+    });
+  });
+});
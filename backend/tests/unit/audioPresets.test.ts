@@ -0,0 +1,54 @@
+/**
+ * Unit Tests for Audio Presets
+ *
+ * Tests that the built-in presets are well-formed and resolving presets by ID
+ */
+
+import {
+  BUILT_IN_AUDIO_PRESETS,
+  GENERATED_SOUNDS,
+  getGeneratedSound,
+  resolveAudioPreset,
+} from '../../src/config/audioPresets.js';
+import { InvalidInputError } from '../../src/utils/errors.js';
+
+describe('Audio Presets', () => {
+  describe.each(BUILT_IN_AUDIO_PRESETS.map(preset => [preset.id, preset]))('%s', (_, preset) => {
+    test('only uses generated sounds, so it works without asset files', () => {
+      const sounds = [preset.intro, preset.outro, preset.bed?.sound, preset.sectionStinger].filter(Boolean);
+
+      sounds.forEach(sound => expect(getGeneratedSound(sound!)).toBeDefined());
+    });
+
+    test('keeps the bed under the voices', () => {
+      if (preset.bed) {
+        expect(preset.bed.volumeDb).toBeLessThan(0);
+      }
+    });
+
+    test('has a turn transition of under a second', () => {
+      if (preset.turnTransition) {
+        expect(preset.turnTransition.ms).toBeGreaterThan(0);
+        expect(preset.turnTransition.ms).toBeLessThan(1000);
+      }
+    });
+  });
+
+  test('generated sounds have unique names usable as file names', () => {
+    const ids = GENERATED_SOUNDS.map(sound => sound.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    ids.forEach(id => expect(id).toMatch(/^[a-z]+(-[a-z]+)*$/));
+  });
+
+  describe('resolveAudioPreset', () => {
+    test('defaults to plain', () => {
+      expect(resolveAudioPreset().id).toBe('plain');
+    });
+
+    test('rejects unknown presets', () => {
+      expect(() => resolveAudioPreset('radio')).toThrow(InvalidInputError);
+      expect(() => resolveAudioPreset('radio')).toThrow('Unknown audio preset "radio"');
+    });
+  });
+});
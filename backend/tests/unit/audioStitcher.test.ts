@@ -5,6 +5,7 @@
  */
 
 import { stitchAudioSegments, checkFFmpegAvailable } from '../../src/services/audioStitcher.js';
+import { resolveAudioPreset } from '../../src/config/audioPresets.js';
 import { AudioSegment } from '../../src/types/index.js';
 import { exec } from 'child_process';
 import { promisify } from 'util';
@@ -109,7 +110,7 @@ describe('Audio Stitcher Service', () => {
 
       expect(fs.writeFile).toHaveBeenCalled();
       const concatContent = fs.writeFile.mock.calls.find((call: any[]) => 
-        call[0].includes('concat_list.txt')
+        call[0].includes('concat_test_id.txt')
       );
       expect(concatContent).toBeDefined();
     });
@@ -130,7 +131,7 @@ describe('Audio Stitcher Service', () => {
       await stitchAudioSegments('test_id', unorderedSegments);
 
       const concatCall = fs.writeFile.mock.calls.find((call: any[]) =>
-        call[0].includes('concat_list.txt')
+        call[0].includes('concat_test_id.txt')
       );
       expect(concatCall).toBeDefined();
       const content = concatCall[1];
@@ -217,6 +218,38 @@ describe('Audio Stitcher Service', () => {
       expect(result.fileSizeBytes).toBe(2500000);
     });
 
+    test('records line timings scaled to the stitched duration', async () => {
+      const fs = require('fs/promises');
+      fs.mkdir = jest.fn().mockResolvedValue(undefined);
+      fs.writeFile = jest.fn().mockResolvedValue(undefined);
+      fs.stat = jest.fn().mockResolvedValue({ size: 100000 });
+      fs.unlink = jest.fn().mockResolvedValue(undefined);
+
+      const probed: Record<string, string> = {
+        'test_id.mp3': '9.0',
+        '001.mp3': '2.0',
+        '002.mp3': '3.0',
+        '003.mp3': '', // Unreadable: falls back to the synthesized length
+      };
+      mockExec.mockImplementation(async (command: string) => {
+        const file = Object.keys(probed).find(name => command.startsWith('ffprobe') && command.includes(name));
+        return { stdout: file ? probed[file] : '', stderr: '' };
+      });
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      const result = await stitchAudioSegments('test_id', [mockSegments[2], mockSegments[0], mockSegments[1]]);
+
+      // 2s + 3s + 2.5s measured, scaled to the 9s of the stitched file
+      expect(result.lineTimings).toEqual([
+        { lineIndex: 1, startMs: 0, endMs: 2400 },
+        { lineIndex: 2, startMs: 2400, endMs: 6000 },
+        { lineIndex: 3, startMs: 6000, endMs: 9000 },
+      ]);
+
+      warnSpy.mockRestore();
+      mockExec.mockReset();
+    });
+
     test('throws error on FFmpeg failure', async () => {
       const fs = require('fs/promises');
       fs.mkdir = jest.fn().mockResolvedValue(undefined);
@@ -261,11 +294,44 @@ describe('Audio Stitcher Service', () => {
 
       expect(fs.unlink).toHaveBeenCalled();
       const unlinkCall = fs.unlink.mock.calls.find((call: any[]) =>
-        call[0].includes('concat_list.txt')
+        call[0].includes('concat_test_id.txt')
       );
       expect(unlinkCall).toBeDefined();
     });
 
+    test('cleans up temp files after an FFmpeg failure', async () => {
+      const fs = require('fs/promises');
+      fs.mkdir = jest.fn().mockResolvedValue(undefined);
+      fs.writeFile = jest.fn().mockResolvedValue(undefined);
+      fs.unlink = jest.fn().mockResolvedValue(undefined);
+
+      mockExec.mockResolvedValueOnce({ stdout: 'ffmpeg version', stderr: '' });
+      mockExec.mockRejectedValueOnce(new Error('FFmpeg crashed'));
+
+      await expect(stitchAudioSegments('test_id', mockSegments)).rejects.toThrow('FFmpeg crashed');
+
+      expect(fs.unlink).toHaveBeenCalledWith(expect.stringContaining('concat_test_id.txt'));
+    });
+
+    test('gives each script its own concat file', async () => {
+      const fs = require('fs/promises');
+      fs.mkdir = jest.fn().mockResolvedValue(undefined);
+      fs.writeFile = jest.fn().mockResolvedValue(undefined);
+      fs.stat = jest.fn().mockResolvedValue({ size: 2000000 });
+      fs.unlink = jest.fn().mockResolvedValue(undefined);
+
+      mockExec.mockResolvedValue({ stdout: '150', stderr: '' });
+
+      await Promise.all([
+        stitchAudioSegments('first_id', mockSegments),
+        stitchAudioSegments('second_id', mockSegments),
+      ]);
+
+      expect(fs.writeFile).toHaveBeenCalledWith(expect.stringContaining('concat_first_id.txt'), expect.any(String), 'utf-8');
+      expect(fs.writeFile).toHaveBeenCalledWith(expect.stringContaining('concat_second_id.txt'), expect.any(String), 'utf-8');
+      mockExec.mockReset();
+    });
+
     test('handles cleanup errors gracefully', async () => {
       const fs = require('fs/promises');
       fs.mkdir = jest.fn().mockResolvedValue(undefined);
@@ -306,5 +372,129 @@ describe('Audio Stitcher Service', () => {
       expect(result.filePath).toContain('audio');
     });
   });
+
+  describe('audio presets', () => {
+    const fs = require('fs/promises');
+    const originalFs = { ...fs };
+
+    const segments: AudioSegment[] = [
+      { lineIndex: 1, speaker: 'Nishi', filePath: '/tmp/segments/001.mp3', durationMs: 2000, format: 'mp3', generatedAt: '2025-01-01T12:00:00Z' },
+      { lineIndex: 2, speaker: 'Shyam', filePath: '/tmp/segments/002.mp3', durationMs: 3000, format: 'mp3', generatedAt: '2025-01-01T12:00:01Z' },
+      { lineIndex: 3, speaker: 'Shyam', filePath: '/tmp/segments/003.mp3', durationMs: 2500, format: 'mp3', generatedAt: '2025-01-01T12:00:02Z' },
+      { lineIndex: 4, speaker: 'Nishi', filePath: '/tmp/segments/004.mp3', durationMs: 2000, format: 'mp3', generatedAt: '2025-01-01T12:00:03Z' },
+    ];
+    const sections = { greeting: [1, 2], explanation: [3, 4] };
+
+    // Seconds FFprobe reports per file name
+    let probed: Record<string, string>;
+
+    const ffmpegCommand = (): string => mockExec.mock.calls
+      .map((call: any[]) => call[0] as string)
+      .find(command => command.startsWith('ffmpeg') && command !== 'ffmpeg -version')!;
+
+    beforeEach(() => {
+      probed = { '001.mp3': '2', '002.mp3': '3', '003.mp3': '2.5', '004.mp3': '2' };
+      fs.mkdir = jest.fn().mockResolvedValue(undefined);
+      fs.writeFile = jest.fn().mockResolvedValue(undefined);
+      fs.stat = jest.fn().mockResolvedValue({ size: 200000 });
+      fs.unlink = jest.fn().mockResolvedValue(undefined);
+      fs.access = jest.fn().mockRejectedValue(Object.assign(new Error('ENOENT'), { code: 'ENOENT' }));
+      mockExec.mockImplementation(async (command: string) => {
+        const file = Object.keys(probed).find(name => command.startsWith('ffprobe') && command.includes(name));
+        return { stdout: file ? probed[file] : '', stderr: '' };
+      });
+    });
+
+    afterEach(() => {
+      mockExec.mockReset();
+    });
+
+    afterAll(() => {
+      Object.assign(fs, originalFs);
+    });
+
+    test('joins lines back to back with the plain preset', async () => {
+      await stitchAudioSegments('test_id', segments, { preset: resolveAudioPreset('plain'), sections });
+
+      expect(fs.writeFile).toHaveBeenCalledWith(expect.stringContaining('concat_test_id.txt'), expect.any(String), 'utf-8');
+      expect(ffmpegCommand()).not.toContain('-filter_complex');
+    });
+
+    test('mixes jingles, a ducked bed, pauses and stingers in one filter graph', async () => {
+      await stitchAudioSegments('test_id', segments, { preset: resolveAudioPreset('studio'), sections });
+
+      const command = ffmpegCommand();
+      expect(fs.writeFile).not.toHaveBeenCalled();
+      // Pause between speakers, none between lines by the same speaker
+      expect(command).toContain('apad=pad_dur=0.35');
+      expect(command).toContain('[line3]concat=n=2:v=0:a=1');
+      // Swoosh where the greeting ends
+      expect(command).toContain('[stinger0]');
+      expect(command).toContain('sidechaincompress');
+      expect(command).toContain('volume=-20dB');
+      expect(command).toContain('[intro][mixed][outro]concat=n=3:v=0:a=1,loudnorm=I=-16:TP=-1.5:LRA=11[out]');
+      expect(command.match(/-f lavfi/g)).toHaveLength(4);
+      expect(command).toContain('-map "[out]"');
+    });
+
+    test('crossfades lines when the speaker changes', async () => {
+      await stitchAudioSegments('test_id', segments, { preset: resolveAudioPreset('newsroom') });
+
+      const command = ffmpegCommand();
+      expect(command.match(/acrossfade=d=0\.12/g)).toHaveLength(2);
+      // Without sections there is nothing to put stingers between
+      expect(command).not.toContain('[stinger0]');
+    });
+
+    test('fits crossfades to the measured length of each line', async () => {
+      // The synthesis estimate says 3s, but the second line is only 0.1s long
+      probed['002.mp3'] = '0.1';
+
+      await stitchAudioSegments('test_id', segments, { preset: resolveAudioPreset('newsroom') });
+
+      const command = ffmpegCommand();
+      expect(command).toContain('[line0][line1]acrossfade=d=0.05[speech0]');
+      expect(command.match(/acrossfade=d=0\.12/g)).toHaveLength(1);
+      expect(mockExec.mock.calls.filter((call: any[]) => call[0].includes('002.mp3') && call[0].startsWith('ffprobe')))
+        .toHaveLength(1);
+    });
+
+    test('uses a sound file from the assets directory instead of the generated sound', async () => {
+      fs.access = jest.fn(async (filePath: string) => {
+        if (!filePath.endsWith('chime-intro.mp3')) throw new Error('ENOENT');
+      });
+
+      await stitchAudioSegments('test_id', segments, { preset: resolveAudioPreset('studio'), sections });
+
+      expect(ffmpegCommand()).toContain('-i "/tmp/test-assets/audio/chime-intro.mp3"');
+      expect(ffmpegCommand().match(/-f lavfi/g)).toHaveLength(3);
+    });
+
+    test('places line timings around the pauses between speakers', async () => {
+      // 2s + 0.4s + 3s + 2.5s + 0.4s + 2s
+      probed['test_id.mp3'] = '10.3';
+
+      const result = await stitchAudioSegments('test_id', segments, {
+        preset: resolveAudioPreset('conversation'),
+        sections,
+      });
+
+      expect(result.lineTimings).toEqual([
+        { lineIndex: 1, startMs: 0, endMs: 2000 },
+        { lineIndex: 2, startMs: 2400, endMs: 5400 },
+        { lineIndex: 3, startMs: 5400, endMs: 7900 },
+        { lineIndex: 4, startMs: 8300, endMs: 10300 },
+      ]);
+    });
+
+    test('starts the first line after the intro', async () => {
+      // 2.5s intro, 2s + 0.35s + 3s, 0.8s swoosh, 2.5s + 0.35s + 2s, 3s outro
+      probed['test_id.mp3'] = '16.5';
+
+      const result = await stitchAudioSegments('test_id', segments, { preset: resolveAudioPreset('studio'), sections });
+
+      expect(result.lineTimings.map(timing => timing.startMs)).toEqual([2500, 4850, 8650, 11500]);
+    });
+  });
 });
 
@@ -0,0 +1,217 @@
+/**
+ * Unit Tests for Cache Service
+ * 
+ * Tests content-addressed storage, stats, clearing and eviction
+ */
+
+import {
+  hashKey,
+  getCachedJson,
+  setCachedJson,
+  restoreCachedFile,
+  storeCachedFile,
+  getCacheStats,
+  clearCache,
+  evictCache,
+} from '../../src/services/cache.js';
+import { getConfig } from '../../src/config/env.js';
+
+describe('Cache Service', () => {
+  const baseConfig = (getConfig as jest.Mock)();
+  const fs = require('fs/promises');
+  const originalFs = { ...fs };
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  // In-memory filesystem: path -> contents and last-use time
+  let files: Map<string, { data: string; mtimeMs: number }>;
+
+  /**
+   * Overrides config values for the next getConfig() calls
+   */
+  function useConfig(overrides: Record<string, unknown>) {
+    (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, ...overrides });
+  }
+
+  /**
+   * Adds a cache file directly
+   */
+  function addFile(filePath: string, data: string, ageMs = 0) {
+    files.set(filePath, { data, mtimeMs: Date.now() - ageMs });
+  }
+
+  const missing = () => Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+
+  beforeEach(() => {
+    files = new Map();
+    useConfig({ cacheEnabled: true });
+
+    fs.mkdir = jest.fn().mockResolvedValue(undefined);
+    fs.writeFile = jest.fn(async (filePath: string, data: string) => addFile(filePath, data));
+    fs.readFile = jest.fn(async (filePath: string) => {
+      if (!files.has(filePath)) throw missing();
+      return files.get(filePath)!.data;
+    });
+    fs.copyFile = jest.fn(async (from: string, to: string) => {
+      if (!files.has(from)) throw missing();
+      addFile(to, files.get(from)!.data);
+    });
+    fs.utimes = jest.fn(async (filePath: string) => {
+      files.get(filePath)!.mtimeMs = Date.now();
+    });
+    fs.readdir = jest.fn(async (dir: string) => [...files.keys()]
+      .filter(filePath => filePath.startsWith(`${dir}/`))
+      .map(filePath => filePath.slice(dir.length + 1)));
+    fs.stat = jest.fn(async (filePath: string) => {
+      const file = files.get(filePath);
+      if (!file) throw missing();
+      return { isFile: () => true, size: file.data.length, mtimeMs: file.mtimeMs };
+    });
+    fs.rm = jest.fn(async (filePath: string) => {
+      files.delete(filePath);
+    });
+  });
+
+  afterAll(() => {
+    Object.assign(fs, originalFs);
+    (getConfig as jest.Mock).mockReturnValue(baseConfig);
+  });
+
+  describe('hashKey', () => {
+    test('is deterministic for the same parts', () => {
+      expect(hashKey('audio', 'voice', 'Hello')).toBe(hashKey('audio', 'voice', 'Hello'));
+      expect(hashKey('audio', 'voice', 'Hello')).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    test('differs when any part differs', () => {
+      expect(hashKey('audio', 'voice', 'Hello')).not.toBe(hashKey('audio', 'voice', 'Hello!'));
+      expect(hashKey('a', 'bc')).not.toBe(hashKey('ab', 'c'));
+    });
+  });
+
+  describe('JSON entries', () => {
+    test('returns stored values', async () => {
+      await setCachedJson('scripts', 'key1', { lines: [1, 2, 3] });
+
+      expect(await getCachedJson('scripts', 'key1')).toEqual({ lines: [1, 2, 3] });
+      expect(files.has('/tmp/test-output/cache/scripts/key1.json')).toBe(true);
+    });
+
+    test('returns null on a miss', async () => {
+      expect(await getCachedJson('scripts', 'unknown')).toBeNull();
+    });
+
+    test('does nothing when the cache is disabled', async () => {
+      useConfig({ cacheEnabled: false });
+
+      await setCachedJson('scripts', 'key1', { lines: [] });
+
+      expect(files.size).toBe(0);
+      expect(await getCachedJson('scripts', 'key1')).toBeNull();
+    });
+
+    test('refreshes last use on a hit', async () => {
+      addFile('/tmp/test-output/cache/articles/key1.json', '{}', 10 * DAY_MS);
+
+      await getCachedJson('articles', 'key1');
+
+      expect(fs.utimes).toHaveBeenCalledWith(
+        '/tmp/test-output/cache/articles/key1.json',
+        expect.any(Date),
+        expect.any(Date)
+      );
+    });
+  });
+
+  describe('file entries', () => {
+    test('stores and restores audio files', async () => {
+      addFile('/tmp/segments/001.mp3', 'audio-bytes');
+
+      await storeCachedFile('audio', 'key1', 'mp3', '/tmp/segments/001.mp3');
+      const restored = await restoreCachedFile('audio', 'key1', 'mp3', '/tmp/segments/other/001.mp3');
+
+      expect(restored).toBe(true);
+      expect(files.get('/tmp/segments/other/001.mp3')?.data).toBe('audio-bytes');
+    });
+
+    test('returns false on a miss', async () => {
+      expect(await restoreCachedFile('audio', 'unknown', 'mp3', '/tmp/001.mp3')).toBe(false);
+    });
+
+    test('ignores store failures', async () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      await expect(storeCachedFile('audio', 'key1', 'mp3', '/tmp/missing.mp3')).resolves.toBeUndefined();
+      expect(consoleSpy).toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('getCacheStats', () => {
+    test('summarizes entries per namespace', async () => {
+      addFile('/tmp/test-output/cache/articles/a.json', '12345');
+      addFile('/tmp/test-output/cache/audio/b.mp3', '1234567890');
+      addFile('/tmp/test-output/cache/audio/c.mp3', '12345', DAY_MS);
+
+      const stats = await getCacheStats();
+
+      expect(stats.enabled).toBe(true);
+      expect(stats.totalEntries).toBe(3);
+      expect(stats.totalSizeBytes).toBe(20);
+      expect(stats.namespaces).toEqual({
+        articles: { entries: 1, sizeBytes: 5 },
+        scripts: { entries: 0, sizeBytes: 0 },
+        audio: { entries: 2, sizeBytes: 15 },
+      });
+      expect(stats.oldestEntryUsedAt).not.toBeNull();
+    });
+  });
+
+  describe('clearCache', () => {
+    test('removes all entries', async () => {
+      addFile('/tmp/test-output/cache/articles/a.json', '12345');
+      addFile('/tmp/test-output/cache/audio/b.mp3', '1234567890');
+
+      const result = await clearCache();
+
+      expect(result).toEqual({ removedEntries: 2, freedBytes: 15 });
+      expect(files.size).toBe(0);
+    });
+
+    test('removes only the given namespace', async () => {
+      addFile('/tmp/test-output/cache/articles/a.json', '12345');
+      addFile('/tmp/test-output/cache/audio/b.mp3', '1234567890');
+
+      const result = await clearCache('audio');
+
+      expect(result.removedEntries).toBe(1);
+      expect(files.has('/tmp/test-output/cache/articles/a.json')).toBe(true);
+    });
+  });
+
+  describe('evictCache', () => {
+    test('removes entries unused for longer than the max age', async () => {
+      addFile('/tmp/test-output/cache/scripts/old.json', '{}', 31 * DAY_MS);
+      addFile('/tmp/test-output/cache/scripts/new.json', '{}', DAY_MS);
+
+      const result = await evictCache();
+
+      expect(result.removedEntries).toBe(1);
+      expect(files.has('/tmp/test-output/cache/scripts/old.json')).toBe(false);
+      expect(files.has('/tmp/test-output/cache/scripts/new.json')).toBe(true);
+    });
+
+    test('removes least recently used entries until under the size limit', async () => {
+      useConfig({ cacheEnabled: true, cacheMaxBytes: 25 });
+      addFile('/tmp/test-output/cache/audio/oldest.mp3', '1234567890', 3000);
+      addFile('/tmp/test-output/cache/audio/middle.mp3', '1234567890', 2000);
+      addFile('/tmp/test-output/cache/audio/newest.mp3', '1234567890', 1000);
+
+      const result = await evictCache();
+
+      expect(result).toEqual({ removedEntries: 1, freedBytes: 10 });
+      expect(files.has('/tmp/test-output/cache/audio/oldest.mp3')).toBe(false);
+      expect(files.has('/tmp/test-output/cache/audio/newest.mp3')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit Tests for Caption Service
+ *
+ * Tests building timed caption cues from a script and rendering WebVTT and SRT
+ */
+
+import { buildCaptionCues, toWebVtt, toSrt } from '../../src/services/captions.js';
+import type { LineTiming, Script, ScriptLine } from '../../src/types/index.js';
+
+describe('Caption Service', () => {
+  const createScript = (lines: ScriptLine[]): Script => ({
+    id: 'moon_20250101_120000',
+    articleTitle: 'Moon',
+    articleUrl: 'https://en.wikipedia.org/wiki/Moon',
+    lines,
+    sections: {},
+    totalWords: 0,
+    estimatedDuration: 0,
+    generatedAt: '2025-01-01T00:00:00Z',
+    provider: 'xai',
+    model: 'grok-3',
+    generationParams: { temperature: 0, maxTokens: 4096, promptVersion: '1.7.0' },
+  });
+
+  const line = (index: number, speaker: string, text: string): ScriptLine => ({
+    index,
+    speaker,
+    text,
+    section: 'explanation',
+  });
+
+  test('gives each line a cue at its recorded time, in playback order', () => {
+    const script = createScript([
+      line(2, 'Shyam', 'Hi Nishi.'),
+      line(1, 'Nishi', 'Welcome to Wiki Minutes!'),
+    ]);
+    const timings: LineTiming[] = [
+      { lineIndex: 1, startMs: 0, endMs: 1800 },
+      { lineIndex: 2, startMs: 1800, endMs: 2600 },
+    ];
+
+    expect(buildCaptionCues(script, timings)).toEqual([
+      { startMs: 0, endMs: 1800, speaker: 'Nishi', text: 'Welcome to Wiki Minutes!' },
+      { startMs: 1800, endMs: 2600, speaker: 'Shyam', text: 'Hi Nishi.' },
+    ]);
+  });
+
+  test('splits long lines into cues that share the line time by length', () => {
+    const first = 'The Moon formed about 4.51 billion years ago, not long after the Earth itself.';
+    const second = 'A Mars-sized body struck the early Earth and threw debris into orbit.';
+    const script = createScript([line(1, 'Shyam', `${first} ${second}`)]);
+
+    const cues = buildCaptionCues(script, [{ lineIndex: 1, startMs: 1000, endMs: 11000 }]);
+
+    expect(cues.map(cue => cue.text)).toEqual([first, second]);
+    expect(cues[0].startMs).toBe(1000);
+    expect(cues[0].endMs).toBe(cues[1].startMs);
+    expect(cues[1].endMs).toBe(11000);
+    expect(cues[0].endMs - cues[0].startMs).toBeGreaterThan(cues[1].endMs - cues[1].startMs);
+    cues.forEach(cue => expect(cue.text.length).toBeLessThanOrEqual(84));
+  });
+
+  test('leaves out lines without a timing', () => {
+    const script = createScript([line(1, 'Nishi', 'Hello!'), line(2, 'Shyam', 'Hi!')]);
+
+    const cues = buildCaptionCues(script, [{ lineIndex: 2, startMs: 0, endMs: 500 }]);
+
+    expect(cues.map(cue => cue.speaker)).toEqual(['Shyam']);
+  });
+
+  test('formats hour-long timestamps and escapes WebVTT markup', () => {
+    const cues = [{ startMs: 3_723_004, endMs: 3_725_500, speaker: 'Nishi', text: 'Is 2 < 3? Yes & no.' }];
+
+    expect(toWebVtt(cues)).toBe('WEBVTT\n\n1\n01:02:03.004 --> 01:02:05.500\n<v Nishi>Is 2 &lt; 3? Yes &amp; no.\n');
+    expect(toSrt(cues)).toBe('1\n01:02:03,004 --> 01:02:05,500\nNishi: Is 2 < 3? Yes & no.\n');
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Unit Tests for Citation Service
+ *
+ * Tests citing article passages, their sections and section links on script lines
+ */
+
+import { addLineSources } from '../../src/services/citations.js';
+import { sectionsToText } from '../../src/services/articleParser.js';
+import type { Article, ArticleSection, LineGrounding, Script, ScriptLine } from '../../src/types/index.js';
+
+describe('Citation Service', () => {
+  const section = (
+    title: string,
+    level: number,
+    anchor: string,
+    text: string,
+    subsections: ArticleSection[] = []
+  ): ArticleSection => ({ title, level, anchor, blocks: [{ type: 'paragraph', text }], subsections });
+
+  const sections = [
+    section('Introduction', 2, '', "The Moon is Earth's only natural satellite."),
+    section('Formation', 2, 'Formation', 'The Moon formed about 4.51 billion years ago.', [
+      section('Giant impact', 3, 'Giant_impact', 'A Mars-sized body struck the early Earth and threw debris into orbit.'),
+    ]),
+    section('Names & myths', 2, 'Names_&_myths', 'Apollo 11 landed astronauts on the Moon in 1969.'),
+  ];
+  const cleanedText = sectionsToText(sections);
+
+  const article: Article = {
+    title: 'Moon',
+    url: 'https://en.wikipedia.org/wiki/Moon',
+    rawContent: '',
+    cleanedText,
+    sections,
+    summary: '',
+    wordCount: 50,
+    fetchedAt: '2025-01-01T00:00:00Z',
+    language: 'en',
+  };
+
+  const passage = (text: string) => ({
+    article: 1,
+    start: cleanedText.indexOf(text),
+    end: cleanedText.indexOf(text) + text.length,
+    text,
+  });
+
+  const createScript = (lines: ScriptLine[]): Script => ({
+    id: 'moon_20250101_120000',
+    articleTitle: 'Moon',
+    articleUrl: article.url,
+    articles: [{ title: 'Moon', url: article.url, language: 'en' }],
+    lines,
+    sections: {},
+    totalWords: 0,
+    estimatedDuration: 0,
+    generatedAt: '2025-01-01T00:00:00Z',
+    provider: 'xai',
+    model: 'grok-3',
+    generationParams: { temperature: 0, maxTokens: 4096, promptVersion: '1.7.0' },
+    attempts: [],
+    language: 'en',
+  });
+
+  const line = (index: number, text: string, grounding?: LineGrounding): ScriptLine => ({
+    index,
+    speaker: index % 2 ? 'Nishi' : 'Shyam',
+    text,
+    section: 'explanation',
+    ...(grounding && { grounding }),
+  });
+
+  test('cites the passages of supported lines with their section and link', () => {
+    const script = createScript([
+      line(1, 'The Moon is our only natural satellite.', {
+        verdict: 'supported',
+        overlap: 1,
+        passages: [passage("The Moon is Earth's only natural satellite.")],
+      }),
+      line(2, 'A Mars-sized body hit the early Earth, and Apollo 11 went there in 1969.', {
+        verdict: 'supported',
+        overlap: 0.9,
+        passages: [
+          passage('A Mars-sized body struck the early Earth and threw debris into orbit.'),
+          passage('Apollo 11 landed astronauts on the Moon in 1969.'),
+        ],
+      }),
+    ]);
+
+    const cited = addLineSources(script, [article]);
+
+    expect(cited.lines[0].sources).toEqual([{
+      article: 1,
+      section: 'Introduction',
+      url: 'https://en.wikipedia.org/wiki/Moon',
+      start: 0,
+      end: 43,
+      snippet: "The Moon is Earth's only natural satellite.",
+    }]);
+    expect(cited.lines[1].sources!.map(source => [source.section, source.url])).toEqual([
+      ['Giant impact', 'https://en.wikipedia.org/wiki/Moon#Giant_impact'],
+      ['Names & myths', 'https://en.wikipedia.org/wiki/Moon#Names_%26_myths'],
+    ]);
+  });
+
+  test('cites nothing for unsupported lines and lines without claims', () => {
+    const script = createScript([
+      line(1, 'Welcome back!', { verdict: 'no_claims', overlap: 0, passages: [] }),
+      {
+        ...line(2, 'The Moon is made of cheese.', {
+          verdict: 'unsupported',
+          overlap: 0.2,
+          passages: [passage('The Moon formed about 4.51 billion years ago.')],
+        }),
+        sources: [{ article: 1, section: 'Formation', url: article.url, start: 0, end: 1, snippet: 'T' }],
+      },
+    ]);
+
+    const cited = addLineSources(script, [article]);
+
+    expect(cited.lines.map(cited => cited.sources)).toEqual([undefined, undefined]);
+  });
+
+  test('matches lines to passages by word overlap when the fact check was off', () => {
+    const script = createScript([
+      line(1, 'Apollo 11 landed astronauts on the Moon in 1969.'),
+      line(2, 'Astronauts later built a large city on the Moon.'),
+    ]);
+
+    const cited = addLineSources(script, [article]);
+
+    expect(cited.lines[0].sources![0]).toMatchObject({
+      section: 'Names & myths',
+      snippet: 'Apollo 11 landed astronauts on the Moon in 1969.',
+    });
+    expect(cited.lines[0].grounding).toBeUndefined();
+    expect(cited.lines[1].sources).toBeUndefined();
+  });
+
+  test('shortens long passages to a snippet', () => {
+    const longText = `${'The lunar surface is covered in fine grey regolith dust, '.repeat(6)}and more.`;
+    const longArticle = { ...article, cleanedText: longText, sections: [] };
+    const script = createScript([
+      line(1, 'The surface is covered in regolith.', {
+        verdict: 'supported',
+        overlap: 1,
+        passages: [{ article: 1, start: 0, end: longText.length, text: longText }],
+      }),
+    ]);
+
+    const [source] = addLineSources(script, [longArticle]).lines[0].sources!;
+
+    expect(source.snippet.length).toBeLessThanOrEqual(201);
+    expect(source.snippet.endsWith('…')).toBe(true);
+    expect(longText.startsWith(source.snippet.slice(0, -1))).toBe(true);
+    expect(source).toMatchObject({ section: 'Introduction', start: 0, end: longText.length });
+  });
+});
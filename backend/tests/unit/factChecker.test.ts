@@ -0,0 +1,435 @@
+/**
+ * Unit Tests for Fact Checker Service
+ *
+ * Tests matching script lines to article passages, the judge and the
+ * flag, drop and regenerate policies
+ */
+
+import { checkScriptFacts } from '../../src/services/factChecker.js';
+import { getConfig } from '../../src/config/env.js';
+import { getCachedJson, setCachedJson } from '../../src/services/cache.js';
+import { getDefaultHosts } from '../../src/config/hosts.js';
+import { getEpisodeLength } from '../../src/prompts/podcast.js';
+import type { Article, Script, ScriptLine } from '../../src/types/index.js';
+
+// Mock the LLM API calls and the cache
+jest.mock('node-fetch');
+jest.mock('../../src/services/cache.js');
+
+describe('Fact Checker Service', () => {
+  const baseConfig = (getConfig as jest.Mock)();
+  const mockFetch = require('node-fetch').default;
+
+  const articleText = [
+    "The Moon is Earth's only natural satellite. It orbits at an average distance of 384,400 km.",
+    '## Formation',
+    'The Moon formed about 4.51 billion years ago, shortly after Earth.',
+    'Apollo 11 landed astronauts on the Moon in 1969.',
+  ].join('\n');
+
+  const article: Article = {
+    title: 'Moon',
+    url: 'https://en.wikipedia.org/wiki/Moon',
+    rawContent: '',
+    cleanedText: articleText,
+    sections: [],
+    summary: '',
+    wordCount: 40,
+    fetchedAt: '2025-01-01T00:00:00Z',
+    language: 'en',
+  };
+
+  const createLines = (): ScriptLine[] => [
+    { index: 1, speaker: 'Nishi', text: "Welcome to Wiki Minutes, I'm Nishi!", section: 'greeting' },
+    { index: 2, speaker: 'Shyam', text: 'The Moon formed about 4.51 billion years ago, shortly after Earth.', section: 'explanation' },
+    { index: 3, speaker: 'Nishi', text: 'The Moon is made of green cheese, according to ancient astronomers.', section: 'explanation' },
+    { index: 4, speaker: 'Shyam', text: 'So what landed there first?', section: 'clarification' },
+    { index: 5, speaker: 'Nishi', text: 'Apollo 11 landed astronauts on the Moon in 1969.', section: 'clarification' },
+    { index: 6, speaker: 'Shyam', text: 'Shyam thinks the Moon has enormous purple oceans full of fish.', section: 'qna' },
+    { index: 7, speaker: 'Nishi', text: 'It orbits Earth at an average distance of 384,400 km.', section: 'qna' },
+    { index: 8, speaker: 'Shyam', text: 'Thanks for listening, see you next time!', section: 'signoff' },
+  ];
+
+  /** A script that passes validation: 16 lines, every classic section within its range */
+  const createFullLines = (): ScriptLine[] => [
+    { index: 1, speaker: 'Nishi', text: "Welcome to Wiki Minutes, I'm Nishi!", section: 'greeting' },
+    { index: 2, speaker: 'Shyam', text: "And I'm Shyam. Today we are talking about the Moon.", section: 'greeting' },
+    { index: 3, speaker: 'Shyam', text: 'The Moon formed about 4.51 billion years ago, shortly after Earth.', section: 'explanation' },
+    { index: 4, speaker: 'Nishi', text: 'The Moon is made of green cheese, according to ancient astronomers.', section: 'explanation' },
+    { index: 5, speaker: 'Shyam', text: "The Moon is Earth's only natural satellite.", section: 'explanation' },
+    { index: 6, speaker: 'Nishi', text: 'It orbits Earth at an average distance of 384,400 km.', section: 'explanation' },
+    { index: 7, speaker: 'Shyam', text: 'So what landed there first?', section: 'clarification' },
+    { index: 8, speaker: 'Nishi', text: 'Apollo 11 landed astronauts on the Moon in 1969.', section: 'clarification' },
+    { index: 9, speaker: 'Shyam', text: 'Astronauts landed on the Moon in 1969 with Apollo 11.', section: 'clarification' },
+    { index: 10, speaker: 'Nishi', text: 'Was the Moon there when Earth was young?', section: 'qna' },
+    { index: 11, speaker: 'Shyam', text: 'Shyam thinks the Moon has enormous purple oceans full of fish.', section: 'qna' },
+    { index: 12, speaker: 'Nishi', text: 'The Moon formed about 4.51 billion years ago.', section: 'qna' },
+    { index: 13, speaker: 'Shyam', text: 'It orbits at an average distance of 384,400 km.', section: 'qna' },
+    { index: 14, speaker: 'Nishi', text: "Earth's only natural satellite is the Moon.", section: 'qna' },
+    { index: 15, speaker: 'Shyam', text: 'Thanks for listening!', section: 'signoff' },
+    { index: 16, speaker: 'Nishi', text: 'See you next time!', section: 'signoff' },
+  ];
+
+  const createScript = (lines: ScriptLine[] = createLines()): Script => ({
+    id: 'moon_20250101_120000',
+    articleTitle: 'Moon',
+    articleUrl: article.url,
+    articles: [{ title: 'Moon', url: article.url, language: 'en' }],
+    lines,
+    sections: {},
+    totalWords: 0,
+    estimatedDuration: 0,
+    generatedAt: '2025-01-01T00:00:00Z',
+    provider: 'xai',
+    model: 'grok-3',
+    generationParams: { temperature: 0, maxTokens: 4096, promptVersion: '1.7.0' },
+    attempts: [],
+    language: 'en',
+  });
+
+  const reply = (content: string) => ({
+    ok: true,
+    json: async () => ({ model: 'grok-3-judge', choices: [{ message: { content } }] }),
+  });
+
+  /** Gets the user prompt of the nth LLM request */
+  const promptOf = (call: number): string =>
+    JSON.parse(mockFetch.mock.calls[call][1].body).messages[1].content;
+
+  const useConfig = (overrides: Record<string, unknown>) => {
+    (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, ...overrides });
+  };
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    jest.clearAllMocks();
+    useConfig({ factCheck: 'lexical', factCheckPolicy: 'flag' });
+  });
+
+  afterAll(() => {
+    (getConfig as jest.Mock).mockReturnValue(baseConfig);
+  });
+
+  describe('lexical check', () => {
+    test('returns the script unchanged when the check is off', async () => {
+      useConfig({ factCheck: 'off' });
+      const script = createScript();
+
+      expect(await checkScriptFacts(script, [article])).toBe(script);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('gives each line a verdict by word overlap', async () => {
+      const checked = await checkScriptFacts(createScript(), [article]);
+
+      expect(checked.lines.map(line => line.grounding!.verdict)).toEqual([
+        'no_claims',
+        'supported',
+        'unsupported',
+        'no_claims',
+        'supported',
+        'unsupported',
+        'supported',
+        'no_claims',
+      ]);
+      expect(checked.lines[1].grounding!.overlap).toBe(1);
+      expect(checked.lines[2].grounding!.overlap).toBeLessThan(0.5);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('records the supporting passages with their offsets in the cleaned text', async () => {
+      const checked = await checkScriptFacts(createScript(), [article]);
+
+      const [best] = checked.lines[4].grounding!.passages;
+      expect(best).toEqual({
+        article: 1,
+        start: articleText.indexOf('Apollo'),
+        end: articleText.length,
+        text: 'Apollo 11 landed astronauts on the Moon in 1969.',
+      });
+      for (const passage of checked.lines.flatMap(line => line.grounding!.passages)) {
+        expect(articleText.slice(passage.start, passage.end)).toBe(passage.text);
+        expect(passage.text.startsWith('#')).toBe(false);
+      }
+      expect(checked.lines[4].grounding!.passages.length).toBeLessThanOrEqual(3);
+    });
+
+    test('honours the minimum overlap', async () => {
+      useConfig({ factCheck: 'lexical', factCheckMinOverlap: 0.1 });
+
+      const checked = await checkScriptFacts(createScript(), [article]);
+
+      expect(checked.lines[2].grounding!.verdict).toBe('supported');
+      expect(checked.grounding!.minOverlap).toBe(0.1);
+    });
+
+    test('matches lines only against the articles they cite', async () => {
+      const otherArticle = { ...article, title: 'Sun', cleanedText: 'The Sun is a star at the centre of the Solar System.' };
+      const script = createScript([
+        { ...createLines()[1], sourceArticles: [2] },
+        { ...createLines()[4], sourceArticles: [1] },
+      ]);
+
+      const checked = await checkScriptFacts(script, [article, otherArticle]);
+
+      expect(checked.lines[0].grounding!.verdict).toBe('unsupported');
+      expect(checked.lines[1].grounding!.passages.every(passage => passage.article === 1)).toBe(true);
+    });
+
+    test('summarizes the verdicts', async () => {
+      const checked = await checkScriptFacts(createScript(), [article]);
+
+      expect(checked.grounding).toMatchObject({
+        mode: 'lexical',
+        policy: 'flag',
+        minOverlap: 0.5,
+        supportedLines: 3,
+        unsupportedLines: 2,
+        noClaimLines: 3,
+        rewrittenLines: 0,
+        droppedLines: [],
+      });
+      expect(checked.grounding!.checkedAt).toBeDefined();
+      expect(checked.lines).toHaveLength(8);
+    });
+  });
+
+  describe('judge', () => {
+    beforeEach(() => {
+      useConfig({ factCheck: 'judge', factCheckPolicy: 'flag' });
+    });
+
+    test('lets the judge decide, keeping the passages found by overlap', async () => {
+      mockFetch.mockResolvedValueOnce(reply(JSON.stringify({
+        lines: [
+          { index: 3, verdict: 'no_claims', reason: 'A joke, not a claim' },
+          { index: 7, verdict: 'unsupported', reason: 'The distance is rounded differently' },
+        ],
+      })));
+
+      const checked = await checkScriptFacts(createScript(), [article]);
+
+      expect(checked.lines[2].grounding).toMatchObject({ verdict: 'no_claims', reason: 'A joke, not a claim' });
+      expect(checked.lines[6].grounding!.verdict).toBe('unsupported');
+      expect(checked.lines[6].grounding!.passages.length).toBeGreaterThan(0);
+      // Lines the judge skipped keep their lexical verdict
+      expect(checked.lines[5].grounding!.verdict).toBe('unsupported');
+      expect(checked.grounding!.judgeModel).toBe('grok-3-judge');
+    });
+
+    test('sends the article and every line with its closest passages', async () => {
+      mockFetch.mockResolvedValueOnce(reply('{"lines": []}'));
+
+      await checkScriptFacts(createScript(), [article]);
+
+      const prompt = promptOf(0);
+      expect(prompt).toContain('The Moon formed about 4.51 billion years ago');
+      expect(prompt).toContain('[5] Nishi (clarification): Apollo 11 landed astronauts on the Moon in 1969.');
+      expect(prompt).toContain('  - "Apollo 11 landed astronauts on the Moon in 1969."');
+      expect(prompt).toContain('Give a verdict for each of the 8 line(s) above');
+    });
+
+    test('falls back to word overlap when the judge fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetch.mockResolvedValueOnce(reply('not json'));
+
+      const checked = await checkScriptFacts(createScript(), [article]);
+
+      expect(checked.lines[2].grounding!.verdict).toBe('unsupported');
+      expect(checked.grounding!.judgeError).toMatch(/Failed to parse Grok response as JSON/);
+      expect(checked.grounding!.judgeModel).toBeUndefined();
+      expect(setCachedJson).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    test('caches the verdicts with the lines they judged', async () => {
+      mockFetch.mockResolvedValueOnce(reply(JSON.stringify({
+        lines: [{ index: 3, verdict: 'no_claims', reason: 'A joke, not a claim' }],
+      })));
+
+      const checked = await checkScriptFacts(createScript(), [article]);
+
+      expect(setCachedJson).toHaveBeenCalledWith('scripts', undefined, {
+        lines: checked.lines,
+        grounding: checked.grounding,
+      });
+    });
+
+    test('reuses cached verdicts without calling the judge', async () => {
+      const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+      const lines = createLines().map(line => ({
+        ...line,
+        grounding: { verdict: 'no_claims' as const, passages: [], reason: 'Cached' },
+      }));
+      (getCachedJson as jest.Mock).mockResolvedValueOnce({
+        lines,
+        grounding: { mode: 'judge', policy: 'flag', judgeModel: 'grok-3-judge', noClaimLines: 8 },
+      });
+
+      const checked = await checkScriptFacts(createScript(), [article]);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(getCachedJson).toHaveBeenCalledWith('scripts', undefined);
+      expect(checked.lines[2].grounding!.reason).toBe('Cached');
+      expect(checked.grounding).toMatchObject({ judgeModel: 'grok-3-judge', fromCache: true });
+      log.mockRestore();
+    });
+  });
+
+  describe('policies', () => {
+    const unsupportedTexts = [createFullLines()[3].text, createFullLines()[10].text];
+
+    beforeEach(() => {
+      useConfig({ factCheck: 'lexical', factCheckPolicy: 'drop' });
+    });
+
+    test('drop removes unsupported lines and renumbers the script', async () => {
+      const checked = await checkScriptFacts(createScript(createFullLines()), [article]);
+
+      expect(checked.lines.map(line => line.index)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14]);
+      expect(checked.lines.some(line => line.text.includes('green cheese'))).toBe(false);
+      expect(checked.sections).toEqual({
+        greeting: [1, 2],
+        explanation: [3, 4, 5],
+        clarification: [6, 7, 8],
+        qna: [9, 10, 11, 12],
+        signoff: [13, 14],
+      });
+      expect(checked.totalWords).toBe(checked.lines.reduce((sum, line) => sum + line.text.split(/\s+/).length, 0));
+      expect(checked.grounding!.droppedLines).toEqual([
+        { speaker: 'Nishi', section: 'explanation', text: unsupportedTexts[0] },
+        { speaker: 'Shyam', section: 'qna', text: unsupportedTexts[1] },
+      ]);
+      expect(checked.grounding!.unsupportedLines).toBe(0);
+    });
+
+    test('drop keeps a line its section needs to stay within its range', async () => {
+      const lines = createFullLines().filter(line => line.index !== 14);
+
+      const checked = await checkScriptFacts(createScript(lines), [article]);
+
+      expect(checked.sections.qna).toHaveLength(4);
+      expect(checked.lines.find(line => line.text === unsupportedTexts[1])!.grounding!.verdict).toBe('unsupported');
+      expect(checked.grounding!.droppedLines.map(line => line.text)).toEqual([unsupportedTexts[0]]);
+      expect(checked.grounding!.unsupportedLines).toBe(1);
+    });
+
+    test('drop keeps at least 10 lines', async () => {
+      // Long-form scripts skip the section ranges, leaving the line minimum
+      const lines = createFullLines().filter(line => [1, 2, 3, 4, 7, 8, 10, 12, 15, 16].includes(line.index));
+      const script = { ...createScript(lines), outline: [{ title: 'Moon', points: [], sections: ['greeting' as const] }] };
+
+      const checked = await checkScriptFacts(script, [article]);
+
+      expect(checked.lines).toHaveLength(10);
+      expect(checked.grounding!.droppedLines).toEqual([]);
+    });
+
+    test('drop keeps the last line left in a section', async () => {
+      const lines = createFullLines().filter(line => line.section !== 'qna' || line.index === 11);
+      const script = { ...createScript(lines), outline: [{ title: 'Moon', points: [], sections: ['greeting' as const] }] };
+
+      const checked = await checkScriptFacts(script, [article]);
+
+      expect(checked.sections.qna).toHaveLength(1);
+      expect(checked.grounding!.droppedLines.map(line => line.text)).toEqual([unsupportedTexts[0]]);
+    });
+
+    test('drop keeps the only line of a host', async () => {
+      const ada = { id: 'ada', name: 'Ada', persona: 'A historian', role: 'skeptic' as const, voices: {} };
+      const lines = createFullLines().map(line => line.index === 11 ? { ...line, speaker: 'Ada' } : line);
+      const script = { ...createScript(lines), hosts: [...getDefaultHosts(), ada] };
+
+      const checked = await checkScriptFacts(script, [article]);
+
+      expect(checked.lines.some(line => line.speaker === 'Ada')).toBe(true);
+      expect(checked.grounding!.droppedLines.map(line => line.text)).toEqual([unsupportedTexts[0]]);
+    });
+
+    test('drop keeps the script within the requested word range', async () => {
+      const lines = createFullLines();
+      const words = lines.reduce((sum, line) => sum + line.text.split(/\s+/).length, 0);
+      const { minWords } = getEpisodeLength(2);
+      // Greetings make no claims, so padding one brings the script to its minimum length
+      lines[1] = { ...lines[1], text: `${lines[1].text}${' Namaste!'.repeat(minWords - words)}` };
+
+      const checked = await checkScriptFacts({ ...createScript(lines), targetMinutes: 2 }, [article]);
+
+      expect(checked.totalWords).toBe(minWords);
+      expect(checked.grounding!.droppedLines).toEqual([]);
+      expect(checked.grounding!.unsupportedLines).toBe(2);
+    });
+
+    test('regenerate rewrites unsupported lines and drops rewrites that are still unsupported', async () => {
+      useConfig({ factCheck: 'lexical', factCheckPolicy: 'regenerate' });
+      mockFetch.mockResolvedValueOnce(reply(JSON.stringify({
+        lines: [
+          { index: 4, text: 'Scientists think the Moon formed about 4.51 billion years ago.' },
+          { index: 11, text: 'The Moon hides enormous purple oceans.' },
+        ],
+      })));
+
+      const checked = await checkScriptFacts(createScript(createFullLines()), [article]);
+
+      const rewritten = checked.lines.find(line => line.grounding!.rewritten)!;
+      expect(rewritten).toMatchObject({
+        index: 4,
+        speaker: 'Nishi',
+        section: 'explanation',
+        text: 'Scientists think the Moon formed about 4.51 billion years ago.',
+      });
+      expect(rewritten.grounding!.verdict).toBe('supported');
+      expect(checked.grounding).toMatchObject({ rewrittenLines: 1, unsupportedLines: 0 });
+      expect(checked.grounding!.droppedLines.map(line => line.text)).toEqual([unsupportedTexts[1]]);
+
+      const prompt = promptOf(0);
+      expect(prompt).toContain('Lines to rewrite:');
+      expect(prompt).toContain('[11] Shyam (qna):');
+      expect(prompt).not.toContain('[3] Shyam');
+    });
+
+    test('regenerate drops the lines when the rewrite fails', async () => {
+      useConfig({ factCheck: 'lexical', factCheckPolicy: 'regenerate' });
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetch.mockRejectedValueOnce(new Error('socket hang up'));
+
+      const checked = await checkScriptFacts(createScript(createFullLines()), [article]);
+
+      expect(checked.grounding!.rewriteError).toBe('socket hang up');
+      expect(checked.grounding!.droppedLines).toHaveLength(2);
+      expect(checked.lines).toHaveLength(14);
+      warn.mockRestore();
+    });
+
+    test('regenerate asks the judge about the rewrites', async () => {
+      useConfig({ factCheck: 'judge', factCheckPolicy: 'regenerate' });
+      mockFetch
+        .mockResolvedValueOnce(reply(JSON.stringify({
+          lines: [{ index: 13, verdict: 'unsupported', reason: 'Wrong distance' }],
+        })))
+        .mockResolvedValueOnce(reply(JSON.stringify({
+          lines: [
+            { index: 4, text: 'Some say it is cheese.' },
+            { index: 11, text: 'Nobody has seen its oceans.' },
+            { index: 13, text: 'It orbits Earth at an average distance of 384,400 km.' },
+          ],
+        })))
+        .mockResolvedValueOnce(reply(JSON.stringify({
+          lines: [
+            { index: 4, verdict: 'unsupported', reason: 'Still about cheese' },
+            { index: 11, verdict: 'no_claims', reason: 'No claim left' },
+            { index: 13, verdict: 'supported', reason: 'Matches the article' },
+          ],
+        })));
+
+      const checked = await checkScriptFacts(createScript(createFullLines()), [article]);
+
+      expect(promptOf(1)).toContain('Problem: Wrong distance');
+      expect(promptOf(2)).toContain('Lines to check:');
+      expect(checked.grounding).toMatchObject({ rewrittenLines: 2, supportedLines: 8, noClaimLines: 7 });
+      expect(checked.grounding!.droppedLines).toEqual([
+        { speaker: 'Nishi', section: 'explanation', text: unsupportedTexts[0] },
+      ]);
+    });
+  });
+});
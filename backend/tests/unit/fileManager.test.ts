@@ -10,8 +10,10 @@ import {
   getTimestampFromId,
   ensureOutputDirs,
   getScriptPath,
+  getScriptRevisionsDir,
   getAudioPath,
   getSegmentsDir,
+  getLexiconPath,
   getSegmentPath,
   getMetadataPath,
   saveJson,
@@ -25,6 +27,7 @@ import {
   saveBinary,
   createSegmentsDir,
   cleanupSegments,
+  deletePodcastFiles,
   listPodcasts,
   checkOutputDir,
 } from '../../src/utils/fileManager.js';
@@ -318,6 +321,7 @@ describe('File Manager Utility', () => {
       totalWords: 100,
       estimatedDuration: 120,
       generatedAt: '2025-01-01T00:00:00Z',
+      provider: 'xai' as const,
       model: 'grok-3',
       generationParams: { temperature: 0, maxTokens: 4096, promptVersion: '1.0.0' },
     };
@@ -368,7 +372,7 @@ describe('File Manager Utility', () => {
     const mockMetadata: GenerationMetadata = {
       id: 'test_id',
       source: { title: 'Test', url: 'https://test.com', fetchedAt: '2025-01-01T00:00:00Z' },
-      script: { id: 'test', generatedAt: '2025-01-01T00:00:00Z', model: 'grok-3', promptVersion: '1.0.0', temperature: 0 },
+      script: { id: 'test', generatedAt: '2025-01-01T00:00:00Z', provider: 'xai' as const, model: 'grok-3', promptVersion: '1.0.0', temperature: 0 },
       audio: { id: 'test', createdAt: '2025-01-01T00:00:00Z', durationSeconds: 120, voiceMapping: {} },
       pipeline: { version: '1.0.0', startedAt: '2025-01-01T00:00:00Z', completedAt: '2025-01-01T00:00:00Z', stages: [] },
       artifacts: { scriptPath: '/scripts/test.json', audioPath: '/audio/test.mp3', metadataPath: '/metadata/test.json' },
@@ -450,6 +454,59 @@ describe('File Manager Utility', () => {
     });
   });
 
+  describe('deletePodcastFiles', () => {
+    beforeEach(() => {
+      fs.mkdir = jest.fn().mockResolvedValue(undefined);
+      fs.rm = jest.fn().mockResolvedValue(undefined);
+    });
+
+    test('stages all artifacts then removes the staging directory', async () => {
+      fs.rename = jest.fn().mockResolvedValue(undefined);
+
+      await deletePodcastFiles('test_id');
+
+      const sources = fs.rename.mock.calls.map((call: string[]) => call[0]);
+      expect(sources).toEqual([
+        getMetadataPath('test_id'),
+        getScriptPath('test_id'),
+        getScriptRevisionsDir('test_id'),
+        getAudioPath('test_id'),
+        getSegmentsDir('test_id'),
+        getLexiconPath('test_id'),
+      ]);
+      expect(fs.rename.mock.calls[0][1]).toContain('.trash');
+      expect(fs.rm).toHaveBeenCalledWith(
+        expect.stringContaining('.trash'),
+        { recursive: true, force: true }
+      );
+    });
+
+    test('skips missing artifacts', async () => {
+      fs.rename = jest.fn()
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(Object.assign(new Error('ENOENT'), { code: 'ENOENT' }))
+        .mockResolvedValue(undefined);
+
+      await expect(deletePodcastFiles('test_id')).resolves.toBeUndefined();
+      expect(fs.rename).toHaveBeenCalledTimes(6);
+    });
+
+    test('restores moved artifacts when a move fails', async () => {
+      fs.rename = jest.fn()
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(Object.assign(new Error('EBUSY'), { code: 'EBUSY' }))
+        .mockResolvedValue(undefined);
+
+      await expect(deletePodcastFiles('test_id')).rejects.toThrow('EBUSY');
+
+      // Two moves forward, the failed one, then two moves back in reverse order
+      expect(fs.rename).toHaveBeenCalledTimes(5);
+      expect(fs.rename.mock.calls[3][1]).toBe(getScriptPath('test_id'));
+      expect(fs.rename.mock.calls[4][1]).toBe(getMetadataPath('test_id'));
+    });
+  });
+
   describe('listPodcasts', () => {
     test('returns list of podcast IDs', async () => {
       fs.readdir = jest.fn().mockResolvedValue([
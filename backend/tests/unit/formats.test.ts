@@ -0,0 +1,59 @@
+/**
+ * Unit Tests for Show Formats
+ *
+ * Tests that the built-in templates are well-formed and resolving formats by ID
+ */
+
+import { BUILT_IN_FORMATS, getDefaultFormat, resolveFormat } from '../../src/config/formats.js';
+import { InvalidInputError } from '../../src/utils/errors.js';
+
+describe('Show Formats', () => {
+  describe.each(BUILT_IN_FORMATS.map(format => [format.id, format]))('%s', (_, format) => {
+    test('has a semantic version', () => {
+      expect(format.version).toMatch(/^\d+\.\d+\.\d+$/);
+    });
+
+    test('has uniquely named sections of lowercase letters and hyphens', () => {
+      const ids = format.sections.map(section => section.id);
+
+      expect(new Set(ids).size).toBe(ids.length);
+      ids.forEach(id => expect(id).toMatch(/^[a-z]+(-[a-z]+)*$/));
+    });
+
+    test('opens and closes with required sections', () => {
+      expect(format.sections[0].optional).toBeFalsy();
+      expect(format.sections[format.sections.length - 1].optional).toBeFalsy();
+    });
+
+    test('has valid line ranges adding up to at least 10 lines', () => {
+      format.sections.forEach(({ lines }) => {
+        expect(lines.min).toBeGreaterThanOrEqual(1);
+        expect(lines.max).toBeGreaterThanOrEqual(lines.min);
+      });
+
+      const minLines = format.sections
+        .filter(section => !section.optional)
+        .reduce((sum, section) => sum + section.lines.min, 0);
+      expect(minLines).toBeGreaterThanOrEqual(10);
+    });
+
+    test('only uses known host placeholders', () => {
+      format.sections.forEach(section => {
+        const placeholders = `${section.description} ${section.narration ?? ''}`.match(/\{[a-z]+\}/g) ?? [];
+        placeholders.forEach(placeholder => expect(['{hosts}', '{explainers}', '{askers}']).toContain(placeholder));
+      });
+    });
+  });
+
+  describe('resolveFormat', () => {
+    test('defaults to classic', () => {
+      expect(resolveFormat()).toBe(getDefaultFormat());
+      expect(getDefaultFormat().id).toBe('classic');
+    });
+
+    test('rejects unknown formats', () => {
+      expect(() => resolveFormat('sitcom')).toThrow(InvalidInputError);
+      expect(() => resolveFormat('sitcom')).toThrow('Unknown format "sitcom"');
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Unit Tests for Host Roster Service
+ *
+ * Tests built-in and stored host profiles and resolving an episode's roster
+ */
+
+import {
+  listHosts,
+  getHost,
+  saveHost,
+  deleteHost,
+  isBuiltInHost,
+  resolveHosts,
+} from '../../src/services/hosts.js';
+import { getConfig } from '../../src/config/env.js';
+import { InvalidInputError } from '../../src/utils/errors.js';
+import type { HostProfile } from '../../src/types/index.js';
+
+describe('Host Roster Service', () => {
+  const baseConfig = (getConfig as jest.Mock)();
+  const fs = require('fs/promises');
+  const originalFs = { ...fs };
+  const hostsDir = '/tmp/test-hosts';
+
+  // In-memory filesystem: path -> contents; null until the hosts directory is created
+  let files: Map<string, string> | null;
+
+  const missing = () => Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+
+  /**
+   * Adds a profile file directly
+   */
+  function addFile(name: string, data: string) {
+    files = files ?? new Map();
+    files.set(`${hostsDir}/${name}`, data);
+  }
+
+  const ada: HostProfile = {
+    id: 'ada',
+    name: 'Ada',
+    persona: 'A mathematician who loves a good tangent',
+    role: 'expert',
+    voices: { openai: 'shimmer' },
+  };
+
+  beforeEach(() => {
+    files = new Map();
+
+    fs.mkdir = jest.fn(async () => {
+      files = files ?? new Map();
+    });
+    fs.writeFile = jest.fn(async (filePath: string, data: string) => {
+      if (!files) throw missing();
+      files.set(filePath, data);
+    });
+    fs.readFile = jest.fn(async (filePath: string) => {
+      if (!files?.has(filePath)) throw missing();
+      return files.get(filePath);
+    });
+    fs.readdir = jest.fn(async (dir: string) => {
+      if (!files) throw missing();
+      return [...files.keys()]
+        .filter(filePath => filePath.startsWith(`${dir}/`))
+        .map(filePath => filePath.slice(dir.length + 1));
+    });
+    fs.unlink = jest.fn(async (filePath: string) => {
+      if (!files?.delete(filePath)) throw missing();
+    });
+  });
+
+  afterAll(() => {
+    Object.assign(fs, originalFs);
+    (getConfig as jest.Mock).mockReturnValue(baseConfig);
+  });
+
+  describe('listHosts', () => {
+    test('lists the built-in hosts when none are stored', async () => {
+      const hosts = await listHosts();
+
+      expect(hosts.map(host => host.id)).toEqual(['nishi', 'shyam']);
+      expect(hosts[0]).toMatchObject({ name: 'Nishi', role: 'interviewer' });
+    });
+
+    test('works before the hosts directory exists', async () => {
+      files = null;
+
+      expect(await listHosts()).toHaveLength(2);
+    });
+
+    test('includes stored hosts, ordered by ID', async () => {
+      await saveHost(ada);
+
+      expect((await listHosts()).map(host => host.id)).toEqual(['ada', 'nishi', 'shyam']);
+    });
+
+    test('lets a stored profile replace a built-in host', async () => {
+      await saveHost({ id: 'nishi', name: 'Nishi', persona: 'A dry-witted skeptic', role: 'skeptic', voices: {} });
+
+      const hosts = await listHosts();
+
+      expect(hosts).toHaveLength(2);
+      expect(hosts[0]).toMatchObject({ id: 'nishi', role: 'skeptic' });
+    });
+
+    test('skips invalid profile files', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      addFile('broken.json', '{ not json');
+      addFile('nameless.json', JSON.stringify({ persona: 'x', role: 'expert' }));
+
+      expect((await listHosts()).map(host => host.id)).toEqual(['nishi', 'shyam']);
+      expect(warn).toHaveBeenCalledTimes(2);
+      warn.mockRestore();
+    });
+  });
+
+  describe('saveHost and deleteHost', () => {
+    test('stores a profile as JSON named after its ID', async () => {
+      await saveHost(ada);
+
+      const stored = JSON.parse(files!.get(`${hostsDir}/ada.json`)!);
+      expect(stored).toEqual(ada);
+      expect(await getHost('ada')).toEqual(ada);
+    });
+
+    test('deletes stored profiles', async () => {
+      await saveHost(ada);
+
+      expect(await deleteHost('ada')).toBe(true);
+      expect(await getHost('ada')).toBeNull();
+      expect(await deleteHost('ada')).toBe(false);
+    });
+
+    test('restores a built-in host when its override is deleted', async () => {
+      await saveHost({ ...ada, id: 'shyam', name: 'Shyam' });
+      await deleteHost('shyam');
+
+      expect(await getHost('shyam')).toMatchObject({ role: 'expert', voices: { openai: 'onyx' } });
+      expect(isBuiltInHost('shyam')).toBe(true);
+      expect(isBuiltInHost('ada')).toBe(false);
+    });
+  });
+
+  describe('resolveHosts', () => {
+    test('defaults to Nishi and Shyam', async () => {
+      expect((await resolveHosts()).map(host => host.name)).toEqual(['Nishi', 'Shyam']);
+    });
+
+    test('keeps the requested order', async () => {
+      await saveHost(ada);
+
+      expect((await resolveHosts(['shyam', 'ada'])).map(host => host.name)).toEqual(['Shyam', 'Ada']);
+    });
+
+    test('rejects unknown hosts and lists the available ones', async () => {
+      const error = await resolveHosts(['nishi', 'zed']).catch(e => e);
+
+      expect(error).toBeInstanceOf(InvalidInputError);
+      expect(error.message).toBe('Unknown host "zed"');
+      expect(error.details).toEqual({ host: 'zed', available: ['nishi', 'shyam'] });
+    });
+
+    test('rejects hosts that share a name', async () => {
+      await saveHost({ ...ada, id: 'nishi-2', name: 'NISHI' });
+
+      await expect(resolveHosts(['nishi', 'nishi-2']))
+        .rejects
+        .toThrow('Hosts "nishi" and "nishi-2" are both called NISHI');
+    });
+  });
+});
@@ -0,0 +1,453 @@
+/**
+ * Unit Tests for Job Queue Service
+ *
+ * Tests background job submission, status tracking and concurrency limits
+ */
+
+import {
+  submitJob,
+  resumeJob,
+  canResumeJob,
+  getJob,
+  getQueuePosition,
+  subscribeToJob,
+  isJobFinished,
+  toPodcastResponse,
+  toScriptResponse,
+} from '../../src/services/jobQueue.js';
+import { generatePodcast, resumePodcast } from '../../src/services/podcastOrchestrator.js';
+import { isEditInProgress, withEditLock } from '../../src/services/scriptEditor.js';
+import { saveJson } from '../../src/utils/fileManager.js';
+import { GenerationFailedError } from '../../src/utils/errors.js';
+import type { PodcastJob } from '../../src/types/index.js';
+
+jest.mock('../../src/services/podcastOrchestrator.js', () => ({
+  generatePodcast: jest.fn(),
+  resumePodcast: jest.fn(),
+  getPipelineStageNames: jest.requireActual('../../src/services/podcastOrchestrator.js').getPipelineStageNames,
+}));
+
+// In-memory file store so job persistence does not depend on the real filesystem
+jest.mock('../../src/utils/fileManager.js', () => {
+  const files = new Map<string, string>();
+  return {
+    getJobPath: (id: string) => `/output/jobs/${id}.json`,
+    getJobsDir: () => '/output/jobs',
+    getCheckpointPath: (id: string) => `/output/checkpoints/${id}.json`,
+    saveJson: async (filePath: string, data: unknown) => {
+      files.set(filePath, JSON.stringify(data));
+    },
+    loadJson: async (filePath: string) => JSON.parse(files.get(filePath) as string),
+    fileExists: async (filePath: string) => files.has(filePath),
+  };
+});
+
+describe('Job Queue Service', () => {
+  const mockPodcast = {
+    id: 'test_article_20250101_120000',
+    scriptId: 'test_article_20250101_120000',
+    articles: [
+      { title: 'Test Article', url: 'https://en.wikipedia.org/wiki/Test_Article', language: 'en' },
+    ],
+    audioFilePath: '/tmp/test.mp3',
+    durationSeconds: 150,
+    fileSizeBytes: 2000000,
+    audioSpec: {
+      format: 'mp3' as const,
+      bitrate: '128k' as const,
+      sampleRate: 44100 as const,
+      channels: 1 as const,
+      preset: 'plain',
+    },
+    voiceMapping: {
+      provider: 'elevenlabs' as const,
+      Nishi: 'voice-id-1',
+      Shyam: 'voice-id-2',
+    },
+    createdAt: '2025-01-01T12:00:00Z',
+    pipelineVersion: '1.0.0',
+  };
+
+  /**
+   * Resolves once the job reaches a finished state
+   */
+  function waitForJob(jobId: string): Promise<PodcastJob> {
+    return new Promise((resolve) => {
+      const unsubscribe = subscribeToJob(jobId, (job) => {
+        if (isJobFinished(job)) {
+          unsubscribe();
+          resolve(job);
+        }
+      });
+    });
+  }
+
+  /**
+   * Polls until the condition holds (job state is persisted asynchronously)
+   */
+  async function waitUntil(condition: () => boolean): Promise<void> {
+    for (let i = 0; i < 200 && !condition(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('toPodcastResponse', () => {
+    test('builds API response from podcast', () => {
+      const response = toPodcastResponse(mockPodcast);
+
+      expect(response).toEqual({
+        id: mockPodcast.id,
+        audioUrl: `/api/podcast/${mockPodcast.id}/audio`,
+        scriptUrl: `/api/podcast/${mockPodcast.id}/script`,
+        durationSeconds: 150,
+        article: {
+          title: 'Test Article',
+          url: 'https://en.wikipedia.org/wiki/Test_Article',
+        },
+        articles: [
+          { title: 'Test Article', url: 'https://en.wikipedia.org/wiki/Test_Article' },
+        ],
+        speakers: ['Nishi', 'Shyam'],
+        createdAt: mockPodcast.createdAt,
+      });
+    });
+  });
+
+  describe('toScriptResponse', () => {
+    test('links to the script and to voicing it', () => {
+      const script = {
+        id: mockPodcast.id,
+        articles: mockPodcast.articles,
+        lines: [{ index: 1 }, { index: 2 }],
+        estimatedDuration: 140,
+        generatedAt: '2025-01-01T12:00:00Z',
+      } as any;
+
+      expect(toScriptResponse(script)).toEqual({
+        id: mockPodcast.id,
+        scriptUrl: `/api/podcast/${mockPodcast.id}/script`,
+        synthesizeUrl: `/api/podcast/${mockPodcast.id}/synthesize`,
+        articles: [
+          { title: 'Test Article', url: 'https://en.wikipedia.org/wiki/Test_Article' },
+        ],
+        lineCount: 2,
+        estimatedDuration: 140,
+        createdAt: '2025-01-01T12:00:00Z',
+      });
+    });
+
+    test('lists the article of a script saved before it listed its articles', () => {
+      const script = {
+        id: mockPodcast.id,
+        articleTitle: 'Test Article',
+        articleUrl: 'https://en.wikipedia.org/wiki/Test_Article',
+        lines: [{ index: 1 }],
+        estimatedDuration: 70,
+        generatedAt: '2025-01-01T12:00:00Z',
+      } as any;
+
+      expect(toScriptResponse(script).articles).toEqual([
+        { title: 'Test Article', url: 'https://en.wikipedia.org/wiki/Test_Article' },
+      ]);
+    });
+  });
+
+  describe('submitJob', () => {
+    test('returns a queued job immediately', async () => {
+      let resolvePodcast: (value: typeof mockPodcast) => void = () => {};
+      (generatePodcast as jest.Mock).mockReturnValue(
+        new Promise(resolve => { resolvePodcast = resolve; })
+      );
+
+      const job = await submitJob({ input: 'Test Article', type: 'title' });
+      const finished = waitForJob(job.id);
+
+      expect(job.id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(job.request).toEqual({ input: 'Test Article', type: 'title' });
+      expect(job.stages.map(s => s.name)).toEqual([
+        'fetch',
+        'generate_script',
+        'synthesize_audio',
+        'stitch_audio',
+      ]);
+
+      resolvePodcast(mockPodcast);
+      await finished;
+    });
+
+    test('records result when generation completes', async () => {
+      (generatePodcast as jest.Mock).mockResolvedValue(mockPodcast);
+
+      const job = await submitJob({ input: 'Test Article', type: 'title' });
+      const finished = await waitForJob(job.id);
+
+      expect(finished.status).toBe('completed');
+      expect(finished.result?.id).toBe(mockPodcast.id);
+      expect(finished.completedAt).toBeDefined();
+      expect(generatePodcast).toHaveBeenCalledWith(
+        'Test Article',
+        'title',
+        expect.any(Function),
+        { checkpointId: job.id }
+      );
+    });
+
+    test('only voices and stitches a hand-written script', async () => {
+      (generatePodcast as jest.Mock).mockResolvedValue(mockPodcast);
+      const script = { id: mockPodcast.id, author: 'human' } as any;
+
+      const job = await submitJob({ input: mockPodcast.articles[0].url, type: 'url', script });
+      await waitForJob(job.id);
+
+      expect(job.stages.map(s => s.name)).toEqual(['synthesize_audio', 'stitch_audio']);
+      expect(generatePodcast).toHaveBeenCalledWith(
+        mockPodcast.articles[0].url,
+        'url',
+        expect.any(Function),
+        { checkpointId: job.id, script }
+      );
+    });
+
+    test('holds the edit lock while voicing a stored script', async () => {
+      let lockedWhileRunning = false;
+      (generatePodcast as jest.Mock).mockImplementation(async () => {
+        lockedWhileRunning = isEditInProgress(mockPodcast.id);
+        return mockPodcast;
+      });
+      const script = { id: mockPodcast.id } as any;
+
+      const job = await submitJob({ input: mockPodcast.articles[0].url, type: 'url', script });
+      const finished = await waitForJob(job.id);
+
+      expect(finished.status).toBe('completed');
+      expect(lockedWhileRunning).toBe(true);
+      expect(isEditInProgress(mockPodcast.id)).toBe(false);
+    });
+
+    test('fails to voice a script while it is being edited', async () => {
+      let finishEdit!: () => void;
+      const edit = withEditLock(mockPodcast.id, () => new Promise<void>(resolve => { finishEdit = resolve; }));
+      const script = { id: mockPodcast.id } as any;
+
+      const job = await submitJob({ input: mockPodcast.articles[0].url, type: 'url', script });
+      const finished = await waitForJob(job.id);
+      finishEdit();
+      await edit;
+
+      expect(finished.status).toBe('failed');
+      expect(finished.error?.message).toContain('is already being edited or voiced');
+      expect(generatePodcast).not.toHaveBeenCalled();
+    });
+
+    test('stops after the script when asked to', async () => {
+      const script = {
+        id: mockPodcast.id,
+        articles: mockPodcast.articles,
+        lines: [{ index: 1 }],
+        estimatedDuration: 60,
+        generatedAt: '2025-01-01T12:00:00Z',
+      };
+      (generatePodcast as jest.Mock).mockResolvedValue(script);
+
+      const job = await submitJob({ input: 'Test Article', type: 'title', stopAfter: 'generate_script' });
+      const finished = await waitForJob(job.id);
+
+      expect(job.stages.map(s => s.name)).toEqual(['fetch', 'generate_script']);
+      expect(finished.status).toBe('completed');
+      expect(finished.result).toMatchObject({
+        id: mockPodcast.id,
+        synthesizeUrl: `/api/podcast/${mockPodcast.id}/synthesize`,
+        lineCount: 1,
+      });
+      expect(generatePodcast).toHaveBeenCalledWith(
+        'Test Article',
+        'title',
+        expect.any(Function),
+        { checkpointId: job.id, stopAfter: 'generate_script' }
+      );
+    });
+
+    test('tracks stage progress reported by the pipeline', async () => {
+      (generatePodcast as jest.Mock).mockImplementation(async (_input, _type, onProgress) => {
+        onProgress({ name: 'fetch', status: 'in_progress', startedAt: '2025-01-01T12:00:00Z' });
+        onProgress({ name: 'fetch', status: 'completed', completedAt: '2025-01-01T12:00:01Z' });
+        return mockPodcast;
+      });
+
+      const job = await submitJob({ input: 'Test Article', type: 'title' });
+      const stageEvents: string[] = [];
+      subscribeToJob(job.id, (_job, stage) => {
+        if (stage) stageEvents.push(`${stage.name}:${stage.status}`);
+      });
+
+      const finished = await waitForJob(job.id);
+
+      expect(stageEvents).toEqual(['fetch:in_progress', 'fetch:completed']);
+      expect(finished.stages[0].status).toBe('completed');
+      expect(finished.stages[1].status).toBe('pending');
+    });
+
+    test('records classified error when generation fails', async () => {
+      (generatePodcast as jest.Mock).mockRejectedValue(
+        new Error('Article not found: "Nonexistent"')
+      );
+
+      const job = await submitJob({ input: 'Nonexistent', type: 'title' });
+      const finished = await waitForJob(job.id);
+
+      expect(finished.status).toBe('failed');
+      expect(finished.error).toEqual({
+        error: 'ARTICLE_NOT_FOUND',
+        message: 'Article not found: "Nonexistent"',
+      });
+    });
+
+    test('records the script attempts when the repairs run out', async () => {
+      const attempts = [{ attempt: 1, errors: ['Bad JSON'], completedAt: '2025-01-01T00:00:00Z' }];
+      (generatePodcast as jest.Mock).mockRejectedValue(
+        new GenerationFailedError('script', 'Script generation failed after 1 attempt(s): Bad JSON', { attempts })
+      );
+
+      const job = await submitJob({ input: 'Test', type: 'title' });
+      const finished = await waitForJob(job.id);
+
+      expect(finished.error).toEqual({
+        error: 'GENERATION_FAILED',
+        message: 'Script generation failed after 1 attempt(s): Bad JSON',
+        details: { stage: 'script', attempts },
+      });
+    });
+
+    test.each([
+      ['Article too short: 100 characters (minimum: 500)', 'ARTICLE_TOO_SHORT'],
+      ['Wikipedia API error: 503 Service Unavailable', 'SERVICE_UNAVAILABLE'],
+      ['Failed to generate script', 'GENERATION_FAILED'],
+    ])('classifies "%s" as %s', async (message, code) => {
+      (generatePodcast as jest.Mock).mockRejectedValue(new Error(message));
+
+      const job = await submitJob({ input: 'Test', type: 'title' });
+      const finished = await waitForJob(job.id);
+
+      expect(finished.error?.error).toBe(code);
+    });
+
+    test('limits concurrently running pipelines', async () => {
+      const resolvers: Array<(value: typeof mockPodcast) => void> = [];
+      (generatePodcast as jest.Mock).mockImplementation(
+        () => new Promise(resolve => { resolvers.push(resolve); })
+      );
+
+      const jobs = await Promise.all([
+        submitJob({ input: 'One', type: 'title' }),
+        submitJob({ input: 'Two', type: 'title' }),
+        submitJob({ input: 'Three', type: 'title' }),
+      ]);
+      const finished = jobs.map(job => waitForJob(job.id));
+      await waitUntil(() => resolvers.length === 2);
+
+      // maxConcurrentJobs is 2 in the test config
+      expect(generatePodcast).toHaveBeenCalledTimes(2);
+      expect(getQueuePosition(jobs[2].id)).toBe(1);
+      expect(jobs[2].status).toBe('queued');
+
+      resolvers[0](mockPodcast);
+      await finished[0];
+      await waitUntil(() => resolvers.length === 3);
+
+      expect(generatePodcast).toHaveBeenCalledTimes(3);
+      expect(getQueuePosition(jobs[2].id)).toBeNull();
+
+      resolvers[1](mockPodcast);
+      resolvers[2](mockPodcast);
+      await Promise.all(finished);
+    });
+  });
+
+  describe('resumeJob', () => {
+    test('resumes a failed job from its checkpoint', async () => {
+      (generatePodcast as jest.Mock).mockRejectedValue(new Error('TTS failed'));
+      (resumePodcast as jest.Mock).mockResolvedValue(mockPodcast);
+
+      const job = await submitJob({ input: 'Test Article', type: 'title' });
+      const failed = await waitForJob(job.id);
+      await saveJson(`/output/checkpoints/${job.id}.json`, { id: job.id });
+
+      expect(await canResumeJob(failed)).toBe(true);
+
+      const finishedAgain = waitForJob(job.id);
+      const resumed = await resumeJob(failed);
+      expect(resumed.resumedAt).toBeDefined();
+      expect(resumed.error).toBeUndefined();
+
+      const finished = await finishedAgain;
+
+      expect(finished.status).toBe('completed');
+      expect(resumePodcast).toHaveBeenCalledWith(job.id, expect.any(Function));
+    });
+
+    test('resets incomplete stages to pending', async () => {
+      const failedJob = {
+        id: '0b6a3c1e-5d2f-4a7b-9c8d-1e2f3a4b5c6d',
+        status: 'failed' as const,
+        request: { input: 'Test', type: 'title' as const },
+        stages: [
+          { name: 'fetch' as const, status: 'completed' as const },
+          { name: 'generate_script' as const, status: 'failed' as const, error: 'Bad JSON' },
+          { name: 'synthesize_audio' as const, status: 'pending' as const },
+          { name: 'stitch_audio' as const, status: 'pending' as const },
+        ],
+        createdAt: '2025-01-01T12:00:00Z',
+        updatedAt: '2025-01-01T12:00:05Z',
+      };
+      // No checkpoint exists for this job, so it falls back to a fresh run
+      (generatePodcast as jest.Mock).mockResolvedValue(mockPodcast);
+
+      const finished = waitForJob(failedJob.id);
+      const resumed = await resumeJob(failedJob);
+
+      expect(resumed.stages[0].status).toBe('completed');
+      expect(resumed.stages[1]).toEqual({ name: 'generate_script', status: 'pending' });
+
+      await finished;
+    });
+
+    test('does not allow resuming completed jobs', async () => {
+      (generatePodcast as jest.Mock).mockResolvedValue(mockPodcast);
+
+      const job = await submitJob({ input: 'Test Article', type: 'title' });
+      const finished = await waitForJob(job.id);
+
+      expect(await canResumeJob(finished)).toBe(false);
+    });
+  });
+
+  describe('getJob', () => {
+    test('returns persisted job after completion', async () => {
+      (generatePodcast as jest.Mock).mockResolvedValue(mockPodcast);
+
+      const job = await submitJob({ input: 'Test Article', type: 'title' });
+      await waitForJob(job.id);
+
+      const loaded = await getJob(job.id);
+
+      expect(loaded?.status).toBe('completed');
+      expect(loaded?.result?.id).toBe(mockPodcast.id);
+    });
+
+    test('returns null for unknown job', async () => {
+      const job = await getJob('00000000-0000-4000-8000-000000000000');
+
+      expect(job).toBeNull();
+    });
+
+    test('returns null for malformed job ID', async () => {
+      const job = await getJob('../metadata/test');
+
+      expect(job).toBeNull();
+    });
+  });
+});
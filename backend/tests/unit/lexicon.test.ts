@@ -0,0 +1,169 @@
+/**
+ * Unit Tests for Pronunciation Lexicon Service
+ *
+ * Tests storing global and episode lexicons and rewriting lines with them
+ */
+
+import {
+  loadLexicon,
+  saveLexiconEntries,
+  saveLexiconEntry,
+  deleteLexiconEntry,
+  resolveLexicon,
+  applyLexicon,
+} from '../../src/services/lexicon.js';
+import { InvalidInputError } from '../../src/utils/errors.js';
+import { MAX_LEXICON_ENTRIES } from '../../src/types/index.js';
+import type { PronunciationEntry } from '../../src/types/index.js';
+
+describe('Pronunciation Lexicon Service', () => {
+  const fs = require('fs/promises');
+  const originalFs = { ...fs };
+  const globalPath = '/tmp/test-output/lexicons/global.json';
+  const episodePath = '/tmp/test-output/lexicons/episodes/moon_20250101_120000.json';
+
+  // In-memory filesystem: path -> contents
+  let files: Map<string, string>;
+
+  const missing = () => Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+
+  const acha: PronunciationEntry = { term: 'Acha', respelling: 'uh-chaa' };
+  const bilkul: PronunciationEntry = { term: 'Bilkul', phoneme: { alphabet: 'ipa', ph: 'bɪlkʊl' } };
+
+  beforeEach(() => {
+    files = new Map();
+
+    fs.mkdir = jest.fn().mockResolvedValue(undefined);
+    fs.writeFile = jest.fn(async (filePath: string, data: string) => {
+      files.set(filePath, data);
+    });
+    fs.readFile = jest.fn(async (filePath: string) => {
+      if (!files.has(filePath)) throw missing();
+      return files.get(filePath);
+    });
+  });
+
+  afterAll(() => {
+    Object.assign(fs, originalFs);
+  });
+
+  describe('loadLexicon', () => {
+    test('is empty when no lexicon is stored', async () => {
+      expect(await loadLexicon()).toEqual([]);
+      expect(await loadLexicon('moon_20250101_120000')).toEqual([]);
+    });
+
+    test('ignores an invalid lexicon file', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      files.set(globalPath, JSON.stringify([{ term: 'Acha' }]));
+
+      expect(await loadLexicon()).toEqual([]);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring lexicon'));
+    });
+  });
+
+  describe('saveLexiconEntries', () => {
+    test('adds entries sorted by term and reports the new ones', async () => {
+      expect(await saveLexiconEntries([bilkul, acha])).toEqual(['Bilkul', 'Acha']);
+
+      expect(JSON.parse(files.get(globalPath)!)).toEqual([acha, bilkul]);
+    });
+
+    test('replaces a term ignoring case', async () => {
+      await saveLexiconEntry(acha);
+
+      expect(await saveLexiconEntry({ term: 'acha', respelling: 'ah-cha' })).toBe(false);
+      expect(await loadLexicon()).toEqual([{ term: 'acha', respelling: 'ah-cha' }]);
+    });
+
+    test('keeps entries saved at the same time', async () => {
+      await Promise.all([saveLexiconEntry(acha), saveLexiconEntry(bilkul)]);
+
+      expect(await loadLexicon()).toEqual([acha, bilkul]);
+    });
+
+    test('stores an episode lexicon apart from the global one', async () => {
+      await saveLexiconEntry(acha, 'moon_20250101_120000');
+
+      expect(files.has(episodePath)).toBe(true);
+      expect(files.has(globalPath)).toBe(false);
+    });
+
+    test('rejects a lexicon past its limit', async () => {
+      const entries = Array.from({ length: MAX_LEXICON_ENTRIES }, (_, i) => ({ term: `term${i}`, respelling: 'x' }));
+      await saveLexiconEntries(entries);
+
+      await expect(saveLexiconEntry(acha)).rejects.toBeInstanceOf(InvalidInputError);
+      expect(await loadLexicon()).toHaveLength(MAX_LEXICON_ENTRIES);
+    });
+  });
+
+  describe('deleteLexiconEntry', () => {
+    test('removes a term ignoring case', async () => {
+      await saveLexiconEntries([acha, bilkul]);
+
+      expect(await deleteLexiconEntry('ACHA')).toBe(true);
+      expect(await loadLexicon()).toEqual([bilkul]);
+    });
+
+    test('returns false for an unknown term', async () => {
+      await saveLexiconEntry(acha);
+
+      expect(await deleteLexiconEntry('Bilkul')).toBe(false);
+      expect(fs.writeFile).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('resolveLexicon', () => {
+    test('overlays the episode lexicon on the global one', async () => {
+      const episodeAcha = { term: 'ACHA', respelling: 'ah-chah' };
+      await saveLexiconEntries([acha, bilkul]);
+      await saveLexiconEntry(episodeAcha, 'moon_20250101_120000');
+
+      expect(await resolveLexicon('moon_20250101_120000')).toEqual([bilkul, episodeAcha]);
+      expect(await resolveLexicon()).toEqual([acha, bilkul]);
+    });
+  });
+
+  describe('applyLexicon', () => {
+    test('replaces whole words with their respelling, ignoring case', () => {
+      expect(applyLexicon('Acha, acha! Achaar is pickle.', [acha]))
+        .toBe('uh-chaa, uh-chaa! Achaar is pickle.');
+    });
+
+    test('matches words in other scripts', () => {
+      const namaste = { term: 'नमस्ते', respelling: 'nuh-muh-stay' };
+
+      expect(applyLexicon('नमस्ते दोस्तों', [namaste])).toBe('nuh-muh-stay दोस्तों');
+    });
+
+    test('prefers the longest term', () => {
+      const lexicon = [acha, { term: 'Acha ji', respelling: 'uh-chaa jee' }];
+
+      expect(applyLexicon('Acha ji, acha.', lexicon)).toBe('uh-chaa jee, uh-chaa.');
+    });
+
+    test('writes phoneme tags for providers that read SSML', () => {
+      expect(applyLexicon('Bilkul & Acha', [acha, bilkul], true))
+        .toBe('<phoneme alphabet="ipa" ph="bɪlkʊl">Bilkul</phoneme> &amp; uh-chaa');
+    });
+
+    test('escapes the whole line once it has phoneme tags', () => {
+      expect(applyLexicon('AT&T <3 "Bilkul" & Acha', [acha, bilkul], true))
+        .toBe('AT&amp;T &lt;3 &quot;<phoneme alphabet="ipa" ph="bɪlkʊl">Bilkul</phoneme>&quot; &amp; uh-chaa');
+    });
+
+    test('leaves a line without phoneme tags unescaped', () => {
+      expect(applyLexicon('AT&T <3 Acha', [acha], true)).toBe('AT&T <3 uh-chaa');
+    });
+
+    test('leaves a phoneme-only term as written without SSML', () => {
+      expect(applyLexicon('Bilkul sahi', [bilkul])).toBe('Bilkul sahi');
+    });
+
+    test('treats terms literally', () => {
+      expect(applyLexicon('C++ and C', [{ term: 'C++', respelling: 'see plus plus' }]))
+        .toBe('see plus plus and C');
+    });
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Unit Tests for LLM Providers
+ * 
+ * Tests provider resolution, the OpenAI-compatible client and the fixture provider,
+ * including its fact-check replies
+ */
+
+import { getLlmProvider } from '../../src/providers/llm/index.js';
+import { generateScript, validateScriptLines } from '../../src/services/scriptGenerator.js';
+import { checkScriptFacts } from '../../src/services/factChecker.js';
+import { getConfig } from '../../src/config/env.js';
+import { BUILT_IN_FORMATS } from '../../src/config/formats.js';
+import type { LlmTask } from '../../src/providers/llm/index.js';
+import type { Article } from '../../src/types/index.js';
+
+// Mock node-fetch
+const mockFetch = require('node-fetch').default;
+
+describe('LLM Providers', () => {
+  const baseConfig = (getConfig as jest.Mock)();
+
+  const request = {
+    messages: [
+      { role: 'system' as const, content: 'You write scripts.' },
+      { role: 'user' as const, content: 'Create a podcast script about "Photosynthesis" based on ...' },
+    ],
+    temperature: 0,
+    maxTokens: 4096,
+    topP: 1,
+  };
+
+  /**
+   * Overrides config values for the next getConfig() calls
+   */
+  function useConfig(overrides: Record<string, unknown>) {
+    (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, ...overrides });
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getConfig as jest.Mock).mockReturnValue(baseConfig);
+  });
+
+  afterAll(() => {
+    (getConfig as jest.Mock).mockReturnValue(baseConfig);
+  });
+
+  describe('getLlmProvider', () => {
+    test.each(['xai', 'openai', 'fixture'])('resolves %s from config', (name) => {
+      useConfig({ llmProvider: name });
+
+      expect(getLlmProvider().name).toBe(name);
+    });
+
+    test('uses LLM_MODEL when set', () => {
+      useConfig({ llmProvider: 'xai', llmModel: 'grok-3-mini' });
+
+      expect(getLlmProvider().model).toBe('grok-3-mini');
+    });
+  });
+
+  describe('OpenAI-compatible provider', () => {
+    test('calls chat completions at the configured base URL', async () => {
+      useConfig({
+        llmProvider: 'openai',
+        llmModel: 'llama3.1',
+        openAiLlmApiUrl: 'http://localhost:11434/v1',
+        openAiLlmApiKey: '',
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: '{}' } }] }),
+      });
+
+      const completion = await getLlmProvider().complete(request);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:11434/v1/chat/completions',
+        expect.objectContaining({ method: 'POST' })
+      );
+      const init = mockFetch.mock.calls[0][1];
+      expect(init.headers).not.toHaveProperty('Authorization');
+      expect(init).not.toHaveProperty('agent');
+      expect(JSON.parse(init.body)).toEqual({
+        model: 'llama3.1',
+        messages: request.messages,
+        temperature: 0,
+        max_tokens: 4096,
+        top_p: 1,
+      });
+      expect(completion).toEqual({ content: '{}', model: 'llama3.1' });
+    });
+
+    test('labels API errors with the provider', async () => {
+      useConfig({ llmProvider: 'openai' });
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+        text: async () => 'Bad key',
+      });
+
+      await expect(getLlmProvider().complete(request))
+        .rejects
+        .toThrow('OpenAI-compatible API error: 401 Unauthorized - Bad key');
+    });
+  });
+
+  describe('fixture provider', () => {
+    const scriptTask: LlmTask = {
+      kind: 'script',
+      title: 'Photosynthesis',
+      hosts: ['Nishi', 'Shyam'],
+      sections: [
+        { id: 'greeting', optional: false, minLines: 2, maxLines: 3 },
+        { id: 'signoff', optional: false, minLines: 2, maxLines: 3 },
+      ],
+      articleCount: 1,
+      minWords: 0,
+      maxWords: 100,
+      sectionsMayGrow: false,
+    };
+
+    test('returns the same reply for the same request', async () => {
+      useConfig({ llmProvider: 'fixture' });
+      const provider = getLlmProvider();
+
+      const first = await provider.complete({ ...request, task: scriptTask });
+      const second = await provider.complete({ ...request, task: scriptTask });
+
+      expect(first).toEqual(second);
+      expect(first.model).toBe('fixture');
+      expect(first.content).toContain('Photosynthesis');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('builds its reply from the task, not the prompt', async () => {
+      useConfig({ llmProvider: 'fixture' });
+
+      const completion = await getLlmProvider().complete({
+        ...request,
+        task: { ...scriptTask, title: 'Chlorophyll', hosts: ['Ada', 'Tom'] },
+      });
+
+      const { lines } = JSON.parse(completion.content);
+      expect(lines.map((line: { section: string }) => line.section))
+        .toEqual(['greeting', 'greeting', 'signoff', 'signoff']);
+      expect(lines[0].text).toContain("I'm Ada, and today we're diving into Chlorophyll");
+      expect(completion.content).not.toContain('Photosynthesis');
+    });
+
+    test('rejects requests that do not describe their task', async () => {
+      useConfig({ llmProvider: 'fixture' });
+
+      await expect(getLlmProvider().complete(request))
+        .rejects
+        .toThrow('The fixture provider only answers requests that describe their task');
+    });
+
+    test('reads the reply from LLM_FIXTURE_PATH when set', async () => {
+      const fs = require('fs/promises');
+      fs.readFile = jest.fn().mockResolvedValue('{"lines":[]}');
+      useConfig({ llmProvider: 'fixture', llmFixturePath: '/tmp/fixture.json' });
+
+      const completion = await getLlmProvider().complete(request);
+
+      expect(fs.readFile).toHaveBeenCalledWith('/tmp/fixture.json', 'utf-8');
+      expect(completion.content).toBe('{"lines":[]}');
+    });
+
+    test('produces a script that passes validation', async () => {
+      useConfig({ llmProvider: 'fixture' });
+      const article: Article = {
+        title: 'Photosynthesis',
+        url: 'https://en.wikipedia.org/wiki/Photosynthesis',
+        rawContent: '',
+        cleanedText: 'Photosynthesis is a process. '.repeat(50),
+        sections: [],
+        summary: '',
+        wordCount: 150,
+        fetchedAt: '2024-01-01T00:00:00Z',
+        language: 'en',
+      };
+
+      const script = await generateScript(article);
+
+      expect(script.provider).toBe('fixture');
+      expect(script.model).toBe('fixture');
+      expect(script.estimatedDuration).toBeGreaterThanOrEqual(120);
+      expect(script.estimatedDuration).toBeLessThanOrEqual(180);
+    });
+
+    test('writes long-form scripts that meet the requested length', async () => {
+      useConfig({ llmProvider: 'fixture' });
+      const article: Article = {
+        title: 'Photosynthesis',
+        url: 'https://en.wikipedia.org/wiki/Photosynthesis',
+        rawContent: '',
+        cleanedText: 'Photosynthesis is a process. '.repeat(50),
+        sections: [],
+        summary: '',
+        wordCount: 150,
+        fetchedAt: '2024-01-01T00:00:00Z',
+        language: 'en',
+      };
+
+      const script = await generateScript(article, { targetMinutes: 12 });
+
+      expect(script.outline).toHaveLength(3);
+      expect(script.estimatedDuration).toBeGreaterThanOrEqual(12 * 60 * 0.8);
+      expect(script.estimatedDuration).toBeLessThanOrEqual(12 * 60 * 1.2);
+    });
+
+    test('cites every article of a multi-article script', async () => {
+      useConfig({ llmProvider: 'fixture' });
+      const article = (title: string): Article => ({
+        title,
+        url: `https://en.wikipedia.org/wiki/${title}`,
+        rawContent: '',
+        cleanedText: `${title} is a topic. `.repeat(50),
+        sections: [],
+        summary: '',
+        wordCount: 200,
+        fetchedAt: '2024-01-01T00:00:00Z',
+        language: 'en',
+      });
+
+      const script = await generateScript([article('Photosynthesis'), article('Chlorophyll')]);
+
+      const cited = new Set(script.lines.flatMap(line => line.sourceArticles ?? []));
+      expect(cited).toEqual(new Set([1, 2]));
+      expect(script.articles).toHaveLength(2);
+    });
+
+    test.each([
+      [['Ada'], ['Ada']],
+      [['Ada', 'Tom', 'Lin'], ['Ada', 'Tom', 'Lin']],
+    ])('gives lines to every host of the roster %j', async (names, expected) => {
+      useConfig({ llmProvider: 'fixture' });
+      const article: Article = {
+        title: 'Photosynthesis',
+        url: 'https://en.wikipedia.org/wiki/Photosynthesis',
+        rawContent: '',
+        cleanedText: 'Photosynthesis is a process. '.repeat(50),
+        sections: [],
+        summary: '',
+        wordCount: 150,
+        fetchedAt: '2024-01-01T00:00:00Z',
+        language: 'en',
+      };
+      const hosts = names.map(name => ({
+        id: name.toLowerCase(),
+        name,
+        persona: `${name} hosts the show`,
+        role: 'expert' as const,
+        voices: {},
+      }));
+
+      const script = await generateScript(article, { hosts });
+
+      expect([...new Set(script.lines.map(line => line.speaker))]).toEqual(expected);
+      expect(script.lines[0].text).toContain(`I'm ${names[0]}`);
+    });
+
+    test.each(BUILT_IN_FORMATS.map(format => [format.id, format]))(
+      'writes %s scripts in the format\'s sections',
+      async (_, format) => {
+        useConfig({ llmProvider: 'fixture' });
+        const article: Article = {
+          title: 'Photosynthesis',
+          url: 'https://en.wikipedia.org/wiki/Photosynthesis',
+          rawContent: '',
+          cleanedText: 'Photosynthesis is a process. '.repeat(50),
+          sections: [],
+          summary: '',
+          wordCount: 150,
+          fetchedAt: '2024-01-01T00:00:00Z',
+          language: 'en',
+        };
+
+        const script = await generateScript(article, { format });
+
+        const required = format.sections.filter(section => !section.optional).map(section => section.id);
+        expect([...new Set(script.lines.map(line => line.section))]).toEqual(required);
+        expect(script.attempts).toHaveLength(1);
+      }
+    );
+
+    test.each([
+      ['judge', 'flag'],
+      ['lexical', 'regenerate'],
+    ])('answers fact-check prompts (%s, %s)', async (factCheck, factCheckPolicy) => {
+      useConfig({ llmProvider: 'fixture', factCheck, factCheckPolicy });
+      const article: Article = {
+        title: 'Photosynthesis',
+        url: 'https://en.wikipedia.org/wiki/Photosynthesis',
+        rawContent: '',
+        cleanedText: 'Photosynthesis turns light into chemical energy. '.repeat(5),
+        sections: [],
+        summary: '',
+        wordCount: 30,
+        fetchedAt: '2024-01-01T00:00:00Z',
+        language: 'en',
+      };
+
+      const checked = await checkScriptFacts(await generateScript(article), [article]);
+
+      expect(checked.grounding!.judgeError).toBeUndefined();
+      expect(checked.grounding!.rewriteError).toBeUndefined();
+      if (factCheck === 'judge') {
+        expect(checked.grounding!.unsupportedLines).toBe(0);
+        expect(checked.grounding!.judgeModel).toBe('fixture');
+      } else {
+        // Lines still unsupported are dropped only as far as the script can lose them
+        expect(validateScriptLines(checked, checked.lines)).toEqual([]);
+        const rewritten = checked.lines.filter(line => line.grounding!.rewritten);
+        expect(rewritten.length).toBeGreaterThan(0);
+        expect(rewritten[0].text).toBe('Photosynthesis turns light into chemical energy.');
+      }
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Unit Tests for Podcast Library Service
+ *
+ * Tests listing (filter, sort, pagination) and deletion of podcasts
+ */
+
+import { listLibrary, deletePodcast } from '../../src/services/podcastLibrary.js';
+import { loadPodcast } from '../../src/services/podcastOrchestrator.js';
+import { listPodcasts, deletePodcastFiles } from '../../src/utils/fileManager.js';
+import type { Podcast, PodcastListQuery } from '../../src/types/index.js';
+
+jest.mock('../../src/services/podcastOrchestrator.js');
+jest.mock('../../src/utils/fileManager.js');
+
+describe('Podcast Library Service', () => {
+  function makePodcast(id: string, title: string, durationSeconds: number, createdAt: string): Podcast {
+    return {
+      id,
+      scriptId: id,
+      articles: [
+        { title, url: `https://en.wikipedia.org/wiki/${title.replace(/ /g, '_')}`, language: 'en' },
+      ],
+      audioFilePath: `/output/audio/${id}.mp3`,
+      durationSeconds,
+      fileSizeBytes: 0,
+      audioSpec: { format: 'mp3', bitrate: '128k', sampleRate: 44100, channels: 1, preset: 'plain' },
+      voiceMapping: { provider: 'elevenlabs', Nishi: 'voice-1', Shyam: 'voice-2' },
+      createdAt,
+      pipelineVersion: '1.0.0',
+    };
+  }
+
+  const podcasts: Record<string, Podcast> = {
+    einstein: makePodcast('einstein', 'Albert Einstein', 160, '2025-01-02T00:00:00Z'),
+    curie: makePodcast('curie', 'Marie Curie', 140, '2025-01-03T00:00:00Z'),
+    bohr: makePodcast('bohr', 'Niels Bohr', 175, '2025-01-01T00:00:00Z'),
+  };
+
+  const defaultQuery: PodcastListQuery = {
+    page: 1,
+    pageSize: 20,
+    sort: 'createdAt',
+    order: 'desc',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (listPodcasts as jest.Mock).mockResolvedValue(Object.keys(podcasts));
+    (loadPodcast as jest.Mock).mockImplementation(async (id: string) => podcasts[id] ?? null);
+  });
+
+  describe('listLibrary', () => {
+    test('lists newest podcasts first by default', async () => {
+      const result = await listLibrary(defaultQuery);
+
+      expect(result.podcasts.map(p => p.id)).toEqual(['curie', 'einstein', 'bohr']);
+      expect(result.total).toBe(3);
+      expect(result.totalPages).toBe(1);
+      expect(result.podcasts[0]).toMatchObject({
+        audioUrl: '/api/podcast/curie/audio',
+        article: { title: 'Marie Curie' },
+      });
+    });
+
+    test('sorts by duration ascending', async () => {
+      const result = await listLibrary({ ...defaultQuery, sort: 'duration', order: 'asc' });
+
+      expect(result.podcasts.map(p => p.id)).toEqual(['curie', 'einstein', 'bohr']);
+    });
+
+    test('filters by case-insensitive title substring', async () => {
+      const result = await listLibrary({ ...defaultQuery, title: 'BOHR' });
+
+      expect(result.podcasts.map(p => p.id)).toEqual(['bohr']);
+      expect(result.total).toBe(1);
+    });
+
+    test('paginates results', async () => {
+      const result = await listLibrary({ ...defaultQuery, page: 2, pageSize: 2 });
+
+      expect(result.podcasts.map(p => p.id)).toEqual(['bohr']);
+      expect(result.total).toBe(3);
+      expect(result.page).toBe(2);
+      expect(result.pageSize).toBe(2);
+      expect(result.totalPages).toBe(2);
+    });
+
+    test('returns empty page past the end', async () => {
+      const result = await listLibrary({ ...defaultQuery, page: 5 });
+
+      expect(result.podcasts).toEqual([]);
+      expect(result.total).toBe(3);
+    });
+
+    test('skips podcasts with missing or unreadable metadata', async () => {
+      (listPodcasts as jest.Mock).mockResolvedValue(['einstein', 'orphan', 'broken']);
+      (loadPodcast as jest.Mock).mockImplementation(async (id: string) => {
+        if (id === 'broken') throw new Error('Unexpected token');
+        return podcasts[id] ?? null;
+      });
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await listLibrary(defaultQuery);
+
+      expect(result.podcasts.map(p => p.id)).toEqual(['einstein']);
+    });
+  });
+
+  describe('deletePodcast', () => {
+    test('deletes all files of an existing podcast', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+
+      const deleted = await deletePodcast('einstein');
+
+      expect(deleted).toBe(true);
+      expect(deletePodcastFiles).toHaveBeenCalledWith('einstein');
+    });
+
+    test('returns false for unknown podcast', async () => {
+      const deleted = await deletePodcast('unknown');
+
+      expect(deleted).toBe(false);
+      expect(deletePodcastFiles).not.toHaveBeenCalled();
+    });
+
+    test('propagates deletion failures', async () => {
+      (deletePodcastFiles as jest.Mock).mockRejectedValue(new Error('EBUSY'));
+
+      await expect(deletePodcast('einstein')).rejects.toThrow('EBUSY');
+    });
+  });
+});
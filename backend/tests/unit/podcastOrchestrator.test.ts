@@ -4,17 +4,33 @@
  * Tests end-to-end pipeline coordination
  */
 
-import { generatePodcast, loadPodcast, loadScript } from '../../src/services/podcastOrchestrator.js';
+import {
+  generatePodcast,
+  resumePodcast,
+  loadPodcast,
+  loadScript,
+  getPipelineStageNames,
+} from '../../src/services/podcastOrchestrator.js';
 import * as wikipedia from '../../src/services/wikipedia.js';
 import * as scriptGenerator from '../../src/services/scriptGenerator.js';
+import * as factChecker from '../../src/services/factChecker.js';
+import * as citations from '../../src/services/citations.js';
 import * as tts from '../../src/services/tts.js';
 import * as audioStitcher from '../../src/services/audioStitcher.js';
+import * as hosts from '../../src/services/hosts.js';
+import * as lexicon from '../../src/services/lexicon.js';
+import { getDefaultHosts } from '../../src/config/hosts.js';
+import { getDefaultFormat, getFormat } from '../../src/config/formats.js';
 
 // Mock all service dependencies
 jest.mock('../../src/services/wikipedia.js');
+jest.mock('../../src/services/hosts.js');
 jest.mock('../../src/services/scriptGenerator.js');
+jest.mock('../../src/services/factChecker.js');
+jest.mock('../../src/services/citations.js');
 jest.mock('../../src/services/tts.js');
 jest.mock('../../src/services/audioStitcher.js');
+jest.mock('../../src/services/lexicon.js');
 
 describe('Podcast Orchestrator', () => {
   const mockArticle = {
@@ -22,6 +38,7 @@ describe('Podcast Orchestrator', () => {
     url: 'https://en.wikipedia.org/wiki/Test_Article',
     rawContent: '<p>Test content</p>',
     cleanedText: 'Test content '.repeat(100),
+    sections: [],
     summary: 'Test summary',
     wordCount: 200,
     fetchedAt: '2025-01-01T00:00:00Z',
@@ -46,6 +63,7 @@ describe('Podcast Orchestrator', () => {
     totalWords: 50,
     estimatedDuration: 120,
     generatedAt: '2025-01-01T00:00:00Z',
+    provider: 'xai' as const,
     model: 'grok-3',
     generationParams: {
       temperature: 0,
@@ -77,10 +95,23 @@ describe('Podcast Orchestrator', () => {
     filePath: '/tmp/test.mp3',
     durationSeconds: 150,
     fileSizeBytes: 2000000,
+    lineTimings: [
+      { lineIndex: 1, startMs: 0, endMs: 2000 },
+      { lineIndex: 2, startMs: 2000, endMs: 5000 },
+    ],
   };
 
+  const defaultHosts = getDefaultHosts();
+  const classic = getDefaultFormat();
+
   beforeEach(() => {
     jest.clearAllMocks();
+    (hosts.resolveHosts as jest.Mock).mockResolvedValue(defaultHosts);
+    (factChecker.checkScriptFacts as jest.Mock).mockImplementation(async (script) => script);
+    (citations.addLineSources as jest.Mock).mockImplementation((script) => script);
+    (scriptGenerator.getScriptArticles as jest.Mock).mockImplementation(
+      jest.requireActual('../../src/services/scriptGenerator.js').getScriptArticles
+    );
 
     // Mock fs operations
     const fs = require('fs/promises');
@@ -100,7 +131,9 @@ describe('Podcast Orchestrator', () => {
       const podcast = await generatePodcast('Test Article', 'title');
 
       expect(podcast).toHaveProperty('id');
-      expect(podcast).toHaveProperty('articleTitle', 'Test Article');
+      expect(podcast.articles).toEqual([
+        { title: 'Test Article', url: 'https://en.wikipedia.org/wiki/Test_Article', language: 'en' },
+      ]);
       expect(podcast).toHaveProperty('durationSeconds', 150);
       expect(podcast).toHaveProperty('audioFilePath');
     });
@@ -138,7 +171,124 @@ describe('Podcast Orchestrator', () => {
 
       await generatePodcast('Test', 'title');
 
-      expect(scriptGenerator.generateScript).toHaveBeenCalledWith(mockArticle);
+      expect(scriptGenerator.generateScript).toHaveBeenCalledWith(mockArticle, { outputLanguage: undefined, hosts: defaultHosts, format: classic });
+    });
+
+    test('passes languages to the fetch and script stages', async () => {
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue({ ...mockArticle, language: 'de' });
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue({ ...mockScript, language: 'hi' });
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      await generatePodcast('Albert Einstein', 'title', undefined, {
+        language: 'de',
+        outputLanguage: 'hi',
+      });
+
+      expect(wikipedia.fetchArticle).toHaveBeenCalledWith('Albert Einstein', 'title', 'de');
+      expect(scriptGenerator.generateScript).toHaveBeenCalledWith(
+        expect.objectContaining({ language: 'de' }),
+        { outputLanguage: 'hi', hosts: defaultHosts, format: classic }
+      );
+
+      const fs = require('fs/promises');
+      const metadataCall = fs.writeFile.mock.calls.find((call: any[]) =>
+        call[0].includes('metadata') && call[0].endsWith('.json')
+      );
+      const metadata = JSON.parse(metadataCall[1]);
+      expect(metadata.source[0].language).toBe('de');
+      expect(metadata.script.language).toBe('hi');
+    });
+
+    test('restricts the article to the requested sections', async () => {
+      const selectedArticle = { ...mockArticle, cleanedText: 'Legacy text', selectedSections: ['Legacy'] };
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+      (wikipedia.selectArticleSections as jest.Mock).mockReturnValue(selectedArticle);
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue(mockScript);
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      await generatePodcast('Test', 'title', undefined, { sections: ['legacy'] });
+
+      expect(wikipedia.selectArticleSections).toHaveBeenCalledWith(mockArticle, ['legacy']);
+      expect(scriptGenerator.generateScript).toHaveBeenCalledWith(selectedArticle, expect.anything());
+
+      const fs = require('fs/promises');
+      const metadataCall = fs.writeFile.mock.calls.find((call: any[]) =>
+        call[0].includes('metadata') && call[0].endsWith('.json')
+      );
+      expect(JSON.parse(metadataCall[1]).source[0].sections).toEqual(['Legacy']);
+    });
+
+    test('fetches several inputs in parallel and scripts them together', async () => {
+      const enigma = {
+        ...mockArticle,
+        title: 'Enigma machine',
+        url: 'https://en.wikipedia.org/wiki/Enigma_machine',
+      };
+      (wikipedia.fetchArticle as jest.Mock)
+        .mockResolvedValueOnce(mockArticle)
+        .mockResolvedValueOnce(enigma);
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue(mockScript);
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      const podcast = await generatePodcast(['Test Article', 'Enigma machine'], 'title');
+
+      expect(wikipedia.fetchArticle).toHaveBeenCalledWith('Test Article', 'title', undefined);
+      expect(wikipedia.fetchArticle).toHaveBeenCalledWith('Enigma machine', 'title', undefined);
+      expect(scriptGenerator.generateScript).toHaveBeenCalledWith([mockArticle, enigma], expect.anything());
+      expect(podcast.articles.map(article => article.title)).toEqual(['Test Article', 'Enigma machine']);
+
+      const fs = require('fs/promises');
+      const metadataCall = fs.writeFile.mock.calls.find((call: any[]) =>
+        call[0].includes('metadata') && call[0].endsWith('.json')
+      );
+      const metadata = JSON.parse(metadataCall[1]);
+      expect(metadata.source.map((source: any) => source.url)).toEqual([
+        'https://en.wikipedia.org/wiki/Test_Article',
+        'https://en.wikipedia.org/wiki/Enigma_machine',
+      ]);
+    });
+
+    test('rejects the same article given twice', async () => {
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+
+      await expect(generatePodcast(['Test Article', 'https://en.wikipedia.org/wiki/Test_Article']))
+        .rejects
+        .toThrow('The article "Test Article" was given more than once');
+      expect(scriptGenerator.generateScript).not.toHaveBeenCalled();
+    });
+
+    test('passes the requested length to the script stage', async () => {
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue({ ...mockScript, targetMinutes: 10 });
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      await generatePodcast('Test', 'title', undefined, { targetMinutes: 10 });
+
+      expect(scriptGenerator.generateScript).toHaveBeenCalledWith(
+        mockArticle,
+        { outputLanguage: undefined, targetMinutes: 10, hosts: defaultHosts, format: classic }
+      );
+
+      const fs = require('fs/promises');
+      const metadataCall = fs.writeFile.mock.calls.find((call: any[]) =>
+        call[0].includes('metadata') && call[0].endsWith('.json')
+      );
+      expect(JSON.parse(metadataCall[1]).script.targetMinutes).toBe(10);
+    });
+
+    test('uses the whole article when no sections are requested', async () => {
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue(mockScript);
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      await generatePodcast('Test', 'title');
+
+      expect(wikipedia.selectArticleSections).not.toHaveBeenCalled();
     });
 
     test('passes script lines to TTS', async () => {
@@ -151,7 +301,9 @@ describe('Podcast Orchestrator', () => {
 
       expect(tts.generateAudioSegmentsWithRetry).toHaveBeenCalledWith(
         mockScript.id,
-        mockScript.lines
+        mockScript.lines,
+        expect.any(Number),
+        expect.objectContaining({ existingSegments: [] })
       );
     });
 
@@ -165,8 +317,30 @@ describe('Podcast Orchestrator', () => {
 
       expect(audioStitcher.stitchAudioSegments).toHaveBeenCalledWith(
         mockScript.id,
-        mockAudioSegments
+        mockAudioSegments,
+        { preset: expect.objectContaining({ id: 'plain' }), sections: mockScript.sections }
+      );
+    });
+
+    test('produces the audio with the chosen preset and records it', async () => {
+      const fs = require('fs/promises');
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue(mockScript);
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      const podcast = await generatePodcast('Test', 'title', undefined, { audioPreset: 'studio' });
+
+      expect(audioStitcher.stitchAudioSegments).toHaveBeenCalledWith(
+        mockScript.id,
+        mockAudioSegments,
+        expect.objectContaining({ preset: expect.objectContaining({ id: 'studio', intro: 'chime-intro' }) })
+      );
+      expect(podcast.audioSpec.preset).toBe('studio');
+      const metadataWriteCall = fs.writeFile.mock.calls.find((call: any[]) =>
+        call[0].includes('metadata') && call[0].endsWith('.json')
       );
+      expect(JSON.parse(metadataWriteCall[1]).audio.preset).toBe('studio');
     });
 
     test('saves script to filesystem', async () => {
@@ -201,6 +375,49 @@ describe('Podcast Orchestrator', () => {
       expect(metadataWriteCall).toBeDefined();
     });
 
+    test('records script attempts in metadata', async () => {
+      const fs = require('fs/promises');
+      const attempts = [
+        { attempt: 1, errors: ['Missing required section: qna'], completedAt: '2025-01-01T12:00:00Z' },
+        { attempt: 2, errors: [], completedAt: '2025-01-01T12:00:05Z' },
+      ];
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue({ ...mockScript, attempts });
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      await generatePodcast('Test', 'title');
+
+      const metadataWriteCall = fs.writeFile.mock.calls.find((call: any[]) =>
+        call[0].includes('metadata') && call[0].endsWith('.json')
+      );
+      const metadata = JSON.parse(metadataWriteCall[1]);
+      expect(metadata.script.attempts).toEqual(attempts);
+      expect(metadata.script.provider).toBe('xai');
+    });
+
+    test('records cache hits in metadata', async () => {
+      const fs = require('fs/promises');
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue({ ...mockArticle, fromCache: true });
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue(mockScript);
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(
+        mockAudioSegments.map((segment: any, i: number) => (i === 0 ? { ...segment, fromCache: true } : segment))
+      );
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      await generatePodcast('Test', 'title');
+
+      const metadataWriteCall = fs.writeFile.mock.calls.find((call: any[]) =>
+        call[0].includes('metadata') && call[0].endsWith('.json')
+      );
+      const metadata = JSON.parse(metadataWriteCall[1]);
+      expect(metadata.cache).toEqual({
+        article: true,
+        script: false,
+        audioLines: [mockAudioSegments[0].lineIndex],
+      });
+    });
+
     test('includes voice mapping in podcast', async () => {
       (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
       (scriptGenerator.generateScript as jest.Mock).mockResolvedValue(mockScript);
@@ -211,6 +428,138 @@ describe('Podcast Orchestrator', () => {
 
       expect(podcast.voiceMapping).toHaveProperty('Nishi');
       expect(podcast.voiceMapping).toHaveProperty('Shyam');
+      expect(podcast.voiceMapping.provider).toBe('elevenlabs');
+    });
+
+    test('records when each line is heard in the podcast and its metadata', async () => {
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue(mockScript);
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      const podcast = await generatePodcast('Test', 'title');
+
+      expect(podcast.lineTimings).toEqual(mockStitchedAudio.lineTimings);
+
+      const fs = require('fs/promises');
+      const metadataCall = fs.writeFile.mock.calls.find((call: any[]) =>
+        call[0].includes('metadata') && call[0].endsWith('.json')
+      );
+      expect(JSON.parse(metadataCall[1]).audio.lineTimings).toEqual(mockStitchedAudio.lineTimings);
+    });
+
+    test('writes and voices the script for the requested hosts', async () => {
+      const roster = [
+        { id: 'ada', name: 'Ada', persona: 'A curious narrator', role: 'interviewer' as const, voices: { elevenlabs: 'ada-voice' } },
+      ];
+      (hosts.resolveHosts as jest.Mock).mockResolvedValue(roster);
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue({ ...mockScript, hosts: roster });
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      const podcast = await generatePodcast('Test', 'title', undefined, { hosts: ['ada'] });
+
+      expect(hosts.resolveHosts).toHaveBeenCalledWith(['ada']);
+      expect(scriptGenerator.generateScript).toHaveBeenCalledWith(mockArticle, expect.objectContaining({ hosts: roster }));
+      expect(tts.generateAudioSegmentsWithRetry).toHaveBeenCalledWith(
+        mockScript.id,
+        mockScript.lines,
+        expect.any(Number),
+        expect.objectContaining({ hosts: roster })
+      );
+      expect(podcast.voiceMapping).toEqual({ provider: 'elevenlabs', Ada: 'ada-voice' });
+
+      const fs = require('fs/promises');
+      const metadataCall = fs.writeFile.mock.calls.find((call: any[]) =>
+        call[0].includes('metadata') && call[0].endsWith('.json')
+      );
+      expect(JSON.parse(metadataCall[1]).script.hosts).toEqual(['ada']);
+    });
+
+    test('writes the script in the requested format', async () => {
+      const debate = getFormat('debate')!;
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue({
+        ...mockScript,
+        format: { id: 'debate', version: debate.version },
+      });
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      await generatePodcast('Test', 'title', undefined, { format: 'debate' });
+
+      expect(scriptGenerator.generateScript).toHaveBeenCalledWith(mockArticle, expect.objectContaining({ format: debate }));
+
+      const fs = require('fs/promises');
+      const metadataCall = fs.writeFile.mock.calls.find((call: any[]) =>
+        call[0].includes('metadata') && call[0].endsWith('.json')
+      );
+      expect(JSON.parse(metadataCall[1]).script.format).toEqual({ id: 'debate', version: debate.version });
+    });
+
+    test('fact-checks the script before it is saved and voiced', async () => {
+      const grounding = {
+        mode: 'judge',
+        policy: 'drop',
+        minOverlap: 0.5,
+        supportedLines: 1,
+        unsupportedLines: 0,
+        noClaimLines: 0,
+        rewrittenLines: 0,
+        droppedLines: [{ speaker: 'Shyam', section: 'greeting', text: 'Hi' }],
+        checkedAt: '2025-01-01T00:00:00Z',
+      };
+      const checkedScript = { ...mockScript, lines: [mockScript.lines[0]], grounding };
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue(mockScript);
+      (factChecker.checkScriptFacts as jest.Mock).mockResolvedValue(checkedScript);
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      await generatePodcast('Test', 'title');
+
+      expect(factChecker.checkScriptFacts).toHaveBeenCalledWith(mockScript, [mockArticle]);
+      expect(tts.generateAudioSegmentsWithRetry).toHaveBeenCalledWith(
+        mockScript.id,
+        checkedScript.lines,
+        expect.any(Number),
+        expect.anything()
+      );
+
+      const fs = require('fs/promises');
+      const scriptCall = fs.writeFile.mock.calls.find((call: any[]) => call[0].includes('scripts'));
+      expect(JSON.parse(scriptCall[1]).grounding).toEqual(grounding);
+      const metadataCall = fs.writeFile.mock.calls.find((call: any[]) =>
+        call[0].includes('metadata') && call[0].endsWith('.json')
+      );
+      expect(JSON.parse(metadataCall[1]).script.grounding).toEqual(grounding);
+    });
+
+    test('cites sources for the checked lines', async () => {
+      const source = {
+        article: 1,
+        section: 'History',
+        url: 'https://en.wikipedia.org/wiki/Test_Article#History',
+        start: 0,
+        end: 12,
+        snippet: 'Test content',
+      };
+      const checkedScript = { ...mockScript, grounding: { mode: 'lexical' } };
+      const citedScript = { ...checkedScript, lines: [{ ...mockScript.lines[0], sources: [source] }, mockScript.lines[1]] };
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue(mockScript);
+      (factChecker.checkScriptFacts as jest.Mock).mockResolvedValue(checkedScript);
+      (citations.addLineSources as jest.Mock).mockReturnValue(citedScript);
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      await generatePodcast('Test', 'title');
+
+      expect(citations.addLineSources).toHaveBeenCalledWith(checkedScript, [mockArticle]);
+      const fs = require('fs/promises');
+      const scriptCall = fs.writeFile.mock.calls.find((call: any[]) => call[0].includes('scripts'));
+      expect(JSON.parse(scriptCall[1]).lines[0].sources).toEqual([source]);
     });
 
     test('sets pipeline version', async () => {
@@ -349,6 +698,7 @@ describe('Podcast Orchestrator', () => {
 
       expect(wikipedia.fetchArticle).toHaveBeenCalledWith(
         'https://en.wikipedia.org/wiki/Test',
+        undefined,
         undefined
       );
     });
@@ -361,7 +711,256 @@ describe('Podcast Orchestrator', () => {
 
       await generatePodcast('Test Article', 'title');
 
-      expect(wikipedia.fetchArticle).toHaveBeenCalledWith('Test Article', 'title');
+      expect(wikipedia.fetchArticle).toHaveBeenCalledWith('Test Article', 'title', undefined);
+    });
+
+    test('voices a hand-written script without fetching or generating', async () => {
+      const fs = require('fs/promises');
+      const { provider: _provider, model: _model, generationParams: _params, ...handWritten } = mockScript;
+      const script = {
+        ...handWritten,
+        articles: [{ title: 'Test Article', url: 'https://en.wikipedia.org/wiki/Test_Article', language: 'en' }],
+        attempts: [],
+        language: 'en',
+        author: 'human' as const,
+      };
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      const onProgress = jest.fn();
+      const podcast = await generatePodcast(script.articleUrl, 'url', onProgress, { script });
+
+      expect(wikipedia.fetchArticle).not.toHaveBeenCalled();
+      expect(scriptGenerator.generateScript).not.toHaveBeenCalled();
+      expect(factChecker.checkScriptFacts).not.toHaveBeenCalled();
+      expect(tts.generateAudioSegmentsWithRetry).toHaveBeenCalledWith(
+        script.id, script.lines, expect.any(Number), expect.any(Object)
+      );
+      expect([...new Set(onProgress.mock.calls.map((call: any[]) => call[0].name))])
+        .toEqual(['synthesize_audio', 'stitch_audio']);
+      expect(podcast.articles).toEqual(script.articles);
+
+      const metadataWriteCall = fs.writeFile.mock.calls.find((call: any[]) =>
+        call[0].includes('metadata') && call[0].endsWith('.json')
+      );
+      const metadata = JSON.parse(metadataWriteCall[1]);
+      expect(metadata.script).toMatchObject({ author: 'human', attempts: [] });
+      expect(metadata.script).not.toHaveProperty('provider');
+      expect(metadata.source).toEqual([{ ...script.articles[0], fetchedAt: script.generatedAt }]);
+      expect(metadata.pipeline.stages.map((stage: any) => stage.name)).toEqual(['synthesize_audio', 'stitch_audio']);
+    });
+
+    test('voices a script saved before it listed its articles', async () => {
+      const fs = require('fs/promises');
+      const { provider: _provider, model: _model, generationParams: _params, ...handWritten } = mockScript;
+      const script = { ...handWritten, attempts: [], language: 'en', author: 'human' as const };
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      const podcast = await generatePodcast(script.articleUrl, 'url', undefined, { script });
+
+      const article = { title: 'Test Article', url: 'https://en.wikipedia.org/wiki/Test_Article', language: 'en' };
+      expect(podcast.articles).toEqual([article]);
+
+      const metadataWriteCall = fs.writeFile.mock.calls.find((call: any[]) =>
+        call[0].includes('metadata') && call[0].endsWith('.json')
+      );
+      expect(JSON.parse(metadataWriteCall[1]).source).toEqual([{ ...article, fetchedAt: script.generatedAt }]);
+    });
+
+    test('stops after the script when asked to', async () => {
+      const fs = require('fs/promises');
+      fs.rm = jest.fn().mockResolvedValue(undefined);
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue(mockScript);
+
+      const onProgress = jest.fn();
+      const script = await generatePodcast('Test Article', 'title', onProgress, {
+        checkpointId: 'gen-script',
+        stopAfter: 'generate_script',
+      });
+
+      expect(script).toEqual(mockScript);
+      expect(tts.generateAudioSegmentsWithRetry).not.toHaveBeenCalled();
+      expect(audioStitcher.stitchAudioSegments).not.toHaveBeenCalled();
+      expect([...new Set(onProgress.mock.calls.map((call: any[]) => call[0].name))])
+        .toEqual(['fetch', 'generate_script']);
+      const written = fs.writeFile.mock.calls.map((call: any[]) => call[0] as string);
+      expect(written.some(filePath => filePath.includes('scripts'))).toBe(true);
+      expect(written.some(filePath => filePath.includes('metadata'))).toBe(false);
+      expect(fs.rm).toHaveBeenCalledWith(expect.stringContaining('checkpoints/gen-script.json'), { force: true });
+    });
+
+    test('keeps the episode lexicon and voices the script with it', async () => {
+      const acha = { term: 'Acha', respelling: 'uh-chaa' };
+      const resolved = [{ term: 'Bilkul', respelling: 'bil-kool' }, acha];
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue(mockScript);
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+      (lexicon.resolveLexicon as jest.Mock).mockResolvedValue(resolved);
+
+      await generatePodcast('Test Article', 'title', undefined, { lexicon: [acha] });
+
+      expect(lexicon.saveLexiconEntries).toHaveBeenCalledWith([acha], mockScript.id);
+      expect(lexicon.resolveLexicon).toHaveBeenCalledWith(mockScript.id);
+      expect(tts.generateAudioSegmentsWithRetry).toHaveBeenCalledWith(
+        mockScript.id, mockScript.lines, expect.any(Number), expect.objectContaining({ lexicon: resolved })
+      );
+    });
+  });
+
+  describe('getPipelineStageNames', () => {
+    test('lists the stages each kind of run goes through', () => {
+      expect(getPipelineStageNames({})).toEqual(['fetch', 'generate_script', 'synthesize_audio', 'stitch_audio']);
+      expect(getPipelineStageNames({ stopAfter: 'generate_script' })).toEqual(['fetch', 'generate_script']);
+      expect(getPipelineStageNames({ script: mockScript })).toEqual(['synthesize_audio', 'stitch_audio']);
+    });
+  });
+
+  describe('checkpoints', () => {
+    const completedStage = (name: string) => ({
+      name,
+      status: 'completed',
+      startedAt: '2025-01-01T00:00:00Z',
+      completedAt: '2025-01-01T00:00:01Z',
+    });
+
+    const checkpointWrites = () => {
+      const fs = require('fs/promises');
+      return fs.writeFile.mock.calls
+        .filter((call: any[]) => call[0].includes('checkpoints'))
+        .map((call: any[]) => JSON.parse(call[1]));
+    };
+
+    test('saves checkpoint with article and script after each stage', async () => {
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue(mockScript);
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockRejectedValue(new Error('TTS failed'));
+
+      await expect(generatePodcast('Test', 'title', undefined, { checkpointId: 'gen-1' }))
+        .rejects
+        .toThrow('TTS failed');
+
+      const writes = checkpointWrites();
+      const last = writes[writes.length - 1];
+
+      expect(last.id).toBe('gen-1');
+      expect(last.articles[0].title).toBe('Test Article');
+      expect(last.script.id).toBe(mockScript.id);
+      expect(last.stages.map((s: any) => s.status)).toEqual([
+        'completed',
+        'completed',
+        'failed',
+        'pending',
+      ]);
+    });
+
+    test('checkpoints each synthesized segment', async () => {
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue(mockScript);
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockImplementation(
+        async (_id, _lines, _retries, options) => {
+          options.onSegment(mockAudioSegments[0]);
+          throw new Error('TTS failed on line 2');
+        }
+      );
+
+      await expect(generatePodcast('Test', 'title', undefined, { checkpointId: 'gen-2' }))
+        .rejects
+        .toThrow();
+
+      const writes = checkpointWrites();
+      expect(writes[writes.length - 1].segments).toEqual([mockAudioSegments[0]]);
+    });
+
+    test('removes checkpoint after successful generation', async () => {
+      const fs = require('fs/promises');
+      fs.rm = jest.fn().mockResolvedValue(undefined);
+
+      (wikipedia.fetchArticle as jest.Mock).mockResolvedValue(mockArticle);
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue(mockScript);
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      await generatePodcast('Test', 'title', undefined, { checkpointId: 'gen-3' });
+
+      expect(fs.rm).toHaveBeenCalledWith(
+        expect.stringContaining('checkpoints/gen-3.json'),
+        { force: true }
+      );
+    });
+
+    test('resume skips completed stages and reuses segments', async () => {
+      const fs = require('fs/promises');
+      fs.readFile = jest.fn().mockResolvedValue(JSON.stringify({
+        id: 'gen-4',
+        request: { input: 'Test', type: 'title' },
+        stages: [
+          completedStage('fetch'),
+          completedStage('generate_script'),
+          { name: 'synthesize_audio', status: 'failed', error: 'TTS failed' },
+          { name: 'stitch_audio', status: 'pending' },
+        ],
+        articles: [mockArticle],
+        script: mockScript,
+        segments: [mockAudioSegments[0]],
+        startedAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2025-01-01T00:00:05Z',
+      }));
+
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      const podcast = await resumePodcast('gen-4');
+
+      expect(podcast.id).toBe(mockScript.id);
+      expect(wikipedia.fetchArticle).not.toHaveBeenCalled();
+      expect(scriptGenerator.generateScript).not.toHaveBeenCalled();
+      expect(tts.generateAudioSegmentsWithRetry).toHaveBeenCalledWith(
+        mockScript.id,
+        mockScript.lines,
+        expect.any(Number),
+        expect.objectContaining({ existingSegments: [mockAudioSegments[0]] })
+      );
+    });
+
+    test('resume reports restored stages as completed', async () => {
+      const fs = require('fs/promises');
+      fs.readFile = jest.fn().mockResolvedValue(JSON.stringify({
+        id: 'gen-5',
+        request: { input: 'Test', type: 'title' },
+        stages: [
+          completedStage('fetch'),
+          { name: 'generate_script', status: 'failed', error: 'Bad JSON' },
+          { name: 'synthesize_audio', status: 'pending' },
+          { name: 'stitch_audio', status: 'pending' },
+        ],
+        articles: [mockArticle],
+        segments: [],
+        startedAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2025-01-01T00:00:05Z',
+      }));
+
+      (scriptGenerator.generateScript as jest.Mock).mockResolvedValue(mockScript);
+      (tts.generateAudioSegmentsWithRetry as jest.Mock).mockResolvedValue(mockAudioSegments);
+      (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue(mockStitchedAudio);
+
+      const onProgress = jest.fn();
+      await resumePodcast('gen-5', onProgress);
+
+      expect(onProgress.mock.calls[0][0]).toMatchObject({ name: 'fetch', status: 'completed' });
+      expect(wikipedia.fetchArticle).not.toHaveBeenCalled();
+      expect(scriptGenerator.generateScript).toHaveBeenCalledWith(mockArticle, { outputLanguage: undefined, hosts: defaultHosts, format: classic });
+    });
+
+    test('resume fails when no checkpoint exists', async () => {
+      const fs = require('fs/promises');
+      fs.access = jest.fn().mockRejectedValue(new Error('ENOENT'));
+
+      await expect(resumePodcast('missing'))
+        .rejects
+        .toThrow('No checkpoint found');
     });
   });
 
@@ -373,6 +972,7 @@ describe('Podcast Orchestrator', () => {
         script: {
           id: 'test_id',
           generatedAt: '2025-01-01T00:00:00Z',
+          provider: 'xai' as const,
           model: 'grok-3',
           promptVersion: '1.0.0',
           temperature: 0,
@@ -381,7 +981,7 @@ describe('Podcast Orchestrator', () => {
           id: 'test_id',
           createdAt: '2025-01-01T00:00:00Z',
           durationSeconds: 150,
-          voiceMapping: { Nishi: 'voice1', Shyam: 'voice2' },
+          voiceMapping: { provider: 'elevenlabs', Nishi: 'voice1', Shyam: 'voice2' },
         },
         source: {
           title: 'Test',
@@ -409,6 +1009,82 @@ describe('Podcast Orchestrator', () => {
       expect(podcast?.id).toBe('test_id');
     });
 
+    test('defaults voice provider for metadata without one', async () => {
+      const fs = require('fs/promises');
+      const legacyMetadata = {
+        id: 'legacy_id',
+        script: { id: 'legacy_id' },
+        audio: {
+          createdAt: '2025-01-01T00:00:00Z',
+          durationSeconds: 150,
+          voiceMapping: { Nishi: 'voice1', Shyam: 'voice2' },
+        },
+        source: { title: 'Test', url: 'https://test.com' },
+        artifacts: { audioPath: '/tmp/test.mp3' },
+        pipeline: { version: '1.0.0' },
+      };
+
+      fs.readFile = jest.fn().mockResolvedValue(JSON.stringify(legacyMetadata));
+
+      const podcast = await loadPodcast('legacy_id');
+
+      expect(podcast?.voiceMapping).toEqual({
+        provider: 'elevenlabs',
+        Nishi: 'voice1',
+        Shyam: 'voice2',
+      });
+      expect(podcast).not.toHaveProperty('lineTimings');
+      expect(podcast?.audioSpec.preset).toBe('plain');
+    });
+
+    test('restores line timings from metadata', async () => {
+      const fs = require('fs/promises');
+      const lineTimings = [{ lineIndex: 1, startMs: 0, endMs: 2000 }];
+      fs.readFile = jest.fn().mockResolvedValue(JSON.stringify({
+        id: 'timed_id',
+        script: { id: 'timed_id' },
+        audio: {
+          createdAt: '2025-01-01T00:00:00Z',
+          durationSeconds: 2,
+          voiceMapping: { provider: 'elevenlabs', Nishi: 'voice1', Shyam: 'voice2' },
+          lineTimings,
+        },
+        source: { title: 'Test', url: 'https://test.com' },
+        artifacts: { audioPath: '/tmp/test.mp3' },
+        pipeline: { version: '1.0.0' },
+      }));
+
+      const podcast = await loadPodcast('timed_id');
+
+      expect(podcast?.lineTimings).toEqual(lineTimings);
+    });
+
+    test('loads every source of a multi-article podcast', async () => {
+      const fs = require('fs/promises');
+      fs.readFile = jest.fn().mockResolvedValue(JSON.stringify({
+        id: 'multi_id',
+        script: { id: 'multi_id' },
+        audio: {
+          createdAt: '2025-01-01T00:00:00Z',
+          durationSeconds: 150,
+          voiceMapping: { provider: 'elevenlabs', Nishi: 'voice1', Shyam: 'voice2' },
+        },
+        source: [
+          { title: 'Alan Turing', url: 'https://en.wikipedia.org/wiki/Alan_Turing', language: 'en' },
+          { title: 'Enigma', url: 'https://de.wikipedia.org/wiki/Enigma_(Maschine)', language: 'de' },
+        ],
+        artifacts: { audioPath: '/tmp/test.mp3' },
+        pipeline: { version: '1.0.0' },
+      }));
+
+      const podcast = await loadPodcast('multi_id');
+
+      expect(podcast?.articles).toEqual([
+        { title: 'Alan Turing', url: 'https://en.wikipedia.org/wiki/Alan_Turing', language: 'en' },
+        { title: 'Enigma', url: 'https://de.wikipedia.org/wiki/Enigma_(Maschine)', language: 'de' },
+      ]);
+    });
+
     test('returns null when podcast not found', async () => {
       const fs = require('fs/promises');
       const error: any = new Error('ENOENT');
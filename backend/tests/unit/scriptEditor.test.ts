@@ -0,0 +1,337 @@
+/**
+ * Unit Tests for Script Editor Service
+ *
+ * Tests editing a finished podcast's script, re-voicing only changed lines,
+ * and the script's revision history
+ */
+
+import { editScript, listScriptRevisions, loadScriptRevision } from '../../src/services/scriptEditor.js';
+import * as fileManager from '../../src/utils/fileManager.js';
+import * as tts from '../../src/services/tts.js';
+import * as audioStitcher from '../../src/services/audioStitcher.js';
+import * as orchestrator from '../../src/services/podcastOrchestrator.js';
+import { InvalidInputError } from '../../src/utils/errors.js';
+import type { AudioSegment, GenerationMetadata, Script, ScriptLine, ScriptLineEdit } from '../../src/types/index.js';
+
+jest.mock('../../src/services/tts.js');
+jest.mock('../../src/services/audioStitcher.js');
+jest.mock('../../src/services/podcastOrchestrator.js');
+jest.mock('../../src/services/lexicon.js');
+jest.mock('../../src/utils/fileManager.js', () => ({
+  ...jest.requireActual('../../src/utils/fileManager.js'),
+  loadScript: jest.fn(),
+  loadMetadata: jest.fn(),
+  saveJson: jest.fn(),
+  loadJson: jest.fn(),
+  fileExists: jest.fn(),
+}));
+
+describe('Script Editor Service', () => {
+  const fs = require('fs/promises');
+  const id = 'moon_20250101_120000';
+
+  const sections: Array<[ScriptLine['section'], number]> = [
+    ['greeting', 2],
+    ['explanation', 3],
+    ['clarification', 3],
+    ['qna', 4],
+    ['signoff', 2],
+  ];
+
+  const createLines = (): ScriptLine[] => sections
+    .flatMap(([section, count]) => Array.from({ length: count }, () => section))
+    .map((section, i) => ({
+      index: i + 1,
+      speaker: i % 2 === 0 ? 'Nishi' : 'Shyam',
+      text: `Line ${i + 1} about the Moon.`,
+      section,
+    }));
+
+  const createScript = (overrides: Partial<Script> = {}): Script => ({
+    id,
+    articleTitle: 'Moon',
+    articleUrl: 'https://en.wikipedia.org/wiki/Moon',
+    articles: [{ title: 'Moon', url: 'https://en.wikipedia.org/wiki/Moon', language: 'en' }],
+    lines: createLines(),
+    sections: {},
+    totalWords: 70,
+    estimatedDuration: 28,
+    generatedAt: '2025-01-01T12:00:00Z',
+    provider: 'xai',
+    model: 'grok-3',
+    generationParams: { temperature: 0, maxTokens: 4096, promptVersion: '1.7.0' },
+    attempts: [],
+    language: 'en',
+    ...overrides,
+  });
+
+  const metadata: GenerationMetadata = {
+    id,
+    source: [{ title: 'Moon', url: 'https://en.wikipedia.org/wiki/Moon', fetchedAt: '2025-01-01T12:00:00Z', language: 'en' }],
+    script: {
+      id,
+      generatedAt: '2025-01-01T12:00:00Z',
+      provider: 'xai',
+      model: 'grok-3',
+      promptVersion: '1.7.0',
+      temperature: 0,
+      attempts: [],
+      language: 'en',
+    },
+    audio: {
+      id,
+      createdAt: '2025-01-01T12:01:00Z',
+      durationSeconds: 28,
+      voiceMapping: { provider: 'elevenlabs', Nishi: 'voice1', Shyam: 'voice2' },
+      lineTimings: createLines().map(line => ({ lineIndex: line.index, startMs: (line.index - 1) * 2000, endMs: line.index * 2000 })),
+    },
+    pipeline: { version: '1.0.0', startedAt: '2025-01-01T12:00:00Z', completedAt: '2025-01-01T12:01:00Z', stages: [] },
+    artifacts: { scriptPath: '', audioPath: '', metadataPath: '' },
+    cache: { article: false, script: false, audioLines: [] },
+  };
+
+  const toEdits = (lines: ScriptLine[]): ScriptLineEdit[] =>
+    lines.map(({ index, speaker, text, section }) => ({ index, speaker, text, section }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fs.mkdir = jest.fn().mockResolvedValue(undefined);
+    fs.copyFile = jest.fn().mockResolvedValue(undefined);
+    fs.rename = jest.fn().mockResolvedValue(undefined);
+    fs.rm = jest.fn().mockResolvedValue(undefined);
+
+    (fileManager.loadScript as jest.Mock).mockResolvedValue(createScript());
+    (fileManager.loadMetadata as jest.Mock).mockResolvedValue(metadata);
+    (fileManager.fileExists as jest.Mock).mockResolvedValue(true);
+    (fileManager.saveJson as jest.Mock).mockResolvedValue(undefined);
+    (tts.generateAudioSegmentsWithRetry as jest.Mock).mockImplementation(
+      async (_scriptId: string, lines: ScriptLine[], _retries: number, options: { existingSegments: AudioSegment[] }) =>
+        lines.map(line => options.existingSegments.find(segment => segment.lineIndex === line.index) ?? {
+          lineIndex: line.index,
+          speaker: line.speaker,
+          filePath: `/tmp/new/${line.index}.mp3`,
+          durationMs: 2000,
+          format: 'mp3',
+          generatedAt: '2025-01-02T00:00:00Z',
+        })
+    );
+    (audioStitcher.stitchAudioSegments as jest.Mock).mockResolvedValue({
+      filePath: '/tmp/edit.mp3',
+      durationSeconds: 30,
+      fileSizeBytes: 480000,
+      lineTimings: [{ lineIndex: 1, startMs: 0, endMs: 2000 }],
+    });
+    (orchestrator.loadPodcast as jest.Mock).mockResolvedValue({ id, durationSeconds: 30 });
+  });
+
+  test('re-synthesizes only the lines whose text or speaker changed', async () => {
+    const edits = toEdits(createLines());
+    edits[2] = { ...edits[2], text: 'The Moon is about 384,400 km away.' };
+    edits[5] = { ...edits[5], speaker: 'Nishi' };
+
+    const result = await editScript(id, edits);
+
+    expect(result!.resynthesizedLines).toEqual([3, 6]);
+    const [stagingId, lines, , options] = (tts.generateAudioSegmentsWithRetry as jest.Mock).mock.calls[0];
+    expect(stagingId).toBe(`${id}.edit`);
+    expect(lines).toHaveLength(14);
+    expect(options.existingSegments.map((segment: AudioSegment) => segment.lineIndex))
+      .toEqual([1, 2, 4, 5, 7, 8, 9, 10, 11, 12, 13, 14]);
+    expect(options.existingSegments[2]).toMatchObject({ lineIndex: 4, durationMs: 2000 });
+    expect(fs.copyFile).toHaveBeenCalledWith(
+      fileManager.getSegmentPath(id, 4),
+      fileManager.getSegmentPath(`${id}.edit`, 4)
+    );
+  });
+
+  test('reuses the segments of lines that moved when a line is added', async () => {
+    const edits = toEdits(createLines());
+    edits.splice(4, 0, { speaker: 'Nishi', text: 'A brand new line.', section: 'explanation' });
+
+    const result = await editScript(id, edits);
+
+    expect(result!.resynthesizedLines).toEqual([5]);
+    expect(result!.script.lines.map(line => line.index)).toEqual(Array.from({ length: 15 }, (_, i) => i + 1));
+    expect(fs.copyFile).toHaveBeenCalledWith(
+      fileManager.getSegmentPath(id, 4),
+      fileManager.getSegmentPath(`${id}.edit`, 4)
+    );
+    expect(fs.copyFile).toHaveBeenCalledWith(
+      fileManager.getSegmentPath(id, 5),
+      fileManager.getSegmentPath(`${id}.edit`, 6)
+    );
+  });
+
+  test('produces the edited audio the way the episode was produced', async () => {
+    (fileManager.loadMetadata as jest.Mock).mockResolvedValueOnce({
+      ...metadata,
+      audio: { ...metadata.audio, preset: 'studio' },
+    });
+    const edits = toEdits(createLines());
+    edits[0] = { ...edits[0], text: 'Welcome back!' };
+
+    const result = await editScript(id, edits);
+
+    expect(audioStitcher.stitchAudioSegments).toHaveBeenCalledWith(`${id}.edit`, expect.any(Array), {
+      preset: expect.objectContaining({ id: 'studio' }),
+      sections: result!.script.sections,
+    });
+  });
+
+  test('synthesizes unchanged lines whose segment is missing', async () => {
+    (fileManager.fileExists as jest.Mock).mockImplementation(async (filePath: string) =>
+      filePath !== fileManager.getSegmentPath(id, 2));
+    const edits = toEdits(createLines());
+    edits[0] = { ...edits[0], text: 'Welcome back!' };
+
+    const result = await editScript(id, edits);
+
+    expect(result!.resynthesizedLines).toEqual([1, 2]);
+  });
+
+  test('saves the replaced script as a revision and records the edit', async () => {
+    const edits = toEdits(createLines());
+    edits[0] = { ...edits[0], text: 'Welcome back to Wiki Minutes!' };
+
+    const result = await editScript(id, edits);
+
+    expect(result!.script).toMatchObject({ revision: 2, editedAt: expect.any(String) });
+    expect(result!.script.lines[0].text).toBe('Welcome back to Wiki Minutes!');
+    expect(fileManager.saveJson).toHaveBeenCalledWith(
+      fileManager.getScriptRevisionPath(id, 1),
+      expect.objectContaining({ lines: createLines() })
+    );
+    expect(fileManager.saveJson).toHaveBeenCalledWith(
+      fileManager.getScriptPath(`${id}.edit`),
+      expect.objectContaining({ id, revision: 2 })
+    );
+    expect((fs.rename as jest.Mock).mock.calls).toEqual([
+      [fileManager.getScriptPath(id), fileManager.getScriptPath(`${id}.previous`)],
+      [fileManager.getScriptPath(`${id}.edit`), fileManager.getScriptPath(id)],
+      [fileManager.getMetadataPath(id), fileManager.getMetadataPath(`${id}.previous`)],
+      [fileManager.getMetadataPath(`${id}.edit`), fileManager.getMetadataPath(id)],
+      [fileManager.getAudioPath(id), fileManager.getAudioPath(`${id}.previous`)],
+      [fileManager.getAudioPath(`${id}.edit`), fileManager.getAudioPath(id)],
+      [fileManager.getSegmentsDir(id), fileManager.getSegmentsDir(`${id}.previous`)],
+      [fileManager.getSegmentsDir(`${id}.edit`), fileManager.getSegmentsDir(id)],
+    ]);
+    expect(fs.rm).toHaveBeenCalledWith(fileManager.getAudioPath(`${id}.previous`), { recursive: true, force: true });
+
+    const [, saved] = (fileManager.saveJson as jest.Mock).mock.calls
+      .find(([filePath]) => filePath === fileManager.getMetadataPath(`${id}.edit`)) as [string, GenerationMetadata];
+    expect(saved.script.revision).toBe(2);
+    expect(saved.script.revisions).toEqual([
+      { revision: 1, createdAt: '2025-01-01T12:00:00Z', lineCount: 14, changedLines: createLines().map(line => line.index) },
+      { revision: 2, createdAt: result!.script.editedAt, lineCount: 14, changedLines: [1] },
+    ]);
+    expect(saved.audio).toMatchObject({ durationSeconds: 30, lineTimings: [{ lineIndex: 1, startMs: 0, endMs: 2000 }] });
+  });
+
+  test('rejects edits that break the script rules without touching the audio', async () => {
+    const edits = toEdits(createLines());
+    edits[0] = { ...edits[0], speaker: 'Ada' };
+
+    await expect(editScript(id, edits)).rejects.toBeInstanceOf(InvalidInputError);
+    await expect(editScript(id, edits)).rejects.toThrow('Invalid speaker: Ada');
+    expect(tts.generateAudioSegmentsWithRetry).not.toHaveBeenCalled();
+    expect(fileManager.saveJson).not.toHaveBeenCalled();
+  });
+
+  test('leaves the podcast as it was when synthesis fails', async () => {
+    (tts.generateAudioSegmentsWithRetry as jest.Mock).mockRejectedValue(new Error('TTS generation failed'));
+    const edits = toEdits(createLines());
+    edits[0] = { ...edits[0], text: 'Welcome back!' };
+
+    await expect(editScript(id, edits)).rejects.toThrow('TTS generation failed');
+
+    expect(fs.rename).not.toHaveBeenCalled();
+    expect(fileManager.saveJson).not.toHaveBeenCalled();
+    expect(fs.rm).toHaveBeenCalledWith(fileManager.getSegmentsDir(`${id}.edit`), { recursive: true, force: true });
+  });
+
+  test('leaves the podcast as it was when the script cannot be written', async () => {
+    (fileManager.saveJson as jest.Mock).mockImplementation(async (filePath: string) => {
+      if (filePath === fileManager.getScriptPath(`${id}.edit`)) throw new Error('ENOSPC');
+    });
+    const edits = toEdits(createLines());
+    edits[0] = { ...edits[0], text: 'Welcome back!' };
+
+    await expect(editScript(id, edits)).rejects.toThrow('ENOSPC');
+
+    expect(fs.rename).not.toHaveBeenCalled();
+    expect(fs.rm).toHaveBeenCalledWith(fileManager.getAudioPath(`${id}.edit`), { force: true });
+    expect(fs.rm).toHaveBeenCalledWith(fileManager.getScriptPath(`${id}.edit`), { force: true });
+  });
+
+  test('puts the swapped files back when the audio cannot be moved into place', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    (fs.rename as jest.Mock).mockImplementation(async (source: string) => {
+      if (source === fileManager.getAudioPath(`${id}.edit`)) throw new Error('EXDEV');
+    });
+    const edits = toEdits(createLines());
+    edits[0] = { ...edits[0], text: 'Welcome back!' };
+
+    await expect(editScript(id, edits)).rejects.toThrow('EXDEV');
+
+    expect((fs.rename as jest.Mock).mock.calls.slice(-3)).toEqual([
+      [fileManager.getAudioPath(`${id}.previous`), fileManager.getAudioPath(id)],
+      [fileManager.getMetadataPath(`${id}.previous`), fileManager.getMetadataPath(id)],
+      [fileManager.getScriptPath(`${id}.previous`), fileManager.getScriptPath(id)],
+    ]);
+    expect(fs.rename).not.toHaveBeenCalledWith(fileManager.getSegmentsDir(id), expect.any(String));
+    expect(fs.rm).not.toHaveBeenCalledWith(fileManager.getScriptPath(`${id}.previous`), expect.anything());
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  test('measures reused segments when the episode has no line timings', async () => {
+    (fileManager.loadMetadata as jest.Mock).mockResolvedValueOnce({
+      ...metadata,
+      audio: { ...metadata.audio, lineTimings: undefined },
+    });
+    (audioStitcher.getAudioDuration as jest.Mock).mockResolvedValue(2.4567);
+    const edits = toEdits(createLines());
+    edits[0] = { ...edits[0], text: 'Welcome back!' };
+
+    await editScript(id, edits);
+
+    const [, , , options] = (tts.generateAudioSegmentsWithRetry as jest.Mock).mock.calls[0];
+    expect(audioStitcher.getAudioDuration).toHaveBeenCalledWith(fileManager.getSegmentPath(`${id}.edit`, 2));
+    expect(options.existingSegments[0]).toMatchObject({ lineIndex: 2, durationMs: 2457 });
+  });
+
+  test('makes no revision when nothing changed', async () => {
+    const result = await editScript(id, toEdits(createLines()));
+
+    expect(result!.resynthesizedLines).toEqual([]);
+    expect(result!.script.revision).toBeUndefined();
+    expect(tts.generateAudioSegmentsWithRetry).not.toHaveBeenCalled();
+  });
+
+  test('returns null for a podcast that does not exist', async () => {
+    (fileManager.loadScript as jest.Mock).mockResolvedValue(null);
+
+    await expect(editScript('missing', toEdits(createLines()))).resolves.toBeNull();
+  });
+
+  describe('revisions', () => {
+    test('lists only the generated revision for scripts never edited', async () => {
+      await expect(listScriptRevisions(id)).resolves.toEqual({
+        current: 1,
+        revisions: [{ revision: 1, createdAt: '2025-01-01T12:00:00Z', lineCount: 14, changedLines: createLines().map(line => line.index) }],
+      });
+    });
+
+    test('loads the current revision from the script and earlier ones from their snapshot', async () => {
+      const current = createScript({ revision: 3 });
+      const earlier = createScript({ revision: 2 });
+      (fileManager.loadScript as jest.Mock).mockResolvedValue(current);
+      (fileManager.loadJson as jest.Mock).mockResolvedValue(earlier);
+
+      await expect(loadScriptRevision(id, 3)).resolves.toBe(current);
+      await expect(loadScriptRevision(id, 2)).resolves.toBe(earlier);
+      expect(fileManager.loadJson).toHaveBeenCalledWith(fileManager.getScriptRevisionPath(id, 2));
+      await expect(loadScriptRevision(id, 4)).resolves.toBeNull();
+    });
+  });
+});
@@ -5,8 +5,15 @@
  * Note: callGrokAPI is tested via integration tests due to external API dependency.
  */
 
-import { generateScript } from '../../src/services/scriptGenerator.js';
-import type { Article, ScriptLine } from '../../src/types/index.js';
+import { generateScript, generateScriptId } from '../../src/services/scriptGenerator.js';
+import { getCachedJson, setCachedJson, hashKey } from '../../src/services/cache.js';
+import { getDefaultHosts } from '../../src/config/hosts.js';
+import { getFormat } from '../../src/config/formats.js';
+import { isValidPodcastId } from '../../src/utils/validation.js';
+import { GenerationFailedError } from '../../src/utils/errors.js';
+import type { Article, HostProfile, ScriptLine, ScriptGenerationAttempt } from '../../src/types/index.js';
+
+jest.mock('../../src/services/cache.js');
 
 // Mock the Grok API calls
 jest.mock('node-fetch');
@@ -18,6 +25,7 @@ describe('Script Generator Service', () => {
     url: 'https://en.wikipedia.org/wiki/Test_Article',
     rawContent: '<html>Raw content</html>',
     cleanedText: 'This is test content. '.repeat(50),
+    sections: [],
     summary: 'Test summary',
     wordCount: 150,
     fetchedAt: '2024-01-01T00:00:00Z',
@@ -34,10 +42,13 @@ describe('Script Generator Service', () => {
     { index: 6, speaker: 'Shyam', text: 'Let me elaborate further.', section: 'explanation' },
     { index: 7, speaker: 'Nishi', text: 'Can you clarify that?', section: 'clarification' },
     { index: 8, speaker: 'Shyam', text: 'Sure, here is more detail.', section: 'clarification' },
-    { index: 9, speaker: 'Nishi', text: 'What about this aspect?', section: 'qna' },
-    { index: 10, speaker: 'Shyam', text: 'Good question!', section: 'qna' },
-    { index: 11, speaker: 'Nishi', text: 'Thanks for explaining.', section: 'signoff' },
-    { index: 12, speaker: 'Shyam', text: 'See you next time!', section: 'signoff' },
+    { index: 9, speaker: 'Nishi', text: 'That clears it up.', section: 'clarification' },
+    { index: 10, speaker: 'Shyam', text: 'Listeners often ask about this.', section: 'qna' },
+    { index: 11, speaker: 'Nishi', text: 'What about this aspect?', section: 'qna' },
+    { index: 12, speaker: 'Shyam', text: 'Good question!', section: 'qna' },
+    { index: 13, speaker: 'Nishi', text: 'And why does it matter?', section: 'qna' },
+    { index: 14, speaker: 'Shyam', text: 'Thanks for explaining.', section: 'signoff' },
+    { index: 15, speaker: 'Nishi', text: 'See you next time!', section: 'signoff' },
   ];
 
   describe('Script Validation', () => {
@@ -47,7 +58,8 @@ describe('Script Generator Service', () => {
         const mockFetch = require('node-fetch').default;
         
         // Mock Grok API to return too few lines
-        mockFetch.mockResolvedValueOnce({
+        // The model keeps returning the same invalid reply
+        mockFetch.mockResolvedValue({
           ok: true,
           json: async () => ({
             choices: [{
@@ -70,18 +82,18 @@ describe('Script Generator Service', () => {
         const article = createTestArticle();
         const mockFetch = require('node-fetch').default;
         
-        // Create exactly 10 lines with all 5 required sections
+        // Exactly 10 lines: the shortest debate, two lines per section
         const lines: ScriptLine[] = [
-          { index: 1, speaker: 'Nishi', text: 'Hello', section: 'greeting' },
-          { index: 2, speaker: 'Shyam', text: 'Hi', section: 'greeting' },
-          { index: 3, speaker: 'Nishi', text: 'Tell me', section: 'explanation' },
-          { index: 4, speaker: 'Shyam', text: 'Sure', section: 'explanation' },
-          { index: 5, speaker: 'Nishi', text: 'What', section: 'clarification' },
-          { index: 6, speaker: 'Shyam', text: 'Here', section: 'clarification' },
-          { index: 7, speaker: 'Nishi', text: 'Why', section: 'qna' },
-          { index: 8, speaker: 'Shyam', text: 'Because', section: 'qna' },
-          { index: 9, speaker: 'Nishi', text: 'Thanks', section: 'signoff' },
-          { index: 10, speaker: 'Shyam', text: 'Bye', section: 'signoff' },
+          { index: 1, speaker: 'Nishi', text: 'Hello', section: 'opening' },
+          { index: 2, speaker: 'Shyam', text: 'Hi', section: 'opening' },
+          { index: 3, speaker: 'Nishi', text: 'For', section: 'case-for' },
+          { index: 4, speaker: 'Shyam', text: 'Indeed', section: 'case-for' },
+          { index: 5, speaker: 'Nishi', text: 'Against', section: 'case-against' },
+          { index: 6, speaker: 'Shyam', text: 'Perhaps', section: 'case-against' },
+          { index: 7, speaker: 'Nishi', text: 'Both', section: 'common-ground' },
+          { index: 8, speaker: 'Shyam', text: 'Agreed', section: 'common-ground' },
+          { index: 9, speaker: 'Nishi', text: 'Thanks', section: 'closing' },
+          { index: 10, speaker: 'Shyam', text: 'Bye', section: 'closing' },
         ];
         
         mockFetch.mockResolvedValueOnce({
@@ -95,7 +107,7 @@ describe('Script Generator Service', () => {
           })
         });
 
-        const result = await generateScript(article);
+        const result = await generateScript(article, { format: getFormat('debate') });
         expect(result.lines).toHaveLength(10);
       });
 
@@ -129,7 +141,8 @@ describe('Script Generator Service', () => {
           line.section === 'greeting' ? { ...line, section: 'explanation' as const } : line
         );
         
-        mockFetch.mockResolvedValueOnce({
+        // The model keeps returning the same invalid reply
+        mockFetch.mockResolvedValue({
           ok: true,
           json: async () => ({
             choices: [{
@@ -149,7 +162,8 @@ describe('Script Generator Service', () => {
           line.section === 'explanation' ? { ...line, section: 'greeting' as const } : line
         );
         
-        mockFetch.mockResolvedValueOnce({
+        // The model keeps returning the same invalid reply
+        mockFetch.mockResolvedValue({
           ok: true,
           json: async () => ({
             choices: [{
@@ -167,7 +181,8 @@ describe('Script Generator Service', () => {
         
         const lines = createValidScriptLines().filter(line => line.section !== 'clarification');
         
-        mockFetch.mockResolvedValueOnce({
+        // The model keeps returning the same invalid reply
+        mockFetch.mockResolvedValue({
           ok: true,
           json: async () => ({
             choices: [{
@@ -185,7 +200,8 @@ describe('Script Generator Service', () => {
         
         const lines = createValidScriptLines().filter(line => line.section !== 'qna');
         
-        mockFetch.mockResolvedValueOnce({
+        // The model keeps returning the same invalid reply
+        mockFetch.mockResolvedValue({
           ok: true,
           json: async () => ({
             choices: [{
@@ -203,7 +219,8 @@ describe('Script Generator Service', () => {
         
         const lines = createValidScriptLines().filter(line => line.section !== 'signoff');
         
-        mockFetch.mockResolvedValueOnce({
+        // The model keeps returning the same invalid reply
+        mockFetch.mockResolvedValue({
           ok: true,
           json: async () => ({
             choices: [{
@@ -246,7 +263,8 @@ describe('Script Generator Service', () => {
         const lines = createValidScriptLines();
         lines[0] = { ...lines[0], speaker: 'InvalidSpeaker' as any };
         
-        mockFetch.mockResolvedValueOnce({
+        // The model keeps returning the same invalid reply
+        mockFetch.mockResolvedValue({
           ok: true,
           json: async () => ({
             choices: [{
@@ -289,7 +307,8 @@ describe('Script Generator Service', () => {
         lines[3] = { ...lines[3], section: 'signoff' as const };
         lines[11] = { ...lines[11], section: 'explanation' as const };
         
-        mockFetch.mockResolvedValueOnce({
+        // The model keeps returning the same invalid reply
+        mockFetch.mockResolvedValue({
           ok: true,
           json: async () => ({
             choices: [{
@@ -338,7 +357,8 @@ describe('Script Generator Service', () => {
           { index: 10, speaker: 'Shyam', text: 'Line 10', section: 'signoff' },
         ];
         
-        mockFetch.mockResolvedValueOnce({
+        // The model keeps returning the same invalid reply
+        mockFetch.mockResolvedValue({
           ok: true,
           json: async () => ({
             choices: [{
@@ -354,18 +374,10 @@ describe('Script Generator Service', () => {
         const article = createTestArticle();
         const mockFetch = require('node-fetch').default;
         
-        const lines: ScriptLine[] = [
-          { index: 1, speaker: 'Nishi', text: 'Line 1', section: 'greeting' },
-          { index: 2, speaker: 'Nishi', text: 'Line 2', section: 'greeting' },
-          { index: 3, speaker: 'Nishi', text: 'Line 3', section: 'greeting' },
-          { index: 4, speaker: 'Nishi', text: 'Line 4', section: 'explanation' },
-          { index: 5, speaker: 'Nishi', text: 'Line 5', section: 'explanation' },
-          { index: 6, speaker: 'Shyam', text: 'Line 6', section: 'explanation' },
-          { index: 7, speaker: 'Shyam', text: 'Line 7', section: 'clarification' },
-          { index: 8, speaker: 'Shyam', text: 'Line 8', section: 'clarification' },
-          { index: 9, speaker: 'Nishi', text: 'Line 9', section: 'qna' },
-          { index: 10, speaker: 'Shyam', text: 'Line 10', section: 'signoff' },
-        ];
+        // Nishi speaks lines 1-5
+        const lines = createValidScriptLines().map((line, i) =>
+          i < 5 ? { ...line, speaker: 'Nishi' } : line
+        );
         
         mockFetch.mockResolvedValueOnce({
           ok: true,
@@ -390,7 +402,7 @@ describe('Script Generator Service', () => {
       // Create lines with exactly 300 words (should be 120 seconds)
       const lines = createValidScriptLines().map((line) => ({
         ...line,
-        text: 'word '.repeat(25), // 25 words per line
+        text: 'word '.repeat(20), // 20 words per line
       }));
       
       mockFetch.mockResolvedValueOnce({
@@ -403,7 +415,7 @@ describe('Script Generator Service', () => {
       });
 
       const result = await generateScript(article);
-      // 12 lines * 25 words = 300 words
+      // 15 lines * 20 words = 300 words
       // 300 words / 150 WPM = 2 minutes = 120 seconds
       expect(result.estimatedDuration).toBe(120);
     });
@@ -531,6 +543,48 @@ describe('Script Generator Service', () => {
       const titlePart = result.id.split('_').slice(0, -2).join('_');
       expect(titlePart.length).toBeLessThanOrEqual(50);
     });
+
+    test('keeps the letters of titles in other scripts', async () => {
+      const article = createTestArticle();
+      article.title = 'ताज महल';
+      const mockFetch = require('node-fetch').default;
+      
+      const lines = createValidScriptLines();
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          choices: [{
+            message: { content: JSON.stringify({ lines }) }
+          }]
+        })
+      });
+
+      const result = await generateScript(article);
+      expect(result.id).toMatch(/^ताज_महल_\d{8}_\d{6}$/);
+      expect(isValidPodcastId(result.id)).toBe(true);
+    });
+
+    test('falls back to a hash of the URL for titles without letters', async () => {
+      const article = createTestArticle();
+      article.title = '🌕 ⭐';
+      const mockFetch = require('node-fetch').default;
+      
+      const lines = createValidScriptLines();
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          choices: [{
+            message: { content: JSON.stringify({ lines }) }
+          }]
+        })
+      });
+
+      const result = await generateScript(article);
+      expect(result.id).toMatch(/^[0-9a-f]{8}_\d{8}_\d{6}$/);
+      expect(generateScriptId(article.title, article.url).slice(0, 8)).toBe(result.id.slice(0, 8));
+      expect(generateScriptId(article.title, 'https://en.wikipedia.org/wiki/Moon').slice(0, 8))
+        .not.toBe(result.id.slice(0, 8));
+    });
   });
 
   describe('Script Entity', () => {
@@ -561,6 +615,48 @@ describe('Script Generator Service', () => {
       expect(result).toHaveProperty('generationParams');
     });
 
+    test('records provider and requested model', async () => {
+      const article = createTestArticle();
+      const mockFetch = require('node-fetch').default;
+      
+      const lines = createValidScriptLines();
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          choices: [{
+            message: { content: JSON.stringify({ lines }) }
+          }]
+        })
+      });
+
+      const result = await generateScript(article);
+      expect(result.provider).toBe('xai');
+      expect(result.model).toBe('grok-3');
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.x.ai/v1/chat/completions',
+        expect.any(Object)
+      );
+    });
+
+    test('records model reported by the API', async () => {
+      const article = createTestArticle();
+      const mockFetch = require('node-fetch').default;
+      
+      const lines = createValidScriptLines();
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          model: 'grok-3-0409',
+          choices: [{
+            message: { content: JSON.stringify({ lines }) }
+          }]
+        })
+      });
+
+      const result = await generateScript(article);
+      expect(result.model).toBe('grok-3-0409');
+    });
+
     test('sets correct article reference', async () => {
       const article = createTestArticle();
       const mockFetch = require('node-fetch').default;
@@ -646,6 +742,772 @@ describe('Script Generator Service', () => {
     });
   });
 
+  describe('Repair Loop', () => {
+    const reply = (content: string) => ({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content } }] }),
+    });
+
+    test('sends validation errors back and accepts the repaired script', async () => {
+      const article = createTestArticle();
+      const mockFetch = require('node-fetch').default;
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      const invalid = JSON.stringify({ lines: createValidScriptLines().slice(0, 4) });
+      mockFetch
+        .mockResolvedValueOnce(reply(invalid))
+        .mockResolvedValueOnce(reply(JSON.stringify({ lines: createValidScriptLines() })));
+
+      const result = await generateScript(article);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      const repairMessages = JSON.parse(mockFetch.mock.calls[1][1].body).messages;
+      expect(repairMessages).toHaveLength(4);
+      expect(repairMessages[2]).toEqual({ role: 'assistant', content: invalid });
+      expect(repairMessages[3].role).toBe('user');
+      expect(repairMessages[3].content).toContain('- Script too short: must have at least 10 lines');
+      expect(repairMessages[3].content).toContain('- Missing required section: clarification');
+
+      expect(result.lines).toHaveLength(15);
+      expect(result.attempts).toHaveLength(2);
+      expect(result.attempts[0].errors).toContain('Missing required section: signoff');
+      expect(result.attempts[1]).toEqual(expect.objectContaining({ attempt: 2, errors: [] }));
+
+      consoleSpy.mockRestore();
+    });
+
+    test('repairs malformed JSON replies', async () => {
+      const article = createTestArticle();
+      const mockFetch = require('node-fetch').default;
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      mockFetch
+        .mockResolvedValueOnce(reply('{"lines": ['))
+        .mockResolvedValueOnce(reply(JSON.stringify({ lines: createValidScriptLines() })));
+
+      const result = await generateScript(article);
+
+      expect(result.attempts[0].errors[0]).toContain('Failed to parse Grok response as JSON');
+      expect(result.attempts).toHaveLength(2);
+
+      consoleSpy.mockRestore();
+    });
+
+    test('reports malformed lines instead of crashing', async () => {
+      const article = createTestArticle();
+      const mockFetch = require('node-fetch').default;
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      mockFetch.mockResolvedValue(reply(JSON.stringify({ lines: [{ index: 1, speaker: 'Nishi' }] })));
+
+      await expect(generateScript(article))
+        .rejects
+        .toThrow('Line 1 must have string "speaker" and "text" fields');
+
+      consoleSpy.mockRestore();
+    });
+
+    test('gives up after the configured number of repairs', async () => {
+      const article = createTestArticle();
+      const mockFetch = require('node-fetch').default;
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      mockFetch.mockResolvedValue(reply('Not valid JSON'));
+
+      // scriptRepairAttempts is 2 in the test config
+      await expect(generateScript(article))
+        .rejects
+        .toThrow('Script generation failed after 3 attempt(s)');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+
+      consoleSpy.mockRestore();
+    });
+
+    test('keeps the rejected attempts on the error when repairs run out', async () => {
+      const mockFetch = require('node-fetch').default;
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      mockFetch.mockResolvedValue(reply('Not valid JSON'));
+
+      const error = await generateScript(createTestArticle()).catch(e => e);
+
+      expect(error).toBeInstanceOf(GenerationFailedError);
+      expect(error.details.stage).toBe('script');
+      expect(error.details.attempts).toEqual([1, 2, 3].map(attempt => ({
+        attempt,
+        errors: [expect.stringContaining('Failed to parse')],
+        completedAt: expect.any(String),
+      })));
+
+      consoleSpy.mockRestore();
+    });
+
+    test('does not retry API errors', async () => {
+      const article = createTestArticle();
+      const mockFetch = require('node-fetch').default;
+
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 500,
+        statusText: 'Internal Server Error',
+        text: async () => 'Error details',
+      });
+
+      await expect(generateScript(article)).rejects.toThrow('Grok API error');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('records a single clean attempt when the first reply is valid', async () => {
+      const article = createTestArticle();
+      const mockFetch = require('node-fetch').default;
+
+      mockFetch.mockResolvedValueOnce(reply(JSON.stringify({ lines: createValidScriptLines() })));
+
+      const result = await generateScript(article);
+
+      expect(result.attempts).toEqual([
+        { attempt: 1, errors: [], completedAt: expect.any(String) },
+      ]);
+    });
+  });
+
+  describe('Script Cache', () => {
+    test('reuses cached lines without calling the model', async () => {
+      const article = createTestArticle();
+      const mockFetch = require('node-fetch').default;
+      (getCachedJson as jest.Mock).mockResolvedValueOnce({
+        lines: createValidScriptLines(),
+        model: 'grok-3',
+        attempts: [{ attempt: 1, errors: [], completedAt: '2025-01-01T00:00:00Z' }],
+      });
+
+      const result = await generateScript(article);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result.fromCache).toBe(true);
+      expect(result.lines).toHaveLength(15);
+      expect(result.attempts).toEqual([]);
+    });
+
+    test('stores generated lines', async () => {
+      const article = createTestArticle();
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { content: JSON.stringify({ lines: createValidScriptLines() }) } }]
+        })
+      });
+
+      const result = await generateScript(article);
+
+      expect(result.fromCache).toBeUndefined();
+      expect(setCachedJson).toHaveBeenCalledWith(
+        'scripts',
+        undefined,
+        expect.objectContaining({ model: 'grok-3', lines: result.lines })
+      );
+    });
+  });
+
+  describe('Languages', () => {
+    const reply = () => ({
+      ok: true,
+      json: async () => ({
+        choices: [{ message: { content: JSON.stringify({ lines: createValidScriptLines() }) } }]
+      })
+    });
+
+    test('uses the default English-Hindi prompt for English articles', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply());
+
+      const result = await generateScript(createTestArticle());
+
+      const userPrompt = JSON.parse(mockFetch.mock.calls[0][1].body).messages[1].content;
+      expect(userPrompt).not.toContain('Language:');
+      expect(result.language).toBe('en');
+    });
+
+    test('asks for a faithful translation of non-English articles', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply());
+
+      await generateScript({ ...createTestArticle(), language: 'de' });
+
+      const userPrompt = JSON.parse(mockFetch.mock.calls[0][1].body).messages[1].content;
+      expect(userPrompt).toContain('The article is written in German');
+      expect(userPrompt).not.toContain('Write every line in');
+    });
+
+    test('writes the script in the requested output language', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply());
+
+      const result = await generateScript(
+        { ...createTestArticle(), language: 'fr' },
+        { outputLanguage: 'fr' }
+      );
+
+      const userPrompt = JSON.parse(mockFetch.mock.calls[0][1].body).messages[1].content;
+      expect(userPrompt).toContain('Write every line in French');
+      expect(userPrompt).not.toContain('The article is written in');
+      expect(result.language).toBe('fr');
+    });
+
+    test('includes both languages in the cache key', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply());
+
+      await generateScript({ ...createTestArticle(), language: 'de' }, { outputLanguage: 'hi' });
+
+      const scriptKeyCall = (hashKey as jest.Mock).mock.calls.find(call => call[0] === 'script');
+      expect(scriptKeyCall.slice(0, 4)).toEqual(['script', 'de', 'hi', 'Test Article']);
+    });
+  });
+
+  describe('Episode Length', () => {
+    const reply = (content: unknown) => ({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: JSON.stringify(content) } }] }),
+    });
+
+    // Valid lines padded to the given number of words
+    const linesWithWords = (words: number, sections?: ScriptLine['section'][]): ScriptLine[] => {
+      const lines = sections
+        ? sections.flatMap((section, i) => [
+          { index: 2 * i + 1, speaker: 'Nishi' as const, text: '', section },
+          { index: 2 * i + 2, speaker: 'Shyam' as const, text: '', section },
+        ])
+        : createValidScriptLines();
+      const perLine = Math.floor(words / lines.length);
+      return lines.map((line, i) => ({
+        ...line,
+        text: 'word '.repeat(perLine + (i < words % lines.length ? 1 : 0)).trim(),
+      }));
+    };
+
+    const promptOf = (call: number) =>
+      JSON.parse(require('node-fetch').default.mock.calls[call][1].body).messages[1].content;
+
+    test('asks for the requested length', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply({ lines: linesWithWords(450) }));
+
+      const result = await generateScript(createTestArticle(), { targetMinutes: 3 });
+
+      expect(promptOf(0)).toContain('Stay within 360-540 words (about 3 minutes of audio) total');
+      expect(result.targetMinutes).toBe(3);
+      expect(result.estimatedDuration).toBe(180);
+    });
+
+    test('rejects scripts that miss the requested length', async () => {
+      const mockFetch = require('node-fetch').default;
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      mockFetch.mockResolvedValue(reply({ lines: linesWithWords(300) }));
+
+      await expect(generateScript(createTestArticle(), { targetMinutes: 4 }))
+        .rejects
+        .toThrow('Script runs about 120s (300 words) but 4 minutes were requested: write 480-720 words (192-288s)');
+
+      consoleSpy.mockRestore();
+    });
+
+    test('only warns about length when none was requested', async () => {
+      const mockFetch = require('node-fetch').default;
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      mockFetch.mockResolvedValueOnce(reply({ lines: linesWithWords(600) }));
+
+      const result = await generateScript(createTestArticle());
+
+      expect(result.targetMinutes).toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('outside target range (120-180s)'));
+
+      consoleSpy.mockRestore();
+    });
+
+    describe('long-form generation', () => {
+      // 10 minutes: 1200-1800 words in 3 segments of 400-600 words
+      const outline = {
+        segments: [
+          { title: 'Origins', points: ['Where it began'] },
+          { title: 'Growth', points: ['How it spread', 'Who led it'] },
+          { title: 'Legacy', points: ['What remains'] },
+        ],
+      };
+
+      const mockSegments = () => {
+        require('node-fetch').default
+          .mockResolvedValueOnce(reply(outline))
+          .mockResolvedValueOnce(reply({ lines: linesWithWords(500, ['greeting', 'explanation']) }))
+          .mockResolvedValueOnce(reply({ lines: linesWithWords(500, ['clarification']) }))
+          .mockResolvedValueOnce(reply({ lines: linesWithWords(500, ['qna', 'signoff']) }));
+      };
+
+      test('plans an outline, then writes each segment', async () => {
+        const mockFetch = require('node-fetch').default;
+        mockSegments();
+
+        const result = await generateScript(createTestArticle(), { targetMinutes: 10 });
+
+        expect(mockFetch).toHaveBeenCalledTimes(4);
+        expect(promptOf(0)).toContain('exactly 3 segments');
+        expect(result.outline).toEqual([
+          { title: 'Origins', points: ['Where it began'], sections: ['greeting', 'explanation'] },
+          { title: 'Growth', points: ['How it spread', 'Who led it'], sections: ['clarification'] },
+          { title: 'Legacy', points: ['What remains'], sections: ['qna', 'signoff'] },
+        ]);
+        expect(result.lines).toHaveLength(10);
+        expect(result.lines.map(line => line.index)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+        expect(result.totalWords).toBe(1500);
+        expect(result.targetMinutes).toBe(10);
+        expect(result.attempts.map(attempt => attempt.step)).toEqual([
+          'outline', 'segment 1', 'segment 2', 'segment 3',
+        ]);
+      });
+
+      test('gives each segment the outline and the lines so far', async () => {
+        mockSegments();
+
+        await generateScript(createTestArticle(), { targetMinutes: 10 });
+
+        const secondPart = promptOf(2);
+        expect(secondPart).toContain('Write part 2 of 3');
+        expect(secondPart).toContain('1. Origins: Where it began');
+        expect(secondPart).toContain('This part: "Growth"');
+        expect(secondPart).toContain('Sections for this part, in order: clarification');
+        expect(secondPart).toContain('between 400 and 600 words');
+        expect(secondPart).toContain('Number the lines starting at 5');
+        expect(secondPart).toContain('The script so far ends with:');
+        expect(secondPart).toContain('Do not say goodbye');
+        expect(promptOf(3)).not.toContain('Do not say goodbye');
+        expect(promptOf(1)).not.toContain('The script so far ends with:');
+      });
+
+      test('repairs segments with sections that belong elsewhere', async () => {
+        const mockFetch = require('node-fetch').default;
+        const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+        mockFetch
+          .mockResolvedValueOnce(reply(outline))
+          .mockResolvedValueOnce(reply({ lines: linesWithWords(500, ['greeting', 'signoff']) }))
+          .mockResolvedValueOnce(reply({ lines: linesWithWords(500, ['greeting', 'explanation']) }))
+          .mockResolvedValueOnce(reply({ lines: linesWithWords(500, ['clarification']) }))
+          .mockResolvedValueOnce(reply({ lines: linesWithWords(500, ['qna', 'signoff']) }));
+
+        const result = await generateScript(createTestArticle(), { targetMinutes: 10 });
+
+        const repairPrompt = JSON.parse(mockFetch.mock.calls[2][1].body).messages[3].content;
+        expect(repairPrompt).toContain('Section signoff at line 3 does not belong here');
+        expect(repairPrompt).toContain('Return the complete corrected part.');
+        expect(result.attempts[1]).toEqual(expect.objectContaining({ attempt: 1, step: 'segment 1' }));
+        expect(result.attempts[2]).toEqual(expect.objectContaining({ attempt: 2, step: 'segment 1', errors: [] }));
+
+        consoleSpy.mockRestore();
+      });
+
+      test('names the failing step when repairs run out', async () => {
+        const mockFetch = require('node-fetch').default;
+        const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+        mockFetch.mockResolvedValue(reply({ segments: [{ title: 'Only one', points: ['Point'] }] }));
+
+        const error = await generateScript(createTestArticle(), { targetMinutes: 10 }).catch(e => e);
+
+        expect(error.message)
+          .toBe('Script generation failed after 3 attempt(s) (outline): Outline must have exactly 3 segments, got 1');
+        expect(error.details.attempts.map((attempt: ScriptGenerationAttempt) => attempt.step))
+          .toEqual(['outline', 'outline', 'outline']);
+
+        consoleSpy.mockRestore();
+      });
+    });
+
+    test('includes the length in the cache key', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply({ lines: linesWithWords(450) }));
+
+      await generateScript(createTestArticle(), { targetMinutes: 3 });
+
+      const scriptKeyCall = (hashKey as jest.Mock).mock.calls.find(call => call[0] === 'script');
+      expect(scriptKeyCall[6]).toBe(3);
+    });
+  });
+
+  describe('Multiple Articles', () => {
+    const reply = (lines: unknown[]) => ({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: JSON.stringify({ lines }) } }] }),
+    });
+
+    const createOtherArticle = (): Article => ({
+      ...createTestArticle(),
+      title: 'Other Article',
+      url: 'https://de.wikipedia.org/wiki/Other_Article',
+      language: 'de',
+    });
+
+    // Alternates citations between the two articles outside greeting and signoff
+    const citedLines = () => createValidScriptLines().map((line, i) => ({
+      ...line,
+      sourceArticles: line.section === 'greeting' || line.section === 'signoff' ? [] : [(i % 2) + 1],
+    }));
+
+    const promptOf = (call: number) =>
+      JSON.parse(require('node-fetch').default.mock.calls[call][1].body).messages[1].content;
+
+    test('numbers the articles and asks how they connect', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply(citedLines()));
+
+      const result = await generateScript([createTestArticle(), createOtherArticle()]);
+
+      expect(promptOf(0)).toContain('Article 1: "Test Article"');
+      expect(promptOf(0)).toContain('Article 2: "Other Article"');
+      expect(promptOf(0)).toContain('"Test Article" and "Other Article", and how they connect');
+      expect(promptOf(0)).toContain('Some articles are written in German');
+      expect(result.articles).toEqual([
+        { title: 'Test Article', url: 'https://en.wikipedia.org/wiki/Test_Article', language: 'en' },
+        { title: 'Other Article', url: 'https://de.wikipedia.org/wiki/Other_Article', language: 'de' },
+      ]);
+      expect(result.articleTitle).toBe('Test Article');
+      expect(result.id).toMatch(/^test_article_and_other_article_/);
+    });
+
+    test('keeps the articles each line draws on', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply(citedLines()));
+
+      const result = await generateScript([createTestArticle(), createOtherArticle()]);
+
+      expect(result.lines[0].sourceArticles).toEqual([]);
+      expect(result.lines[3].sourceArticles).toEqual([2]);
+      expect(result.lines[4].sourceArticles).toEqual([1]);
+    });
+
+    test('asks for a repair when an article is never cited', async () => {
+      const mockFetch = require('node-fetch').default;
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const uncited = createValidScriptLines().map(line => ({ ...line, sourceArticles: [1] }));
+      mockFetch
+        .mockResolvedValueOnce(reply(uncited))
+        .mockResolvedValueOnce(reply(citedLines()));
+
+      const result = await generateScript([createTestArticle(), createOtherArticle()]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.attempts[0].errors).toContain(
+        'Article 2 is never cited in "sourceArticles"; draw on every article'
+      );
+
+      consoleSpy.mockRestore();
+    });
+
+    test('rejects citations of articles that were not given', async () => {
+      const mockFetch = require('node-fetch').default;
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const lines = citedLines();
+      lines[5].sourceArticles = [3];
+      mockFetch.mockResolvedValue(reply(lines));
+
+      await expect(generateScript([createTestArticle(), createOtherArticle()]))
+        .rejects
+        .toThrow('Line 6 cites article 3, but there are only 2 articles');
+
+      consoleSpy.mockRestore();
+    });
+
+    test('drops citations from single-article scripts', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply(citedLines()));
+
+      const result = await generateScript(createTestArticle());
+
+      expect(result.lines.every(line => line.sourceArticles === undefined)).toBe(true);
+    });
+
+    test('adds the other articles to the cache key', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply(citedLines()));
+
+      await generateScript([createTestArticle(), { ...createOtherArticle(), revisionId: '42' }]);
+
+      const scriptKeyCall = (hashKey as jest.Mock).mock.calls.find(call => call[0] === 'script');
+      expect(scriptKeyCall[3]).toBe('Test Article');
+      expect(scriptKeyCall[scriptKeyCall.length - 1]).toEqual(['de', 'Other Article', '42']);
+    });
+
+    test('rejects an empty list of articles', async () => {
+      await expect(generateScript([])).rejects.toThrow();
+    });
+  });
+
+  describe('Host Roster', () => {
+    const reply = (lines: unknown[]) => ({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: JSON.stringify({ lines }) } }] }),
+    });
+
+    const ada: HostProfile = { id: 'ada', name: 'Ada', persona: 'A calm storyteller', role: 'expert', voices: {} };
+    const tom: HostProfile = { id: 'tom', name: 'Tom', persona: 'A doubter who wants evidence', role: 'skeptic', voices: {} };
+
+    const messageOf = (call: number, message: number) =>
+      JSON.parse(require('node-fetch').default.mock.calls[call][1].body).messages[message].content;
+
+    const spokenBy = (speakers: string[]) => createValidScriptLines().map((line, i) => ({
+      ...line,
+      speaker: speakers[i % speakers.length],
+    }));
+
+    test('describes the default hosts when none are given', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply(createValidScriptLines()));
+
+      const result = await generateScript(createTestArticle());
+
+      expect(messageOf(0, 0)).toContain('- **Nishi** (interviewer):');
+      expect(messageOf(0, 0)).toContain('- **Shyam** (expert):');
+      expect(result.hosts?.map(host => host.id)).toEqual(['nishi', 'shyam']);
+    });
+
+    test('writes for a roster of three with their personas and roles', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply(spokenBy(['Nishi', 'Ada', 'Tom'])));
+      const [nishi] = getDefaultHosts();
+
+      const result = await generateScript(createTestArticle(), { hosts: [nishi, ada, tom] });
+
+      expect(messageOf(0, 0)).toContain('There are exactly THREE speakers');
+      expect(messageOf(0, 0)).toContain('- **Tom** (skeptic): A doubter who wants evidence');
+      expect(messageOf(0, 1)).toContain('Nishi, Ada and Tom');
+      expect(result.hosts).toEqual([nishi, ada, tom]);
+    });
+
+    test('asks for a repair when a host never speaks', async () => {
+      const mockFetch = require('node-fetch').default;
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const [nishi, shyam] = getDefaultHosts();
+      mockFetch
+        .mockResolvedValueOnce(reply(createValidScriptLines()))
+        .mockResolvedValueOnce(reply(spokenBy(['Nishi', 'Shyam', 'Tom'])));
+
+      const result = await generateScript(createTestArticle(), { hosts: [nishi, shyam, tom] });
+
+      expect(result.attempts[0].errors).toContain('Tom never speaks; every host must have lines');
+      consoleSpy.mockRestore();
+    });
+
+    test('lets a single narrator speak every line', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply(spokenBy(['Ada'])));
+
+      const result = await generateScript(createTestArticle(), { hosts: [ada] });
+
+      expect(messageOf(0, 0)).toContain('There is ONE speaker, who narrates the episode alone');
+      expect(result.lines.every(line => line.speaker === 'Ada')).toBe(true);
+    });
+
+    test('rejects speakers outside the roster', async () => {
+      const mockFetch = require('node-fetch').default;
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      mockFetch.mockResolvedValue(reply(createValidScriptLines()));
+
+      await expect(generateScript(createTestArticle(), { hosts: [ada] }))
+        .rejects
+        .toThrow('Invalid speaker: Nishi. Only Ada is allowed.');
+
+      consoleSpy.mockRestore();
+    });
+
+    test('adds the hosts to the cache key', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply(spokenBy(['Ada'])));
+
+      await generateScript(createTestArticle(), { hosts: [ada] });
+
+      const scriptKeyCall = (hashKey as jest.Mock).mock.calls.find(call => call[0] === 'script');
+      expect(scriptKeyCall).toContainEqual([['Ada', 'expert', 'A calm storyteller']]);
+    });
+  });
+
+  describe('Show Formats', () => {
+    const debate = getFormat('debate');
+
+    const reply = (lines: unknown[]) => ({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: JSON.stringify({ lines }) } }] }),
+    });
+
+    const messageOf = (call: number, message: number) =>
+      JSON.parse(require('node-fetch').default.mock.calls[call][1].body).messages[message].content;
+
+    // Lines in the given sections, Nishi and Shyam taking turns
+    const linesIn = (sections: string[], words = 5): ScriptLine[] => sections.map((section, i) => ({
+      index: i + 1,
+      speaker: i % 2 === 0 ? 'Nishi' : 'Shyam',
+      text: 'word '.repeat(words).trim(),
+      section,
+    }));
+
+    const debateSections = [
+      'opening', 'opening',
+      'case-for', 'case-for', 'case-against', 'case-against', 'case-for', 'case-against',
+      'common-ground', 'common-ground',
+      'closing', 'closing',
+    ];
+
+    test('defaults to the classic format', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply(createValidScriptLines()));
+
+      const result = await generateScript(createTestArticle());
+
+      expect(messageOf(0, 0)).toContain('**SHOW FORMAT: Classic**');
+      expect(messageOf(0, 1)).toContain('Use the 5-section structure: greeting, explanation, clarification, qna, signoff');
+      expect(result.format).toEqual({ id: 'classic', version: '1.0.0' });
+    });
+
+    test('writes the prompt from the chosen format', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply(linesIn(debateSections)));
+
+      const result = await generateScript(createTestArticle(), { format: debate });
+
+      expect(messageOf(0, 0)).toContain('**SHOW FORMAT: Debate**');
+      expect(messageOf(0, 0)).toContain('2. **case-for**: Arguments and evidence for one side (2-4 lines)');
+      expect(messageOf(0, 0)).toContain('- Argue only from what the article reports');
+      expect(messageOf(0, 0)).toContain('**case-for** and **case-against** may take turns several times');
+      expect(messageOf(0, 1)).toContain('Use the 5-section structure: opening, case-for, case-against, common-ground, closing');
+      expect(result.format).toEqual({ id: 'debate', version: '1.0.0' });
+    });
+
+    test('lets repeatable sections take turns', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply(linesIn(debateSections)));
+
+      const result = await generateScript(createTestArticle(), { format: debate });
+
+      expect(result.sections['case-for']).toEqual([3, 4, 7]);
+      expect(result.sections['case-against']).toEqual([5, 6, 8]);
+      expect(result.attempts).toHaveLength(1);
+    });
+
+    test('keeps the other sections in order', async () => {
+      const mockFetch = require('node-fetch').default;
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const sections = [...debateSections];
+      sections[9] = 'case-for';
+      mockFetch.mockResolvedValue(reply(linesIn(sections)));
+
+      await expect(generateScript(createTestArticle(), { format: debate }))
+        .rejects
+        .toThrow('Sections out of order at line 10');
+
+      consoleSpy.mockRestore();
+    });
+
+    test('rejects sections of other formats', async () => {
+      const mockFetch = require('node-fetch').default;
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      mockFetch.mockResolvedValue(reply(createValidScriptLines()));
+
+      await expect(generateScript(createTestArticle(), { format: debate }))
+        .rejects
+        .toThrow('Line 1 has unknown section: greeting');
+
+      consoleSpy.mockRestore();
+    });
+
+    test('lets optional sections be left out', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply(linesIn([
+        'welcome', 'welcome', 'rules',
+        ...Array(6).fill('questions'),
+        'scores-and-signoff', 'scores-and-signoff',
+      ])));
+
+      const result = await generateScript(createTestArticle(), { format: getFormat('quiz-show') });
+
+      expect(messageOf(0, 0)).toContain('4. **final-round** (optional):');
+      expect(result.sections['final-round']).toEqual([]);
+    });
+
+    test('asks for a repair when sections are too short or too long', async () => {
+      const mockFetch = require('node-fetch').default;
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+      mockFetch
+        .mockResolvedValueOnce(reply(linesIn([
+          'greeting', 'greeting',
+          ...Array(6).fill('explanation'),
+          'clarification', 'clarification', 'clarification',
+          'qna', 'qna',
+          'signoff', 'signoff',
+        ])))
+        .mockResolvedValueOnce(reply(createValidScriptLines()));
+
+      const result = await generateScript(createTestArticle());
+
+      expect(result.attempts[0].errors).toEqual([
+        'Section explanation has 6 lines: write at most 5',
+        'Section qna has 2 line(s): write at least 4',
+      ]);
+      consoleSpy.mockRestore();
+    });
+
+    test('lets sections grow past their maximum in longer episodes', async () => {
+      const mockFetch = require('node-fetch').default;
+      // 4 minutes: 480-720 words
+      mockFetch.mockResolvedValueOnce(reply(linesIn([
+        'greeting', 'greeting',
+        ...Array(8).fill('explanation'),
+        'clarification', 'clarification', 'clarification',
+        'qna', 'qna', 'qna', 'qna',
+        'signoff', 'signoff',
+      ], 30)));
+
+      const result = await generateScript(createTestArticle(), { targetMinutes: 4 });
+
+      expect(result.sections.explanation).toHaveLength(8);
+    });
+
+    test('plans long-form segments from the format\'s sections', async () => {
+      const mockFetch = require('node-fetch').default;
+      // 10 minutes: 1200-1800 words in 3 segments of 400-600 words
+      const segment = (sections: string[]) => linesIn(
+        sections.flatMap(section => [section, section]),
+        Math.floor(500 / (2 * sections.length))
+      );
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ choices: [{ message: { content: JSON.stringify({
+            segments: [1, 2, 3].map(part => ({ title: `Part ${part}`, points: ['A point'] })),
+          }) } }] }),
+        })
+        .mockResolvedValueOnce(reply(segment(['opening', 'case-for'])))
+        .mockResolvedValueOnce(reply(segment(['case-against'])))
+        .mockResolvedValueOnce(reply(segment(['common-ground', 'closing'])));
+
+      const result = await generateScript(createTestArticle(), { targetMinutes: 10, format: debate });
+
+      expect(result.outline?.map(part => part.sections)).toEqual([
+        ['opening', 'case-for'],
+        ['case-against'],
+        ['common-ground', 'closing'],
+      ]);
+      expect(result.lines).toHaveLength(10);
+    });
+
+    test('adds the format to the cache key', async () => {
+      const mockFetch = require('node-fetch').default;
+      mockFetch.mockResolvedValueOnce(reply(linesIn(debateSections)));
+
+      await generateScript(createTestArticle(), { format: debate });
+
+      const scriptKeyCall = (hashKey as jest.Mock).mock.calls.find(call => call[0] === 'script');
+      expect(scriptKeyCall).toContainEqual(['debate', '1.0.0']);
+    });
+  });
+
   describe('Error Handling', () => {
     test('handles Grok API errors', async () => {
       const article = createTestArticle();
@@ -665,7 +1527,8 @@ describe('Script Generator Service', () => {
       const article = createTestArticle();
       const mockFetch = require('node-fetch').default;
       
-      mockFetch.mockResolvedValueOnce({
+      // The model keeps returning the same invalid reply
+      mockFetch.mockResolvedValue({
         ok: true,
         json: async () => ({
           choices: [{
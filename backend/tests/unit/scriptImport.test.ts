@@ -0,0 +1,147 @@
+/**
+ * Unit Tests for Script Import Service
+ *
+ * Tests reading hand-written scripts, as JSON documents or "Speaker: line" text
+ */
+
+import { importScript, parseScriptText } from '../../src/services/scriptImport.js';
+import * as hosts from '../../src/services/hosts.js';
+import { getDefaultHosts } from '../../src/config/hosts.js';
+import { InvalidInputError } from '../../src/utils/errors.js';
+
+jest.mock('../../src/services/hosts.js');
+
+describe('Script Import Service', () => {
+  const sections: Array<[string, number]> = [
+    ['greeting', 2],
+    ['explanation', 3],
+    ['clarification', 3],
+    ['qna', 4],
+    ['signoff', 2],
+  ];
+
+  const createText = () => sections
+    .map(([section, count]) => [
+      `[${section}]`,
+      ...Array.from({ length: count }, (_, i) => `${i % 2 === 0 ? 'Nishi' : 'Shyam'}: A ${section} line about the Moon.`),
+    ].join('\n'))
+    .join('\n\n');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (hosts.resolveHosts as jest.Mock).mockResolvedValue(getDefaultHosts());
+  });
+
+  describe('parseScriptText', () => {
+    test('reads speakers, text and the section each line is in', () => {
+      const { lines, errors } = parseScriptText('[greeting]\nNishi: Hello: welcome!\n\n[Signoff]\r\nShyam:   Bye.');
+
+      expect(errors).toEqual([]);
+      expect(lines).toEqual([
+        { speaker: 'Nishi', text: 'Hello: welcome!', section: 'greeting' },
+        { speaker: 'Shyam', text: 'Bye.', section: 'signoff' },
+      ]);
+    });
+
+    test('reports rows that are not lines or that come before a section', () => {
+      const { errors } = parseScriptText('Nishi: Hello\n[greeting]\nJust some prose\nShyam:');
+
+      expect(errors).toEqual([
+        'Row 1 comes before the first [section] header',
+        'Row 3 must read "Speaker: line" or "[section]"',
+        'Row 4 must read "Speaker: line" or "[section]"',
+      ]);
+    });
+
+    test('reports a script without lines', () => {
+      expect(parseScriptText('\n[greeting]\n').errors).toEqual(['The script has no lines']);
+    });
+  });
+
+  describe('importScript', () => {
+    test('builds a human-authored script from text', async () => {
+      const script = await importScript(createText(), { title: 'Moon' });
+
+      expect(script).toMatchObject({
+        articleTitle: 'Moon',
+        articleUrl: 'https://en.wikipedia.org/wiki/Moon',
+        articles: [{ title: 'Moon', url: 'https://en.wikipedia.org/wiki/Moon', language: 'en' }],
+        author: 'human',
+        format: { id: 'classic' },
+        language: 'en',
+        attempts: [],
+      });
+      expect(script.id).toMatch(/^moon_\d{8}_\d{6}$/);
+      expect(script.lines).toHaveLength(14);
+      expect(script.lines.map(line => line.index)).toEqual(Array.from({ length: 14 }, (_, i) => i + 1));
+      expect(script.sections.greeting).toEqual([1, 2]);
+      expect(script.totalWords).toBeGreaterThan(0);
+      expect(script).not.toHaveProperty('provider');
+    });
+
+    test('links a title on the wiki of the script language', async () => {
+      const script = await importScript(createText(), { title: 'ताज महल', language: 'hi' });
+
+      expect(script.articles).toEqual([{
+        title: 'ताज महल',
+        url: `https://hi.wikipedia.org/wiki/${encodeURIComponent('ताज_महल')}`,
+        language: 'hi',
+      }]);
+      expect(script.articleUrl).toBe(script.articles![0].url);
+    });
+
+    test('links the titles of a JSON document on the wiki of its language', async () => {
+      const text = await importScript(createText(), { title: 'Moon' });
+      const { articleUrl: _articleUrl, ...untitled } = text;
+      const document = { ...untitled, articleTitle: 'Mond', articles: [{ title: 'Mond' }], language: 'de' };
+
+      const script = await importScript(document);
+
+      expect(script.articles).toEqual([{ title: 'Mond', url: 'https://de.wikipedia.org/wiki/Mond', language: 'de' }]);
+    });
+
+    test('builds a script from a JSON document and its own settings', async () => {
+      const text = await importScript(createText(), { title: 'Moon' });
+      const document = {
+        ...text,
+        articleTitle: 'Mond',
+        articleUrl: 'https://de.wikipedia.org/wiki/Mond',
+        articles: [{ title: 'Mond', url: 'https://de.wikipedia.org/wiki/Mond' }],
+        hosts: getDefaultHosts(),
+        language: 'hi',
+      };
+
+      const script = await importScript(document);
+
+      expect(script.articles).toEqual([{ title: 'Mond', url: 'https://de.wikipedia.org/wiki/Mond', language: 'de' }]);
+      expect(script.language).toBe('hi');
+      expect(script.lines.map(({ speaker, text, section }) => ({ speaker, text, section })))
+        .toEqual(text.lines.map(({ speaker, text, section }) => ({ speaker, text, section })));
+      expect(hosts.resolveHosts).toHaveBeenLastCalledWith(getDefaultHosts().map(host => host.id));
+    });
+
+    test('rejects scripts that break the format rules', async () => {
+      const text = createText().replace(/\[signoff\][\s\S]*$/, '');
+
+      await expect(importScript(text, { title: 'Moon' })).rejects.toBeInstanceOf(InvalidInputError);
+      await expect(importScript(text, { title: 'Moon' })).rejects.toThrow('Missing required section: signoff');
+    });
+
+    test('rejects unknown speakers', async () => {
+      const text = createText().replace('Nishi: A greeting', 'Ada: A greeting');
+
+      await expect(importScript(text, { title: 'Moon' })).rejects.toThrow('Invalid speaker: Ada');
+    });
+
+    test('needs the article a text script is about', async () => {
+      await expect(importScript(createText())).rejects.toThrow('Give the title of the article the script is about');
+      await expect(importScript(createText(), { title: 'Moon', url: 'https://example.com/moon' }))
+        .rejects.toThrow('Invalid article URL');
+    });
+
+    test('rejects input that is neither a document nor text', async () => {
+      await expect(importScript(['Nishi: hi'])).rejects.toThrow('script must be a Script JSON document');
+      await expect(importScript({ articleTitle: 'Moon', lines: [] })).rejects.toThrow('lines must be a non-empty list');
+    });
+  });
+});
@@ -4,8 +4,13 @@
  * Tests ElevenLabs API integration and audio generation
  */
 
-import { generateAudioSegments, generateAudioSegmentsWithRetry } from '../../src/services/tts.js';
-import type { ScriptLine, AudioSegment } from '../../src/types/index.js';
+import { generateAudioSegments, generateAudioSegmentsWithRetry, synthesizePreview } from '../../src/services/tts.js';
+import { getDefaultHosts } from '../../src/config/hosts.js';
+import { restoreCachedFile, storeCachedFile, hashKey } from '../../src/services/cache.js';
+import { getConfig } from '../../src/config/env.js';
+import type { ScriptLine, AudioSegment, PronunciationEntry } from '../../src/types/index.js';
+
+jest.mock('../../src/services/cache.js');
 
 // Mock node-fetch
 const mockFetch = require('node-fetch').default;
@@ -178,6 +183,21 @@ describe('TTS Service', () => {
         .toThrow('Unknown speaker: UnknownSpeaker');
     });
 
+    test('voices the given hosts', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        arrayBuffer: async () => new ArrayBuffer(1000),
+      });
+      const ada = { id: 'ada', name: 'Ada', persona: 'A narrator', role: 'expert' as const, voices: { elevenlabs: 'ada-voice' } };
+
+      await generateAudioSegments('test_script', [{ ...mockScriptLines[0], speaker: 'Ada' }], { hosts: [ada] });
+
+      expect(mockFetch.mock.calls[0][0]).toContain('/text-to-speech/ada-voice');
+      await expect(generateAudioSegments('test_script', [mockScriptLines[0]], { hosts: [ada] }))
+        .rejects
+        .toThrow('Unknown speaker: Nishi');
+    });
+
     test('handles ElevenLabs API error', async () => {
       mockFetch.mockResolvedValue({
         ok: false,
@@ -271,6 +291,214 @@ describe('TTS Service', () => {
     });
   });
 
+  describe('parallel synthesis', () => {
+    const manyLines: ScriptLine[] = Array.from({ length: 6 }, (_, i) => ({
+      index: i + 1,
+      speaker: i % 2 === 0 ? 'Nishi' as const : 'Shyam' as const,
+      text: `Line number ${i + 1}`,
+      section: 'explanation' as const,
+    }));
+
+    test('keeps at most `concurrency` requests in flight', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockFetch.mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return { ok: true, arrayBuffer: async () => new ArrayBuffer(1000) };
+      });
+
+      await generateAudioSegments('test_script', manyLines, { concurrency: 2 });
+
+      expect(maxInFlight).toBe(2);
+      expect(mockFetch).toHaveBeenCalledTimes(6);
+    });
+
+    test('returns segments in lineIndex order regardless of completion order', async () => {
+      mockFetch.mockImplementation(async (_url: string, init: { body: string }) => {
+        const { text } = JSON.parse(init.body);
+        // Earlier lines finish last
+        const lineNumber = Number(text.split(' ').pop());
+        await new Promise(resolve => setTimeout(resolve, (7 - lineNumber) * 3));
+        return { ok: true, arrayBuffer: async () => new ArrayBuffer(1000) };
+      });
+
+      const segments = await generateAudioSegments('test_script', manyLines, { concurrency: 6 });
+
+      expect(segments.map(s => s.lineIndex)).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    test('validates speakers before synthesizing any line', async () => {
+      const lines = [
+        ...mockScriptLines,
+        { index: 4, speaker: 'Unknown' as any, text: 'Test', section: 'greeting' as const },
+      ];
+
+      await expect(generateAudioSegments('test_script', lines))
+        .rejects
+        .toThrow('Unknown speaker: Unknown');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('audio cache', () => {
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        arrayBuffer: async () => new ArrayBuffer(1000),
+      });
+      (restoreCachedFile as jest.Mock).mockResolvedValue(false);
+    });
+
+    test('keys audio by provider, model, voice and text', async () => {
+      await generateAudioSegments('test_script', [mockScriptLines[0]]);
+
+      expect(hashKey).toHaveBeenCalledWith(
+        'audio',
+        'elevenlabs',
+        'eleven_multilingual_v2',
+        '7wlfJf72PCt9FjPj0Beg',
+        'Hello, welcome to the podcast!'
+      );
+    });
+
+    test('copies cached audio instead of calling the API', async () => {
+      (restoreCachedFile as jest.Mock)
+        .mockResolvedValueOnce(true)
+        .mockResolvedValue(false);
+
+      const segments = await generateAudioSegments('test_script', mockScriptLines, { concurrency: 1 });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(segments[0].fromCache).toBe(true);
+      expect(segments[1].fromCache).toBeUndefined();
+    });
+
+    test('stores newly synthesized audio', async () => {
+      await generateAudioSegments('test_script', [mockScriptLines[0]]);
+
+      expect(storeCachedFile).toHaveBeenCalledWith(
+        'audio',
+        undefined,
+        'mp3',
+        expect.stringContaining('001.mp3')
+      );
+    });
+  });
+
+  describe('pronunciation lexicon', () => {
+    const lexicon: PronunciationEntry[] = [
+      { term: 'welcome', respelling: 'wel-kum', phoneme: { alphabet: 'ipa', ph: 'ˈwɛlkəm' } },
+    ];
+
+    const sentText = () => JSON.parse(mockFetch.mock.calls[0][1].body).text;
+
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        arrayBuffer: async () => new ArrayBuffer(1000),
+      });
+      (restoreCachedFile as jest.Mock).mockResolvedValue(false);
+    });
+
+    test('sends ElevenLabs the respelling, as its multilingual model ignores phoneme tags', async () => {
+      await generateAudioSegments('test_script', [mockScriptLines[0]], { lexicon });
+
+      expect(sentText()).toBe('Hello, wel-kum to the podcast!');
+      expect(hashKey).toHaveBeenCalledWith(
+        'audio',
+        'elevenlabs',
+        'eleven_multilingual_v2',
+        '7wlfJf72PCt9FjPj0Beg',
+        sentText()
+      );
+    });
+
+    test('sends phoneme tags to an ElevenLabs model that reads them', async () => {
+      const baseConfig = (getConfig as jest.Mock)();
+      (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, elevenLabsModel: 'eleven_flash_v2' });
+
+      try {
+        await generateAudioSegments('test_script', [mockScriptLines[0]], { lexicon });
+      } finally {
+        (getConfig as jest.Mock).mockReturnValue(baseConfig);
+      }
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.model_id).toBe('eleven_flash_v2');
+      expect(body.text).toBe('Hello, <phoneme alphabet="ipa" ph="ˈwɛlkəm">welcome</phoneme> to the podcast!');
+    });
+
+    test('previews a word with a host\'s voice', async () => {
+      await synthesizePreview('Welcome', getDefaultHosts()[0], lexicon, '/tmp/preview.mp3');
+
+      expect(sentText()).toBe('wel-kum');
+      expect(mockFetch.mock.calls[0][0]).toContain('7wlfJf72PCt9FjPj0Beg');
+      expect(storeCachedFile).toHaveBeenCalledWith('audio', undefined, 'mp3', '/tmp/preview.mp3');
+    });
+
+    test('previews from the cache without calling the API', async () => {
+      (restoreCachedFile as jest.Mock).mockResolvedValueOnce(true);
+
+      await synthesizePreview('Welcome', getDefaultHosts()[0], lexicon, '/tmp/preview.mp3');
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('segment reuse', () => {
+    const existingSegment: AudioSegment = {
+      lineIndex: 1,
+      speaker: 'Nishi',
+      filePath: '/tmp/test-output/audio/segments/test_script/001.mp3',
+      durationMs: 2000,
+      format: 'mp3',
+      generatedAt: '2025-01-01T00:00:00Z',
+    };
+
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        arrayBuffer: async () => new ArrayBuffer(1000),
+      });
+    });
+
+    test('reuses existing segments whose files are on disk', async () => {
+      const fs = require('fs/promises');
+      fs.access = jest.fn().mockResolvedValue(undefined);
+
+      const segments = await generateAudioSegments('test_script', mockScriptLines, {
+        existingSegments: [existingSegment],
+      });
+
+      expect(segments).toHaveLength(3);
+      expect(segments[0]).toBe(existingSegment);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('re-synthesizes segments whose files are missing', async () => {
+      const fs = require('fs/promises');
+      fs.access = jest.fn().mockRejectedValue(new Error('ENOENT'));
+
+      await generateAudioSegments('test_script', mockScriptLines, {
+        existingSegments: [existingSegment],
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    test('reports each segment through onSegment', async () => {
+      const onSegment = jest.fn();
+
+      await generateAudioSegments('test_script', mockScriptLines, { onSegment });
+
+      expect(onSegment).toHaveBeenCalledTimes(3);
+      expect(onSegment.mock.calls.map((call: any[]) => call[0].lineIndex)).toEqual([1, 2, 3]);
+    });
+  });
+
   describe('generateAudioSegmentsWithRetry', () => {
     test('succeeds on first attempt', async () => {
       mockFetch.mockResolvedValue({
@@ -360,7 +588,7 @@ describe('TTS Service', () => {
       await generateAudioSegmentsWithRetry('test_script', mockScriptLines, 2);
 
       expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('TTS generation failed (attempt 1), retrying')
+        expect.stringContaining('TTS failed for line 1 (attempt 1), retrying')
       );
 
       consoleSpy.mockRestore();
@@ -379,6 +607,68 @@ describe('TTS Service', () => {
         .toThrow('TTS generation failed after 2 attempts');
     });
 
+    test('retries only the failed line', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 503,
+          statusText: 'Service Unavailable',
+          text: async () => 'Server busy',
+        })
+        .mockResolvedValue({
+          ok: true,
+          arrayBuffer: async () => new ArrayBuffer(1000),
+        });
+
+      await generateAudioSegmentsWithRetry('test_script', mockScriptLines, 2);
+
+      // Three lines plus one retry, not a re-run of the whole batch
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    test('honors Retry-After on 429 responses', async () => {
+      const delays: number[] = [];
+      const originalSetTimeout = global.setTimeout;
+      global.setTimeout = jest.fn((fn: any, delay: number) => {
+        delays.push(delay);
+        return originalSetTimeout(fn, 0);
+      }) as any;
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: { get: (name: string) => (name === 'retry-after' ? '7' : null) },
+          text: async () => 'Rate limited',
+        })
+        .mockResolvedValue({
+          ok: true,
+          arrayBuffer: async () => new ArrayBuffer(1000),
+        });
+
+      await generateAudioSegmentsWithRetry('test_script', [mockScriptLines[0]], 2);
+
+      global.setTimeout = originalSetTimeout;
+
+      expect(delays).toEqual([7000]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('does not retry client errors', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+        text: async () => 'Invalid API key',
+      });
+
+      await expect(generateAudioSegmentsWithRetry('test_script', [mockScriptLines[0]], 2))
+        .rejects
+        .toThrow('401 Unauthorized');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
     test('respects maxRetries parameter', async () => {
       mockFetch.mockResolvedValue({
         ok: false,
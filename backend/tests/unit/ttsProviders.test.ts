@@ -0,0 +1,218 @@
+/**
+ * Unit Tests for TTS Providers
+ * 
+ * Tests provider resolution, voice mapping and the OpenAI-compatible and local engines
+ */
+
+import { EventEmitter } from 'events';
+import { getTtsProvider, getVoiceMapping, TtsApiError } from '../../src/providers/tts/index.js';
+import { getConfig } from '../../src/config/env.js';
+import { getDefaultHosts } from '../../src/config/hosts.js';
+
+jest.mock('child_process', () => ({
+  spawn: jest.fn(),
+}));
+
+// Mock node-fetch
+const mockFetch = require('node-fetch').default;
+const { spawn } = require('child_process');
+
+describe('TTS Providers', () => {
+  const baseConfig = (getConfig as jest.Mock)();
+
+  /**
+   * Overrides config values for the next getConfig() calls
+   */
+  function useConfig(overrides: Record<string, unknown>) {
+    (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, ...overrides });
+  }
+
+  /**
+   * Creates a fake child process that exits with the given code
+   */
+  function fakeProcess(code: number, stderr = '') {
+    const child: any = new EventEmitter();
+    child.stderr = new EventEmitter();
+    child.stdin = {
+      end: jest.fn(() => {
+        setImmediate(() => {
+          if (stderr) child.stderr.emit('data', stderr);
+          child.emit('close', code);
+        });
+      }),
+    };
+    return child;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getConfig as jest.Mock).mockReturnValue(baseConfig);
+    
+    const fs = require('fs/promises');
+    fs.writeFile = jest.fn().mockResolvedValue(undefined);
+    fs.rm = jest.fn().mockResolvedValue(undefined);
+  });
+
+  afterAll(() => {
+    (getConfig as jest.Mock).mockReturnValue(baseConfig);
+  });
+
+  describe('getTtsProvider', () => {
+    test.each(['elevenlabs', 'openai', 'local'])('resolves %s from config', (name) => {
+      useConfig({ ttsProvider: name });
+
+      expect(getTtsProvider().name).toBe(name);
+    });
+  });
+
+  describe('getVoiceMapping', () => {
+    test('records provider with its default voices', () => {
+      useConfig({ ttsProvider: 'openai' });
+
+      expect(getVoiceMapping(getDefaultHosts())).toEqual({
+        provider: 'openai',
+        Nishi: 'nova',
+        Shyam: 'onyx',
+      });
+    });
+
+    test('applies per-host voice overrides', () => {
+      useConfig({ ttsProvider: 'openai', ttsVoices: { shyam: 'echo' } });
+
+      expect(getVoiceMapping(getDefaultHosts())).toEqual({
+        provider: 'openai',
+        Nishi: 'nova',
+        Shyam: 'echo',
+      });
+    });
+
+    test('uses ElevenLabs voice IDs from speaker config', () => {
+      const mapping = getVoiceMapping(getDefaultHosts());
+
+      expect(mapping.provider).toBe('elevenlabs');
+      expect(mapping.Nishi).toBe('7wlfJf72PCt9FjPj0Beg');
+      expect(mapping.Shyam).toBe('QZlSvAAnrDxLbn7n3NqM');
+    });
+
+    test('gives hosts without a voice the default voice for their position', () => {
+      useConfig({ ttsProvider: 'openai' });
+      const guest = { id: 'ada', name: 'Ada', persona: 'A skeptical guest', role: 'skeptic' as const, voices: {} };
+
+      expect(getVoiceMapping([...getDefaultHosts(), guest])).toEqual({
+        provider: 'openai',
+        Nishi: 'nova',
+        Shyam: 'onyx',
+        Ada: 'shimmer',
+      });
+      expect(getVoiceMapping([guest])).toEqual({ provider: 'openai', Ada: 'nova' });
+    });
+  });
+
+  describe('OpenAI-compatible provider', () => {
+    beforeEach(() => {
+      useConfig({ ttsProvider: 'openai', openAiTtsApiUrl: 'http://localhost:8880/v1' });
+    });
+
+    test('calls the speech endpoint and saves the audio', async () => {
+      const fs = require('fs/promises');
+      mockFetch.mockResolvedValue({
+        ok: true,
+        arrayBuffer: async () => new ArrayBuffer(1000),
+      });
+
+      await getTtsProvider().synthesize('Hello there', 'nova', '/tmp/001.mp3');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8880/v1/audio/speech',
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ Authorization: 'Bearer test-openai-api-key' }),
+        })
+      );
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        model: 'tts-1',
+        input: 'Hello there',
+        voice: 'nova',
+        response_format: 'mp3',
+      });
+      expect(fs.writeFile).toHaveBeenCalledWith('/tmp/001.mp3', expect.any(Buffer));
+    });
+
+    test('omits authorization when no API key is configured', async () => {
+      useConfig({ ttsProvider: 'openai', openAiTtsApiKey: '' });
+      mockFetch.mockResolvedValue({
+        ok: true,
+        arrayBuffer: async () => new ArrayBuffer(1000),
+      });
+
+      await getTtsProvider().synthesize('Hello', 'nova', '/tmp/001.mp3');
+
+      expect(mockFetch.mock.calls[0][1].headers).not.toHaveProperty('Authorization');
+    });
+
+    test('throws TtsApiError with status on failure', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: { get: () => '3' },
+        text: async () => 'Slow down',
+      });
+
+      const error = await getTtsProvider()
+        .synthesize('Hello', 'nova', '/tmp/001.mp3')
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(TtsApiError);
+      expect(error.status).toBe(429);
+      expect(error.retryAfterMs).toBe(3000);
+      expect(error.message).toContain('OpenAI TTS API error: 429');
+    });
+  });
+
+  describe('local provider', () => {
+    test('runs espeak-ng with text on stdin, then converts to MP3', async () => {
+      useConfig({ ttsProvider: 'local', localTtsEngine: 'espeak-ng' });
+      const engine = fakeProcess(0);
+      const ffmpeg = fakeProcess(0);
+      spawn.mockReturnValueOnce(engine).mockReturnValueOnce(ffmpeg);
+
+      await getTtsProvider().synthesize('-- not an option', 'en-us+f3', '/tmp/seg/001.mp3');
+
+      expect(spawn).toHaveBeenNthCalledWith(
+        1,
+        'espeak-ng',
+        ['-v', 'en-us+f3', '-w', '/tmp/seg/001.wav', '--stdin'],
+        expect.any(Object)
+      );
+      expect(engine.stdin.end).toHaveBeenCalledWith('-- not an option');
+      expect(spawn.mock.calls[1][0]).toBe('ffmpeg');
+      expect(spawn.mock.calls[1][1]).toEqual(expect.arrayContaining(['/tmp/seg/001.wav', '/tmp/seg/001.mp3']));
+    });
+
+    test('resolves piper voices to model files', async () => {
+      useConfig({ ttsProvider: 'local', localTtsEngine: 'piper' });
+      spawn.mockReturnValueOnce(fakeProcess(0)).mockReturnValueOnce(fakeProcess(0));
+
+      const provider = getTtsProvider();
+      await provider.synthesize('Hello', provider.defaultVoices[0], '/tmp/seg/001.mp3');
+
+      expect(spawn.mock.calls[0][0]).toBe('piper');
+      expect(spawn.mock.calls[0][1]).toEqual([
+        '--model', '/tmp/test-models/piper/en_US-amy-medium.onnx',
+        '--output_file', '/tmp/seg/001.wav',
+      ]);
+    });
+
+    test('reports engine failures with stderr and removes the temp file', async () => {
+      const fs = require('fs/promises');
+      useConfig({ ttsProvider: 'local', localTtsEngine: 'espeak-ng' });
+      spawn.mockReturnValueOnce(fakeProcess(1, 'unknown voice'));
+
+      await expect(getTtsProvider().synthesize('Hello', 'xx', '/tmp/seg/001.mp3'))
+        .rejects
+        .toThrow('espeak-ng exited with code 1: unknown voice');
+      expect(fs.rm).toHaveBeenCalledWith('/tmp/seg/001.wav', { force: true });
+    });
+  });
+});
@@ -18,6 +18,21 @@ import {
   validateInput,
   isLikelyEnglish,
   normalizeWikipediaUrl,
+  isValidPodcastId,
+  validatePodcastListQuery,
+  getWikipediaUrlLanguage,
+  validateLanguageOptions,
+  validateSections,
+  validateTargetMinutes,
+  validateInputList,
+  validateHostIds,
+  validateHostProfile,
+  validateFormat,
+  validateAudioPreset,
+  validateStopAfter,
+  validateScriptLineEdits,
+  validatePronunciationEntry,
+  validateLexiconEntries,
 } from '../../src/utils/validation.js';
 
 describe('isWikipediaUrl', () => {
@@ -177,8 +192,9 @@ describe('validateWikipediaUrl', () => {
       expect(result).toContain('valid Wikipedia article URL');
     });
 
-    test('returns error for non-English Wikipedia', () => {
-      expect(validateWikipediaUrl('https://de.wikipedia.org/wiki/Test')).toBe('Only English Wikipedia articles are supported');
+    test('accepts other Wikipedia editions', () => {
+      expect(validateWikipediaUrl('https://de.wikipedia.org/wiki/Test')).toBeNull();
+      expect(validateWikipediaUrl('https://zh-yue.wikipedia.org/wiki/Test')).toBeNull();
     });
 
     test('accepts Wikipedia URL with query params', () => {
@@ -511,6 +527,11 @@ describe('normalizeWikipediaUrl', () => {
       .toBe('https://en.wikipedia.org/wiki/Test');
   });
 
+  test('keeps the edition of other mobile URLs', () => {
+    expect(normalizeWikipediaUrl('https://de.m.wikipedia.org/wiki/Test'))
+      .toBe('https://de.wikipedia.org/wiki/Test');
+  });
+
   test('handles http protocol', () => {
     expect(normalizeWikipediaUrl('http://m.wikipedia.org/wiki/Test'))
       .toBe('http://en.wikipedia.org/wiki/Test');
@@ -522,3 +543,403 @@ describe('normalizeWikipediaUrl', () => {
   });
 });
 
+
+describe('isValidPodcastId', () => {
+  test('accepts generated IDs', () => {
+    expect(isValidPodcastId('albert_einstein_20250101_120000')).toBe(true);
+    expect(isValidPodcastId('ताज_महल_20250101_120000')).toBe(true);
+  });
+
+  test('rejects path traversal', () => {
+    expect(isValidPodcastId('../metadata/test')).toBe(false);
+    expect(isValidPodcastId('..')).toBe(false);
+  });
+
+  test('rejects empty ID', () => {
+    expect(isValidPodcastId('')).toBe(false);
+  });
+});
+
+describe('validatePodcastListQuery', () => {
+  test('applies defaults', () => {
+    const result = validatePodcastListQuery({});
+    expect(result.valid).toBe(true);
+    expect(result.query).toEqual({
+      page: 1,
+      pageSize: 20,
+      sort: 'createdAt',
+      order: 'desc',
+    });
+  });
+
+  test('parses all parameters', () => {
+    const result = validatePodcastListQuery({
+      page: '3',
+      pageSize: '10',
+      sort: 'duration',
+      order: 'asc',
+      title: '  einstein ',
+    });
+    expect(result.valid).toBe(true);
+    expect(result.query).toEqual({
+      page: 3,
+      pageSize: 10,
+      sort: 'duration',
+      order: 'asc',
+      title: 'einstein',
+    });
+  });
+
+  test('ignores blank title', () => {
+    const result = validatePodcastListQuery({ title: '   ' });
+    expect(result.query.title).toBeUndefined();
+  });
+
+  test.each([
+    [{ page: '0' }, 'page'],
+    [{ page: 'abc' }, 'page'],
+    [{ pageSize: '101' }, 'pageSize'],
+    [{ pageSize: '-5' }, 'pageSize'],
+    [{ sort: 'title' }, 'sort'],
+    [{ order: 'up' }, 'order'],
+    [{ title: ['a', 'b'] }, 'title'],
+  ])('rejects %p', (params, field) => {
+    const result = validatePodcastListQuery(params);
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain(field);
+  });
+});
+
+describe('getWikipediaUrlLanguage', () => {
+  test.each([
+    ['https://en.wikipedia.org/wiki/Test', 'en'],
+    ['https://de.wikipedia.org/wiki/Test', 'de'],
+    ['https://fr.m.wikipedia.org/wiki/Test', 'fr'],
+    ['https://zh-yue.wikipedia.org/wiki/Test', 'zh-yue'],
+    ['https://simple.wikipedia.org/wiki/Test', 'simple'],
+    ['https://wikipedia.org/wiki/Test', 'en'],
+    ['https://m.wikipedia.org/wiki/Test', 'en'],
+  ])('%s -> %s', (url, language) => {
+    expect(getWikipediaUrlLanguage(url)).toBe(language);
+  });
+});
+
+describe('validateLanguageOptions', () => {
+  test('accepts defaults', () => {
+    expect(validateLanguageOptions('Test', 'title')).toEqual({ valid: true });
+  });
+
+  test('accepts a language for title input', () => {
+    expect(validateLanguageOptions('Test', 'title', 'ja', 'en').valid).toBe(true);
+  });
+
+  test('accepts a language matching the URL', () => {
+    expect(validateLanguageOptions('https://de.wikipedia.org/wiki/Test', 'url', 'de').valid).toBe(true);
+  });
+
+  test('rejects a language that contradicts the URL', () => {
+    const result = validateLanguageOptions('https://de.wikipedia.org/wiki/Test', 'url', 'fr');
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('does not match');
+  });
+
+  test('rejects malformed codes', () => {
+    expect(validateLanguageOptions('Test', 'title', 'EN!').valid).toBe(false);
+    expect(validateLanguageOptions('Test', 'title', undefined, 42).valid).toBe(false);
+  });
+
+  test('flags explicitly unsupported wikis', () => {
+    const result = validateLanguageOptions('https://mo.wikipedia.org/wiki/Test', 'url');
+    expect(result.valid).toBe(false);
+    expect(result.unsupportedLanguage).toBe('mo');
+  });
+});
+
+describe('validateSections', () => {
+  test('accepts a missing list', () => {
+    expect(validateSections(undefined)).toEqual({ valid: true });
+  });
+
+  test('trims and de-duplicates headings', () => {
+    const result = validateSections([' Legacy ', 'Early life', 'Legacy']);
+    expect(result).toEqual({ valid: true, sections: ['Legacy', 'Early life'] });
+  });
+
+  test('rejects non-lists and blank headings', () => {
+    expect(validateSections('Legacy').valid).toBe(false);
+    expect(validateSections(['Legacy', '  ']).valid).toBe(false);
+    expect(validateSections([42]).valid).toBe(false);
+  });
+
+  test('rejects too many sections', () => {
+    const sections = Array.from({ length: 51 }, (_, i) => `Section ${i}`);
+    expect(validateSections(sections).valid).toBe(false);
+  });
+
+  test('rejects overlong headings', () => {
+    expect(validateSections(['x'.repeat(201)]).valid).toBe(false);
+  });
+});
+
+describe('validateTargetMinutes', () => {
+  test('accepts a missing length', () => {
+    expect(validateTargetMinutes(undefined)).toEqual({ valid: true });
+  });
+
+  test('accepts lengths from 2 to 30 minutes', () => {
+    expect(validateTargetMinutes(2).valid).toBe(true);
+    expect(validateTargetMinutes(7.5).valid).toBe(true);
+    expect(validateTargetMinutes(30).valid).toBe(true);
+  });
+
+  test('rejects lengths out of range and non-numbers', () => {
+    expect(validateTargetMinutes(1).valid).toBe(false);
+    expect(validateTargetMinutes(31).valid).toBe(false);
+    expect(validateTargetMinutes('10').valid).toBe(false);
+    expect(validateTargetMinutes(Number.NaN).valid).toBe(false);
+  });
+});
+
+describe('validateInputList', () => {
+  test('accepts a single input', () => {
+    expect(validateInputList('Albert Einstein')).toEqual({ valid: true });
+  });
+
+  test('accepts lists of 2 to 5 inputs', () => {
+    expect(validateInputList(['Alan Turing', 'Enigma machine']).valid).toBe(true);
+    expect(validateInputList(['A', 'B', 'C', 'D', 'E']).valid).toBe(true);
+  });
+
+  test('rejects lists that are too short or too long', () => {
+    expect(validateInputList(['Alan Turing'])).toEqual({
+      valid: false,
+      error: 'A list of inputs must have 2-5 entries',
+    });
+    expect(validateInputList(['A', 'B', 'C', 'D', 'E', 'F']).valid).toBe(false);
+  });
+
+  test('rejects lists with entries that are not strings', () => {
+    expect(validateInputList(['Alan Turing', 42]).error).toBe(
+      'Every input must be a Wikipedia URL or article title'
+    );
+  });
+});
+
+describe('validateHostIds', () => {
+  test('accepts a missing roster', () => {
+    expect(validateHostIds(undefined)).toEqual({ valid: true });
+  });
+
+  test('accepts 1 to 4 host IDs', () => {
+    expect(validateHostIds(['nishi'])).toEqual({ valid: true, hosts: ['nishi'] });
+    expect(validateHostIds(['a', 'b', 'c', 'd']).valid).toBe(true);
+  });
+
+  test('rejects empty and oversized rosters', () => {
+    expect(validateHostIds([])).toEqual({ valid: false, error: 'An episode must have 1-4 hosts' });
+    expect(validateHostIds(['a', 'b', 'c', 'd', 'e']).valid).toBe(false);
+  });
+
+  test('rejects malformed and repeated IDs', () => {
+    expect(validateHostIds('nishi').valid).toBe(false);
+    expect(validateHostIds(['Nishi']).valid).toBe(false);
+    expect(validateHostIds(['../etc']).valid).toBe(false);
+    expect(validateHostIds(['nishi', 'nishi']).error).toBe('Each host can only be chosen once');
+  });
+});
+
+describe('validateFormat', () => {
+  test('accepts a missing format', () => {
+    expect(validateFormat(undefined)).toEqual({ valid: true });
+  });
+
+  test('accepts built-in formats', () => {
+    expect(validateFormat('news-brief')).toEqual({ valid: true, format: 'news-brief' });
+  });
+
+  test('rejects unknown formats and lists the available ones', () => {
+    expect(validateFormat(42)).toEqual({ valid: false, error: 'format must be a format ID' });
+    expect(validateFormat('sitcom').error).toBe(
+      'Unknown format "sitcom"; choose one of: classic, news-brief, debate, quiz-show, timeline, kids-explainer'
+    );
+  });
+});
+
+describe('validateAudioPreset', () => {
+  test('accepts a missing preset', () => {
+    expect(validateAudioPreset(undefined)).toEqual({ valid: true });
+  });
+
+  test('accepts built-in presets', () => {
+    expect(validateAudioPreset('studio')).toEqual({ valid: true, audioPreset: 'studio' });
+  });
+
+  test('rejects unknown presets and lists the available ones', () => {
+    expect(validateAudioPreset(['studio'])).toEqual({ valid: false, error: 'audioPreset must be a preset ID' });
+    expect(validateAudioPreset('radio').error).toBe(
+      'Unknown audio preset "radio"; choose one of: plain, studio, newsroom, conversation'
+    );
+  });
+});
+
+describe('validateHostProfile', () => {
+  const profile = {
+    name: ' Zoë ',
+    persona: ' A historian who doubts easy answers ',
+    role: 'skeptic',
+    voices: { openai: 'echo' },
+  };
+
+  test('accepts a profile and trims its text', () => {
+    expect(validateHostProfile('zoe', profile)).toEqual({
+      valid: true,
+      host: {
+        id: 'zoe',
+        name: 'Zoë',
+        persona: 'A historian who doubts easy answers',
+        role: 'skeptic',
+        voices: { openai: 'echo' },
+      },
+    });
+  });
+
+  test('defaults to no voices', () => {
+    const { voices, ...withoutVoices } = profile;
+    expect(validateHostProfile('zoe', withoutVoices).host?.voices).toEqual({});
+  });
+
+  test('rejects invalid IDs and non-objects', () => {
+    expect(validateHostProfile('Zoe', profile).valid).toBe(false);
+    expect(validateHostProfile('zoe', [profile]).valid).toBe(false);
+  });
+
+  test('rejects bad names, including the reserved "provider"', () => {
+    expect(validateHostProfile('zoe', { ...profile, name: '' }).valid).toBe(false);
+    expect(validateHostProfile('zoe', { ...profile, name: 'Zoe: the host' }).valid).toBe(false);
+    expect(validateHostProfile('zoe', { ...profile, name: 'Provider' }).error).toBe('name "provider" is reserved');
+  });
+
+  test('rejects missing or overlong personas', () => {
+    expect(validateHostProfile('zoe', { ...profile, persona: ' ' }).valid).toBe(false);
+    expect(validateHostProfile('zoe', { ...profile, persona: 'x'.repeat(501) }).valid).toBe(false);
+  });
+
+  test('rejects unknown roles and providers', () => {
+    expect(validateHostProfile('zoe', { ...profile, role: 'narrator' }).error).toBe(
+      'role must be one of: interviewer, expert, skeptic'
+    );
+    expect(validateHostProfile('zoe', { ...profile, voices: { polly: 'Joanna' } }).valid).toBe(false);
+    expect(validateHostProfile('zoe', { ...profile, voices: { openai: '' } }).valid).toBe(false);
+  });
+});
+
+describe('validateStopAfter', () => {
+  test('accepts a missing stage and the script stage', () => {
+    expect(validateStopAfter(undefined)).toEqual({ valid: true });
+    expect(validateStopAfter('generate_script')).toEqual({ valid: true, stopAfter: 'generate_script' });
+  });
+
+  test('rejects other stages', () => {
+    expect(validateStopAfter('synthesize_audio')).toEqual({ valid: false, error: 'stopAfter must be "generate_script"' });
+    expect(validateStopAfter(true).valid).toBe(false);
+  });
+});
+
+describe('validateScriptLineEdits', () => {
+  const line = { index: 1, speaker: 'Nishi', text: 'Welcome back!', section: 'greeting' };
+
+  test('accepts lines and trims speakers and text', () => {
+    const result = validateScriptLineEdits([
+      { ...line, speaker: ' Nishi ', text: ' Welcome back! ' },
+      { speaker: 'Shyam', text: 'A new line.', section: 'greeting', sourceArticles: [1, 1, 2] },
+    ]);
+
+    expect(result).toEqual({
+      valid: true,
+      lines: [
+        line,
+        { speaker: 'Shyam', text: 'A new line.', section: 'greeting', sourceArticles: [1, 2] },
+      ],
+    });
+  });
+
+  test('rejects empty or non-list input', () => {
+    expect(validateScriptLineEdits([]).valid).toBe(false);
+    expect(validateScriptLineEdits({ lines: [line] }).valid).toBe(false);
+    expect(validateScriptLineEdits(Array.from({ length: 1001 }, () => line)).valid).toBe(false);
+  });
+
+  test('rejects invalid or repeated indices', () => {
+    expect(validateScriptLineEdits([{ ...line, index: 0 }]).error).toBe('Line 1 has an invalid index');
+    expect(validateScriptLineEdits([line, { ...line }]).error).toBe('Line 2 repeats index 1');
+  });
+
+  test('rejects lines without a speaker, text or section', () => {
+    expect(validateScriptLineEdits(['Nishi: hi']).error).toBe('Line 1 must be an object');
+    expect(validateScriptLineEdits([{ ...line, speaker: ' ' }]).error).toBe('Line 1 must have a speaker');
+    expect(validateScriptLineEdits([{ ...line, text: '' }]).valid).toBe(false);
+    expect(validateScriptLineEdits([{ ...line, text: 'x'.repeat(1001) }]).valid).toBe(false);
+    expect(validateScriptLineEdits([{ ...line, section: undefined }]).error).toBe('Line 1 must have a section');
+    expect(validateScriptLineEdits([{ ...line, sourceArticles: ['1'] }]).valid).toBe(false);
+  });
+});
+
+describe('validatePronunciationEntry', () => {
+  test('accepts a respelling or a phoneme and trims them', () => {
+    expect(validatePronunciationEntry(' Acha ', { respelling: ' uh-chaa ' })).toEqual({
+      valid: true,
+      entry: { term: 'Acha', respelling: 'uh-chaa' },
+    });
+    expect(validatePronunciationEntry('Bilkul', { phoneme: { ph: 'bɪlkʊl' } }).entry).toEqual({
+      term: 'Bilkul',
+      phoneme: { alphabet: 'ipa', ph: 'bɪlkʊl' },
+    });
+    expect(validatePronunciationEntry('Nishi', { phoneme: { alphabet: 'cmu-arpabet', ph: 'N IH1 SH IY0' } }).valid)
+      .toBe(true);
+  });
+
+  test('rejects invalid terms and bodies', () => {
+    expect(validatePronunciationEntry('', { respelling: 'x' }).valid).toBe(false);
+    expect(validatePronunciationEntry('x'.repeat(101), { respelling: 'x' }).valid).toBe(false);
+    expect(validatePronunciationEntry('Acha', 'uh-chaa').error).toBe('A pronunciation must be a JSON object');
+    expect(validatePronunciationEntry('Acha', {}).error).toBe('Give a respelling or a phoneme for "Acha"');
+    expect(validatePronunciationEntry('Acha', { respelling: 'uh\nchaa' }).valid).toBe(false);
+  });
+
+  test('requires a respelling for voices that cannot read phonemes', () => {
+    expect(validatePronunciationEntry('Bilkul', { phoneme: { ph: 'bɪlkʊl' } }, false).error)
+      .toBe('Give a respelling for "Bilkul": the current voices cannot read phonemes');
+    expect(validatePronunciationEntry('Bilkul', { respelling: 'bil-kool', phoneme: { ph: 'bɪlkʊl' } }, false).valid)
+      .toBe(true);
+  });
+
+  test('rejects phonemes that do not fit an SSML tag', () => {
+    expect(validatePronunciationEntry('Acha', { phoneme: { alphabet: 'x-sampa', ph: 'a' } }).error)
+      .toBe('phoneme.alphabet must be one of: ipa, cmu-arpabet');
+    expect(validatePronunciationEntry('Acha', { phoneme: { ph: '"/><break/>' } }).valid).toBe(false);
+    expect(validatePronunciationEntry('Acha', { phoneme: 'ətʃɑː' }).valid).toBe(false);
+  });
+});
+
+describe('validateLexiconEntries', () => {
+  test('allows no lexicon', () => {
+    expect(validateLexiconEntries(undefined)).toEqual({ valid: true });
+  });
+
+  test('accepts a list of entries', () => {
+    expect(validateLexiconEntries([{ term: 'Acha', respelling: 'uh-chaa' }])).toEqual({
+      valid: true,
+      entries: [{ term: 'Acha', respelling: 'uh-chaa' }],
+    });
+  });
+
+  test('rejects invalid lists and says which entry is wrong', () => {
+    expect(validateLexiconEntries({ Acha: 'uh-chaa' }).valid).toBe(false);
+    expect(validateLexiconEntries(Array.from({ length: 501 }, (_, i) => ({ term: `t${i}`, respelling: 'x' }))).valid)
+      .toBe(false);
+    expect(validateLexiconEntries([{ term: 'Acha', respelling: 'uh-chaa' }, { term: 'Bilkul' }]).error)
+      .toBe('Lexicon entry 2: Give a respelling or a phoneme for "Bilkul"');
+    expect(validateLexiconEntries([{ term: 'Acha', respelling: 'a' }, { term: 'acha', respelling: 'b' }]).error)
+      .toBe('Lexicon entry 2: "acha" is listed twice');
+  });
+});
@@ -8,10 +8,15 @@ import {
   fetchArticleByUrl,
   fetchArticleByTitle,
   fetchArticle,
+  selectArticleSections,
 } from '../../src/services/wikipedia.js';
+import { getCachedJson, setCachedJson, hashKey } from '../../src/services/cache.js';
+import { ARTICLE_PARSER_VERSION } from '../../src/services/articleParser.js';
+import { InvalidInputError } from '../../src/utils/errors.js';
 
 // Mock node-fetch
 jest.mock('node-fetch');
+jest.mock('../../src/services/cache.js');
 
 describe('Wikipedia Service', () => {
   const mockFetch = require('node-fetch').default;
@@ -20,6 +25,61 @@ describe('Wikipedia Service', () => {
     jest.clearAllMocks();
   });
 
+  describe('article cache', () => {
+    const summary = {
+      title: 'Albert Einstein',
+      revision: '1234567',
+      extract: 'Albert Einstein was a German-born theoretical physicist.',
+      content_urls: { desktop: { page: 'https://en.wikipedia.org/wiki/Albert_Einstein' } },
+    };
+
+    test('returns cached content for the current revision', async () => {
+      (hashKey as jest.Mock).mockReturnValueOnce('article-key');
+      (getCachedJson as jest.Mock).mockResolvedValueOnce({
+        title: 'Albert Einstein',
+        url: 'https://en.wikipedia.org/wiki/Albert_Einstein',
+        cleanedText: 'Cached content',
+        revisionId: '1234567',
+      });
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => summary });
+
+      const result = await fetchArticleByTitle('Albert Einstein');
+
+      expect(hashKey).toHaveBeenCalledWith(
+        'article', 'en', 'Albert Einstein', '1234567', ARTICLE_PARSER_VERSION
+      );
+      expect(getCachedJson).toHaveBeenCalledWith('articles', 'article-key');
+      // Only the summary was requested
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.cleanedText).toBe('Cached content');
+      expect(result.fromCache).toBe(true);
+    });
+
+    test('stores fetched content with its revision ID', async () => {
+      (hashKey as jest.Mock).mockReturnValueOnce('article-key');
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => summary })
+        .mockResolvedValueOnce({ ok: true, text: async () => '<p>' + 'Test content. '.repeat(100) + '</p>' });
+
+      const result = await fetchArticleByTitle('Albert Einstein');
+
+      expect(result.revisionId).toBe('1234567');
+      expect(result.fromCache).toBeUndefined();
+      expect(setCachedJson).toHaveBeenCalledWith('articles', 'article-key', result);
+    });
+
+    test('skips the cache when the summary has no revision', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ ...summary, revision: undefined }) })
+        .mockResolvedValueOnce({ ok: true, text: async () => '<p>' + 'Test content. '.repeat(100) + '</p>' });
+
+      await fetchArticleByTitle('Albert Einstein');
+
+      expect(getCachedJson).not.toHaveBeenCalled();
+      expect(setCachedJson).not.toHaveBeenCalled();
+    });
+  });
+
   describe('fetchArticleByUrl', () => {
     test('extracts title from URL and fetches article', async () => {
       const url = 'https://en.wikipedia.org/wiki/Albert_Einstein';
@@ -336,6 +396,39 @@ describe('Wikipedia Service', () => {
     expect(result.cleanedText).not.toMatch(/^\s/);
     expect(result.cleanedText).not.toMatch(/\s$/);
   });
+
+    test('drops infoboxes, references and reference sections', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          title: 'Test',
+          extract: 'Summary',
+          content_urls: { desktop: { page: 'https://test.com' } }
+        })
+      });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => [
+          '<section data-mw-section-id="0">',
+          '<table class="infobox"><tr><td>Born 1879</td></tr></table>',
+          '<p>' + 'Lead text. '.repeat(30) + '<sup class="mw-ref reference"><a>[1]</a></sup></p>',
+          '</section>',
+          '<section data-mw-section-id="1"><h2 id="Career">Career</h2>',
+          '<p>' + 'Career text. '.repeat(30) + '</p>',
+          '</section>',
+          '<section data-mw-section-id="2"><h2 id="See_also">See also</h2>',
+          '<ul><li>Related article</li></ul>',
+          '</section>',
+        ].join('')
+      });
+
+      const result = await fetchArticleByTitle('Test');
+      expect(result.cleanedText).not.toContain('Born 1879');
+      expect(result.cleanedText).not.toContain('Related article');
+      expect(result.cleanedText).toContain('## Career');
+      expect(result.sections.map(section => section.title)).toEqual(['Introduction', 'Career']);
+    });
   });
 
   describe('Content Validation', () => {
@@ -621,6 +714,74 @@ describe('Wikipedia Service', () => {
     });
   });
 
+  describe('Other Wikipedia editions', () => {
+    const germanSummary = {
+      title: 'Albert Einstein',
+      extract: 'Albert Einstein war ein theoretischer Physiker.',
+      content_urls: { desktop: { page: 'https://de.wikipedia.org/wiki/Albert_Einstein' } },
+    };
+
+    test('fetches from the edition in the URL', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => germanSummary })
+        .mockResolvedValueOnce({ ok: true, text: async () => '<p>' + 'Inhalt. '.repeat(100) + '</p>' });
+
+      const result = await fetchArticleByUrl('https://de.wikipedia.org/wiki/Albert_Einstein');
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://de.wikipedia.org/api/rest_v1/page/summary/Albert_Einstein'
+      );
+      expect(mockFetch.mock.calls[1][0]).toBe(
+        'https://de.wikipedia.org/api/rest_v1/page/html/Albert_Einstein'
+      );
+      expect(result.language).toBe('de');
+    });
+
+    test('resolves mobile URLs to their edition', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => germanSummary })
+        .mockResolvedValueOnce({ ok: true, text: async () => '<p>' + 'Inhalt. '.repeat(100) + '</p>' });
+
+      const result = await fetchArticleByUrl('https://de.m.wikipedia.org/wiki/Albert_Einstein');
+
+      expect(mockFetch.mock.calls[0][0]).toContain('https://de.wikipedia.org/');
+      expect(result.language).toBe('de');
+    });
+
+    test('fetches titles from the requested edition', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => germanSummary })
+        .mockResolvedValueOnce({ ok: true, text: async () => '<p>' + 'Inhalt. '.repeat(100) + '</p>' });
+
+      const result = await fetchArticle('Albert Einstein', 'title', 'de');
+
+      expect(mockFetch.mock.calls[0][0]).toContain('https://de.wikipedia.org/');
+      expect(result.language).toBe('de');
+    });
+
+    test('includes the edition in the cache key', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ ...germanSummary, revision: '42' }) })
+        .mockResolvedValueOnce({ ok: true, text: async () => '<p>' + 'Inhalt. '.repeat(100) + '</p>' });
+
+      await fetchArticleByTitle('Albert Einstein', undefined, 'de');
+
+      expect(hashKey).toHaveBeenCalledWith('article', 'de', 'Albert Einstein', '42', ARTICLE_PARSER_VERSION);
+    });
+
+    test('rejects explicitly unsupported wikis without fetching', async () => {
+      await expect(fetchArticleByTitle('Test', undefined, 'mo'))
+        .rejects.toMatchObject({ code: 'UNSUPPORTED_LANGUAGE' });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('rejects malformed language codes', async () => {
+      await expect(fetchArticleByTitle('Test', undefined, 'en.evil.com/x'))
+        .rejects.toThrow('Invalid Wikipedia language code');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Error Handling', () => {
     test('handles network errors', async () => {
       mockFetch.mockRejectedValueOnce(new Error('Network error'));
@@ -655,5 +816,49 @@ describe('Wikipedia Service', () => {
         .rejects.toThrow('Unknown error fetching Wikipedia article');
     });
   });
-});
 
+  describe('selectArticleSections', () => {
+    const paragraph = (text: string) => ({ type: 'paragraph' as const, text: text.trim() });
+    const article = {
+      title: 'Ada Lovelace',
+      url: 'https://en.wikipedia.org/wiki/Ada_Lovelace',
+      rawContent: '',
+      cleanedText: 'Full text',
+      summary: 'Summary',
+      wordCount: 2,
+      fetchedAt: '2025-01-01T00:00:00Z',
+      language: 'en',
+      sections: [
+        { title: 'Introduction', level: 2, anchor: '', blocks: [paragraph('Lead. '.repeat(100))], subsections: [] },
+        { title: 'Early life', level: 2, anchor: 'Early_life', blocks: [paragraph('Youth. '.repeat(100))], subsections: [] },
+        { title: 'Legacy', level: 2, anchor: 'Legacy', blocks: [paragraph('Legacy. '.repeat(100))], subsections: [] },
+      ],
+    };
+
+    test('restricts text and sections to the chosen ones', () => {
+      const result = selectArticleSections(article, ['legacy']);
+
+      expect(result.sections.map(section => section.title)).toEqual(['Legacy']);
+      expect(result.selectedSections).toEqual(['Legacy']);
+      expect(result.cleanedText.startsWith('## Legacy')).toBe(true);
+      expect(result.cleanedText).not.toContain('Youth.');
+      expect(result.wordCount).toBe(102);
+    });
+
+    test('throws for sections the article does not have, listing its headings', () => {
+      expect(() => selectArticleSections(article, ['Legacy', 'Reception']))
+        .toThrow('Sections missing from "Ada Lovelace": "Reception" (available: "Introduction", "Early life", "Legacy")');
+      expect(() => selectArticleSections(article, ['Reception'])).toThrow(InvalidInputError);
+    });
+
+    test('throws when the selection is too short', () => {
+      const shortArticle = {
+        ...article,
+        sections: [{ ...article.sections[2], blocks: [paragraph('Brief.')] }],
+      };
+
+      expect(() => selectArticleSections(shortArticle, ['Legacy']))
+        .toThrow('Selected sections too short');
+    });
+  });
+});
@@ -1,11 +1,25 @@
-import { useRef, useState, useEffect } from 'react';
+import { useRef, useState, useEffect, forwardRef, useImperativeHandle } from 'react';
+import { formatNames } from '../utils/format';
 
 interface AudioPlayerProps {
   audioUrl: string;
   title: string;
+  /** Hosts heard in the episode */
+  speakers: string[];
+  /** Called with the playback position, in seconds, as it changes */
+  onTimeUpdate?: (seconds: number) => void;
 }
 
-export function AudioPlayer({ audioUrl, title }: AudioPlayerProps) {
+/** Controls the player from outside */
+export interface AudioPlayerHandle {
+  /** Jumps to a position, in seconds, and plays from there */
+  seek: (seconds: number) => void;
+}
+
+export const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(function AudioPlayer(
+  { audioUrl, title, speakers, onTimeUpdate },
+  ref
+) {
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
@@ -22,11 +36,13 @@ export function AudioPlayer({ audioUrl, title }: AudioPlayerProps) {
 
     const handleTimeUpdate = () => {
       setCurrentTime(audio.currentTime);
+      onTimeUpdate?.(audio.currentTime);
     };
 
     const handleEnded = () => {
       setIsPlaying(false);
       setCurrentTime(0);
+      onTimeUpdate?.(0);
     };
 
     audio.addEventListener('loadedmetadata', handleLoadedMetadata);
@@ -38,7 +54,19 @@ export function AudioPlayer({ audioUrl, title }: AudioPlayerProps) {
       audio.removeEventListener('timeupdate', handleTimeUpdate);
       audio.removeEventListener('ended', handleEnded);
     };
-  }, [audioUrl]);
+  }, [audioUrl, onTimeUpdate]);
+
+  useImperativeHandle(ref, () => ({
+    seek: (seconds: number) => {
+      const audio = audioRef.current;
+      if (!audio) return;
+
+      audio.currentTime = seconds;
+      setCurrentTime(seconds);
+      audio.play();
+      setIsPlaying(true);
+    },
+  }), []);
 
   const togglePlayPause = () => {
     const audio = audioRef.current;
@@ -155,10 +183,9 @@ export function AudioPlayer({ audioUrl, title }: AudioPlayerProps) {
 
         {/* Speakers Badge */}
         <div className="flex items-center space-x-1 text-sm text-gray-600">
-          <span className="font-medium">Nishi & Shyam</span>
+          <span className="font-medium">{formatNames(speakers)}</span>
         </div>
       </div>
     </div>
   );
-}
-
+});
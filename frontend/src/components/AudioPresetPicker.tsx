@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { getAudioPresets, AudioPreset } from '../services/api';
+
+interface AudioPresetPickerProps {
+  /** Chosen preset ID */
+  selected: string;
+  onChange: (preset: string) => void;
+  disabled: boolean;
+}
+
+/**
+ * Audio Preset Picker Component
+ *
+ * Lists the audio production presets and describes the chosen one.
+ */
+export function AudioPresetPicker({ selected, onChange, disabled }: AudioPresetPickerProps) {
+  const [presets, setPresets] = useState<AudioPreset[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getAudioPresets()
+      .then(setPresets)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load audio presets'));
+  }, []);
+
+  if (error) {
+    return <div className="text-sm text-red-400">{error}</div>;
+  }
+
+  if (presets.length === 0) {
+    return null;
+  }
+
+  const current = presets.find(preset => preset.id === selected);
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <label htmlFor="audio-preset" className="text-slate-300">
+          Sound
+        </label>
+        <select
+          id="audio-preset"
+          value={selected}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          className="px-3 py-2 bg-slate-700 text-white border-2 border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-podcast-500 disabled:bg-slate-800 disabled:cursor-not-allowed"
+        >
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+        </select>
+      </div>
+      {current && <p className="text-slate-500 mt-2">{current.description}</p>}
+    </div>
+  );
+}
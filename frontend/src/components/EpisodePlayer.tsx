@@ -0,0 +1,84 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { getPodcast, getAudioUrl, LineTiming } from '../services/api';
+import { AudioPlayer, AudioPlayerHandle } from './AudioPlayer';
+import { Transcript } from './Transcript';
+
+interface EpisodePlayerProps {
+  podcastId: string;
+  title: string;
+  /** Hosts heard in the episode */
+  speakers: string[];
+  /** Line timings, when the caller already has the podcast details */
+  lineTimings?: LineTiming[];
+  /** Script revision; a new one reloads the audio and transcript */
+  revision?: number;
+}
+
+/**
+ * EpisodePlayer Component
+ *
+ * The audio player with the episode transcript beside it. The line being
+ * heard is highlighted as the episode plays, and clicking a line jumps to it.
+ * Episodes made before line timings were recorded get a plain transcript.
+ */
+export function EpisodePlayer({ podcastId, title, speakers, lineTimings, revision }: EpisodePlayerProps) {
+  const playerRef = useRef<AudioPlayerHandle>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [loadedTimings, setLoadedTimings] = useState<LineTiming[] | undefined>(undefined);
+  const timingsGiven = lineTimings !== undefined;
+
+  useEffect(() => {
+    setCurrentTime(0);
+    setLoadedTimings(undefined);
+    if (timingsGiven) return;
+
+    let cancelled = false;
+    getPodcast(podcastId)
+      .then((loaded) => {
+        if (!cancelled) setLoadedTimings(loaded.audio.lineTimings);
+      })
+      .catch(() => {
+        // Without timings the transcript is still readable, just not synced
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [podcastId, timingsGiven]);
+
+  const handleSeek = useCallback((seconds: number) => {
+    playerRef.current?.seek(seconds);
+  }, []);
+
+  const timings = lineTimings ?? loadedTimings;
+
+  return (
+    <div className="space-y-6">
+      <AudioPlayer
+        key={`${podcastId}-${revision ?? 1}`}
+        ref={playerRef}
+        audioUrl={getAudioUrl(podcastId, revision)}
+        title={title}
+        speakers={speakers}
+        onTimeUpdate={setCurrentTime}
+      />
+
+      {/* Transcript */}
+      <div className="bg-slate-800/50 rounded-2xl border border-slate-700/50 p-6 backdrop-blur-sm">
+        <h4 className="text-white font-semibold">Transcript</h4>
+        {timings && timings.length > 0 && (
+          <p className="text-xs text-slate-400 mt-1">Click a line to jump to it.</p>
+        )}
+        <div className="mt-4 max-h-96 overflow-y-auto pr-2">
+          <Transcript
+            key={revision ?? 1}
+            podcastId={podcastId}
+            lineTimings={timings}
+            currentTime={currentTime}
+            onSeek={timings?.length ? handleSeek : undefined}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
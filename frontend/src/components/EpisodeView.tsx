@@ -0,0 +1,202 @@
+import { useState, useEffect } from 'react';
+import {
+  getPodcast,
+  deletePodcast,
+  getAudioUrl,
+  getCaptionsUrl,
+  PodcastDetails,
+  ScriptEditResponse,
+} from '../services/api';
+import { navigate } from '../hooks/useRoute';
+import { EpisodePlayer } from './EpisodePlayer';
+import { ScriptEditor } from './ScriptEditor';
+import { LexiconEditor } from './LexiconEditor';
+import { DownloadButton } from './DownloadButton';
+import { RouteLink } from './RouteLink';
+import { SourceLinks } from './SourceLinks';
+import { formatDuration, formatDate, formatArticleTitles } from '../utils/format';
+
+interface EpisodeViewProps {
+  podcastId: string;
+}
+
+/**
+ * EpisodeView Component
+ *
+ * Page for a single past episode: replay with a synced transcript, re-download,
+ * captions, script editing, pronunciations and delete.
+ */
+export function EpisodeView({ podcastId }: EpisodeViewProps) {
+  const [podcast, setPodcast] = useState<PodcastDetails | null>(null);
+  const [error, setError] = useState<string>('');
+  const [deleting, setDeleting] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [showLexicon, setShowLexicon] = useState(false);
+  const [revision, setRevision] = useState<number | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPodcast(null);
+    setError('');
+    setEditing(false);
+    setShowLexicon(false);
+    setRevision(undefined);
+
+    getPodcast(podcastId)
+      .then((loaded) => {
+        if (!cancelled) setPodcast(loaded);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load episode');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [podcastId]);
+
+  const handleDelete = async () => {
+    if (!podcast) return;
+    if (!window.confirm(`Delete "${formatArticleTitles(podcast.articles)}"? This cannot be undone.`)) return;
+
+    setDeleting(true);
+    try {
+      await deletePodcast(podcast.id);
+      navigate({ name: 'library' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete episode');
+      setDeleting(false);
+    }
+  };
+
+  const handleScriptSaved = (result: ScriptEditResponse) => {
+    setEditing(false);
+    setRevision(result.revision);
+    setPodcast((current) => current && {
+      ...current,
+      audio: { ...current.audio, ...result.audio },
+    });
+  };
+
+  if (error && !podcast) {
+    return (
+      <div className="p-6 bg-red-900/20 border border-red-500/30 rounded-2xl text-center">
+        <p className="text-red-300">{error}</p>
+        <RouteLink to={{ name: 'library' }} className="mt-3 inline-block text-sm text-red-400 hover:text-red-300 underline">
+          Back to library
+        </RouteLink>
+      </div>
+    );
+  }
+
+  if (!podcast) {
+    return <p className="text-center text-slate-400 py-8">Loading episode...</p>;
+  }
+
+  const speakers = Object.keys(podcast.voiceMapping).filter(key => key !== 'provider');
+
+  return (
+    <div className="space-y-6">
+      {/* Article Info */}
+      <div className="bg-slate-800/50 rounded-2xl border border-slate-700/50 p-6 backdrop-blur-sm">
+        <RouteLink to={{ name: 'library' }} className="text-sm text-slate-400 hover:text-white">
+          ← Library
+        </RouteLink>
+        <div className="flex items-start justify-between mt-3">
+          <div>
+            <h3 className="text-2xl font-bold text-white mb-2">
+              {formatArticleTitles(podcast.articles)}
+            </h3>
+            <SourceLinks articles={podcast.articles} />
+          </div>
+          <div className="text-right text-sm text-slate-400">
+            <p>{formatDuration(podcast.audio.durationSeconds)}</p>
+            <p className="mt-1">{formatDate(podcast.createdAt)}</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Audio Player and Transcript */}
+      <EpisodePlayer
+        podcastId={podcast.id}
+        title={formatArticleTitles(podcast.articles)}
+        speakers={speakers}
+        lineTimings={podcast.audio.lineTimings ?? []}
+        revision={revision}
+      />
+
+      {/* Script Editor */}
+      {editing && (
+        <div className="bg-slate-800/50 rounded-2xl border border-slate-700/50 p-6 backdrop-blur-sm">
+          <h4 className="text-white font-semibold mb-3">Edit script</h4>
+          <ScriptEditor
+            podcastId={podcast.id}
+            speakers={speakers}
+            onSaved={handleScriptSaved}
+            onCancel={() => setEditing(false)}
+          />
+        </div>
+      )}
+
+      {/* Pronunciation Lexicon */}
+      {showLexicon && (
+        <div className="bg-slate-800/50 rounded-2xl border border-slate-700/50 p-6 backdrop-blur-sm">
+          <h4 className="text-white font-semibold mb-3">Pronunciations</h4>
+          <LexiconEditor podcastId={podcast.id} />
+        </div>
+      )}
+
+      {/* Download Button */}
+      <DownloadButton
+        audioUrl={getAudioUrl(podcast.id, revision)}
+        podcastId={podcast.id}
+        articleTitle={formatArticleTitles(podcast.articles)}
+      />
+
+      {/* Captions (only episodes with recorded line timings have them) */}
+      {podcast.audio.lineTimings && (
+        <p className="text-center text-sm text-slate-400">
+          Captions:{' '}
+          <a href={getCaptionsUrl(podcast.id, 'vtt')} className="text-podcast-400 hover:text-podcast-300 underline">
+            WebVTT
+          </a>
+          {' · '}
+          <a href={getCaptionsUrl(podcast.id, 'srt')} className="text-podcast-400 hover:text-podcast-300 underline">
+            SRT
+          </a>
+        </p>
+      )}
+
+      {error && (
+        <p className="text-center text-sm text-red-400">{error}</p>
+      )}
+
+      {/* Edit, Pronunciations and Delete */}
+      <div className="flex justify-center gap-6">
+        {!editing && (
+          <button
+            onClick={() => setEditing(true)}
+            className="text-sm text-slate-400 hover:text-white underline"
+          >
+            Edit script
+          </button>
+        )}
+        <button
+          onClick={() => setShowLexicon(!showLexicon)}
+          className="text-sm text-slate-400 hover:text-white underline"
+        >
+          {showLexicon ? 'Hide pronunciations' : 'Pronunciations'}
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={deleting}
+          className="text-sm text-red-400 hover:text-red-300 underline disabled:opacity-50"
+        >
+          {deleting ? 'Deleting...' : 'Delete episode'}
+        </button>
+      </div>
+    </div>
+  );
+}
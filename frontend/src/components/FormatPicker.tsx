@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { getFormats, ShowFormat } from '../services/api';
+
+interface FormatPickerProps {
+  /** Chosen format ID */
+  selected: string;
+  onChange: (format: string) => void;
+  disabled: boolean;
+}
+
+/**
+ * Format Picker Component
+ *
+ * Lists the show formats and describes the sections of the chosen one.
+ */
+export function FormatPicker({ selected, onChange, disabled }: FormatPickerProps) {
+  const [formats, setFormats] = useState<ShowFormat[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getFormats()
+      .then(setFormats)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load formats'));
+  }, []);
+
+  if (error) {
+    return <div className="text-sm text-red-400">{error}</div>;
+  }
+
+  if (formats.length === 0) {
+    return null;
+  }
+
+  const current = formats.find(format => format.id === selected);
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <label htmlFor="show-format" className="text-slate-300">
+          Format
+        </label>
+        <select
+          id="show-format"
+          value={selected}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          className="px-3 py-2 bg-slate-700 text-white border-2 border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-podcast-500 disabled:bg-slate-800 disabled:cursor-not-allowed"
+        >
+          {formats.map((format) => (
+            <option key={format.id} value={format.id}>{format.name}</option>
+          ))}
+        </select>
+      </div>
+      {current && (
+        <p className="text-slate-500 mt-2">
+          {current.description}:{' '}
+          {current.sections
+            .map(section => section.optional ? `${section.id} (optional)` : section.id)
+            .join(' → ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { getHosts, HostProfile } from '../services/api';
+
+interface HostPickerProps {
+  /** Chosen host IDs, in speaking order */
+  selected: string[];
+  onChange: (hosts: string[]) => void;
+  disabled: boolean;
+}
+
+/**
+ * An episode has this many hosts at most
+ */
+const MAX_HOSTS = 4;
+
+/**
+ * Host Picker Component
+ *
+ * Lists the host roster and lets the user choose who presents the episode.
+ * Hosts speak in the order they were chosen; a single host narrates alone.
+ */
+export function HostPicker({ selected, onChange, disabled }: HostPickerProps) {
+  const [hosts, setHosts] = useState<HostProfile[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getHosts()
+      .then(setHosts)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load hosts'));
+  }, []);
+
+  const toggle = (id: string) => {
+    if (selected.includes(id)) {
+      // Every episode keeps at least one host
+      if (selected.length > 1) {
+        onChange(selected.filter(host => host !== id));
+      }
+    } else if (selected.length < MAX_HOSTS) {
+      onChange([...selected, id]);
+    }
+  };
+
+  if (error) {
+    return <div className="text-sm text-red-400">{error}</div>;
+  }
+
+  if (hosts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="text-sm">
+      <p className="text-slate-300 mb-2">
+        Hosts{' '}
+        <span className="text-slate-500">
+          ({selected.length === 1 ? 'one host narrates alone' : `up to ${MAX_HOSTS}, in speaking order`})
+        </span>
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {hosts.map((host) => {
+          const position = selected.indexOf(host.id);
+          const chosen = position >= 0;
+          return (
+            <button
+              key={host.id}
+              type="button"
+              onClick={() => toggle(host.id)}
+              disabled={disabled || (!chosen && selected.length >= MAX_HOSTS)}
+              title={host.persona}
+              aria-pressed={chosen}
+              className={`px-3 py-1.5 rounded-full border transition-colors disabled:cursor-not-allowed ${
+                chosen
+                  ? 'bg-podcast-600 border-podcast-500 text-white'
+                  : 'bg-slate-800 border-slate-600 text-slate-300 hover:border-slate-400 disabled:text-slate-500'
+              }`}
+            >
+              {chosen && <span className="mr-1 text-xs">{position + 1}.</span>}
+              {host.name}
+              <span className={`ml-1 text-xs ${chosen ? 'text-podcast-100' : 'text-slate-500'}`}>
+                {host.role}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,66 +1,184 @@
 import { useState } from 'react';
+import type { PodcastRequest } from '../services/api';
+import { SectionPicker } from './SectionPicker';
+import { HostPicker } from './HostPicker';
+import { FormatPicker } from './FormatPicker';
+import { AudioPresetPicker } from './AudioPresetPicker';
 
 interface InputFormProps {
-  onSubmit: (input: string, type: 'url' | 'title') => void;
+  onSubmit: (request: PodcastRequest) => void;
   loading: boolean;
 }
 
+/**
+ * Script languages offered in the form; the backend accepts any language code
+ */
+const OUTPUT_LANGUAGES = [
+  { code: 'en', name: 'English' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'it', name: 'Italian' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'zh', name: 'Chinese' },
+];
+
+/**
+ * Episode lengths offered in the form; an empty value keeps the default 2-3 minutes
+ */
+const EPISODE_LENGTHS = [
+  { minutes: '', label: '2-3 minutes' },
+  { minutes: '5', label: '5 minutes' },
+  { minutes: '10', label: '10 minutes' },
+  { minutes: '15', label: '15 minutes' },
+  { minutes: '20', label: '20 minutes' },
+  { minutes: '30', label: '30 minutes' },
+];
+
+/**
+ * Up to this many articles can be discussed in one episode
+ */
+const MAX_INPUTS = 5;
+
+/**
+ * Hosts the backend uses when a request names none
+ */
+const DEFAULT_HOSTS = ['nishi', 'shyam'];
+
+/**
+ * Show format the backend uses when a request names none
+ */
+const DEFAULT_FORMAT = 'classic';
+
+/**
+ * Audio preset the backend uses when a request names none
+ */
+const DEFAULT_AUDIO_PRESET = 'plain';
+
+function isWikipediaUrl(value: string): boolean {
+  try {
+    return new URL(value).hostname.endsWith('wikipedia.org');
+  } catch {
+    return false;
+  }
+}
+
 export function InputForm({ onSubmit, loading }: InputFormProps) {
-  const [input, setInput] = useState('');
+  const [inputs, setInputs] = useState<string[]>(['']);
+  const [outputLanguage, setOutputLanguage] = useState('en');
+  const [sections, setSections] = useState<string[]>([]);
+  const [targetMinutes, setTargetMinutes] = useState('');
+  const [hosts, setHosts] = useState<string[]>(DEFAULT_HOSTS);
+  const [format, setFormat] = useState(DEFAULT_FORMAT);
+  const [audioPreset, setAudioPreset] = useState(DEFAULT_AUDIO_PRESET);
+  const [scriptOnly, setScriptOnly] = useState(false);
   const [error, setError] = useState<string>('');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
 
+    const urls = inputs.map(value => value.trim());
+
     // Validate input
-    if (!input.trim()) {
-      setError('Please enter a Wikipedia URL');
+    if (urls.some(url => !url)) {
+      setError(urls.length > 1 ? 'Please fill in or remove every article' : 'Please enter a Wikipedia URL');
       return;
     }
 
     // Basic URL validation
-    try {
-      const url = new URL(input.trim());
-      if (!url.hostname.includes('wikipedia.org')) {
-        setError('Please enter a valid Wikipedia URL');
+    for (const value of urls) {
+      try {
+        const url = new URL(value);
+        if (!url.hostname.includes('wikipedia.org')) {
+          setError('Please enter a valid Wikipedia URL');
+          return;
+        }
+      } catch {
+        setError('Please enter a valid URL');
         return;
       }
-    } catch {
-      setError('Please enter a valid URL');
-      return;
     }
 
-    onSubmit(input.trim(), 'url');
+    onSubmit({
+      input: urls.length > 1 ? urls : urls[0],
+      type: 'url',
+      outputLanguage,
+      ...(sections.length > 0 && { sections }),
+      ...(targetMinutes && { targetMinutes: Number(targetMinutes) }),
+      ...(hosts.join() !== DEFAULT_HOSTS.join() && { hosts }),
+      ...(format !== DEFAULT_FORMAT && { format }),
+      ...(audioPreset !== DEFAULT_AUDIO_PRESET && { audioPreset }),
+      ...(scriptOnly && { stopAfter: 'generate_script' as const }),
+    });
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setInput(value);
+  const handleInputChange = (index: number, value: string) => {
+    setInputs(inputs.map((current, i) => (i === index ? value : current)));
+    setSections([]);
     setError('');
   };
 
+  const addInput = () => {
+    setInputs([...inputs, '']);
+    setSections([]);
+  };
+
+  const removeInput = (index: number) => {
+    setInputs(inputs.filter((_, i) => i !== index));
+    setError('');
+  };
+
+  // Sections can only be chosen when the episode covers a single article
+  const singleInput = inputs.length === 1 ? inputs[0].trim() : '';
+
   return (
     <div className="w-full max-w-2xl mx-auto">
       <form onSubmit={handleSubmit} className="space-y-4">
-        {/* Input Field */}
-        <div className="relative">
-          <input
-            type="text"
-            value={input}
-            onChange={handleInputChange}
+        {/* Input Fields */}
+        {inputs.map((value, index) => (
+          <div key={index} className="relative flex items-center gap-2">
+            <input
+              type="text"
+              value={value}
+              onChange={(e) => handleInputChange(index, e.target.value)}
+              disabled={loading}
+              placeholder="https://en.wikipedia.org/wiki/..."
+              className={`w-full px-4 py-3 text-lg bg-slate-700 text-white placeholder-slate-400 border-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-podcast-500 disabled:bg-slate-800 disabled:cursor-not-allowed transition-colors ${
+                error ? 'border-red-500' : 'border-slate-600'
+              }`}
+            />
+            {inputs.length > 1 && (
+              <button
+                type="button"
+                onClick={() => removeInput(index)}
+                disabled={loading}
+                aria-label="Remove article"
+                className="text-slate-400 hover:text-white px-2 disabled:cursor-not-allowed"
+              >
+                ✕
+              </button>
+            )}
+            {loading && index === 0 && (
+              <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-podcast-500"></div>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {inputs.length < MAX_INPUTS && (
+          <button
+            type="button"
+            onClick={addInput}
             disabled={loading}
-            placeholder="https://en.wikipedia.org/wiki/..."
-            className={`w-full px-4 py-3 text-lg bg-slate-700 text-white placeholder-slate-400 border-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-podcast-500 disabled:bg-slate-800 disabled:cursor-not-allowed transition-colors ${
-              error ? 'border-red-500' : 'border-slate-600'
-            }`}
-          />
-          {loading && (
-            <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
-              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-podcast-500"></div>
-            </div>
-          )}
-        </div>
+            className="text-sm text-podcast-400 hover:text-podcast-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+          >
+            + Add another article to connect
+          </button>
+        )}
 
         {/* Error Message */}
         {error && (
@@ -69,24 +187,94 @@ export function InputForm({ onSubmit, loading }: InputFormProps) {
           </div>
         )}
 
+        {/* Sections */}
+        {isWikipediaUrl(singleInput) && (
+          <SectionPicker
+            input={singleInput}
+            selected={sections}
+            onChange={setSections}
+            disabled={loading}
+          />
+        )}
+
+        {/* Output Language and Length */}
+        <div className="flex flex-wrap items-center gap-3">
+          <label htmlFor="output-language" className="text-sm text-slate-300">
+            Script language
+          </label>
+          <select
+            id="output-language"
+            value={outputLanguage}
+            onChange={(e) => setOutputLanguage(e.target.value)}
+            disabled={loading}
+            className="px-3 py-2 bg-slate-700 text-white border-2 border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-podcast-500 disabled:bg-slate-800 disabled:cursor-not-allowed"
+          >
+            {OUTPUT_LANGUAGES.map(({ code, name }) => (
+              <option key={code} value={code}>{name}</option>
+            ))}
+          </select>
+
+          <label htmlFor="episode-length" className="text-sm text-slate-300">
+            Length
+          </label>
+          <select
+            id="episode-length"
+            value={targetMinutes}
+            onChange={(e) => setTargetMinutes(e.target.value)}
+            disabled={loading}
+            className="px-3 py-2 bg-slate-700 text-white border-2 border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-podcast-500 disabled:bg-slate-800 disabled:cursor-not-allowed"
+          >
+            {EPISODE_LENGTHS.map(({ minutes, label }) => (
+              <option key={label} value={minutes}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Show Format */}
+        <FormatPicker selected={format} onChange={setFormat} disabled={loading} />
+
+        {/* Hosts */}
+        <HostPicker selected={hosts} onChange={setHosts} disabled={loading} />
+
+        {/* Audio Production */}
+        <AudioPresetPicker selected={audioPreset} onChange={setAudioPreset} disabled={loading} />
+
+        {/* Review the script before it is voiced */}
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={scriptOnly}
+            onChange={(e) => setScriptOnly(e.target.checked)}
+            disabled={loading}
+            className="accent-podcast-500"
+          />
+          Write the script only, and review it before it is voiced
+        </label>
+
         {/* Submit Button */}
         <button
           type="submit"
-          disabled={loading || !input.trim()}
+          disabled={loading || inputs.every(value => !value.trim())}
           className="w-full bg-podcast-600 hover:bg-podcast-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors disabled:bg-slate-700 disabled:cursor-not-allowed disabled:text-slate-500"
         >
-          {loading ? 'Generating Podcast...' : '🎙️ Generate Podcast'}
+          {loading
+            ? (scriptOnly ? 'Writing Script...' : 'Generating Podcast...')
+            : (scriptOnly ? '✍️ Write Script' : '🎙️ Generate Podcast')}
         </button>
       </form>
 
       {/* Examples */}
       <div className="mt-6 text-sm text-slate-400">
-        <p className="font-medium mb-2">Example:</p>
+        <p className="font-medium mb-2">Examples (any Wikipedia language):</p>
         <ul className="space-y-1">
           <li className="flex items-start">
             <span className="mr-2">•</span>
             <span>https://en.wikipedia.org/wiki/Quantum_Computing</span>
           </li>
+          <li className="flex items-start">
+            <span className="mr-2">•</span>
+            <span>https://de.wikipedia.org/wiki/Quantencomputer</span>
+          </li>
         </ul>
       </div>
     </div>
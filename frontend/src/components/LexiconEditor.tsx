@@ -0,0 +1,179 @@
+import { useState, useEffect, useRef, FormEvent } from 'react';
+import {
+  getLexicon,
+  savePronunciation,
+  deletePronunciation,
+  previewPronunciation,
+  PronunciationEntry,
+} from '../services/api';
+
+interface LexiconEditorProps {
+  /** Episode whose own lexicon is edited (default: the global lexicon) */
+  podcastId?: string;
+}
+
+/**
+ * Describes how an entry is said
+ */
+function describePronunciation({ respelling, phoneme }: PronunciationEntry): string {
+  return [respelling, phoneme && `/${phoneme.ph}/`].filter(Boolean).join(' · ');
+}
+
+/**
+ * LexiconEditor Component
+ *
+ * Lists the pronunciations of the global lexicon or an episode's own, and
+ * adds, replaces or removes them. Any word can be heard first, with the
+ * respelling being typed or with the lexicon as it is.
+ */
+export function LexiconEditor({ podcastId }: LexiconEditorProps) {
+  const [entries, setEntries] = useState<PronunciationEntry[] | null>(null);
+  const [term, setTerm] = useState('');
+  const [respelling, setRespelling] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    setError('');
+
+    getLexicon(podcastId)
+      .then((loaded) => {
+        if (!cancelled) setEntries(loaded);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load pronunciations');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [podcastId]);
+
+  // Stop a preview still playing when the editor goes away
+  useEffect(() => () => audioRef.current?.pause(), []);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const play = (text: string, pronunciation: Partial<PronunciationEntry> = {}) =>
+    run(async () => {
+      const audio = await previewPronunciation({ text, ...pronunciation }, podcastId);
+      const url = URL.createObjectURL(audio);
+      audioRef.current?.pause();
+      audioRef.current = new Audio(url);
+      audioRef.current.onended = () => URL.revokeObjectURL(url);
+      await audioRef.current.play();
+    }, 'Failed to play pronunciation');
+
+  const handleSave = (e: FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const saved = await savePronunciation({ term: term.trim(), respelling: respelling.trim() }, podcastId);
+      setEntries((current) => [
+        ...(current ?? []).filter(entry => entry.term.toLowerCase() !== saved.term.toLowerCase()),
+        saved,
+      ].sort((a, b) => a.term.localeCompare(b.term)));
+      setTerm('');
+      setRespelling('');
+    }, 'Failed to save pronunciation');
+  };
+
+  const handleDelete = (removed: string) =>
+    run(async () => {
+      await deletePronunciation(removed, podcastId);
+      setEntries((current) => (current ?? []).filter(entry => entry.term !== removed));
+    }, 'Failed to remove pronunciation');
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-slate-400">
+        {podcastId
+          ? 'Pronunciations for this episode, used on top of the global ones. They apply to lines voiced from now on.'
+          : 'Pronunciations used in every episode, such as names and Hindi words the voices get wrong.'}
+      </p>
+
+      {entries === null ? (
+        !error && <p className="text-sm text-slate-400">Loading pronunciations...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-slate-400">No pronunciations yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-700/50">
+          {entries.map((entry) => (
+            <li key={entry.term} className="flex items-center gap-3 py-2 text-sm">
+              <span className="font-medium text-white">{entry.term}</span>
+              <span className="flex-1 text-slate-400">{describePronunciation(entry)}</span>
+              <button
+                type="button"
+                onClick={() => play(entry.term)}
+                disabled={busy}
+                className="text-podcast-400 hover:text-podcast-300 disabled:opacity-50"
+              >
+                ▶ Play
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(entry.term)}
+                disabled={busy}
+                className="text-red-400 hover:text-red-300 disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSave} className="flex flex-col sm:flex-row gap-2">
+        <input
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+          placeholder="Word or name (e.g. Acha)"
+          maxLength={100}
+          disabled={busy}
+          aria-label="Word or name"
+          className="flex-1 bg-slate-900/60 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500"
+        />
+        <input
+          value={respelling}
+          onChange={(e) => setRespelling(e.target.value)}
+          placeholder="Say it as (e.g. uh-chaa)"
+          maxLength={100}
+          disabled={busy}
+          aria-label="Respelling"
+          className="flex-1 bg-slate-900/60 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500"
+        />
+        <button
+          type="button"
+          onClick={() => play(term.trim(), respelling.trim() ? { respelling: respelling.trim() } : {})}
+          disabled={busy || !term.trim()}
+          className="px-3 py-2 text-sm text-slate-300 hover:text-white disabled:opacity-50"
+        >
+          ▶ Try
+        </button>
+        <button
+          type="submit"
+          disabled={busy || !term.trim() || !respelling.trim()}
+          className="px-4 py-2 text-sm font-semibold rounded-xl bg-podcast-600 hover:bg-podcast-500 text-white disabled:opacity-50"
+        >
+          Save
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  listPodcasts,
+  deletePodcast,
+  PodcastListResponse,
+  PodcastResponse,
+  PodcastSortField,
+  SortOrder,
+} from '../services/api';
+import { RouteLink } from './RouteLink';
+import { formatDuration, formatDate, formatArticleTitles } from '../utils/format';
+
+const PAGE_SIZE = 10;
+
+/** Delay before a search query is sent, so typing does not fire a request per key */
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Library Component
+ *
+ * Lists past episodes with title search, sorting and pagination.
+ * Each episode links to its own page; episodes can be deleted in place.
+ */
+export function Library() {
+  const [data, setData] = useState<PodcastListResponse | null>(null);
+  const [error, setError] = useState<string>('');
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<PodcastSortField>('createdAt');
+  const [order, setOrder] = useState<SortOrder>('desc');
+  const [search, setSearch] = useState('');
+  const [title, setTitle] = useState('');
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const result = await listPodcasts({ page, pageSize: PAGE_SIZE, sort, order, title: title.trim() });
+      // Step back when the last item of the last page was deleted
+      if (result.podcasts.length === 0 && result.page > 1 && result.totalPages > 0) {
+        setPage(result.totalPages);
+        return;
+      }
+      setData(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load episodes');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, sort, order, title]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setTitle(search);
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const handleDelete = async (podcast: PodcastResponse) => {
+    if (!window.confirm(`Delete "${formatArticleTitles(podcast.articles)}"? This cannot be undone.`)) return;
+
+    setDeletingId(podcast.id);
+    try {
+      await deletePodcast(podcast.id);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete episode');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleSortChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const [nextSort, nextOrder] = e.target.value.split(':') as [PodcastSortField, SortOrder];
+    setSort(nextSort);
+    setOrder(nextOrder);
+    setPage(1);
+  };
+
+  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSearch(e.target.value);
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl border border-slate-700/50 p-6 backdrop-blur-sm">
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-3 mb-6">
+        <input
+          type="search"
+          value={search}
+          onChange={handleSearchChange}
+          placeholder="Search by title"
+          className="flex-1 px-4 py-2 rounded-lg bg-slate-900/60 border border-slate-700 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-podcast-500"
+          aria-label="Search episodes by title"
+        />
+        <select
+          value={`${sort}:${order}`}
+          onChange={handleSortChange}
+          className="px-4 py-2 rounded-lg bg-slate-900/60 border border-slate-700 text-white focus:outline-none focus:ring-2 focus:ring-podcast-500"
+          aria-label="Sort episodes"
+        >
+          <option value="createdAt:desc">Newest first</option>
+          <option value="createdAt:asc">Oldest first</option>
+          <option value="duration:desc">Longest first</option>
+          <option value="duration:asc">Shortest first</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/20 border border-red-500/30 rounded-lg text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {/* Episode List */}
+      {loading && !data ? (
+        <p className="text-center text-slate-400 py-8">Loading episodes...</p>
+      ) : data && data.podcasts.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-slate-400">
+            {title.trim() ? 'No episodes match your search.' : 'No episodes yet.'}
+          </p>
+          <RouteLink to={{ name: 'home' }} className="mt-3 inline-block text-podcast-400 hover:text-podcast-300 underline">
+            Generate a podcast
+          </RouteLink>
+        </div>
+      ) : data && (
+        <ul className="divide-y divide-slate-700/50">
+          {data.podcasts.map((podcast) => (
+            <li key={podcast.id} className="flex items-center justify-between gap-4 py-4">
+              <div className="min-w-0">
+                <RouteLink
+                  to={{ name: 'episode', id: podcast.id }}
+                  className="block text-white font-semibold hover:text-podcast-300 truncate"
+                >
+                  {formatArticleTitles(podcast.articles)}
+                </RouteLink>
+                <p className="text-sm text-slate-400 mt-1">
+                  {formatDuration(podcast.durationSeconds)} · {formatDate(podcast.createdAt)}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <RouteLink
+                  to={{ name: 'episode', id: podcast.id }}
+                  className="text-sm text-podcast-400 hover:text-podcast-300"
+                >
+                  Play
+                </RouteLink>
+                <button
+                  onClick={() => handleDelete(podcast)}
+                  disabled={deletingId === podcast.id}
+                  className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
+                >
+                  {deletingId === podcast.id ? 'Deleting...' : 'Delete'}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Pagination */}
+      {data && data.totalPages > 1 && (
+        <div className="flex items-center justify-between mt-6 text-sm">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1 || loading}
+            className="text-slate-300 hover:text-white disabled:opacity-40"
+          >
+            ← Previous
+          </button>
+          <span className="text-slate-400">
+            Page {data.page} of {data.totalPages}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= data.totalPages || loading}
+            className="text-slate-300 hover:text-white disabled:opacity-40"
+          >
+            Next →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,8 @@
  * ProgressTracker Component
  * 
  * Displays real-time progress indicators during podcast generation.
- * Shows 4 stages: Fetching → Writing → Generating → Complete
+ * Shows the stages the run goes through: Fetching → Writing → Generating → Complete,
+ * or only some of them when a run stops after the script or voices a stored one.
  */
 
 export type ProgressStage = 'fetch' | 'generate_script' | 'synthesize_audio' | 'stitch_audio';
@@ -18,6 +19,8 @@ interface ProgressTrackerProps {
   currentStage: ProgressStage | null;
   currentStatus: ProgressStatus;
   error?: string | null;
+  /** Stages the run goes through (default: all four) */
+  stages?: ProgressStage[];
 }
 
 interface StageInfo {
@@ -33,10 +36,13 @@ const STAGES: StageInfo[] = [
   { id: 'stitch_audio', label: 'Finalizing', icon: '🎵' },
 ];
 
-export function ProgressTracker({ currentStage, currentStatus, error }: ProgressTrackerProps) {
+export function ProgressTracker({ currentStage, currentStatus, error, stages }: ProgressTrackerProps) {
+  const shownStages = stages ? STAGES.filter(s => stages.includes(s.id)) : STAGES;
+  const voices = shownStages.some(s => s.id === 'synthesize_audio');
+
   const getCurrentStageIndex = () => {
     if (!currentStage) return -1;
-    return STAGES.findIndex(s => s.id === currentStage);
+    return shownStages.findIndex(s => s.id === currentStage);
   };
 
   const getStageStatus = (stageIndex: number): ProgressStatus => {
@@ -56,7 +62,7 @@ export function ProgressTracker({ currentStage, currentStatus, error }: Progress
     <div className="bg-slate-800/50 rounded-2xl border border-slate-700/50 p-8 backdrop-blur-sm">
       <div className="text-center mb-8">
         <h3 className="text-xl font-semibold text-white mb-2">
-          Generating Your Podcast
+          {voices ? 'Generating Your Podcast' : 'Writing Your Script'}
         </h3>
         <p className="text-slate-400 text-sm">
           This may take 1-2 minutes
@@ -65,7 +71,7 @@ export function ProgressTracker({ currentStage, currentStatus, error }: Progress
 
       {/* Progress Stages */}
       <div className="space-y-4">
-        {STAGES.map((stage, index) => {
+        {shownStages.map((stage, index) => {
           const status = getStageStatus(index);
           const isActive = getCurrentStageIndex() === index;
           
@@ -0,0 +1,28 @@
+import { ReactNode, MouseEvent } from 'react';
+import { Route, routePath, navigate } from '../hooks/useRoute';
+
+interface RouteLinkProps {
+  to: Route;
+  className?: string;
+  children: ReactNode;
+}
+
+/**
+ * Anchor that navigates client-side but keeps a real href,
+ * so links can be copied, shared and opened in a new tab
+ */
+export function RouteLink({ to, className, children }: RouteLinkProps) {
+  const handleClick = (e: MouseEvent<HTMLAnchorElement>) => {
+    // Let the browser handle modified clicks (new tab, new window)
+    if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+
+    e.preventDefault();
+    navigate(to);
+  };
+
+  return (
+    <a href={routePath(to)} onClick={handleClick} className={className}>
+      {children}
+    </a>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState, useEffect } from 'react';
+import {
+  getScript,
+  updateScript,
+  ApiError,
+  Script,
+  ScriptLineEdit,
+  ScriptEditResponse,
+} from '../services/api';
+
+interface ScriptEditorProps {
+  podcastId: string;
+  /** Hosts who may speak a line */
+  speakers: string[];
+  /** Called once the edited script is saved and its audio rebuilt */
+  onSaved: (result: ScriptEditResponse) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Lists the reasons an edit was rejected, when the server gave them
+ */
+function describeError(err: unknown): string {
+  if (err instanceof ApiError && Array.isArray(err.details?.errors)) {
+    return `${err.message.split(':')[0]}: ${(err.details.errors as string[]).join('; ')}`;
+  }
+  return err instanceof Error ? err.message : 'Failed to save script';
+}
+
+/**
+ * ScriptEditor Component
+ *
+ * Edits the lines of a finished episode: change a line's speaker or text,
+ * add a line after another or remove one. On save the server checks the
+ * script against the format's rules and voices only the changed lines again.
+ */
+export function ScriptEditor({ podcastId, speakers, onSaved, onCancel }: ScriptEditorProps) {
+  const [script, setScript] = useState<Script | null>(null);
+  const [lines, setLines] = useState<ScriptLineEdit[]>([]);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setScript(null);
+    setError('');
+
+    getScript(podcastId)
+      .then((loaded) => {
+        if (cancelled) return;
+        setScript(loaded);
+        setLines(loaded.lines.map(({ index, speaker, text, section, sourceArticles }) => ({
+          index,
+          speaker,
+          text,
+          section,
+          ...(sourceArticles && { sourceArticles }),
+        })));
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load script');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [podcastId]);
+
+  const updateLine = (position: number, changes: Partial<ScriptLineEdit>) => {
+    setLines(lines.map((line, i) => (i === position ? { ...line, ...changes } : line)));
+  };
+
+  // A new line takes the section of the line it follows and the other host
+  const addLineAfter = (position: number) => {
+    const previous = lines[position];
+    const speaker = speakers.find(s => s !== previous.speaker) ?? previous.speaker;
+    setLines([
+      ...lines.slice(0, position + 1),
+      { speaker, text: '', section: previous.section },
+      ...lines.slice(position + 1),
+    ]);
+  };
+
+  const removeLine = (position: number) => {
+    setLines(lines.filter((_, i) => i !== position));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+
+    try {
+      onSaved(await updateScript(podcastId, lines));
+    } catch (err) {
+      setError(describeError(err));
+      setSaving(false);
+    }
+  };
+
+  if (!script) {
+    return error
+      ? <p className="text-sm text-red-400">{error}</p>
+      : <p className="text-sm text-slate-400">Loading script...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-slate-400">
+        Revision {script.revision ?? 1}. Only lines whose speaker or text you change are voiced again.
+      </p>
+
+      <ol className="space-y-3 max-h-[32rem] overflow-y-auto pr-2">
+        {lines.map((line, position) => (
+          <li key={line.index ?? `new-${position}`} className="flex gap-2 items-start">
+            <select
+              value={line.speaker}
+              onChange={(e) => updateLine(position, { speaker: e.target.value })}
+              disabled={saving}
+              aria-label={`Speaker of line ${position + 1}`}
+              className="bg-slate-900/60 border border-slate-600 rounded-lg px-2 py-1 text-sm text-podcast-400"
+            >
+              {(speakers.includes(line.speaker) ? speakers : [line.speaker, ...speakers]).map((speaker) => (
+                <option key={speaker} value={speaker}>{speaker}</option>
+              ))}
+            </select>
+            <textarea
+              value={line.text}
+              onChange={(e) => updateLine(position, { text: e.target.value })}
+              disabled={saving}
+              rows={2}
+              aria-label={`Text of line ${position + 1}`}
+              className="flex-1 bg-slate-900/60 border border-slate-600 rounded-lg px-2 py-1 text-sm text-slate-200"
+            />
+            <div className="flex flex-col gap-1 text-xs">
+              <button
+                type="button"
+                onClick={() => addLineAfter(position)}
+                disabled={saving}
+                className="text-slate-400 hover:text-white disabled:opacity-50"
+              >
+                + Add
+              </button>
+              <button
+                type="button"
+                onClick={() => removeLine(position)}
+                disabled={saving || lines.length === 1}
+                className="text-red-400 hover:text-red-300 disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="px-4 py-2 text-sm text-slate-300 hover:text-white disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 text-sm font-semibold rounded-xl bg-podcast-600 hover:bg-podcast-500 text-white disabled:opacity-50"
+        >
+          {saving ? 'Re-voicing changed lines...' : 'Save script'}
+        </button>
+      </div>
+    </div>
+  );
+}
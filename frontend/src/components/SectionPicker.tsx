@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { getArticleSections, ArticleSectionOutline, ArticleSectionsResponse } from '../services/api';
+
+interface SectionPickerProps {
+  /** Wikipedia URL whose sections are offered */
+  input: string;
+  /** Chosen section anchors (or the lead's title); empty means the whole article */
+  selected: string[];
+  onChange: (sections: string[]) => void;
+  disabled: boolean;
+}
+
+/**
+ * Section Picker Component
+ *
+ * Loads an article's table of contents on demand and lets the user tick
+ * the sections the podcast should cover. Choosing a section includes its
+ * subsections.
+ */
+export function SectionPicker({ input, selected, onChange, disabled }: SectionPickerProps) {
+  const [outline, setOutline] = useState<ArticleSectionsResponse | null>(null);
+  const [loadedInput, setLoadedInput] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // The outline belongs to the input it was loaded for
+  const current = outline && loadedInput === input ? outline : null;
+
+  const loadSections = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const result = await getArticleSections(input);
+      setOutline(result);
+      setLoadedInput(input);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sections');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Anchors are unique within a page; the lead has none and goes by its title
+  const sectionKey = (section: ArticleSectionOutline) => section.anchor || section.title;
+
+  const toggle = (key: string) => {
+    onChange(selected.includes(key)
+      ? selected.filter(s => s !== key)
+      : [...selected, key]);
+  };
+
+  const renderSections = (sections: ArticleSectionOutline[], nested = false) => (
+    <ul className={nested ? 'ml-5 mt-1 space-y-1' : 'space-y-1'}>
+      {sections.map((section) => (
+        <li key={sectionKey(section)}>
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selected.includes(sectionKey(section))}
+              onChange={() => toggle(sectionKey(section))}
+              disabled={disabled}
+              className="accent-podcast-500"
+            />
+            <span>{section.title}</span>
+            <span className="text-slate-500">({section.wordCount} words)</span>
+          </label>
+          {section.subsections.length > 0 && renderSections(section.subsections, true)}
+        </li>
+      ))}
+    </ul>
+  );
+
+  if (!current) {
+    return (
+      <div className="text-sm">
+        <button
+          type="button"
+          onClick={loadSections}
+          disabled={disabled || loading || !input}
+          className="text-podcast-400 hover:text-podcast-300 disabled:text-slate-500 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Loading sections...' : 'Choose sections (optional)'}
+        </button>
+        {error && <div className="text-red-400 mt-1">{error}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-lg p-4 max-h-72 overflow-y-auto">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-slate-200">
+          Sections of "{current.title}"
+        </p>
+        {selected.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            disabled={disabled}
+            className="text-xs text-slate-400 hover:text-slate-200"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-slate-500 mb-3">
+        {selected.length > 0
+          ? `${selected.length} selected`
+          : 'None selected: the whole article is used'}
+      </p>
+      {renderSections(current.sections)}
+    </div>
+  );
+}
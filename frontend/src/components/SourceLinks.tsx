@@ -0,0 +1,41 @@
+import type { ArticleLink } from '../services/api';
+
+interface SourceLinksProps {
+  articles: ArticleLink[];
+}
+
+/**
+ * Links to the Wikipedia articles an episode was made from
+ */
+export function SourceLinks({ articles }: SourceLinksProps) {
+  if (articles.length === 1) {
+    return (
+      <a
+        href={articles[0].url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-sm text-podcast-400 hover:text-podcast-300 underline"
+      >
+        View on Wikipedia →
+      </a>
+    );
+  }
+
+  return (
+    <ul className="text-sm space-y-1">
+      {articles.map((article, i) => (
+        <li key={article.url}>
+          <span className="text-slate-500 mr-2">[{i + 1}]</span>
+          <a
+            href={article.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-podcast-400 hover:text-podcast-300 underline"
+          >
+            {article.title} →
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
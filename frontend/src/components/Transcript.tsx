@@ -0,0 +1,134 @@
+import { useState, useEffect, useRef } from 'react';
+import { getScript, Script, LineSource, LineTiming } from '../services/api';
+
+interface TranscriptProps {
+  podcastId: string;
+  /** Where each line is heard in the audio; lines are only clickable with these */
+  lineTimings?: LineTiming[];
+  /** Playback position in seconds, used to highlight the line being heard */
+  currentTime?: number;
+  /** Called with a line's start, in seconds, when the line is clicked */
+  onSeek?: (seconds: number) => void;
+}
+
+/**
+ * Keeps the first source cited from each article section
+ */
+function uniqueSections(sources: LineSource[]): LineSource[] {
+  return sources.filter((source, i) => sources.findIndex((other) => other.url === source.url) === i);
+}
+
+/**
+ * Transcript Component
+ *
+ * Loads the episode script and shows it as a speaker-labelled transcript.
+ * Lines of multi-article episodes link to the articles they draw on. Lines
+ * with cited passages link to the article sections they come from, and lines
+ * the fact check could not match to the articles are marked unverified.
+ * Given line timings, it highlights the line being heard and seeks to a line
+ * when it is clicked.
+ */
+export function Transcript({ podcastId, lineTimings, currentTime, onSeek }: TranscriptProps) {
+  const [script, setScript] = useState<Script | null>(null);
+  const [error, setError] = useState<string>('');
+  const activeRef = useRef<HTMLLIElement>(null);
+
+  const timings = new Map((lineTimings ?? []).map((timing) => [timing.lineIndex, timing]));
+  const currentMs = currentTime !== undefined ? currentTime * 1000 : undefined;
+  const activeIndex = currentMs === undefined
+    ? undefined
+    : lineTimings?.find((timing) => timing.startMs <= currentMs && currentMs < timing.endMs)?.lineIndex;
+
+  useEffect(() => {
+    let cancelled = false;
+    setScript(null);
+    setError('');
+
+    getScript(podcastId)
+      .then((loaded) => {
+        if (!cancelled) setScript(loaded);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load transcript');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [podcastId]);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  if (error) {
+    return <p className="text-sm text-red-400">{error}</p>;
+  }
+
+  if (!script) {
+    return <p className="text-sm text-slate-400">Loading transcript...</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {script.lines.map((line) => {
+        const timing = timings.get(line.index);
+        const seek = timing && onSeek ? () => onSeek(timing.startMs / 1000) : undefined;
+        const active = line.index === activeIndex;
+        return (
+          <li
+            key={line.index}
+            ref={active ? activeRef : undefined}
+            onClick={seek}
+            aria-current={active ? 'true' : undefined}
+            className={`text-sm leading-relaxed rounded-lg px-2 py-1 -mx-2 transition-colors ${
+              active ? 'bg-podcast-500/20' : ''
+            } ${seek ? 'cursor-pointer hover:bg-slate-700/40' : ''}`}
+          >
+            <span className="font-semibold text-podcast-400">{line.speaker}:</span>{' '}
+            <span className="text-slate-300">{line.text}</span>
+            {line.sourceArticles?.map((source) => {
+              const article = script.articles?.[source - 1];
+              return article && (
+                <a
+                  key={source}
+                  href={article.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  onClick={(e) => e.stopPropagation()}
+                  title={article.title}
+                  className="ml-1 text-xs text-podcast-400 hover:text-podcast-300 align-super"
+                >
+                  [{source}]
+                </a>
+              );
+            })}
+            {line.sources && uniqueSections(line.sources).map((source) => (
+              <a
+                key={source.url}
+                href={source.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={(e) => e.stopPropagation()}
+                title={`${source.section}: "${source.snippet}"`}
+                className="ml-1 text-xs text-slate-400 underline decoration-dotted hover:text-podcast-300 align-super"
+              >
+                source
+              </a>
+            ))}
+            {line.grounding?.verdict === 'unsupported' && (
+              <span
+                title={line.grounding.reason ?? 'No supporting passage found in the article'}
+                className="ml-2 rounded border border-amber-500/40 px-1 text-xs text-amber-400 cursor-help"
+              >
+                unverified
+              </span>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -1,7 +1,17 @@
 import { useState, useRef } from 'react';
-import { streamPodcastGeneration, ProgressEvent } from '../services/api';
+import {
+  streamPodcastGeneration,
+  synthesizePodcast,
+  watchJob,
+  ProgressEvent,
+  PodcastRequest,
+  PodcastJob,
+  ArticleLink,
+  ScriptOnlyResponse,
+} from '../services/api';
 
-export type GenerationState = 'idle' | 'loading' | 'success' | 'error';
+/** 'review' holds a script written without audio, waiting to be voiced */
+export type GenerationState = 'idle' | 'loading' | 'review' | 'success' | 'error';
 export type ProgressStage = 'fetch' | 'generate_script' | 'synthesize_audio' | 'stitch_audio';
 export type ProgressStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
 
@@ -10,10 +20,8 @@ export interface PodcastResult {
   audioUrl: string;
   scriptUrl: string;
   durationSeconds: number;
-  article: {
-    title: string;
-    url: string;
-  };
+  article: ArticleLink;
+  articles: ArticleLink[];
   speakers: string[];
   createdAt: string;
 }
@@ -24,9 +32,26 @@ export interface ProgressState {
   message: string;
 }
 
+const ALL_STAGES: ProgressStage[] = ['fetch', 'generate_script', 'synthesize_audio', 'stitch_audio'];
+const SCRIPT_STAGES: ProgressStage[] = ['fetch', 'generate_script'];
+const VOICING_STAGES: ProgressStage[] = ['synthesize_audio', 'stitch_audio'];
+
+/**
+ * Reads a polled job's progress: the stage running or failed, else the last completed
+ */
+function getJobProgress(job: PodcastJob): ProgressState {
+  const current = job.stages.find(stage => stage.status === 'in_progress' || stage.status === 'failed')
+    ?? [...job.stages].reverse().find(stage => stage.status === 'completed');
+  return current
+    ? { stage: current.name, status: current.status, message: '' }
+    : { stage: null, status: 'pending', message: '' };
+}
+
 export function usePodcastGeneration() {
   const [state, setState] = useState<GenerationState>('idle');
   const [result, setResult] = useState<PodcastResult | null>(null);
+  const [scriptResult, setScriptResult] = useState<ScriptOnlyResponse | null>(null);
+  const [stages, setStages] = useState<ProgressStage[]>(ALL_STAGES);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState<ProgressState>({
     stage: null,
@@ -35,8 +60,10 @@ export function usePodcastGeneration() {
   });
   
   const cleanupRef = useRef<(() => void) | null>(null);
+  // Preset chosen with the script, used once the reviewed script is voiced
+  const audioPresetRef = useRef<string | undefined>(undefined);
 
-  const generate = async (input: string, type: 'url' | 'title') => {
+  const generate = async (request: PodcastRequest) => {
     // Clean up any existing connection
     if (cleanupRef.current) {
       cleanupRef.current();
@@ -46,6 +73,9 @@ export function usePodcastGeneration() {
     setState('loading');
     setError(null);
     setResult(null);
+    setScriptResult(null);
+    setStages(request.stopAfter ? SCRIPT_STAGES : ALL_STAGES);
+    audioPresetRef.current = request.audioPreset;
     setProgress({
       stage: null,
       status: 'pending',
@@ -54,7 +84,7 @@ export function usePodcastGeneration() {
 
     try {
       cleanupRef.current = streamPodcastGeneration(
-        { input, type },
+        request,
         // onProgress
         (event: ProgressEvent) => {
           setProgress({
@@ -65,17 +95,23 @@ export function usePodcastGeneration() {
         },
         // onComplete
         (response) => {
+          cleanupRef.current = null;
+          if ('synthesizeUrl' in response) {
+            setScriptResult(response);
+            setState('review');
+            return;
+          }
           setResult({
             id: response.id,
             audioUrl: response.audioUrl,
             scriptUrl: response.scriptUrl,
             durationSeconds: response.durationSeconds,
             article: response.article,
+            articles: response.articles,
             speakers: response.speakers,
             createdAt: response.createdAt,
           });
           setState('success');
-          cleanupRef.current = null;
         },
         // onError
         (err) => {
@@ -92,6 +128,49 @@ export function usePodcastGeneration() {
     }
   };
 
+  /**
+   * Voices the script under review and follows the job until the podcast is ready
+   */
+  const synthesize = async () => {
+    if (!scriptResult) return;
+
+    setState('loading');
+    setError(null);
+    setStages(VOICING_STAGES);
+    setProgress({
+      stage: null,
+      status: 'pending',
+      message: '',
+    });
+
+    const fail = (err: unknown) => {
+      setError(err instanceof Error ? err.message : 'Failed to voice the script');
+      setState('error');
+      cleanupRef.current = null;
+    };
+
+    try {
+      const { jobId } = await synthesizePodcast(scriptResult.id, audioPresetRef.current);
+      cleanupRef.current = watchJob(
+        jobId,
+        (job) => {
+          setProgress(getJobProgress(job));
+          if (job.status === 'failed') {
+            fail(new Error(job.error?.message ?? 'Failed to voice the script'));
+          } else if (job.status === 'completed' && job.result && 'audioUrl' in job.result) {
+            setResult(job.result);
+            setScriptResult(null);
+            setState('success');
+            cleanupRef.current = null;
+          }
+        },
+        fail
+      );
+    } catch (err) {
+      fail(err);
+    }
+  };
+
   const reset = () => {
     // Clean up any existing connection
     if (cleanupRef.current) {
@@ -101,6 +180,8 @@ export function usePodcastGeneration() {
 
     setState('idle');
     setResult(null);
+    setScriptResult(null);
+    setStages(ALL_STAGES);
     setError(null);
     setProgress({
       stage: null,
@@ -112,11 +193,15 @@ export function usePodcastGeneration() {
   return {
     state,
     result,
+    scriptResult,
     error,
     progress,
+    stages,
     generate,
+    synthesize,
     reset,
     isLoading: state === 'loading',
+    isReview: state === 'review',
     isSuccess: state === 'success',
     isError: state === 'error',
   };
@@ -0,0 +1,79 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Client-side routes
+ * - /               generate a new podcast
+ * - /library        list past episodes
+ * - /podcast/:id    a single episode (shareable)
+ */
+export type Route =
+  | { name: 'home' }
+  | { name: 'library' }
+  | { name: 'episode'; id: string };
+
+const NAVIGATE_EVENT = 'app:navigate';
+
+/**
+ * Parse a pathname into a route, falling back to home
+ */
+export function parseRoute(pathname: string): Route {
+  if (pathname === '/library' || pathname === '/library/') {
+    return { name: 'library' };
+  }
+
+  const episodeMatch = pathname.match(/^\/podcast\/([^/]+)\/?$/);
+  if (episodeMatch) {
+    return { name: 'episode', id: decodeURIComponent(episodeMatch[1]) };
+  }
+
+  return { name: 'home' };
+}
+
+/**
+ * Build the path for a route
+ */
+export function routePath(route: Route): string {
+  switch (route.name) {
+    case 'library':
+      return '/library';
+    case 'episode':
+      return `/podcast/${encodeURIComponent(route.id)}`;
+    default:
+      return '/';
+  }
+}
+
+/**
+ * Push a new route onto the browser history
+ */
+export function navigate(route: Route): void {
+  const path = routePath(route);
+  if (path !== window.location.pathname) {
+    window.history.pushState(null, '', path);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+  window.scrollTo(0, 0);
+}
+
+/**
+ * Current route, kept in sync with pushState navigation and back/forward
+ */
+export function useRoute() {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname));
+
+  useEffect(() => {
+    const handleChange = () => {
+      setRoute(parseRoute(window.location.pathname));
+    };
+
+    window.addEventListener('popstate', handleChange);
+    window.addEventListener(NAVIGATE_EVENT, handleChange);
+
+    return () => {
+      window.removeEventListener('popstate', handleChange);
+      window.removeEventListener(NAVIGATE_EVENT, handleChange);
+    };
+  }, []);
+
+  return { route, navigate };
+}
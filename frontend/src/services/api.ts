@@ -6,8 +6,92 @@
 
 // Types from backend (simplified for frontend)
 export interface PodcastRequest {
-  input: string;
+  /** One URL or title, or a list of 2-5 for an episode connecting several articles */
+  input: string | string[];
   type?: 'url' | 'title';
+  /** Wikipedia edition to read from (e.g. "de"); taken from the URL when omitted */
+  language?: string;
+  /** Language the script is written in (default "en") */
+  outputLanguage?: string;
+  /** Section headings to cover (default: the whole article); single input only */
+  sections?: string[];
+  /** Episode length in minutes, 2-30 (default: 2-3 minutes) */
+  targetMinutes?: number;
+  /** IDs of 1-4 hosts, in speaking order (default: Nishi and Shyam); one host narrates alone */
+  hosts?: string[];
+  /** ID of the show format to write the script in (default: "classic") */
+  format?: string;
+  /** ID of the audio preset to produce the episode with (default: "plain") */
+  audioPreset?: string;
+  /** Stop once the script is written, so it can be reviewed before it is voiced */
+  stopAfter?: 'generate_script';
+  /** Pronunciations for this episode, on top of the global lexicon */
+  lexicon?: PronunciationEntry[];
+}
+
+export type HostRole = 'interviewer' | 'expert' | 'skeptic';
+
+export interface HostProfile {
+  id: string;
+  name: string;
+  persona: string;
+  role: HostRole;
+  /** Voice per TTS provider; hosts without one get a default voice */
+  voices: Record<string, string>;
+}
+
+export interface FormatSection {
+  id: string;
+  description: string;
+  /** Lines the section has in a 2-3 minute episode */
+  lines: { min: number; max: number };
+  optional?: boolean;
+  /** Adjacent repeatable sections may take turns */
+  repeatable?: boolean;
+}
+
+/** A named, versioned template for the sections of an episode */
+export interface ShowFormat {
+  id: string;
+  version: string;
+  name: string;
+  description: string;
+  sections: FormatSection[];
+}
+
+/** How the voiced lines are produced into the episode audio */
+export interface AudioPreset {
+  id: string;
+  name: string;
+  description: string;
+  /** Names of the sounds played before and after the episode */
+  intro?: string;
+  outro?: string;
+  /** Music under the voices, ducked while they speak */
+  bed?: { sound: string; volumeDb: number };
+  turnTransition?: { type: 'gap' | 'crossfade'; ms: number };
+  /** Sound played between script sections */
+  sectionStinger?: string;
+}
+
+export interface ArticleSectionOutline {
+  title: string;
+  level: number;
+  anchor: string;
+  wordCount: number;
+  subsections: ArticleSectionOutline[];
+}
+
+export interface ArticleSectionsResponse {
+  title: string;
+  url: string;
+  language: string;
+  sections: ArticleSectionOutline[];
+}
+
+export interface ArticleLink {
+  title: string;
+  url: string;
 }
 
 export interface PodcastResponse {
@@ -15,14 +99,199 @@ export interface PodcastResponse {
   audioUrl: string;
   scriptUrl: string;
   durationSeconds: number;
-  article: {
-    title: string;
-    url: string;
-  };
+  /** First source article */
+  article: ArticleLink;
+  /** Every source article, in the order given */
+  articles: ArticleLink[];
   speakers: string[];
   createdAt: string;
 }
 
+/** Result of a generation that stopped after the script */
+export interface ScriptOnlyResponse {
+  id: string;
+  scriptUrl: string;
+  /** POST here to voice the script */
+  synthesizeUrl: string;
+  articles: ArticleLink[];
+  lineCount: number;
+  /** Estimated duration in seconds once voiced */
+  estimatedDuration: number;
+  createdAt: string;
+}
+
+export type GenerationStageName = 'fetch' | 'generate_script' | 'synthesize_audio' | 'stitch_audio';
+export type GenerationStageStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
+
+export interface JobSubmissionResponse {
+  jobId: string;
+  status: PodcastJob['status'];
+  statusUrl: string;
+}
+
+/** A background generation job, as polled from GET /api/jobs/:id */
+export interface PodcastJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  /** The stages this job runs, in order */
+  stages: Array<{ name: GenerationStageName; status: GenerationStageStatus }>;
+  result?: PodcastResponse | ScriptOnlyResponse;
+  error?: ErrorResponse;
+}
+
+/** Where a script line is heard in the episode audio */
+export interface LineTiming {
+  lineIndex: number;
+  startMs: number;
+  endMs: number;
+}
+
+export interface PodcastDetails {
+  id: string;
+  article: ArticleLink;
+  articles: ArticleLink[];
+  audio: {
+    durationSeconds: number;
+    fileSizeBytes: number;
+    format: 'mp3';
+    /** Audio preset the episode was produced with */
+    preset: string;
+    /** Missing for episodes made before line timings were recorded */
+    lineTimings?: LineTiming[];
+  };
+  voiceMapping: Record<string, string>;
+  createdAt: string;
+}
+
+export type PodcastSortField = 'createdAt' | 'duration';
+export type SortOrder = 'asc' | 'desc';
+
+export interface PodcastListQuery {
+  page?: number;
+  pageSize?: number;
+  sort?: PodcastSortField;
+  order?: SortOrder;
+  title?: string;
+}
+
+export interface PodcastListResponse {
+  podcasts: PodcastResponse[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+/** Whether the articles back a line's facts; greetings and banter make no claims */
+export type GroundingVerdict = 'supported' | 'unsupported' | 'no_claims';
+
+export interface GroundingPassage {
+  /** Source article (1-based) */
+  article: number;
+  /** Character offsets in the article's cleaned text */
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface LineGrounding {
+  verdict: GroundingVerdict;
+  /** Share of the line's content words found in its passages, 0-1 */
+  overlap: number;
+  passages: GroundingPassage[];
+  /** The fact checker's explanation */
+  reason?: string;
+  /** The line replaces an unsupported one */
+  rewritten?: boolean;
+}
+
+export interface ScriptGrounding {
+  mode: 'lexical' | 'judge';
+  policy: 'flag' | 'drop' | 'regenerate';
+  supportedLines: number;
+  unsupportedLines: number;
+  noClaimLines: number;
+  rewrittenLines: number;
+  droppedLines: Array<{ speaker: string; section: string; text: string; reason?: string }>;
+}
+
+export interface ScriptLine {
+  index: number;
+  speaker: string;
+  text: string;
+  section: string;
+  /** Articles the line draws on (1-based), in multi-article episodes */
+  sourceArticles?: number[];
+  /** Fact-check result; missing when the check was off */
+  grounding?: LineGrounding;
+  /** Article passages the line draws on; only supported lines have them */
+  sources?: LineSource[];
+}
+
+export interface LineSource {
+  /** Source article (1-based) */
+  article: number;
+  /** Heading of the article section the passage is in */
+  section: string;
+  /** Link to that section on Wikipedia */
+  url: string;
+  start: number;
+  end: number;
+  snippet: string;
+}
+
+export interface Script {
+  id: string;
+  articleTitle: string;
+  /** Source articles; missing in scripts made before multi-article episodes */
+  articles?: Array<ArticleLink & { language: string }>;
+  lines: ScriptLine[];
+  /** Fact-check summary; missing when the check was off */
+  grounding?: ScriptGrounding;
+  /** Revision number; missing until the script is first edited */
+  revision?: number;
+  editedAt?: string;
+}
+
+/** A script line as sent when editing; lines without an index are new */
+export interface ScriptLineEdit {
+  index?: number;
+  speaker: string;
+  text: string;
+  section: string;
+  sourceArticles?: number[];
+}
+
+export interface ScriptEditResponse {
+  script: Script;
+  revision: number;
+  /** Lines voiced again for the edit */
+  resynthesizedLines: number[];
+  audio: {
+    durationSeconds: number;
+    lineTimings?: LineTiming[];
+  };
+}
+
+export interface ScriptRevision {
+  revision: number;
+  createdAt: string;
+  lineCount: number;
+  changedLines: number[];
+}
+
+export interface PronunciationEntry {
+  /** Word or name as written in scripts; matched as a whole word ignoring case */
+  term: string;
+  /** How to spell it so the voice says it right (e.g. "uh-chaa") */
+  respelling?: string;
+  /** Exact pronunciation, for voices that read SSML phoneme tags */
+  phoneme?: {
+    alphabet: 'ipa' | 'cmu-arpabet';
+    ph: string;
+  };
+}
+
 export interface ErrorResponse {
   error: string;
   message: string;
@@ -40,8 +309,8 @@ export interface HealthResponse {
 }
 
 export interface ProgressEvent {
-  stage: 'fetch' | 'generate_script' | 'synthesize_audio' | 'stitch_audio';
-  status: 'pending' | 'in_progress' | 'completed' | 'failed';
+  stage: GenerationStageName;
+  status: GenerationStageStatus;
   message: string;
   progress?: number;
 }
@@ -130,11 +399,12 @@ export async function generatePodcast(
 /**
  * Generate podcast with SSE progress - POST /api/podcast/stream
  * Returns an EventSource for real-time progress updates
+ * Requests with `stopAfter` complete with the script instead of a podcast
  */
 export function streamPodcastGeneration(
   request: PodcastRequest,
   onProgress: (event: ProgressEvent) => void,
-  onComplete: (response: PodcastResponse) => void,
+  onComplete: (response: PodcastResponse | ScriptOnlyResponse) => void,
   onError: (error: Error) => void
 ): () => void {
   // Create AbortController for cleanup
@@ -185,7 +455,7 @@ export function streamPodcastGeneration(
           if (eventType === 'progress') {
             onProgress(data as ProgressEvent);
           } else if (eventType === 'complete') {
-            onComplete(data as PodcastResponse);
+            onComplete(data as PodcastResponse | ScriptOnlyResponse);
           } else if (eventType === 'error') {
             onError(new ApiError(data, 500));
           }
@@ -204,18 +474,234 @@ export function streamPodcastGeneration(
   };
 }
 
+/**
+ * Voice a stored script - POST /api/podcast/:id/synthesize
+ */
+export async function synthesizePodcast(id: string, audioPreset?: string): Promise<JobSubmissionResponse> {
+  return fetchApi<JobSubmissionResponse>(`/podcast/${encodeURIComponent(id)}/synthesize`, {
+    method: 'POST',
+    body: JSON.stringify(audioPreset ? { audioPreset } : {}),
+  });
+}
+
+/**
+ * Get a generation job - GET /api/jobs/:id
+ */
+export async function getJob(jobId: string): Promise<PodcastJob> {
+  return fetchApi<PodcastJob>(`/jobs/${encodeURIComponent(jobId)}`);
+}
+
+/**
+ * Poll a job until it finishes, reporting each update
+ * Returns a cleanup function that stops polling
+ */
+export function watchJob(
+  jobId: string,
+  onUpdate: (job: PodcastJob) => void,
+  onError: (error: Error) => void,
+  intervalMs = 1500
+): () => void {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const poll = async () => {
+    try {
+      const job = await getJob(jobId);
+      if (stopped) return;
+
+      onUpdate(job);
+      if (job.status !== 'completed' && job.status !== 'failed') {
+        timer = setTimeout(poll, intervalMs);
+      }
+    } catch (error) {
+      if (!stopped) onError(error instanceof Error ? error : new Error('Failed to check job'));
+    }
+  };
+  void poll();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
+
+/**
+ * Preview an article's sections - GET /api/article/sections
+ */
+export async function getArticleSections(input: string): Promise<ArticleSectionsResponse> {
+  const params = new URLSearchParams({ input });
+  return fetchApi<ArticleSectionsResponse>(`/article/sections?${params.toString()}`);
+}
+
+/**
+ * List the hosts that can be chosen - GET /api/hosts
+ */
+export async function getHosts(): Promise<HostProfile[]> {
+  const { hosts } = await fetchApi<{ hosts: HostProfile[] }>('/hosts');
+  return hosts;
+}
+
+/**
+ * List the show formats an episode can be written in - GET /api/formats
+ */
+export async function getFormats(): Promise<ShowFormat[]> {
+  const { formats } = await fetchApi<{ formats: ShowFormat[] }>('/formats');
+  return formats;
+}
+
+/**
+ * List the ways an episode's audio can be produced - GET /api/audio-presets
+ */
+export async function getAudioPresets(): Promise<AudioPreset[]> {
+  const { presets } = await fetchApi<{ presets: AudioPreset[] }>('/audio-presets');
+  return presets;
+}
+
 /**
  * Get podcast metadata - GET /api/podcast/:id
  */
-export async function getPodcast(id: string): Promise<PodcastResponse> {
-  return fetchApi<PodcastResponse>(`/podcast/${encodeURIComponent(id)}`);
+export async function getPodcast(id: string): Promise<PodcastDetails> {
+  return fetchApi<PodcastDetails>(`/podcast/${encodeURIComponent(id)}`);
+}
+
+/**
+ * List generated podcasts - GET /api/podcasts
+ */
+export async function listPodcasts(query: PodcastListQuery = {}): Promise<PodcastListResponse> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+  
+  const search = params.toString();
+  return fetchApi<PodcastListResponse>(`/podcasts${search ? `?${search}` : ''}`);
+}
+
+/**
+ * Delete a podcast - DELETE /api/podcast/:id
+ */
+export async function deletePodcast(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/podcast/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+  
+  // Success has no body (204)
+  if (!response.ok) {
+    const error = await response.json();
+    throw new ApiError(error, response.status);
+  }
+}
+
+/**
+ * Get podcast script - GET /api/podcast/:id/script
+ */
+export async function getScript(id: string): Promise<Script> {
+  return fetchApi<Script>(`/podcast/${encodeURIComponent(id)}/script`);
+}
+
+/**
+ * Edit a podcast's script - PUT /api/podcast/:id/script
+ * Only changed lines are voiced again
+ */
+export async function updateScript(id: string, lines: ScriptLineEdit[]): Promise<ScriptEditResponse> {
+  return fetchApi<ScriptEditResponse>(`/podcast/${encodeURIComponent(id)}/script`, {
+    method: 'PUT',
+    body: JSON.stringify({ lines }),
+  });
+}
+
+/**
+ * List the revisions of a podcast's script - GET /api/podcast/:id/script/revisions
+ */
+export async function listScriptRevisions(
+  id: string
+): Promise<{ current: number; revisions: ScriptRevision[] }> {
+  return fetchApi<{ current: number; revisions: ScriptRevision[] }>(
+    `/podcast/${encodeURIComponent(id)}/script/revisions`
+  );
+}
+
+/**
+ * Path of a lexicon: an episode's, or the global one
+ */
+function lexiconPath(podcastId?: string): string {
+  return podcastId ? `/podcast/${encodeURIComponent(podcastId)}/lexicon` : '/lexicon';
+}
+
+/**
+ * List the pronunciations of a lexicon - GET /api/lexicon or /api/podcast/:id/lexicon
+ */
+export async function getLexicon(podcastId?: string): Promise<PronunciationEntry[]> {
+  const { entries } = await fetchApi<{ entries: PronunciationEntry[] }>(lexiconPath(podcastId));
+  return entries;
+}
+
+/**
+ * Add or replace a pronunciation - PUT /api/lexicon/:term
+ */
+export async function savePronunciation(
+  { term, ...pronunciation }: PronunciationEntry,
+  podcastId?: string
+): Promise<PronunciationEntry> {
+  return fetchApi<PronunciationEntry>(`${lexiconPath(podcastId)}/${encodeURIComponent(term)}`, {
+    method: 'PUT',
+    body: JSON.stringify(pronunciation),
+  });
+}
+
+/**
+ * Remove a pronunciation - DELETE /api/lexicon/:term
+ */
+export async function deletePronunciation(term: string, podcastId?: string): Promise<void> {
+  const response = await fetch(`${API_BASE}${lexiconPath(podcastId)}/${encodeURIComponent(term)}`, {
+    method: 'DELETE',
+  });
+  
+  // Success has no body (204)
+  if (!response.ok) {
+    const error = await response.json();
+    throw new ApiError(error, response.status);
+  }
+}
+
+/**
+ * Hear how a word is said - POST /api/lexicon/preview
+ * Without a respelling or phoneme to try, the lexicon's own is used
+ */
+export async function previewPronunciation(
+  preview: { text: string; host?: string; respelling?: string; phoneme?: PronunciationEntry['phoneme'] },
+  podcastId?: string
+): Promise<Blob> {
+  const response = await fetch(`${API_BASE}${lexiconPath(podcastId)}/preview`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(preview),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new ApiError(error, response.status);
+  }
+  
+  return response.blob();
 }
 
 /**
  * Get audio URL for a podcast
+ * Pass the script revision so browsers fetch the audio again after an edit
+ */
+export function getAudioUrl(id: string, revision?: number): string {
+  const url = `${API_BASE}/podcast/${encodeURIComponent(id)}/audio`;
+  return revision !== undefined ? `${url}?v=${revision}` : url;
+}
+
+/**
+ * Get the captions URL for a podcast, as WebVTT or SRT
  */
-export function getAudioUrl(id: string): string {
-  return `${API_BASE}/podcast/${encodeURIComponent(id)}/audio`;
+export function getCaptionsUrl(id: string, format: 'vtt' | 'srt'): string {
+  return `${API_BASE}/podcast/${encodeURIComponent(id)}/captions.${format}`;
 }
 
 /**
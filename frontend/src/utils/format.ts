@@ -0,0 +1,40 @@
+/**
+ * Display formatting helpers
+ */
+
+/**
+ * Format seconds as m:ss
+ */
+export function formatDuration(totalSeconds: number): string {
+  if (!isFinite(totalSeconds)) return '0:00';
+  const seconds = Math.round(totalSeconds);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Join names into a list, e.g. "A, B & C"
+ */
+export function formatNames(names: string[]): string {
+  return names.length > 1
+    ? `${names.slice(0, -1).join(', ')} & ${names[names.length - 1]}`
+    : names[0] ?? '';
+}
+
+/**
+ * Join article titles into an episode title, e.g. "A, B & C"
+ */
+export function formatArticleTitles(articles: { title: string }[]): string {
+  return formatNames(articles.map(article => article.title));
+}
+
+/**
+ * Format an ISO timestamp as a short local date and time
+ */
+export function formatDate(isoTimestamp: string): string {
+  const date = new Date(isoTimestamp);
+  if (isNaN(date.getTime())) return isoTimestamp;
+  return date.toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}